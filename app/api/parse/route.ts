@@ -1,11 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { parserRegistry } from '@/lib/parsers/parser-registry';
-import { db, getOrCreateStrategy } from '@/lib/database';
+import { parserRegistry, ParserCandidate } from '@/lib/parsers/parser-registry';
+import { ParsedRunData, validateParsedRunData } from '@/lib/parsers/base-parser';
+import { loadParserDefinitions } from '@/lib/parsers/parser-definitions';
+import { ingestRun } from '@/lib/run-ingestion';
+import { db } from '@/lib/database';
+import { DUPLICATE_ACTIONS, contentHash, fingerprintParsedRun, findDuplicateRuns } from '@/lib/duplicate-detection';
 import '@/lib/init-db';
 
+function summarize(parsedData: ParsedRunData) {
+  return {
+    totalTrades: parsedData.totalTrades || 0,
+    netPnl: parsedData.netPnl || 0,
+    winRate: parsedData.winRate || 0,
+    profitFactor: parsedData.profitFactor || 0,
+    maxDrawdown: parsedData.maxDrawdown || 0,
+    days: parsedData.dailyPnl?.length || 0
+  };
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { rawData, runDescription } = await request.json();
+    const {
+      rawData,
+      runDescription,
+      runTag,
+      parserName,
+      preview,
+      onDuplicate = 'ask',
+      parsedData: previewedData
+    } = await request.json();
 
     if (!rawData || typeof rawData !== 'string') {
       return NextResponse.json(
@@ -14,150 +37,126 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Parse the raw data
-    const parsedData = parserRegistry.parseRawData(rawData);
-
-    if (!parsedData) {
+    if (!DUPLICATE_ACTIONS.includes(onDuplicate)) {
       return NextResponse.json(
-        { error: 'Unable to parse the provided data. No suitable parser found.' },
+        { error: `onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}` },
         { status: 400 }
       );
     }
 
-    // Add the description if provided
-    if (runDescription) {
-      parsedData.runDescription = runDescription;
+    let parsedData: ParsedRunData | null;
+    let parserRanking: ParserCandidate[] = [];
+
+    if (previewedData) {
+      // Saving a previewed run: store exactly what the user reviewed rather than parsing again
+      const errors = validateParsedRunData(previewedData);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid parsed data', details: errors },
+          { status: 400 }
+        );
+      }
+      parsedData = previewedData;
+    } else {
+      // Rank the built-in parsers plus any saved parser definitions against the data
+      await loadParserDefinitions();
+      parserRanking = parserRegistry.rankParsers(rawData);
+
+      if (parserName && !parserRegistry.getParserForStrategy(parserName)) {
+        return NextResponse.json(
+          { error: `Unknown parser: ${parserName}` },
+          { status: 400 }
+        );
+      }
+
+      // Let the user pick when two parsers are about equally likely, rather than silently using one
+      if (!parserName && parserRegistry.isAmbiguous(parserRanking)) {
+        return NextResponse.json(
+          {
+            error: 'ambiguous',
+            message: 'More than one parser matches this data. Please choose which parser to use.',
+            parserRanking
+          },
+          { status: 409 }
+        );
+      }
+
+      parsedData = parserRegistry.parseRawData(rawData, parserName);
     }
 
-    // Get or create strategy
-    const strategyId = await getOrCreateStrategy(parsedData.strategyName);
-
-
-    // Insert the run data
-    const runResult = await db.execute({
-      sql: `
-        INSERT INTO strategy_runs 
-        (strategy_id, run_name, run_description, net_pnl, total_trades, win_rate, profit_factor, max_drawdown, sharpe_ratio, raw_data)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `,
-      args: [
-        strategyId,
-        parsedData.runName || null,
-        parsedData.runDescription || null,
-        parsedData.netPnl,
-        parsedData.totalTrades || null,
-        parsedData.winRate || null,
-        parsedData.profitFactor || null,
-        parsedData.maxDrawdown || null,
-        parsedData.sharpeRatio || null,
-        rawData
-      ]
-    });
+    if (!parsedData) {
+      return NextResponse.json(
+        { error: 'Unable to parse the provided data. No suitable parser found.', parserRanking },
+        { status: 400 }
+      );
+    }
 
-    const runId = Number(runResult.lastInsertRowid);
+    const duplicates = await findDuplicateRuns(db, {
+      contentHash: contentHash(rawData),
+      fingerprint: fingerprintParsedRun(parsedData)
+    });
 
-    // Insert daily PNL data
-    for (const daily of parsedData.dailyPnl) {
-      await db.execute({
-        sql: `
-          INSERT INTO daily_pnl (run_id, date, pnl, trades, highest_intraday_pnl, lowest_intraday_pnl)
-          VALUES (?, ?, ?, ?, ?, ?)
-        `,
-        args: [runId, daily.date, daily.pnl, daily.trades || 0, daily.highestIntradayPnl || null, daily.lowestIntradayPnl || null]
+    // Preview returns everything that would be imported, nothing is written
+    if (preview) {
+      return NextResponse.json({
+        success: true,
+        preview: true,
+        strategyName: parsedData.strategyName,
+        parserName: parserName || parserRanking[0]?.strategyName,
+        parserRanking,
+        parsedData,
+        duplicates,
+        summary: summarize(parsedData)
       });
     }
 
-    // Insert parameters
-    for (const param of parsedData.parameters) {
-      await db.execute({
-        sql: `
-          INSERT INTO strategy_parameters (run_id, parameter_name, parameter_value, parameter_type)
-          VALUES (?, ?, ?, ?)
-        `,
-        args: [runId, param.name, param.value, param.type]
-      });
+    const [duplicate] = duplicates;
+    if (duplicate && onDuplicate === 'ask') {
+      return NextResponse.json(
+        {
+          error: 'duplicate',
+          message: duplicate.kind === 'exact'
+            ? `This data was already imported as run #${duplicate.runId}`
+            : `Run #${duplicate.runId} has the same parameters, date range and trade count`,
+          duplicates
+        },
+        { status: 409 }
+      );
     }
 
-    // Insert custom metrics
-    for (const metric of parsedData.customMetrics) {
-      await db.execute({
-        sql: `
-          INSERT INTO strategy_metrics (run_id, metric_name, metric_value, metric_description)
-          VALUES (?, ?, ?, ?)
-        `,
-        args: [runId, metric.name, metric.value, metric.description || null]
+    if (duplicate && onDuplicate === 'skip') {
+      return NextResponse.json({
+        success: true,
+        skipped: true,
+        runId: duplicate.runId,
+        strategyName: parsedData.strategyName,
+        message: `Skipped, already imported as run #${duplicate.runId}`,
+        duplicates
       });
     }
 
-    // Insert detailed events
-    if (parsedData.detailedEvents) {
-      // Insert TP near misses
-      for (const event of parsedData.detailedEvents.tpNearMisses) {
-        await db.execute({
-          sql: `
-            INSERT INTO strategy_events (run_id, event_type, date, time, trade_id, direction, target, closest_distance, reason)
-            VALUES (?, 'tp_near_miss', ?, ?, ?, ?, ?, ?, ?)
-          `,
-          args: [runId, event.date, event.time, event.tradeId, event.direction, event.target, event.closestDistance, event.reason]
-        });
-      }
-
-      // Insert fill near misses
-      for (const event of parsedData.detailedEvents.fillNearMisses) {
-        await db.execute({
-          sql: `
-            INSERT INTO strategy_events (run_id, event_type, date, time, direction, closest_distance)
-            VALUES (?, 'fill_near_miss', ?, ?, ?, ?)
-          `,
-          args: [runId, event.date, event.time, event.direction, event.closestDistance]
-        });
-      }
-
-      // Insert SL adjustments
-      for (const event of parsedData.detailedEvents.slAdjustments) {
-        await db.execute({
-          sql: `
-            INSERT INTO strategy_events (run_id, event_type, date, time, trade_id, direction, trigger, adjustment)
-            VALUES (?, 'sl_adjustment', ?, ?, ?, ?, ?, ?)
-          `,
-          args: [runId, event.date, event.time, event.tradeId, event.direction, event.trigger, event.adjustment]
-        });
-      }
+    // Add the description if provided
+    if (runDescription) {
+      parsedData.runDescription = runDescription;
     }
 
-    // Insert detailed trade summaries
-    if (parsedData.detailedTrades) {
-      for (const trade of parsedData.detailedTrades) {
-        await db.execute({
-          sql: `
-            INSERT INTO strategy_trade_summaries (
-              run_id, trade_id, date, time, direction, line, entry_price, high_price, low_price,
-              max_profit, max_loss, actual_pnl, bars, max_profit_vs_target, max_loss_vs_stop, profit_efficiency
-            )
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-          `,
-          args: [
-            runId, trade.tradeId, trade.date, trade.time, trade.direction, trade.line,
-            trade.entry, trade.high, trade.low, trade.maxProfit, trade.maxLoss, trade.actualPnl,
-            trade.bars, trade.maxProfitVsTarget, trade.maxLossVsStop, trade.profitEfficiency
-          ]
-        });
-      }
-    }
+    // Write the run and all of its rows atomically
+    const replaceRunId = duplicate && onDuplicate === 'replace' ? duplicate.runId : undefined;
+    const { runId, timings, totalMs } = await ingestRun(parsedData, { rawData, runTag, replaceRunId });
 
     return NextResponse.json({
       success: true,
       runId: Number(runId),
       strategyName: parsedData.strategyName,
-      message: 'Data parsed and saved successfully',
-      summary: {
-        totalTrades: parsedData.totalTrades || 0,
-        netPnl: parsedData.netPnl || 0,
-        winRate: parsedData.winRate || 0,
-        profitFactor: parsedData.profitFactor || 0,
-        maxDrawdown: parsedData.maxDrawdown || 0,
-        days: parsedData.dailyPnl?.length || 0
-      }
+      message: replaceRunId
+        ? `Data parsed and saved, replacing run #${replaceRunId}`
+        : 'Data parsed and saved successfully',
+      replacedRunId: replaceRunId ?? null,
+      parserName: parserName || parserRanking[0]?.strategyName,
+      parserRanking,
+      diagnostics: parsedData.diagnostics || null,
+      summary: summarize(parsedData),
+      ingestion: { timings, totalMs }
     });
 
   } catch (error) {
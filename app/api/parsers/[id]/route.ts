@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parserRegistry } from '@/lib/parsers/parser-registry';
+import { deleteParserDefinition, getParserDefinitions, saveParserDefinition } from '@/lib/parsers/parser-definitions';
+import { validateParserSpec } from '@/lib/parsers/parser-spec';
+import '@/lib/init-db';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const definitionId = parseInt(id);
+    const { spec, description } = await request.json();
+
+    if (isNaN(definitionId)) {
+      return NextResponse.json(
+        { error: 'Invalid parser definition ID' },
+        { status: 400 }
+      );
+    }
+
+    const errors = validateParserSpec(spec);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid parser spec', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const definitions = await getParserDefinitions();
+    if (!definitions.some(definition => definition.id === definitionId)) {
+      return NextResponse.json(
+        { error: 'Parser definition not found' },
+        { status: 404 }
+      );
+    }
+
+    const nameTaken = parserRegistry.isBuiltInStrategy(spec.strategyName) ||
+      definitions.some(definition => definition.id !== definitionId && definition.name === spec.strategyName);
+    if (nameTaken) {
+      return NextResponse.json(
+        { error: `A parser named "${spec.strategyName}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    await saveParserDefinition(spec, description, definitionId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Parser definition updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Error updating parser definition:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const definitionId = parseInt(id);
+
+    if (isNaN(definitionId)) {
+      return NextResponse.json(
+        { error: 'Invalid parser definition ID' },
+        { status: 400 }
+      );
+    }
+
+    await deleteParserDefinition(definitionId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Parser definition deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting parser definition:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parserRegistry } from '@/lib/parsers/parser-registry';
+import { getParserDefinitions, loadParserDefinitions, saveParserDefinition } from '@/lib/parsers/parser-definitions';
+import { validateParserSpec } from '@/lib/parsers/parser-spec';
+import '@/lib/init-db';
+
+export async function GET() {
+  try {
+    await loadParserDefinitions();
+    const definitions = await getParserDefinitions();
+    const customNames = new Set(definitions.map(definition => definition.name));
+
+    return NextResponse.json({
+      success: true,
+      builtInParsers: parserRegistry.getAvailableStrategies().filter(name => !customNames.has(name)),
+      definitions
+    });
+
+  } catch (error) {
+    console.error('Error fetching parser definitions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { spec, description } = await request.json();
+
+    const errors = validateParserSpec(spec);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid parser spec', details: errors },
+        { status: 400 }
+      );
+    }
+
+    await loadParserDefinitions();
+    if (parserRegistry.getParserForStrategy(spec.strategyName)) {
+      return NextResponse.json(
+        { error: `A parser named "${spec.strategyName}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const id = await saveParserDefinition(spec, description);
+
+    return NextResponse.json({
+      success: true,
+      id,
+      message: 'Parser definition created successfully'
+    });
+
+  } catch (error) {
+    console.error('Error creating parser definition:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
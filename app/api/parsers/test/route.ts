@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DeclarativeStrategyParser } from '@/lib/parsers/declarative-parser';
+import { validateParserSpec } from '@/lib/parsers/parser-spec';
+
+// Dry-run a parser spec against sample data without saving either
+export async function POST(request: NextRequest) {
+  try {
+    const { spec, rawData } = await request.json();
+
+    const errors = validateParserSpec(spec);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid parser spec', details: errors },
+        { status: 400 }
+      );
+    }
+
+    if (!rawData || typeof rawData !== 'string') {
+      return NextResponse.json(
+        { error: 'Raw data is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const parser = new DeclarativeStrategyParser(spec);
+    const canParse = parser.canParse(rawData);
+    const parsedData = canParse ? parser.parse(rawData) : null;
+
+    return NextResponse.json({
+      success: true,
+      canParse,
+      summary: parsedData && {
+        totalTrades: parsedData.totalTrades || 0,
+        netPnl: parsedData.netPnl,
+        winRate: parsedData.winRate || 0,
+        profitFactor: parsedData.profitFactor || 0,
+        maxDrawdown: parsedData.maxDrawdown || 0,
+        days: parsedData.dailyPnl.length
+      },
+      parameters: parsedData?.parameters || [],
+      customMetrics: parsedData?.customMetrics || [],
+      events: parser.eventTypes.map(definition => ({
+        type: definition.type,
+        label: definition.label,
+        fields: definition.fields.map(field => field.name),
+        count: (parsedData?.events || []).filter(event => event.type === definition.type).length
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error testing parser spec:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
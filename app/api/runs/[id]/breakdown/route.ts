@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import {
+  breakdown,
+  minutesOfDay,
+  pivot,
+  BreakdownDimension,
+  BreakdownTrade,
+  SessionWindow,
+  BREAKDOWN_DIMENSIONS
+} from '@/lib/breakdown';
+import '@/lib/init-db';
+
+// Trade PNL by day of week, month, hour, direction, line and session half, plus an optional pivot of two of them
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const runId = parseInt(id);
+
+    if (isNaN(runId)) {
+      return NextResponse.json(
+        { error: 'Invalid run ID' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const rows = searchParams.get('rows') as BreakdownDimension | null;
+    const columns = searchParams.get('columns') as BreakdownDimension | null;
+    if ((rows || columns) && (!rows || !columns || !Object.hasOwn(BREAKDOWN_DIMENSIONS, rows) || !Object.hasOwn(BREAKDOWN_DIMENSIONS, columns) || rows === columns)) {
+      return NextResponse.json(
+        { error: `rows and columns must be two different dimensions of ${Object.keys(BREAKDOWN_DIMENSIONS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const run = await db.execute({ sql: 'SELECT id FROM strategy_runs WHERE id = ?', args: [runId] });
+    if (run.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    // Trades with their full lifecycle when the parser provides them, otherwise the trade summaries
+    let source: 'trades' | 'trade-summaries' = 'trades';
+    let result = await db.execute({
+      sql: 'SELECT date, entry_time as time, direction, line, realized_pnl as pnl FROM trades WHERE run_id = ?',
+      args: [runId]
+    });
+    if (result.rows.length === 0) {
+      source = 'trade-summaries';
+      result = await db.execute({
+        sql: 'SELECT date, time, direction, line, actual_pnl as pnl FROM strategy_trade_summaries WHERE run_id = ?',
+        args: [runId]
+      });
+    }
+
+    const trades: BreakdownTrade[] = result.rows.map((row: any) => ({
+      date: row.date as string,
+      time: row.time as string,
+      direction: row.direction as string,
+      line: row.line as string | null,
+      pnl: Number(row.pnl)
+    }));
+
+    const settings = await db.execute({
+      sql: `
+        SELECT parameter_name, parameter_value FROM strategy_parameters
+        WHERE run_id = ? AND parameter_name IN ('Start Time', 'End Time', 'Early Finish', 'Early Finish Time')
+      `,
+      args: [runId]
+    });
+    const setting = (name: string) => settings.rows.find((row: any) => row.parameter_name === name)?.parameter_value as string | undefined;
+
+    // The configured trading window, or the span of the run's entries when the log has none
+    let session: SessionWindow | null = null;
+    const start = minutesOfDay(setting('Start Time') || '');
+    const end = minutesOfDay((setting('Early Finish') === 'True' && setting('Early Finish Time')) || setting('End Time') || '');
+    if (start !== null && end !== null && end > start) {
+      session = { start, end };
+    } else {
+      const entries = trades.map(trade => minutesOfDay(trade.time)).filter((minutes): minutes is number => minutes !== null);
+      if (entries.length > 0 && Math.max(...entries) > Math.min(...entries)) {
+        session = { start: Math.min(...entries), end: Math.max(...entries) };
+      }
+    }
+
+    const breakdowns = Object.fromEntries(
+      (Object.keys(BREAKDOWN_DIMENSIONS) as BreakdownDimension[]).map(dimension => [dimension, breakdown(trades, dimension, session)])
+    );
+
+    return NextResponse.json({
+      success: true,
+      source,
+      tradeCount: trades.length,
+      session,
+      breakdowns,
+      pivot: rows && columns ? pivot(trades, rows, columns, session) : null
+    });
+
+  } catch (error) {
+    console.error('Error computing performance breakdown:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { analyseDrawdowns } from '@/lib/drawdown';
+import { getRiskSettings } from '@/lib/risk-metrics';
+import '@/lib/init-db';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const runId = parseInt(id);
+
+    if (isNaN(runId)) {
+      return NextResponse.json(
+        { error: 'Invalid run ID' },
+        { status: 400 }
+      );
+    }
+
+    const run = await db.execute({ sql: 'SELECT strategy_id FROM strategy_runs WHERE id = ?', args: [runId] });
+    if (run.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    const [settings, result] = await Promise.all([
+      getRiskSettings(db, Number(run.rows[0].strategy_id)),
+      db.execute({
+        sql: `
+          SELECT date, pnl, highest_intraday_pnl, lowest_intraday_pnl
+          FROM daily_pnl
+          WHERE run_id = ?
+          ORDER BY date ASC
+        `,
+        args: [runId]
+      })
+    ]);
+
+    const days = result.rows.map((row: any) => ({
+      date: row.date,
+      pnl: Number(row.pnl),
+      highestIntradayPnl: row.highest_intraday_pnl,
+      lowestIntradayPnl: row.lowest_intraday_pnl
+    }));
+
+    return NextResponse.json({
+      success: true,
+      accountSize: settings.accountSize,
+      close: analyseDrawdowns(days, 'close', settings.accountSize),
+      intraday: analyseDrawdowns(days, 'intraday', settings.accountSize)
+    });
+
+  } catch (error) {
+    console.error('Error analysing drawdowns:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,47 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/database';
+import { EVENT_TYPE_PATTERN } from '@/lib/parsers/base-parser';
+import { getEventTypeSummaries, StoredEvent } from '@/lib/events';
+import '@/lib/init-db';
 
-// Define the type for strategy events row
-interface StrategyEventRow {
-  event_type: 'tp_near_miss' | 'fill_near_miss' | 'sl_adjustment';
-  date: string;
-  time: string;
-  trade_id: string | null;
-  direction: string | null;
-  target: string | null;
-  closest_distance: string | null;
-  reason: string | null;
-  trigger: string | null;
-  adjustment: string | null;
-}
-
-// Define types for the different event objects
-interface TpNearMissEvent {
-  date: string;
-  time: string;
-  tradeId: string | null;
-  direction: string | null;
-  target: string | null;
-  closestDistance: string | null;
-  reason: string | null;
-}
-
-interface FillNearMissEvent {
-  date: string;
-  time: string;
-  direction: string | null;
-  closestDistance: string | null;
-}
-
-interface SlAdjustmentEvent {
-  date: string;
-  time: string;
-  tradeId: string | null;
-  direction: string | null;
-  trigger: string | null;
-  adjustment: string | null;
-}
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
+// A run's events of any type, optionally filtered by ?type=a,b, tradeId, from and to (YYYY-MM-DD),
+// with every type the run declares or stored and its count
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -57,74 +23,79 @@ export async function GET(
       );
     }
 
-    // Get all events for this run
-    const result = await db.execute({
-      sql: `
-        SELECT 
-          event_type,
-          date,
-          time,
-          trade_id,
-          direction,
-          target,
-          closest_distance,
-          reason,
-          trigger,
-          adjustment
-        FROM strategy_events
-        WHERE run_id = ?
-        ORDER BY date, time ASC
-      `,
-      args: [runId]
-    });
+    const { searchParams } = new URL(request.url);
+    const types = (searchParams.get('type') || '').split(',').map(type => type.trim()).filter(Boolean);
+    const tradeId = searchParams.get('tradeId');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
 
-    // Organize events by type
-    const events: {
-      tpNearMisses: TpNearMissEvent[];
-      fillNearMisses: FillNearMissEvent[];
-      slAdjustments: SlAdjustmentEvent[];
-    } = {
-      tpNearMisses: [],
-      fillNearMisses: [],
-      slAdjustments: []
-    };
+    if (types.some(type => !EVENT_TYPE_PATTERN.test(type))) {
+      return NextResponse.json(
+        { error: 'Event types must be snake_case, e.g. tp_near_miss' },
+        { status: 400 }
+      );
+    }
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json(
+        { error: 'from and to must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
 
-    result.rows.forEach((row: StrategyEventRow) => {
-      switch (row.event_type) {
-        case 'tp_near_miss':
-          events.tpNearMisses.push({
-            date: row.date,
-            time: row.time,
-            tradeId: row.trade_id,
-            direction: row.direction,
-            target: row.target,
-            closestDistance: row.closest_distance,
-            reason: row.reason
-          });
-          break;
-        case 'fill_near_miss':
-          events.fillNearMisses.push({
-            date: row.date,
-            time: row.time,
-            direction: row.direction,
-            closestDistance: row.closest_distance
-          });
-          break;
-        case 'sl_adjustment':
-          events.slAdjustments.push({
-            date: row.date,
-            time: row.time,
-            tradeId: row.trade_id,
-            direction: row.direction,
-            trigger: row.trigger,
-            adjustment: row.adjustment
-          });
-          break;
-      }
-    });
+    const run = await db.execute({ sql: 'SELECT event_types FROM strategy_runs WHERE id = ?', args: [runId] });
+    if (run.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    const conditions = ['run_id = ?'];
+    const args: Array<string | number> = [runId];
+    if (types.length > 0) {
+      conditions.push(`event_type IN (${types.map(() => '?').join(', ')})`);
+      args.push(...types);
+    }
+    if (tradeId) {
+      conditions.push('trade_id = ?');
+      args.push(tradeId);
+    }
+    if (from) {
+      conditions.push('date >= ?');
+      args.push(from);
+    }
+    if (to) {
+      conditions.push('date <= ?');
+      args.push(to);
+    }
+
+    const [summaries, result] = await Promise.all([
+      getEventTypeSummaries(db, runId, run.rows[0].event_types as string | null),
+      db.execute({
+        sql: `
+          SELECT id, event_type, date, time, trade_id, payload, source_line
+          FROM strategy_events
+          WHERE ${conditions.join(' AND ')}
+          ORDER BY date, source_line, id
+        `,
+        args
+      })
+    ]);
+
+    const events: StoredEvent[] = (result.rows as any[]).map(row => ({
+      id: Number(row.id),
+      type: row.event_type,
+      date: row.date,
+      time: row.time,
+      tradeId: row.trade_id,
+      payload: JSON.parse(row.payload),
+      sourceLine: row.source_line
+    }));
 
     return NextResponse.json({
       success: true,
+      types: summaries,
+      total: events.length,
       events
     });
 
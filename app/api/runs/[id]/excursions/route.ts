@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { AMBIGUOUS_EXITS, AmbiguousExit } from '@/lib/exit-replay';
+import {
+  captureHistogram,
+  estimatePointValue,
+  ExcursionTrade,
+  excursionPoints,
+  hasUsableExcursions,
+  replayFixedExits,
+  summariseExcursions
+} from '@/lib/excursions';
+import '@/lib/init-db';
+
+const MAX_EXIT_VALUES = 10;
+
+// "10, 15,17" into positive numbers, null when any value is not one
+function parseExitValues(value: string | null): number[] | null {
+  if (value === null) return [];
+  const values = value.split(',').map(part => part.trim()).filter(Boolean).map(Number);
+  return values.every(number => isFinite(number) && number > 0) ? Array.from(new Set(values)) : null;
+}
+
+// MAE / MFE of every trade, its capture ratio and the run replayed under fixed targets and stops
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const runId = parseInt(id);
+
+    if (isNaN(runId)) {
+      return NextResponse.json(
+        { error: 'Invalid run ID' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const takeProfits = parseExitValues(searchParams.get('tp'));
+    const stopLosses = parseExitValues(searchParams.get('sl'));
+    const ambiguousExit = (searchParams.get('ambiguity') || 'stop-first') as AmbiguousExit;
+
+    if (takeProfits === null || stopLosses === null) {
+      return NextResponse.json({ error: 'tp and sl must be comma-separated positive numbers of points' }, { status: 400 });
+    }
+    if (takeProfits.length > MAX_EXIT_VALUES || stopLosses.length > MAX_EXIT_VALUES) {
+      return NextResponse.json({ error: `At most ${MAX_EXIT_VALUES} tp and ${MAX_EXIT_VALUES} sl values` }, { status: 400 });
+    }
+    if (!AMBIGUOUS_EXITS.includes(ambiguousExit)) {
+      return NextResponse.json({ error: `ambiguity must be one of: ${AMBIGUOUS_EXITS.join(', ')}` }, { status: 400 });
+    }
+
+    const run = await db.execute({ sql: 'SELECT id FROM strategy_runs WHERE id = ?', args: [runId] });
+    if (run.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    const [tradesResult, legsResult, exitsResult] = await Promise.all([
+      db.execute({
+        sql: `
+          SELECT
+            t.trade_id, t.date, t.entry_time, t.direction, t.line, t.entry_price, t.max_profit, t.max_loss, t.realized_pnl, t.quantity,
+            SUM(l.points * l.quantity) AS leg_points,
+            SUM(l.quantity) AS leg_quantity,
+            COUNT(l.id) AS legs,
+            COUNT(l.points * l.quantity) AS legs_with_points
+          FROM trades t
+          LEFT JOIN trade_legs l ON l.trade_id = t.id
+          WHERE t.run_id = ?
+          GROUP BY t.id
+          ORDER BY t.date, t.id
+        `,
+        args: [runId]
+      }),
+      db.execute({
+        sql: `
+          SELECT l.points, l.quantity, l.realized_pnl
+          FROM trade_legs l
+          JOIN trades t ON t.id = l.trade_id
+          WHERE t.run_id = ?
+        `,
+        args: [runId]
+      }),
+      db.execute({
+        sql: `
+          SELECT parameter_name, parameter_value
+          FROM strategy_parameters
+          WHERE run_id = ? AND parameter_name IN ('Full Take Profit', 'Full Stop Loss')
+        `,
+        args: [runId]
+      })
+    ]);
+
+    // Trades without excursions cannot be placed or replayed
+    let withoutExcursions = 0;
+    const trades: ExcursionTrade[] = [];
+    for (const row of tradesResult.rows as any[]) {
+      if (!hasUsableExcursions(Number(row.entry_price), row.max_profit, row.max_loss)) {
+        withoutExcursions++;
+        continue;
+      }
+      const complete = Number(row.legs) > 0 && Number(row.legs) === Number(row.legs_with_points) && Number(row.leg_quantity) > 0;
+      trades.push({
+        tradeId: row.trade_id,
+        date: row.date,
+        time: row.entry_time,
+        direction: row.direction,
+        line: row.line,
+        // A negative best excursion means the trade was never in profit
+        mfe: Math.max(0, Number(row.max_profit)),
+        mae: Math.max(0, Number(row.max_loss)),
+        pnl: Number(row.realized_pnl),
+        realisedPoints: complete ? Number(row.leg_points) / Number(row.leg_quantity) : null,
+        quantity: complete ? Number(row.quantity ?? row.leg_quantity) : null
+      });
+    }
+
+    const points = excursionPoints(trades);
+    const pointValue = estimatePointValue((legsResult.rows as any[]).map(row => ({
+      points: row.points === null ? null : Number(row.points),
+      quantity: row.quantity === null ? null : Number(row.quantity),
+      pnl: Number(row.realized_pnl)
+    })));
+
+    // The run's own target and stop are the defaults to replay around
+    const configured: Record<string, number | null> = {};
+    for (const row of exitsResult.rows as any[]) {
+      const value = parseFloat(row.parameter_value);
+      configured[row.parameter_name] = isNaN(value) ? null : value;
+    }
+    const configuredTakeProfit = configured['Full Take Profit'] ?? null;
+    const configuredStopLoss = configured['Full Stop Loss'] ?? null;
+    const replayTakeProfits = takeProfits.length > 0 ? takeProfits : configuredTakeProfit !== null ? [configuredTakeProfit] : [];
+    const replayStopLosses = stopLosses.length > 0 ? stopLosses : configuredStopLoss !== null ? [configuredStopLoss] : [];
+
+    const replayed = points.filter(point => point.realisedPoints !== null);
+    const whatIf = pointValue === null
+      ? []
+      : replayTakeProfits.flatMap(takeProfit =>
+        replayStopLosses.map(stopLoss => replayFixedExits(trades, takeProfit, stopLoss, pointValue, ambiguousExit))
+      );
+
+    return NextResponse.json({
+      success: true,
+      trades: points,
+      withoutExcursions,
+      withoutExits: points.length - replayed.length,
+      summary: summariseExcursions(points),
+      captureDistribution: captureHistogram(points),
+      pointValue,
+      configured: { takeProfit: configuredTakeProfit, stopLoss: configuredStopLoss },
+      ambiguity: ambiguousExit,
+      // What the replayed trades actually made, to compare the what-if rows against
+      actual: {
+        trades: replayed.length,
+        netPoints: replayed.reduce((sum, point) => sum + point.realisedPoints!, 0),
+        netPnl: replayed.reduce((sum, point) => sum + point.pnl, 0),
+        winRate: replayed.length > 0 ? (replayed.filter(point => point.pnl > 0).length / replayed.length) * 100 : 0
+      },
+      whatIf
+    });
+
+  } catch (error) {
+    console.error('Error analysing trade excursions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { getLineStatistics, isLineStatisticField } from '@/lib/line-statistics';
+import '@/lib/init-db';
+
+// A run's per-line statistics with their hourly rows, sorted by any column
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const runId = parseInt(id);
+    const { searchParams } = new URL(request.url);
+    const sort = searchParams.get('sort') || 'side';
+    const order = searchParams.get('order') || 'asc';
+
+    if (isNaN(runId)) {
+      return NextResponse.json(
+        { error: 'Invalid run ID' },
+        { status: 400 }
+      );
+    }
+    if (!isLineStatisticField(sort)) {
+      return NextResponse.json({ error: `Unknown sort column: ${sort}` }, { status: 400 });
+    }
+    if (order !== 'asc' && order !== 'desc') {
+      return NextResponse.json({ error: 'order must be asc or desc' }, { status: 400 });
+    }
+
+    const run = await db.execute({ sql: 'SELECT id FROM strategy_runs WHERE id = ?', args: [runId] });
+    if (run.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      lines: await getLineStatistics(db, runId, sort, order === 'desc')
+    });
+
+  } catch (error) {
+    console.error('Error fetching line statistics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import {
+  runMonteCarlo,
+  simulateDailyLimits,
+  MonteCarloMethod,
+  MonteCarloSource,
+  MonteCarloThreshold,
+  MONTE_CARLO_METHODS,
+  MONTE_CARLO_SOURCES,
+  MAX_MONTE_CARLO_ITERATIONS,
+  MAX_MONTE_CARLO_SAMPLES
+} from '@/lib/monte-carlo';
+import '@/lib/init-db';
+
+// Strategy parameters holding per-day loss limits, checked against each simulated day's running PNL
+const LIMIT_PARAMETERS = ['Max Loss', 'Loss Cut Off'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const runId = parseInt(id);
+
+    if (isNaN(runId)) {
+      return NextResponse.json(
+        { error: 'Invalid run ID' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const source = (searchParams.get('source') || 'trades') as MonteCarloSource;
+    const method = (searchParams.get('method') || 'bootstrap') as MonteCarloMethod;
+    const iterations = parseInt(searchParams.get('iterations') || '1000');
+    const seed = parseInt(searchParams.get('seed') || '1');
+    // An extra total drawdown limit for the whole path, on top of the strategy's per-day limits
+    const ruinThreshold = searchParams.get('ruinThreshold');
+
+    if (!MONTE_CARLO_SOURCES.includes(source)) {
+      return NextResponse.json({ error: `source must be one of ${MONTE_CARLO_SOURCES.join(', ')}` }, { status: 400 });
+    }
+    if (!MONTE_CARLO_METHODS.includes(method)) {
+      return NextResponse.json({ error: `method must be one of ${MONTE_CARLO_METHODS.join(', ')}` }, { status: 400 });
+    }
+    if (isNaN(iterations) || iterations < 1 || iterations > MAX_MONTE_CARLO_ITERATIONS) {
+      return NextResponse.json(
+        { error: `iterations must be between 1 and ${MAX_MONTE_CARLO_ITERATIONS}` },
+        { status: 400 }
+      );
+    }
+    if (isNaN(seed)) {
+      return NextResponse.json({ error: 'seed must be an integer' }, { status: 400 });
+    }
+    if (ruinThreshold !== null && !(parseFloat(ruinThreshold) > 0)) {
+      return NextResponse.json({ error: 'ruinThreshold must be a positive dollar amount' }, { status: 400 });
+    }
+
+    const run = await db.execute({ sql: 'SELECT id FROM strategy_runs WHERE id = ?', args: [runId] });
+    if (run.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    const [series, trades, limits] = await Promise.all([
+      db.execute({
+        sql: source === 'trades'
+          ? 'SELECT actual_pnl as pnl FROM strategy_trade_summaries WHERE run_id = ? ORDER BY date, id'
+          : 'SELECT pnl FROM daily_pnl WHERE run_id = ? ORDER BY date',
+        args: [runId]
+      }),
+      db.execute({
+        sql: 'SELECT date, actual_pnl as pnl FROM strategy_trade_summaries WHERE run_id = ? ORDER BY date, id',
+        args: [runId]
+      }),
+      db.execute({
+        sql: `
+          SELECT parameter_name, parameter_value
+          FROM strategy_parameters
+          WHERE run_id = ? AND parameter_name IN (${LIMIT_PARAMETERS.map(() => '?').join(', ')})
+        `,
+        args: [runId, ...LIMIT_PARAMETERS]
+      })
+    ]);
+
+    const values = series.rows.map((row: any) => Number(row.pnl));
+    if (values.length < 2) {
+      return NextResponse.json(
+        { error: `Run has too few ${source === 'trades' ? 'trade summaries' : 'daily PNL entries'} to simulate` },
+        { status: 400 }
+      );
+    }
+
+    // The daily limits resample the trades too, whichever source the paths use
+    const sampleSize = Math.max(values.length, trades.rows.length);
+    if (sampleSize * iterations > MAX_MONTE_CARLO_SAMPLES) {
+      return NextResponse.json(
+        { error: `${sampleSize} values x ${iterations} iterations is too large, use at most ${Math.floor(MAX_MONTE_CARLO_SAMPLES / sampleSize)} iterations` },
+        { status: 400 }
+      );
+    }
+
+    const thresholds: MonteCarloThreshold[] = ruinThreshold !== null
+      ? [{ name: 'Drawdown limit', value: parseFloat(ruinThreshold) }]
+      : [];
+    const dailyLimits: MonteCarloThreshold[] = limits.rows
+      .map((row: any) => ({ name: row.parameter_name as string, value: parseFloat(row.parameter_value) }))
+      .filter((limit: MonteCarloThreshold) => limit.value > 0);
+
+    const days = new Map<string, number[]>();
+    for (const row of trades.rows as any[]) {
+      const day = days.get(row.date) || [];
+      day.push(Number(row.pnl));
+      days.set(row.date, day);
+    }
+
+    return NextResponse.json({
+      success: true,
+      source,
+      ...runMonteCarlo(values, { method, iterations, seed, thresholds }),
+      dailyLimits: simulateDailyLimits(Array.from(days.values()), dailyLimits, { method, iterations, seed })
+    });
+
+  } catch (error) {
+    console.error('Error running Monte Carlo simulation:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { estimatePointValue } from '@/lib/excursions';
+import {
+  analyseTpNearMisses,
+  estimateFillNearMisses,
+  FillNearMiss,
+  NearMissLeg,
+  nearMissCaveats,
+  openLegs,
+  parseTargetPoints,
+  recommendNearMissSettings,
+  TpNearMiss
+} from '@/lib/near-miss';
+import '@/lib/init-db';
+
+// What TP near misses cost the run, what its unfilled entries might have made and a Trim TP Near Miss setting to try
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const runId = parseInt(id);
+
+    if (isNaN(runId)) {
+      return NextResponse.json(
+        { error: 'Invalid run ID' },
+        { status: 400 }
+      );
+    }
+
+    const run = await db.execute({ sql: 'SELECT id FROM strategy_runs WHERE id = ?', args: [runId] });
+    if (run.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    const [eventsResult, tradesResult, legsResult, parametersResult] = await Promise.all([
+      db.execute({
+        sql: `
+          SELECT event_type, date, time, trade_id,
+            json_extract(payload, '$.direction') AS direction,
+            json_extract(payload, '$.target') AS target,
+            json_extract(payload, '$.closestDistance') AS closest_distance
+          FROM strategy_events
+          WHERE run_id = ? AND event_type IN ('tp_near_miss', 'fill_near_miss')
+          ORDER BY date, time
+        `,
+        args: [runId]
+      }),
+      db.execute({
+        sql: 'SELECT trade_id, date, direction, realized_pnl, exit_reason FROM trades WHERE run_id = ?',
+        args: [runId]
+      }),
+      db.execute({
+        sql: `
+          SELECT t.trade_id, t.date, l.exit_date, l.exit_time, l.quantity, l.points, l.realized_pnl
+          FROM trade_legs l
+          JOIN trades t ON t.id = l.trade_id
+          WHERE t.run_id = ?
+          ORDER BY l.trade_id, l.leg_index
+        `,
+        args: [runId]
+      }),
+      db.execute({
+        sql: `
+          SELECT parameter_name, parameter_value
+          FROM strategy_parameters
+          WHERE run_id = ? AND parameter_name IN ('Trim TP Near Miss', 'Trim Distance', 'Trim Offset')
+        `,
+        args: [runId]
+      })
+    ]);
+
+    const legsByTrade = new Map<string, NearMissLeg[]>();
+    for (const row of legsResult.rows as any[]) {
+      const key = `${row.date}|${row.trade_id}`;
+      if (!legsByTrade.has(key)) legsByTrade.set(key, []);
+      legsByTrade.get(key)!.push({
+        exitDate: row.exit_date,
+        exitTime: row.exit_time,
+        quantity: row.quantity === null ? null : Number(row.quantity),
+        points: row.points === null ? null : Number(row.points)
+      });
+    }
+    const exitReasons = new Map((tradesResult.rows as any[]).map(row => [`${row.date}|${row.trade_id}`, row.exit_reason as string]));
+
+    const tpNearMisses: TpNearMiss[] = [];
+    const fillNearMisses: FillNearMiss[] = [];
+    for (const row of eventsResult.rows as any[]) {
+      const closestDistance = parseFloat(String(row.closest_distance));
+      if (isNaN(closestDistance)) continue;
+
+      if (row.event_type === 'fill_near_miss') {
+        fillNearMisses.push({ date: row.date, time: row.time, direction: row.direction, closestDistance });
+        continue;
+      }
+      const key = `${row.date}|${row.trade_id}`;
+      const open = legsByTrade.has(key) ? openLegs(row.date, row.time, legsByTrade.get(key)!) : null;
+      tpNearMisses.push({
+        date: row.date,
+        time: row.time,
+        tradeId: row.trade_id,
+        direction: row.direction,
+        target: parseTargetPoints(row.target),
+        closestDistance,
+        openQuantity: open?.quantity ?? null,
+        openPoints: open?.points ?? null,
+        exitReason: exitReasons.get(key) ?? null
+      });
+    }
+
+    const pointValue = estimatePointValue((legsResult.rows as any[]).map(row => ({
+      points: row.points === null ? null : Number(row.points),
+      quantity: row.quantity === null ? null : Number(row.quantity),
+      pnl: Number(row.realized_pnl)
+    })));
+    const fills = estimateFillNearMisses(
+      fillNearMisses,
+      (tradesResult.rows as any[]).map(row => ({ direction: row.direction, pnl: Number(row.realized_pnl) }))
+    );
+    const current = Object.fromEntries((parametersResult.rows as any[]).map(row => [row.parameter_name, row.parameter_value]));
+
+    return NextResponse.json({
+      success: true,
+      pointValue,
+      tpNearMisses: {
+        events: tpNearMisses,
+        buckets: analyseTpNearMisses(tpNearMisses, pointValue)
+      },
+      fillNearMisses: {
+        events: fillNearMisses,
+        buckets: fills.buckets,
+        averagePnl: fills.averagePnl
+      },
+      recommendation: {
+        ...recommendNearMissSettings(tpNearMisses, pointValue),
+        current: {
+          enabled: current['Trim TP Near Miss'] !== undefined ? String(current['Trim TP Near Miss']).toLowerCase() === 'true' : null,
+          distance: current['Trim Distance'] !== undefined ? parseFloat(current['Trim Distance']) : null,
+          offset: current['Trim Offset'] !== undefined ? parseFloat(current['Trim Offset']) : null
+        }
+      },
+      caveats: nearMissCaveats(tpNearMisses, pointValue)
+    });
+
+  } catch (error) {
+    console.error('Error analysing near misses:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
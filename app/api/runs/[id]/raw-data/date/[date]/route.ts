@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/database';
 import { parserRegistry } from '@/lib/parsers/parser-registry';
+import { loadParserDefinitions } from '@/lib/parsers/parser-definitions';
 import '@/lib/init-db';
 
 export async function GET(
@@ -57,6 +58,7 @@ export async function GET(
     }
 
     // Parse the raw data to extract date-specific information
+    await loadParserDefinitions();
     const parsedData = parserRegistry.parseRawData(run.raw_data);
     
     if (!parsedData) {
@@ -20,7 +20,7 @@ export async function GET(
     // Fetch raw data for the specific run
     const result = await db.execute({
       sql: `
-        SELECT raw_data, run_name, run_description, created_at
+        SELECT raw_data, run_name, run_description, created_at, diagnostics
         FROM strategy_runs 
         WHERE id = ?
       `,
@@ -39,6 +39,7 @@ export async function GET(
       run_name: string | null;
       run_description: string | null;
       created_at: string;
+      diagnostics: string | null;
     };
 
     return NextResponse.json({
@@ -46,7 +47,8 @@ export async function GET(
       rawData: run.raw_data,
       runName: run.run_name,
       runDescription: run.run_description,
-      createdAt: run.created_at
+      createdAt: run.created_at,
+      diagnostics: run.diagnostics ? JSON.parse(run.diagnostics) : null
     });
 
   } catch (error) {
@@ -0,0 +1,243 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { ingestRun } from '@/lib/run-ingestion';
+import { ParsedRunData } from '@/lib/parsers/base-parser';
+import { calculateLineStatistics } from '@/lib/line-statistics';
+import { AMBIGUOUS_EXITS, AmbiguousExit } from '@/lib/exit-replay';
+import { estimatePointValue, hasUsableExcursions } from '@/lib/excursions';
+import {
+  describeExitRules,
+  EXIT_RULE_PARAMETERS,
+  ExitRules,
+  SimulationTrade,
+  simulateExits,
+  simulationCaveats,
+  tradePerformance,
+  validateExitRules
+} from '@/lib/exit-simulator';
+import '@/lib/init-db';
+
+// Re-evaluate a run's trades under other exit rules, optionally saving the result as a virtual run
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const runId = parseInt(id);
+
+    if (isNaN(runId)) {
+      return NextResponse.json(
+        { error: 'Invalid run ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const ambiguousExit = (body.ambiguity || 'stop-first') as AmbiguousExit;
+    if (!AMBIGUOUS_EXITS.includes(ambiguousExit)) {
+      return NextResponse.json({ error: `ambiguity must be one of: ${AMBIGUOUS_EXITS.join(', ')}` }, { status: 400 });
+    }
+    if (body.pointValue !== undefined && body.pointValue !== null && !(typeof body.pointValue === 'number' && body.pointValue > 0)) {
+      return NextResponse.json({ error: 'pointValue must be a positive number of dollars per point' }, { status: 400 });
+    }
+
+    const runResult = await db.execute({
+      sql: `
+        SELECT sr.id, sr.strategy_id, sr.run_name, sr.simulation, s.name AS strategy_name
+        FROM strategy_runs sr
+        JOIN strategies s ON sr.strategy_id = s.id
+        WHERE sr.id = ?
+      `,
+      args: [runId]
+    });
+    if (runResult.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+    const run = runResult.rows[0] as any;
+    // Its summaries already hold simulated PNL and it has no exit legs to price points with
+    if (run.simulation) {
+      return NextResponse.json({ error: 'Virtual runs cannot be simulated again, simulate their source run instead' }, { status: 400 });
+    }
+
+    const [tradesResult, legsResult, parametersResult] = await Promise.all([
+      db.execute({
+        sql: `
+          SELECT
+            s.trade_id, s.date, s.time, s.direction, s.line, s.entry_price, s.high_price, s.low_price,
+            s.max_profit, s.max_loss, s.actual_pnl, s.bars, s.max_profit_vs_target, s.max_loss_vs_stop, s.profit_efficiency,
+            (SELECT MAX(t.quantity) FROM trades t WHERE t.run_id = s.run_id AND t.date = s.date AND t.trade_id = s.trade_id) AS quantity
+          FROM strategy_trade_summaries s
+          WHERE s.run_id = ?
+          ORDER BY s.date, s.id
+        `,
+        args: [runId]
+      }),
+      db.execute({
+        sql: `
+          SELECT l.points, l.quantity, l.realized_pnl
+          FROM trade_legs l
+          JOIN trades t ON t.id = l.trade_id
+          WHERE t.run_id = ?
+        `,
+        args: [runId]
+      }),
+      db.execute({
+        sql: 'SELECT parameter_name, parameter_value, parameter_type FROM strategy_parameters WHERE run_id = ? ORDER BY id',
+        args: [runId]
+      })
+    ]);
+
+    const parameters = (parametersResult.rows as any[]).map(row => ({
+      name: row.parameter_name as string,
+      value: row.parameter_value as string,
+      type: row.parameter_type as ParsedRunData['parameters'][0]['type']
+    }));
+    const parameterNumber = (name: string | null) => {
+      const value = parseFloat(parameters.find(param => param.name === name)?.value ?? '');
+      return isNaN(value) ? null : value;
+    };
+
+    // Unset rules fall back to the run's own settings
+    const requested = body.rules || {};
+    const pick = (key: keyof ExitRules) => (requested[key] !== undefined ? requested[key] : parameterNumber(EXIT_RULE_PARAMETERS[key]));
+    const rules: ExitRules = {
+      takeProfit: pick('takeProfit'),
+      stopLoss: pick('stopLoss'),
+      trimPercent: pick('trimPercent') ?? 0,
+      trimTakeProfit: pick('trimTakeProfit'),
+      breakevenAfter: pick('breakevenAfter')
+    };
+    const rulesError = validateExitRules(rules);
+    if (rulesError) {
+      return NextResponse.json({ error: rulesError }, { status: 400 });
+    }
+
+    const estimatedPointValue = estimatePointValue((legsResult.rows as any[]).map(row => ({
+      points: row.points === null ? null : Number(row.points),
+      quantity: row.quantity === null ? null : Number(row.quantity),
+      pnl: Number(row.realized_pnl)
+    })));
+    const pointValue: number | null = body.pointValue ?? estimatedPointValue;
+    if (pointValue === null) {
+      return NextResponse.json(
+        { error: 'The run has no exit legs to estimate its dollars per point from, pass pointValue' },
+        { status: 400 }
+      );
+    }
+    const defaultQuantity = parameterNumber('Trade Quantity');
+
+    let skippedTrades = 0;
+    const summaries: any[] = [];
+    const trades: SimulationTrade[] = [];
+    for (const row of tradesResult.rows as any[]) {
+      const quantity = row.quantity !== null ? Number(row.quantity) : defaultQuantity;
+      if (!quantity || !hasUsableExcursions(Number(row.entry_price), row.max_profit, row.max_loss)) {
+        skippedTrades++;
+        continue;
+      }
+      summaries.push(row);
+      trades.push({
+        tradeId: row.trade_id,
+        date: row.date,
+        time: row.time,
+        direction: row.direction,
+        line: row.line,
+        mfe: Math.max(0, Number(row.max_profit)),
+        mae: Math.max(0, Number(row.max_loss)),
+        actualPnl: Number(row.actual_pnl),
+        dollarsPerPoint: quantity * pointValue
+      });
+    }
+
+    const simulation = simulateExits(trades, rules, ambiguousExit);
+    const actual = tradePerformance(trades.map(trade => ({ date: trade.date, pnl: trade.actualPnl })));
+    const caveats = simulationCaveats(simulation, ambiguousExit, {
+      skippedTrades,
+      pointValueEstimated: body.pointValue === undefined || body.pointValue === null
+    });
+
+    let virtualRunId: number | null = null;
+    if (body.save) {
+      if (simulation.totalTrades === 0) {
+        return NextResponse.json({ error: 'No trades to save as a virtual run' }, { status: 400 });
+      }
+
+      // The simulated exits replace the run's own, so heatmaps and comparisons line the runs up by them
+      const overrides = new Map<string, string>();
+      for (const key of Object.keys(EXIT_RULE_PARAMETERS) as Array<keyof ExitRules>) {
+        const name = EXIT_RULE_PARAMETERS[key];
+        if (name && rules[key] !== null) overrides.set(name, String(rules[key]));
+      }
+      const virtualParameters = parameters.map(param => (overrides.has(param.name) ? { ...param, value: overrides.get(param.name)! } : param));
+      for (const [name, value] of overrides) {
+        if (!parameters.some(param => param.name === name)) virtualParameters.push({ name, value, type: 'number' });
+      }
+      if (rules.breakevenAfter !== null) {
+        virtualParameters.push({ name: 'Breakeven After', value: String(rules.breakevenAfter), type: 'number' });
+      }
+
+      const description = `Simulated from run #${runId}: ${describeExitRules(rules)}`;
+      const ingested = await ingestRun({
+        strategyName: run.strategy_name,
+        runName: body.runName || `${run.run_name || `Run ${runId}`} (simulated)`,
+        runDescription: body.runDescription || description,
+        netPnl: simulation.netPnl,
+        totalTrades: simulation.totalTrades,
+        winRate: simulation.winRate,
+        profitFactor: simulation.profitFactor ?? undefined,
+        maxDrawdown: simulation.maxDrawdown,
+        dailyPnl: simulation.dailyPnl,
+        parameters: virtualParameters,
+        customMetrics: [
+          { name: 'Ambiguous Trades', value: simulation.ambiguousTrades, description: 'Trades that reached a favourable level and the stop' },
+          { name: 'Unchanged Trades', value: simulation.unchangedTrades, description: 'Trades that kept their actual exit' }
+        ],
+        lineStatistics: calculateLineStatistics(simulation.trades.map(trade => ({ line: trade.line, time: trade.time, pnl: trade.pnl }))),
+        detailedTrades: simulation.trades.map((trade, index) => ({
+          tradeId: trade.tradeId,
+          date: trade.date,
+          time: trade.time,
+          direction: summaries[index].direction,
+          line: summaries[index].line,
+          entry: summaries[index].entry_price,
+          high: summaries[index].high_price,
+          low: summaries[index].low_price,
+          maxProfit: summaries[index].max_profit,
+          maxLoss: summaries[index].max_loss,
+          actualPnl: trade.pnl,
+          bars: summaries[index].bars,
+          maxProfitVsTarget: summaries[index].max_profit_vs_target,
+          maxLossVsStop: summaries[index].max_loss_vs_stop,
+          profitEfficiency: summaries[index].profit_efficiency
+        }))
+      }, {
+        strategyId: Number(run.strategy_id),
+        sourceRunId: runId,
+        simulation: { rules, ambiguity: ambiguousExit, pointValue, caveats }
+      });
+      virtualRunId = ingested.runId;
+    }
+
+    return NextResponse.json({
+      success: true,
+      rules,
+      ambiguity: ambiguousExit,
+      pointValue,
+      simulation,
+      actual,
+      caveats,
+      virtualRunId
+    });
+
+  } catch (error) {
+    console.error('Error simulating exit rules:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/database';
+import { TRADE_EXIT_REASONS, TradeExitReason } from '@/lib/parsers/base-parser';
+import '@/lib/init-db';
 
-// Define the type for strategy trade summaries row
-interface StrategyTradeSummaryRow {
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+interface TradeRow {
+  id: number;
   trade_id: string;
   date: string;
-  time: string;
-  direction: string;
-  line: string;
+  entry_time: string;
+  exit_date: string | null;
+  exit_time: string | null;
+  direction: 'LONG' | 'SHORT';
+  line: string | null;
   entry_price: number;
-  high_price: number;
-  low_price: number;
-  max_profit: number;
-  max_loss: number;
-  actual_pnl: number;
-  bars: number;
-  max_profit_vs_target: number | null;
-  max_loss_vs_stop: number | null;
-  profit_efficiency: number | null;
+  quantity: number | null;
+  realized_pnl: number;
+  exit_reason: TradeExitReason;
+  max_profit: number | null;
+  max_loss: number | null;
+  bars: number | null;
+  bars_since_last_trade: number | null;
+  sl_adjustments: number;
+  near_misses: number;
+  source_line: number | null;
+}
+
+interface TradeLegRow {
+  trade_id: number;
+  leg_index: number;
+  kind: 'trim' | 'final';
+  exit_date: string;
+  exit_time: string;
+  quantity: number | null;
+  points: number | null;
+  realized_pnl: number;
+  exit_reason: TradeExitReason;
+  source_line: number | null;
 }
 
 export async function GET(
@@ -35,53 +56,146 @@ export async function GET(
       );
     }
 
-    // Get all trade summaries for this run
+    const { searchParams } = new URL(request.url);
+    const direction = searchParams.get('direction')?.toUpperCase();
+    const exitReason = searchParams.get('exitReason');
+    const line = searchParams.get('line');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const page = parseInt(searchParams.get('page') || '1');
+    const pageSize = parseInt(searchParams.get('pageSize') || String(DEFAULT_PAGE_SIZE));
+
+    if (direction && direction !== 'LONG' && direction !== 'SHORT') {
+      return NextResponse.json({ error: 'direction must be LONG or SHORT' }, { status: 400 });
+    }
+    if (exitReason && !TRADE_EXIT_REASONS.includes(exitReason as TradeExitReason)) {
+      return NextResponse.json(
+        { error: `exitReason must be one of ${TRADE_EXIT_REASONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `page must be at least 1 and pageSize between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const conditions = ['run_id = ?'];
+    const args: any[] = [runId];
+    if (direction) {
+      conditions.push('direction = ?');
+      args.push(direction);
+    }
+    if (exitReason) {
+      conditions.push('exit_reason = ?');
+      args.push(exitReason);
+    }
+    if (line) {
+      conditions.push('line = ?');
+      args.push(line);
+    }
+    if (from) {
+      conditions.push('date >= ?');
+      args.push(from);
+    }
+    if (to) {
+      conditions.push('date <= ?');
+      args.push(to);
+    }
+    const where = conditions.join(' AND ');
+
+    const countResult = await db.execute({ sql: `SELECT COUNT(*) as total FROM trades WHERE ${where}`, args });
+    const total = Number(countResult.rows[0].total);
+
+    // Entry times are 12-hour strings, so order by insertion which follows the log
     const result = await db.execute({
       sql: `
-        SELECT 
+        SELECT
+          id,
           trade_id,
           date,
-          time,
+          entry_time,
+          exit_date,
+          exit_time,
           direction,
           line,
           entry_price,
-          high_price,
-          low_price,
+          quantity,
+          realized_pnl,
+          exit_reason,
           max_profit,
           max_loss,
-          actual_pnl,
           bars,
-          max_profit_vs_target,
-          max_loss_vs_stop,
-          profit_efficiency
-        FROM strategy_trade_summaries
-        WHERE run_id = ?
-        ORDER BY date, time ASC
+          bars_since_last_trade,
+          sl_adjustments,
+          near_misses,
+          source_line
+        FROM trades
+        WHERE ${where}
+        ORDER BY date, id
+        LIMIT ? OFFSET ?
       `,
-      args: [runId]
+      args: [...args, pageSize, (page - 1) * pageSize]
     });
+    const rows = result.rows as unknown as TradeRow[];
+
+    const legsByTrade = new Map<number, TradeLegRow[]>();
+    if (rows.length > 0) {
+      const legResult = await db.execute({
+        sql: `
+          SELECT trade_id, leg_index, kind, exit_date, exit_time, quantity, points, realized_pnl, exit_reason, source_line
+          FROM trade_legs
+          WHERE trade_id IN (${rows.map(() => '?').join(', ')})
+          ORDER BY trade_id, leg_index
+        `,
+        args: rows.map(row => row.id)
+      });
+      for (const leg of legResult.rows as unknown as TradeLegRow[]) {
+        legsByTrade.set(leg.trade_id, [...(legsByTrade.get(leg.trade_id) || []), leg]);
+      }
+    }
 
-    const trades = result.rows.map((row: StrategyTradeSummaryRow) => ({
+    const trades = rows.map(row => ({
       tradeId: row.trade_id,
       date: row.date,
-      time: row.time,
+      entryTime: row.entry_time,
+      exitDate: row.exit_date,
+      exitTime: row.exit_time,
       direction: row.direction,
       line: row.line,
-      entry: row.entry_price,
-      high: row.high_price,
-      low: row.low_price,
+      entryPrice: row.entry_price,
+      quantity: row.quantity,
+      pnl: row.realized_pnl,
+      exitReason: row.exit_reason,
       maxProfit: row.max_profit,
       maxLoss: row.max_loss,
-      actualPnl: row.actual_pnl,
       bars: row.bars,
-      maxProfitVsTarget: row.max_profit_vs_target,
-      maxLossVsStop: row.max_loss_vs_stop,
-      profitEfficiency: row.profit_efficiency
+      barsSinceLastTrade: row.bars_since_last_trade,
+      slAdjustments: row.sl_adjustments,
+      nearMisses: row.near_misses,
+      sourceLine: row.source_line,
+      legs: (legsByTrade.get(row.id) || []).map(leg => ({
+        kind: leg.kind,
+        date: leg.exit_date,
+        time: leg.exit_time,
+        quantity: leg.quantity,
+        points: leg.points,
+        pnl: leg.realized_pnl,
+        exitReason: leg.exit_reason,
+        sourceLine: leg.source_line
+      }))
     }));
 
     return NextResponse.json({
       success: true,
-      trades
+      trades,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize)
+      }
     });
 
   } catch (error) {
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { analyseSplit, getDateSplits, rollingWindows, DEFAULT_ROLLING_WINDOWS } from '@/lib/walk-forward';
+import '@/lib/init-db';
+
+// Rolling-window metrics and the strategy's in-sample / out-of-sample splits, from stored daily PNL and trade summaries
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const runId = parseInt(id);
+
+    if (isNaN(runId)) {
+      return NextResponse.json(
+        { error: 'Invalid run ID' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const windowsParam = searchParams.get('windows');
+    const windows = windowsParam ? windowsParam.split(',').map(value => parseInt(value)) : DEFAULT_ROLLING_WINDOWS;
+    if (windows.some(window => isNaN(window) || window < 2)) {
+      return NextResponse.json(
+        { error: 'windows must be a comma-separated list of day counts of at least 2' },
+        { status: 400 }
+      );
+    }
+
+    const run = await db.execute({ sql: 'SELECT strategy_id FROM strategy_runs WHERE id = ?', args: [runId] });
+    if (run.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    const [dailyPnl, tradeSummaries, splits] = await Promise.all([
+      db.execute({ sql: 'SELECT date, pnl FROM daily_pnl WHERE run_id = ? ORDER BY date', args: [runId] }),
+      db.execute({ sql: 'SELECT date, actual_pnl FROM strategy_trade_summaries WHERE run_id = ?', args: [runId] }),
+      getDateSplits(db, Number(run.rows[0].strategy_id))
+    ]);
+
+    const days = dailyPnl.rows.map((row: any) => ({ date: row.date as string, pnl: Number(row.pnl) }));
+    const trades = tradeSummaries.rows.map((row: any) => ({ date: row.date as string, pnl: Number(row.actual_pnl) }));
+
+    return NextResponse.json({
+      success: true,
+      rolling: windows.map(window => ({ window, points: rollingWindows(days, trades, window) })),
+      splits: splits.map(split => analyseSplit(days, trades, split))
+    });
+
+  } catch (error) {
+    console.error('Error computing walk-forward analysis:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
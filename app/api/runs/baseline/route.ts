@@ -73,6 +73,9 @@ export async function GET(request: NextRequest) {
         sr.profit_factor,
         sr.max_drawdown,
         sr.sharpe_ratio,
+        sr.sortino_ratio,
+        sr.calmar_ratio,
+        sr.mar_ratio,
         sr.created_at,
         sr.is_baseline,
         s.name as strategy_name
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import '@/lib/init-db';
+
+interface DuplicateRun {
+  id: number;
+  run_name: string | null;
+  run_description: string | null;
+  created_at: string;
+  net_pnl: number;
+  total_trades: number | null;
+  is_baseline: boolean;
+  content_hash: string | null;
+  fingerprint: string | null;
+  strategy_id: number;
+  strategy_name: string;
+}
+
+interface DuplicateGroup {
+  kind: 'exact' | 'near';
+  runs: DuplicateRun[];
+}
+
+function groupBy(runs: DuplicateRun[], key: (run: DuplicateRun) => string | null): DuplicateRun[][] {
+  const groups = new Map<string, DuplicateRun[]>();
+  for (const run of runs) {
+    const value = key(run);
+    if (value) {
+      groups.set(value, [...(groups.get(value) || []), run]);
+    }
+  }
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+// Runs sharing a fingerprint are near duplicates unless their raw data is identical too.
+// Identical raw data whose fingerprints differ (parsed by different parser versions) is still an exact group.
+function findGroups(runs: DuplicateRun[]): DuplicateGroup[] {
+  const groups: DuplicateGroup[] = groupBy(runs, run => run.fingerprint).map(group => ({
+    kind: group.every(run => run.content_hash && run.content_hash === group[0].content_hash) ? 'exact' : 'near',
+    runs: group
+  }));
+
+  for (const group of groupBy(runs, run => run.content_hash)) {
+    const alreadyGrouped = groups.some(existing => group.every(run => existing.runs.includes(run)));
+    if (!alreadyGrouped) {
+      groups.push({ kind: 'exact', runs: group });
+    }
+  }
+
+  return groups.sort((a, b) => (a.kind === b.kind ? b.runs.length - a.runs.length : a.kind === 'exact' ? -1 : 1));
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const strategyId = searchParams.get('strategyId');
+
+    // Virtual runs share their source run's fingerprint when simulated with its own exit rules
+    let sql = `
+      SELECT
+        sr.id,
+        sr.run_name,
+        sr.run_description,
+        sr.created_at,
+        sr.net_pnl,
+        sr.total_trades,
+        sr.is_baseline,
+        sr.content_hash,
+        sr.fingerprint,
+        sr.strategy_id,
+        s.name as strategy_name
+      FROM strategy_runs sr
+      JOIN strategies s ON sr.strategy_id = s.id
+      WHERE sr.simulation IS NULL
+    `;
+    const args: any[] = [];
+
+    if (strategyId) {
+      sql += ' AND sr.strategy_id = ?';
+      args.push(parseInt(strategyId));
+    }
+
+    sql += ' ORDER BY sr.created_at ASC';
+
+    const result = await db.execute({ sql, args });
+    const runs = result.rows as unknown as DuplicateRun[];
+
+    // Duplicates are only meaningful within a strategy
+    const byStrategy = new Map<number, DuplicateRun[]>();
+    for (const run of runs) {
+      byStrategy.set(run.strategy_id, [...(byStrategy.get(run.strategy_id) || []), run]);
+    }
+
+    const strategies = Array.from(byStrategy.entries())
+      .map(([id, strategyRuns]) => ({
+        strategyId: id,
+        strategyName: strategyRuns[0].strategy_name,
+        groups: findGroups(strategyRuns)
+      }))
+      .filter(strategy => strategy.groups.length > 0);
+
+    return NextResponse.json({
+      success: true,
+      strategies,
+      duplicateRunCount: strategies.reduce((sum, strategy) =>
+        sum + strategy.groups.reduce((groupSum, group) => groupSum + group.runs.length - 1, 0), 0)
+    });
+
+  } catch (error) {
+    console.error('Error finding duplicate runs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { compareLineStatistics, getLineStatisticsForRuns } from '@/lib/line-statistics';
+import '@/lib/init-db';
+
+// Each line's statistics side by side for several runs, optionally for one entry hour
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const runIds = (searchParams.get('runIds') || '').split(',').filter(Boolean).map(Number);
+    const hourParam = searchParams.get('hour');
+    const hour = hourParam === null || hourParam === '' ? null : Number(hourParam);
+
+    if (runIds.length < 1 || runIds.some(runId => !Number.isInteger(runId))) {
+      return NextResponse.json(
+        { error: 'runIds must be a comma separated list of run IDs' },
+        { status: 400 }
+      );
+    }
+    if (hour !== null && !(Number.isInteger(hour) && hour >= 0 && hour <= 23)) {
+      return NextResponse.json({ error: 'hour must be between 0 and 23' }, { status: 400 });
+    }
+
+    const runs = await db.execute({
+      sql: `SELECT id, run_name FROM strategy_runs WHERE id IN (${runIds.map(() => '?').join(', ')}) ORDER BY id`,
+      args: runIds
+    });
+    if (runs.rows.length < new Set(runIds).size) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      hour,
+      runs: runs.rows.map((row: any) => ({ id: Number(row.id), name: row.run_name as string | null })),
+      lines: compareLineStatistics(await getLineStatisticsForRuns(db, runIds, hour))
+    });
+
+  } catch (error) {
+    console.error('Error comparing line statistics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
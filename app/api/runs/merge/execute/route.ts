@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/database';
+import { ingestRun } from '@/lib/run-ingestion';
+import { EventTypeDefinition, ParsedEvent, ParsedRunData, ParsedTrade, ParsedTradeLeg } from '@/lib/parsers/base-parser';
+import { calculateLineStatistics } from '@/lib/line-statistics';
 
 export async function POST(request: NextRequest) {
   try {
@@ -41,45 +44,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get the first run's strategy ID (all runs have the same strategy)
+    // Get the first run's strategy (all runs have the same strategy)
     const firstRunResult = await db.execute({
-      sql: 'SELECT strategy_id FROM strategy_runs WHERE id = ?',
-      args: [validRunIds[0]]
-    });
-    const strategyId = firstRunResult.rows[0].strategy_id;
-
-    let maxDrawdown: number;
-
-    // Create the merged run (no transactions - simple sequential operations like parse route)
-    const mergedRunResult = await db.execute({
       sql: `
-        INSERT INTO strategy_runs (
-          strategy_id, 
-          run_name, 
-          run_description, 
-          net_pnl, 
-          total_trades, 
-          win_rate, 
-          profit_factor, 
-          max_drawdown, 
-          sharpe_ratio
-        ) VALUES (?, ?, ?, 0, 0, 0, 0, 0, 0)
+        SELECT sr.strategy_id, s.name AS strategy_name
+        FROM strategy_runs sr
+        JOIN strategies s ON sr.strategy_id = s.id
+        WHERE sr.id = ?
       `,
-      args: [
-        strategyId,
-        mergedRunName || `Merged Run (${validRunIds.join(', ')})`,
-        mergedRunDescription || `Merged from runs: ${validRunIds.join(', ')}`
-      ]
+      args: [validRunIds[0]]
     });
+    const strategyId = Number(firstRunResult.rows[0].strategy_id);
+    const strategyName = firstRunResult.rows[0].strategy_name as string;
 
-    const mergedRunId = Number(mergedRunResult.lastInsertRowid);
+    const placeholders = validRunIds.map(() => '?').join(',');
 
     // Merge daily PNL data
     const dailyPnlResult = await db.execute({
       sql: `
         SELECT date, pnl, trades
         FROM daily_pnl
-        WHERE run_id IN (${validRunIds.map(() => '?').join(',')})
+        WHERE run_id IN (${placeholders})
         ORDER BY date ASC
       `,
       args: validRunIds
@@ -95,27 +80,19 @@ export async function POST(request: NextRequest) {
       });
     });
 
-    // Insert merged daily PNL data
-    for (const [date, data] of dailyPnlMap) {
-      await db.execute({
-        sql: 'INSERT INTO daily_pnl (run_id, date, pnl, trades) VALUES (?, ?, ?, ?)',
-        args: [mergedRunId, date, data.pnl, data.trades]
-      });
-    }
-
     // Merge parameters - collect all unique parameters from all runs
     const allParametersResult = await db.execute({
       sql: `
         SELECT DISTINCT parameter_name, parameter_value, parameter_type
         FROM strategy_parameters
-        WHERE run_id IN (${validRunIds.map(() => '?').join(',')})
+        WHERE run_id IN (${placeholders})
         ORDER BY parameter_name
       `,
       args: validRunIds
     });
 
-    // Group parameters by name to handle conflicts
-    const parameterMap = new Map();
+    // Group parameters by name to handle conflicts, the first value wins
+    const parameterMap = new Map<string, ParsedRunData['parameters'][0]>();
     allParametersResult.rows.forEach((param: any) => {
       if (!parameterMap.has(param.parameter_name)) {
         parameterMap.set(param.parameter_name, {
@@ -126,45 +103,37 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    // Insert all unique parameters
-    for (const param of parameterMap.values()) {
-      await db.execute({
-        sql: `
-          INSERT INTO strategy_parameters (run_id, parameter_name, parameter_value, parameter_type)
-          VALUES (?, ?, ?, ?)
-        `,
-        args: [mergedRunId, param.parameter_name, param.parameter_value, param.parameter_type]
-      });
-    }
-
     // Merge events from all runs
     const eventsResult = await db.execute({
       sql: `
-        SELECT 
-          event_type, date, time, trade_id, direction, target, 
-          closest_distance, reason, trigger, adjustment
+        SELECT event_type, date, time, trade_id, payload
         FROM strategy_events
-        WHERE run_id IN (${validRunIds.map(() => '?').join(',')})
-        ORDER BY date, time
+        WHERE run_id IN (${placeholders})
+        ORDER BY date, run_id, source_line, id
       `,
       args: validRunIds
     });
+    const events: ParsedEvent[] = eventsResult.rows.map((event: any) => ({
+      type: event.event_type,
+      date: event.date,
+      time: event.time,
+      tradeId: event.trade_id,
+      payload: JSON.parse(event.payload)
+    }));
 
-    for (const event of eventsResult.rows) {
-      await db.execute({
-        sql: `
-          INSERT INTO strategy_events (
-            run_id, event_type, date, time, trade_id, direction, 
-            target, closest_distance, reason, trigger, adjustment
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `,
-        args: [
-          mergedRunId, event.event_type, event.date, event.time, 
-          event.trade_id, event.direction, event.target, event.closest_distance,
-          event.reason, event.trigger, event.adjustment
-        ]
-      });
-    }
+    // Event type declarations from all runs, the first run declaring a type wins
+    const eventTypesResult = await db.execute({
+      sql: `SELECT event_types FROM strategy_runs WHERE id IN (${placeholders}) AND event_types IS NOT NULL ORDER BY id`,
+      args: validRunIds
+    });
+    const eventTypeMap = new Map<string, EventTypeDefinition>();
+    eventTypesResult.rows.forEach((row: any) => {
+      for (const definition of JSON.parse(row.event_types) as EventTypeDefinition[]) {
+        if (!eventTypeMap.has(definition.type)) {
+          eventTypeMap.set(definition.type, definition);
+        }
+      }
+    });
 
     // Merge trade summaries from all runs
     const tradesResult = await db.execute({
@@ -174,45 +143,92 @@ export async function POST(request: NextRequest) {
           high_price, low_price, max_profit, max_loss, actual_pnl, 
           bars, max_profit_vs_target, max_loss_vs_stop, profit_efficiency
         FROM strategy_trade_summaries
-        WHERE run_id IN (${validRunIds.map(() => '?').join(',')})
+        WHERE run_id IN (${placeholders})
         ORDER BY date, time
       `,
       args: validRunIds
     });
 
-    for (const trade of tradesResult.rows) {
-      await db.execute({
-        sql: `
-          INSERT INTO strategy_trade_summaries (
-            run_id, trade_id, date, time, direction, line, entry_price,
-            high_price, low_price, max_profit, max_loss, actual_pnl,
-            bars, max_profit_vs_target, max_loss_vs_stop, profit_efficiency
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `,
-        args: [
-          mergedRunId, trade.trade_id, trade.date, trade.time, trade.direction,
-          trade.line, trade.entry_price, trade.high_price, trade.low_price,
-          trade.max_profit, trade.max_loss, trade.actual_pnl, trade.bars,
-          trade.max_profit_vs_target, trade.max_loss_vs_stop, trade.profit_efficiency
-        ]
-      });
-    }
+    const detailedTrades: NonNullable<ParsedRunData['detailedTrades']> = tradesResult.rows.map((trade: any) => ({
+      tradeId: trade.trade_id,
+      date: trade.date,
+      time: trade.time,
+      direction: trade.direction,
+      line: trade.line,
+      entry: trade.entry_price,
+      high: trade.high_price,
+      low: trade.low_price,
+      maxProfit: trade.max_profit,
+      maxLoss: trade.max_loss,
+      actualPnl: trade.actual_pnl,
+      bars: trade.bars,
+      maxProfitVsTarget: trade.max_profit_vs_target,
+      maxLossVsStop: trade.max_loss_vs_stop,
+      profitEfficiency: trade.profit_efficiency
+    }));
 
-    // Get all trades from the merged run to calculate metrics properly
-    const allTradesResult = await db.execute({
+    // Merge trade lifecycles and their exit legs, source lines point into the original runs' raw data so are dropped
+    const lifecyclesResult = await db.execute({
       sql: `
-        SELECT actual_pnl, date, time
-        FROM strategy_trade_summaries
-        WHERE run_id = ?
-        ORDER BY date, time
+        SELECT
+          id, trade_id, date, entry_time, exit_date, exit_time, direction, line, entry_price, quantity,
+          realized_pnl, exit_reason, max_profit, max_loss, bars, bars_since_last_trade, sl_adjustments, near_misses
+        FROM trades
+        WHERE run_id IN (${placeholders})
+        ORDER BY date, id
       `,
-      args: [mergedRunId]
+      args: validRunIds
+    });
+    const legsResult = await db.execute({
+      sql: `
+        SELECT l.trade_id, l.kind, l.exit_date, l.exit_time, l.quantity, l.points, l.realized_pnl, l.exit_reason
+        FROM trade_legs l
+        JOIN trades t ON t.id = l.trade_id
+        WHERE t.run_id IN (${placeholders})
+        ORDER BY l.trade_id, l.leg_index
+      `,
+      args: validRunIds
     });
 
-    const allTrades = allTradesResult.rows.map((row: any) => ({
-      pnl: row.actual_pnl,
-      date: row.date,
-      time: row.time
+    const legsByTrade = new Map<number, ParsedTradeLeg[]>();
+    legsResult.rows.forEach((leg: any) => {
+      const tradeId = Number(leg.trade_id);
+      if (!legsByTrade.has(tradeId)) legsByTrade.set(tradeId, []);
+      legsByTrade.get(tradeId)!.push({
+        kind: leg.kind,
+        date: leg.exit_date,
+        time: leg.exit_time,
+        quantity: leg.quantity,
+        points: leg.points,
+        pnl: leg.realized_pnl,
+        exitReason: leg.exit_reason
+      });
+    });
+    const lifecycles: ParsedTrade[] = lifecyclesResult.rows.map((trade: any) => ({
+      tradeId: trade.trade_id,
+      date: trade.date,
+      entryTime: trade.entry_time,
+      exitDate: trade.exit_date,
+      exitTime: trade.exit_time,
+      direction: trade.direction,
+      line: trade.line,
+      entryPrice: trade.entry_price,
+      quantity: trade.quantity,
+      pnl: trade.realized_pnl,
+      exitReason: trade.exit_reason,
+      maxProfit: trade.max_profit,
+      maxLoss: trade.max_loss,
+      bars: trade.bars,
+      barsSinceLastTrade: trade.bars_since_last_trade,
+      slAdjustments: trade.sl_adjustments,
+      nearMisses: trade.near_misses,
+      legs: legsByTrade.get(Number(trade.id)) || []
+    }));
+
+    const allTrades = detailedTrades.map(trade => ({
+      pnl: trade.actualPnl,
+      date: trade.date,
+      time: trade.time
     }));
 
     // Calculate metrics from individual trades (not daily aggregation)
@@ -229,7 +245,7 @@ export async function POST(request: NextRequest) {
     const profitFactor = totalLoss > 0 ? totalProfit / totalLoss : (totalProfit > 0 ? Infinity : 0);
 
     // Calculate max drawdown from cumulative PNL curve of individual trades
-    maxDrawdown = 0;
+    let maxDrawdown = 0;
     let runningPnl = 0;
     let peak = 0;
     
@@ -244,28 +260,12 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Calculate Sharpe ratio from trade returns
-    const tradeReturns = allTrades.map((trade: any) => trade.pnl);
-    const avgReturn = tradeReturns.length > 0 ? tradeReturns.reduce((sum: number, ret: number) => sum + ret, 0) / tradeReturns.length : 0;
-    const variance = tradeReturns.length > 0 ? tradeReturns.reduce((sum: number, ret: number) => sum + Math.pow(ret - avgReturn, 2), 0) / tradeReturns.length : 0;
-    const sharpeRatio = variance > 0 ? avgReturn / Math.sqrt(variance) : 0;
-
-    // Update the merged run with calculated metrics
-    await db.execute({
-      sql: `
-        UPDATE strategy_runs 
-        SET net_pnl = ?, total_trades = ?, win_rate = ?, profit_factor = ?, max_drawdown = ?, sharpe_ratio = ?
-        WHERE id = ?
-      `,
-      args: [totalPnl, totalTrades, winRate, profitFactor, maxDrawdown, sharpeRatio, mergedRunId]
-    });
-
     // Copy and recalculate metrics from all runs
     const metricsResult = await db.execute({
       sql: `
         SELECT metric_name, metric_value, metric_description
         FROM strategy_metrics
-        WHERE run_id IN (${validRunIds.map(() => '?').join(',')})
+        WHERE run_id IN (${placeholders})
       `,
       args: validRunIds
     });
@@ -298,16 +298,30 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    // Insert merged metrics
-    for (const [metricName, metricData] of metricsMap) {
-      await db.execute({
-        sql: `
-          INSERT INTO strategy_metrics (run_id, metric_name, metric_value, metric_description)
-          VALUES (?, ?, ?, ?)
-        `,
-        args: [mergedRunId, metricName, metricData.value, metricData.description]
-      });
-    }
+    // Write the merged run in one transaction so a failure can't leave a partial merge behind
+    const { runId: mergedRunId, timings, totalMs } = await ingestRun({
+      strategyName,
+      runName: mergedRunName || `Merged Run (${validRunIds.join(', ')})`,
+      runDescription: mergedRunDescription || `Merged from runs: ${validRunIds.join(', ')}`,
+      netPnl: totalPnl,
+      totalTrades,
+      winRate,
+      profitFactor,
+      maxDrawdown,
+      dailyPnl: Array.from(dailyPnlMap.entries()).map(([date, data]) => ({ date, pnl: data.pnl, trades: data.trades })),
+      parameters: Array.from(parameterMap.values()),
+      customMetrics: Array.from(metricsMap.entries()).map(([name, metric]) => ({
+        name,
+        value: metric.value,
+        description: metric.description
+      })),
+      // Recomputed from the merged trades, averaging each run's win rates would weight them wrongly
+      lineStatistics: calculateLineStatistics(detailedTrades.map(trade => ({ line: trade.line, time: trade.time, pnl: trade.actualPnl }))),
+      events,
+      eventTypes: Array.from(eventTypeMap.values()),
+      detailedTrades,
+      trades: lifecycles
+    }, { strategyId });
 
     // Calculate the merged date range from the daily PNL data
     const sortedDates = Array.from(dailyPnlMap.keys()).sort();
@@ -330,9 +344,9 @@ export async function POST(request: NextRequest) {
         winRate,
         profitFactor,
         maxDrawdown,
-        sharpeRatio,
         dateRange: mergedDateRange
-      }
+      },
+      ingestion: { timings, totalMs }
     });
 
   } catch (error) {
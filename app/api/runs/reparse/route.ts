@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ReparseScope, previewReparse, applyReparse } from '@/lib/reparse';
+import '@/lib/init-db';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { scope, runId, strategyId, apply, runIds } = await request.json();
+
+    let reparseScope: ReparseScope;
+    if (scope === 'run' && Number.isInteger(runId)) {
+      reparseScope = { type: 'run', runId };
+    } else if (scope === 'strategy' && Number.isInteger(strategyId)) {
+      reparseScope = { type: 'strategy', strategyId };
+    } else if (scope === 'all') {
+      reparseScope = { type: 'all' };
+    } else {
+      return NextResponse.json(
+        { error: 'Invalid request. scope must be "run" (with runId), "strategy" (with strategyId) or "all".' },
+        { status: 400 }
+      );
+    }
+
+    if (runIds !== undefined && (!Array.isArray(runIds) || !runIds.every(Number.isInteger))) {
+      return NextResponse.json(
+        { error: 'runIds must be an array of run IDs' },
+        { status: 400 }
+      );
+    }
+
+    if (!apply) {
+      const plans = await previewReparse(reparseScope);
+      return NextResponse.json({ success: true, applied: [], plans });
+    }
+
+    const { plans, applied } = await applyReparse(reparseScope, runIds);
+    return NextResponse.json({
+      success: true,
+      applied,
+      plans,
+      message: `Re-parsed ${applied.length} run${applied.length === 1 ? '' : 's'}`
+    });
+
+  } catch (error) {
+    console.error('Error re-parsing runs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const strategyId = searchParams.get('strategyId');
+    const tag = searchParams.get('tag');
 
     let sql = `
       SELECT 
@@ -18,19 +19,37 @@ export async function GET(request: NextRequest) {
         sr.profit_factor,
         sr.max_drawdown,
         sr.sharpe_ratio,
+        sr.sortino_ratio,
+        sr.calmar_ratio,
+        sr.mar_ratio,
         sr.created_at,
         sr.is_baseline,
+        sr.parser_name,
+        sr.parser_version,
+        sr.run_tag,
+        sr.source_run_id,
+        sr.simulation,
         s.name as strategy_name
       FROM strategy_runs sr
       JOIN strategies s ON sr.strategy_id = s.id
     `;
     
     const args: any[] = [];
+    const conditions: string[] = [];
     
     if (strategyId) {
-      sql += ' WHERE sr.strategy_id = ?';
+      conditions.push('sr.strategy_id = ?');
       args.push(parseInt(strategyId));
     }
+
+    if (tag) {
+      conditions.push('sr.run_tag = ?');
+      args.push(tag);
+    }
+
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
     
     sql += ' ORDER BY sr.created_at DESC';
 
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { testPairedDifference, DEFAULT_BOOTSTRAP_ITERATIONS } from '@/lib/significance';
+import '@/lib/init-db';
+
+const MAX_BOOTSTRAP_ITERATIONS = 100000;
+
+// Paired significance tests of run2's daily PNL against run1's, over the dates both runs traded
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const run1 = parseInt(searchParams.get('run1') || '');
+    const run2 = parseInt(searchParams.get('run2') || '');
+    const significanceLevel = parseFloat(searchParams.get('alpha') || '0.05');
+    const iterations = parseInt(searchParams.get('iterations') || String(DEFAULT_BOOTSTRAP_ITERATIONS));
+    const seed = parseInt(searchParams.get('seed') || '1');
+
+    if (isNaN(run1) || isNaN(run2) || run1 === run2) {
+      return NextResponse.json(
+        { error: 'run1 and run2 must be two different run IDs' },
+        { status: 400 }
+      );
+    }
+    if (!(significanceLevel > 0 && significanceLevel < 1)) {
+      return NextResponse.json({ error: 'alpha must be between 0 and 1' }, { status: 400 });
+    }
+    if (isNaN(iterations) || iterations < 100 || iterations > MAX_BOOTSTRAP_ITERATIONS) {
+      return NextResponse.json(
+        { error: `iterations must be between 100 and ${MAX_BOOTSTRAP_ITERATIONS}` },
+        { status: 400 }
+      );
+    }
+    if (isNaN(seed)) {
+      return NextResponse.json({ error: 'seed must be an integer' }, { status: 400 });
+    }
+
+    const runs = await db.execute({
+      sql: 'SELECT id FROM strategy_runs WHERE id IN (?, ?)',
+      args: [run1, run2]
+    });
+    if (runs.rows.length < 2) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    const overlap = await db.execute({
+      sql: `
+        SELECT a.date, a.pnl as a_pnl, b.pnl as b_pnl
+        FROM daily_pnl a
+        JOIN daily_pnl b ON b.date = a.date AND b.run_id = ?
+        WHERE a.run_id = ?
+        ORDER BY a.date
+      `,
+      args: [run2, run1]
+    });
+
+    const days = overlap.rows.map((row: any) => ({
+      date: row.date as string,
+      a: Number(row.a_pnl),
+      b: Number(row.b_pnl)
+    }));
+
+    return NextResponse.json({
+      success: true,
+      run1,
+      run2,
+      from: days[0]?.date ?? null,
+      to: days[days.length - 1]?.date ?? null,
+      ...testPairedDifference(days, { significanceLevel, iterations, seed })
+    });
+
+  } catch (error) {
+    console.error('Error testing run significance:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { getSlAdjustmentReport } from '@/lib/sl-adjustments';
+import '@/lib/init-db';
+
+// The SL adjustment report of several runs side by side, without the per-trade rows
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const runIds = (searchParams.get('runIds') || '').split(',').filter(Boolean).map(Number);
+
+    if (runIds.length < 1 || runIds.some(runId => !Number.isInteger(runId))) {
+      return NextResponse.json(
+        { error: 'runIds must be a comma separated list of run IDs' },
+        { status: 400 }
+      );
+    }
+
+    const runs = await db.execute({
+      sql: `SELECT id, run_name FROM strategy_runs WHERE id IN (${runIds.map(() => '?').join(', ')}) ORDER BY id`,
+      args: runIds
+    });
+    if (runs.rows.length < new Set(runIds).size) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    const reports = [];
+    for (const row of runs.rows as any[]) {
+      const report = await getSlAdjustmentReport(db, Number(row.id));
+      reports.push({
+        id: Number(row.id),
+        name: row.run_name as string | null,
+        originalStopLoss: report.originalStopLoss,
+        unmatchedAdjustments: report.unmatchedAdjustments,
+        overall: report.overall,
+        byTrigger: report.byTrigger
+      });
+    }
+
+    return NextResponse.json({ success: true, runs: reports });
+
+  } catch (error) {
+    console.error('Error comparing SL adjustments:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import '@/lib/init-db';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; splitId: string }> }
+) {
+  try {
+    const { id, splitId } = await params;
+
+    if (isNaN(Number(id)) || isNaN(Number(splitId))) {
+      return NextResponse.json(
+        { error: 'Invalid strategy or split ID' },
+        { status: 400 }
+      );
+    }
+
+    const result = await db.execute({
+      sql: 'DELETE FROM strategy_date_splits WHERE id = ? AND strategy_id = ?',
+      args: [Number(splitId), Number(id)]
+    });
+
+    if (result.rowsAffected === 0) {
+      return NextResponse.json(
+        { error: 'Split not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting date split:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { getDateSplits } from '@/lib/walk-forward';
+import '@/lib/init-db';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id || isNaN(Number(id))) {
+      return NextResponse.json(
+        { error: 'Invalid strategy ID' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      splits: await getDateSplits(db, Number(id))
+    });
+
+  } catch (error) {
+    console.error('Error fetching date splits:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { name, inSampleStart, inSampleEnd, outOfSampleStart, outOfSampleEnd } = await request.json();
+
+    if (!id || isNaN(Number(id))) {
+      return NextResponse.json(
+        { error: 'Invalid strategy ID' },
+        { status: 400 }
+      );
+    }
+
+    const dates = [inSampleStart, inSampleEnd, outOfSampleStart, outOfSampleEnd];
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+    if (!dates.every(date => typeof date === 'string' && DATE_PATTERN.test(date))) {
+      return NextResponse.json({ error: 'All four dates are required as YYYY-MM-DD' }, { status: 400 });
+    }
+    if (inSampleStart > inSampleEnd || outOfSampleStart > outOfSampleEnd) {
+      return NextResponse.json({ error: 'Each segment must start on or before its end' }, { status: 400 });
+    }
+    if (outOfSampleStart <= inSampleEnd && inSampleStart <= outOfSampleEnd) {
+      return NextResponse.json({ error: 'In-sample and out-of-sample segments must not overlap' }, { status: 400 });
+    }
+
+    const exists = await db.execute({ sql: 'SELECT id FROM strategies WHERE id = ?', args: [Number(id)] });
+    if (exists.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Strategy not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await db.execute({
+      sql: `
+        INSERT INTO strategy_date_splits
+          (strategy_id, name, in_sample_start, in_sample_end, out_of_sample_start, out_of_sample_end)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `,
+      args: [Number(id), name.trim(), ...dates]
+    });
+
+    return NextResponse.json({
+      success: true,
+      splitId: Number(result.lastInsertRowid)
+    });
+
+  } catch (error) {
+    console.error('Error creating date split:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
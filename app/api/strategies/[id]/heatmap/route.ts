@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import {
+  buildHeatmap,
+  HeatmapAggregate,
+  HeatmapMetric,
+  HeatmapRun,
+  HEATMAP_AGGREGATES,
+  HEATMAP_METRICS
+} from '@/lib/parameter-heatmap';
+import '@/lib/init-db';
+
+// Lists the strategy's numeric parameters, and with x and y given the heatmap of a metric over them
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id || isNaN(Number(id))) {
+      return NextResponse.json(
+        { error: 'Invalid strategy ID' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const x = searchParams.get('x');
+    const y = searchParams.get('y');
+    const metric = (searchParams.get('metric') || 'netPnl') as HeatmapMetric;
+    const method = (searchParams.get('aggregate') || 'mean') as HeatmapAggregate;
+
+    if (!Object.hasOwn(HEATMAP_METRICS, metric)) {
+      return NextResponse.json(
+        { error: `metric must be one of ${Object.keys(HEATMAP_METRICS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!HEATMAP_AGGREGATES.includes(method)) {
+      return NextResponse.json(
+        { error: `aggregate must be one of ${HEATMAP_AGGREGATES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if ((x || y) && (!x || !y || x === y)) {
+      return NextResponse.json(
+        { error: 'x and y must be two different parameter names' },
+        { status: 400 }
+      );
+    }
+
+    const exists = await db.execute({ sql: 'SELECT id FROM strategies WHERE id = ?', args: [Number(id)] });
+    if (exists.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Strategy not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only parameters that were actually varied are worth an axis
+    const available = await db.execute({
+      sql: `
+        SELECT sp.parameter_name, COUNT(DISTINCT CAST(sp.parameter_value AS REAL)) as distinct_values
+        FROM strategy_parameters sp
+        JOIN strategy_runs sr ON sr.id = sp.run_id
+        WHERE sr.strategy_id = ? AND sp.parameter_type = 'number'
+        GROUP BY sp.parameter_name
+        HAVING distinct_values > 1
+        ORDER BY sp.parameter_name
+      `,
+      args: [Number(id)]
+    });
+    const parameters = available.rows.map((row: any) => ({
+      name: row.parameter_name as string,
+      distinctValues: Number(row.distinct_values)
+    }));
+
+    if (!x || !y) {
+      return NextResponse.json({ success: true, parameters, heatmap: null });
+    }
+
+    const { column } = HEATMAP_METRICS[metric];
+    const result = await db.execute({
+      sql: `
+        SELECT sr.id, sr.run_name, sr.run_description, sr.${column} as metric_value,
+               px.parameter_value as x_value, py.parameter_value as y_value
+        FROM strategy_runs sr
+        JOIN strategy_parameters px ON px.run_id = sr.id AND px.parameter_name = ? AND px.parameter_type = 'number'
+        JOIN strategy_parameters py ON py.run_id = sr.id AND py.parameter_name = ? AND py.parameter_type = 'number'
+        WHERE sr.strategy_id = ?
+      `,
+      args: [x, y, Number(id)]
+    });
+
+    const runs: HeatmapRun[] = result.rows
+      .map((row: any) => ({
+        id: Number(row.id),
+        name: row.run_description || row.run_name || `Run ${row.id}`,
+        x: parseFloat(row.x_value),
+        y: parseFloat(row.y_value),
+        value: row.metric_value !== null && isFinite(Number(row.metric_value)) ? Number(row.metric_value) : null
+      }))
+      .filter((run: HeatmapRun) => isFinite(run.x) && isFinite(run.y));
+
+    const total = await db.execute({ sql: 'SELECT COUNT(*) as count FROM strategy_runs WHERE strategy_id = ?', args: [Number(id)] });
+
+    return NextResponse.json({
+      success: true,
+      parameters,
+      heatmap: {
+        x,
+        y,
+        metric,
+        aggregate: method,
+        // Runs missing either parameter are left out
+        excludedRuns: Number(total.rows[0].count) - runs.length,
+        ...buildHeatmap(runs, method)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error building parameter heatmap:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { buildLineMatrix, DEFAULT_LOSER_CRITERIA, LineMatrixRun, parseLevels } from '@/lib/line-matrix';
+import '@/lib/init-db';
+
+// Net PNL, trades and win rate of every line level in every run of a strategy, from the trade summaries
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const minRuns = parseInt(searchParams.get('minRuns') || String(DEFAULT_LOSER_CRITERIA.minRuns));
+    const losingShare = parseFloat(searchParams.get('losingShare') || String(DEFAULT_LOSER_CRITERIA.losingShare));
+
+    if (!id || isNaN(Number(id))) {
+      return NextResponse.json(
+        { error: 'Invalid strategy ID' },
+        { status: 400 }
+      );
+    }
+    if (isNaN(minRuns) || minRuns < 1) {
+      return NextResponse.json({ error: 'minRuns must be at least 1' }, { status: 400 });
+    }
+    if (!(losingShare > 0 && losingShare <= 1)) {
+      return NextResponse.json({ error: 'losingShare must be greater than 0 and at most 1' }, { status: 400 });
+    }
+
+    const exists = await db.execute({ sql: 'SELECT id FROM strategies WHERE id = ?', args: [Number(id)] });
+    if (exists.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Strategy not found' },
+        { status: 404 }
+      );
+    }
+
+    const [runsResult, levelsResult, tradesResult] = await Promise.all([
+      db.execute({
+        sql: 'SELECT id, run_name, run_description FROM strategy_runs WHERE strategy_id = ? ORDER BY id',
+        args: [Number(id)]
+      }),
+      db.execute({
+        sql: `
+          SELECT sp.run_id, sp.parameter_name, sp.parameter_value
+          FROM strategy_parameters sp
+          JOIN strategy_runs sr ON sr.id = sp.run_id
+          WHERE sr.strategy_id = ? AND sp.parameter_name IN ('Upside Levels', 'Downside Levels')
+        `,
+        args: [Number(id)]
+      }),
+      db.execute({
+        sql: `
+          SELECT ts.run_id, ts.line, ts.actual_pnl
+          FROM strategy_trade_summaries ts
+          JOIN strategy_runs sr ON sr.id = ts.run_id
+          WHERE sr.strategy_id = ?
+        `,
+        args: [Number(id)]
+      })
+    ]);
+
+    const runs = new Map<number, LineMatrixRun>();
+    for (const row of runsResult.rows as any[]) {
+      runs.set(Number(row.id), {
+        id: Number(row.id),
+        name: row.run_description || row.run_name || `Run ${row.id}`,
+        upsideLevels: null,
+        downsideLevels: null
+      });
+    }
+    for (const row of levelsResult.rows as any[]) {
+      const run = runs.get(Number(row.run_id));
+      if (!run) continue;
+      if (row.parameter_name === 'Upside Levels') {
+        run.upsideLevels = parseLevels(row.parameter_value);
+      } else {
+        run.downsideLevels = parseLevels(row.parameter_value);
+      }
+    }
+
+    const trades = (tradesResult.rows as any[]).map(row => ({
+      runId: Number(row.run_id),
+      line: row.line as string | null,
+      pnl: Number(row.actual_pnl)
+    }));
+    // Runs without trade summaries would only add empty columns
+    const tradedRunIds = new Set(trades.map(trade => trade.runId));
+
+    return NextResponse.json({
+      success: true,
+      runs: Array.from(runs.values()).filter(run => tradedRunIds.has(run.id)),
+      rows: buildLineMatrix(Array.from(runs.values()), trades, { minRuns, losingShare }),
+      criteria: { minRuns, losingShare }
+    });
+
+  } catch (error) {
+    console.error('Error building line matrix:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Transaction } from '@libsql/client';
+import { db } from '@/lib/database';
+import { getRiskSettings, recomputeRunRiskMetrics, DEFAULT_RISK_SETTINGS } from '@/lib/risk-metrics';
+import '@/lib/init-db';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id || isNaN(Number(id))) {
+      return NextResponse.json(
+        { error: 'Invalid strategy ID' },
+        { status: 400 }
+      );
+    }
+
+    const exists = await db.execute({ sql: 'SELECT id FROM strategies WHERE id = ?', args: [Number(id)] });
+    if (exists.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Strategy not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings: await getRiskSettings(db, Number(id)),
+      defaults: DEFAULT_RISK_SETTINGS
+    });
+
+  } catch (error) {
+    console.error('Error fetching risk settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save the settings and recompute the ratios of every run of the strategy with them
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { accountSize, riskFreeRate } = await request.json();
+
+    if (!id || isNaN(Number(id))) {
+      return NextResponse.json(
+        { error: 'Invalid strategy ID' },
+        { status: 400 }
+      );
+    }
+    if (typeof accountSize !== 'number' || !isFinite(accountSize) || accountSize <= 0) {
+      return NextResponse.json(
+        { error: 'accountSize must be a positive number' },
+        { status: 400 }
+      );
+    }
+    if (typeof riskFreeRate !== 'number' || !isFinite(riskFreeRate) || riskFreeRate < 0 || riskFreeRate >= 1) {
+      return NextResponse.json(
+        { error: 'riskFreeRate must be an annual fraction between 0 and 1, e.g. 0.04' },
+        { status: 400 }
+      );
+    }
+
+    const tx: Transaction = await db.transaction('write');
+    let recomputedRuns: number;
+    try {
+      const result = await tx.execute({
+        sql: 'UPDATE strategies SET account_size = ?, risk_free_rate = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        args: [accountSize, riskFreeRate, Number(id)]
+      });
+      if (result.rowsAffected === 0) {
+        await tx.rollback();
+        return NextResponse.json(
+          { error: 'Strategy not found' },
+          { status: 404 }
+        );
+      }
+      recomputedRuns = await recomputeRunRiskMetrics(tx, Number(id));
+      await tx.commit();
+    } catch (error) {
+      if (!tx.closed) {
+        await tx.rollback();
+      }
+      throw error;
+    } finally {
+      tx.close();
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings: { accountSize, riskFreeRate },
+      recomputedRuns
+    });
+
+  } catch (error) {
+    console.error('Error updating risk settings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { analyseSensitivity, SensitivityRun } from '@/lib/sensitivity';
+import '@/lib/init-db';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id || isNaN(Number(id))) {
+      return NextResponse.json(
+        { error: 'Invalid strategy ID' },
+        { status: 400 }
+      );
+    }
+
+    const exists = await db.execute({ sql: 'SELECT id FROM strategies WHERE id = ?', args: [Number(id)] });
+    if (exists.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Strategy not found' },
+        { status: 404 }
+      );
+    }
+
+    const [runsResult, parametersResult] = await Promise.all([
+      db.execute({
+        sql: `
+          SELECT id, run_name, run_description, net_pnl, profit_factor, max_drawdown
+          FROM strategy_runs
+          WHERE strategy_id = ?
+        `,
+        args: [Number(id)]
+      }),
+      db.execute({
+        sql: `
+          SELECT sp.run_id, sp.parameter_name, sp.parameter_value, sp.parameter_type
+          FROM strategy_parameters sp
+          JOIN strategy_runs sr ON sr.id = sp.run_id
+          WHERE sr.strategy_id = ?
+        `,
+        args: [Number(id)]
+      })
+    ]);
+
+    const runs = new Map<number, SensitivityRun>();
+    for (const row of runsResult.rows as any[]) {
+      runs.set(Number(row.id), {
+        id: Number(row.id),
+        name: row.run_description || row.run_name || `Run ${row.id}`,
+        netPnl: Number(row.net_pnl),
+        profitFactor: row.profit_factor !== null ? Number(row.profit_factor) : null,
+        maxDrawdown: row.max_drawdown !== null ? Number(row.max_drawdown) : null,
+        parameters: {},
+        numericParameters: []
+      });
+    }
+    for (const row of parametersResult.rows as any[]) {
+      const run = runs.get(Number(row.run_id));
+      if (!run) continue;
+      run.parameters[row.parameter_name] = row.parameter_value;
+      if (row.parameter_type === 'number') {
+        run.numericParameters.push(row.parameter_name);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      runCount: runs.size,
+      parameters: analyseSensitivity(Array.from(runs.values()))
+    });
+
+  } catch (error) {
+    console.error('Error analysing parameter sensitivity:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
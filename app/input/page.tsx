@@ -6,17 +6,46 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, Upload, CheckCircle, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Upload, CheckCircle, XCircle, HelpCircle, Eye, Copy } from 'lucide-react';
+import { ParseDiagnosticsPanel } from '@/components/ParseDiagnosticsPanel';
+import { RunPreviewPanel } from '@/components/RunPreviewPanel';
+import { BulkUploadPanel } from '@/components/BulkUploadPanel';
+import type { ParseDiagnostics } from '@/lib/parsers/parse-diagnostics';
+import type { ParsedRunData } from '@/lib/parsers/base-parser';
+
+interface ParserCandidate {
+  strategyName: string;
+  score: number;
+  reasons: string[];
+}
+
+interface DuplicateMatch {
+  runId: number;
+  runName: string | null;
+  createdAt: string;
+  kind: 'exact' | 'near';
+}
+
+type DuplicateAction = 'skip' | 'replace' | 'keep-both';
 
 export default function InputPage() {
   const [rawData, setRawData] = useState('');
   const [runDescription, setRunDescription] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [parserChoices, setParserChoices] = useState<ParserCandidate[] | null>(null);
+  const [selectedParser, setSelectedParser] = useState<string | undefined>(undefined);
+  const [choosingForPreview, setChoosingForPreview] = useState(false);
+  const [preview, setPreview] = useState<{ parsedData: ParsedRunData; parserName?: string; duplicates: DuplicateMatch[] } | null>(null);
+  const [duplicateChoice, setDuplicateChoice] = useState<{ message: string; duplicates: DuplicateMatch[]; fromPreview: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
   const [result, setResult] = useState<{
     success: boolean;
     message: string;
     runId?: number;
     strategyName?: string;
+    parserName?: string;
+    diagnostics?: ParseDiagnostics | null;
     summary?: {
       totalTrades: number;
       netPnl: number;
@@ -27,19 +56,79 @@ export default function InputPage() {
     };
   } | null>(null);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!rawData.trim()) {
+  const showSavedRun = (data: any) => {
+    setDuplicateChoice(null);
+    setResult({
+      success: true,
+      message: data.message,
+      runId: data.runId,
+      strategyName: data.strategyName,
+      parserName: data.parserName,
+      diagnostics: data.diagnostics,
+      summary: data.summary
+    });
+    setPreview(null);
+    setSelectedParser(undefined);
+    setRawData(''); // Clear the form
+    setRunDescription(''); // Clear the description
+  };
+
+  const submitData = async (parserName: string | undefined, previewOnly: boolean, onDuplicate?: DuplicateAction) => {
+    setIsLoading(true);
+    setResult(null);
+    setPreview(null);
+    setDuplicateChoice(null);
+
+    try {
+      const response = await fetch('/api/parse', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ rawData, runDescription, parserName, preview: previewOnly, onDuplicate }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setParserChoices(null);
+        if (previewOnly) {
+          setSelectedParser(parserName);
+          setPreview({ parsedData: data.parsedData, parserName: data.parserName, duplicates: data.duplicates || [] });
+        } else {
+          showSavedRun(data);
+        }
+      } else if (response.status === 409 && data.error === 'duplicate') {
+        // Already imported, ask whether to skip, replace or keep both
+        setSelectedParser(parserName);
+        setDuplicateChoice({ message: data.message, duplicates: data.duplicates, fromPreview: false });
+      } else if (response.status === 409 && data.parserRanking) {
+        // Several parsers match about equally well, ask which one to use
+        setParserChoices(data.parserRanking);
+        setChoosingForPreview(previewOnly);
+      } else {
+        setResult({
+          success: false,
+          message: data.error || 'Failed to parse data'
+        });
+      }
+    } catch {
       setResult({
         success: false,
-        message: 'Please enter some raw data to parse'
+        message: 'Network error. Please try again.'
       });
-      return;
+    } finally {
+      setIsLoading(false);
     }
+  };
 
-    setIsLoading(true);
+  // Commit the previewed ParsedRunData as-is instead of parsing the raw data a second time
+  const handleSavePreview = async (onDuplicate?: DuplicateAction) => {
+    if (!preview) return;
+
+    setIsSaving(true);
     setResult(null);
+    setDuplicateChoice(null);
 
     try {
       const response = await fetch('/api/parse', {
@@ -47,25 +136,19 @@ export default function InputPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ rawData, runDescription }),
+        body: JSON.stringify({ rawData, runDescription, parserName: preview.parserName, parsedData: preview.parsedData, onDuplicate }),
       });
 
       const data = await response.json();
 
       if (data.success) {
-        setResult({
-          success: true,
-          message: data.message,
-          runId: data.runId,
-          strategyName: data.strategyName,
-          summary: data.summary
-        });
-        setRawData(''); // Clear the form
-        setRunDescription(''); // Clear the description
+        showSavedRun(data);
+      } else if (response.status === 409 && data.error === 'duplicate') {
+        setDuplicateChoice({ message: data.message, duplicates: data.duplicates, fromPreview: true });
       } else {
         setResult({
           success: false,
-          message: data.error || 'Failed to parse data'
+          message: data.error || 'Failed to save run'
         });
       }
     } catch {
@@ -74,19 +157,57 @@ export default function InputPage() {
         message: 'Network error. Please try again.'
       });
     } finally {
-      setIsLoading(false);
+      setIsSaving(false);
+    }
+  };
+
+  const resolveDuplicate = (action: DuplicateAction) => {
+    if (duplicateChoice?.fromPreview) {
+      handleSavePreview(action);
+    } else {
+      submitData(selectedParser, false, action);
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!rawData.trim()) {
+      setResult({
+        success: false,
+        message: 'Please enter some raw data to parse'
+      });
+      return;
+    }
+
+    setParserChoices(null);
+    await submitData(selectedParser, false);
+  };
+
+  const handlePreview = async () => {
+    if (!rawData.trim()) {
+      setResult({
+        success: false,
+        message: 'Please enter some raw data to parse'
+      });
+      return;
+    }
+
+    setParserChoices(null);
+    await submitData(selectedParser, true);
+  };
+
   return (
     <div className="container mx-auto py-8 px-4 max-w-4xl">
       <div className="mb-8">
         <h1 className="text-3xl font-bold mb-2 text-white">Strategy Data Input</h1>
         <p className="text-gray-300">
-          Paste your raw strategy run data below to analyze and compare performance.
+          Upload log files or paste your raw strategy run data below to analyze and compare performance.
         </p>
       </div>
 
+      <BulkUploadPanel />
+
       <Card className="bg-gray-800 border-gray-700">
         <CardHeader>
           <CardTitle className="text-white">Raw Data Input</CardTitle>
@@ -114,26 +235,90 @@ export default function InputPage() {
                 id="rawData"
                 placeholder="Paste your raw strategy data here..."
                 value={rawData}
-                onChange={(e) => setRawData(e.target.value)}
+                onChange={(e) => {
+                  setRawData(e.target.value);
+                  setSelectedParser(undefined);
+                  setPreview(null);
+                }}
                 className="min-h-[200px] max-h-[300px] overflow-y-auto font-mono text-sm bg-gray-900 border-gray-600 text-white placeholder-gray-400"
               />
             </div>
 
-            <Button type="submit" disabled={isLoading} className="w-full">
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Parsing Data...
-                </>
-              ) : (
-                <>
-                  <Upload className="mr-2 h-4 w-4" />
-                  Parse & Save Data
-                </>
-              )}
-            </Button>
+            <div className="flex space-x-2">
+              <Button type="button" variant="outline" disabled={isLoading} onClick={handlePreview} className="flex-1">
+                <Eye className="mr-2 h-4 w-4" />
+                Preview
+              </Button>
+              <Button type="submit" disabled={isLoading} className="flex-1">
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Parsing Data...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Parse & Save Data
+                  </>
+                )}
+              </Button>
+            </div>
           </form>
 
+          {parserChoices && (
+            <Alert className="mt-6 border-yellow-600 bg-yellow-900/20">
+              <HelpCircle className="h-4 w-4 text-yellow-400" />
+              <AlertDescription className="text-yellow-200">
+                More than one parser matches this data. Choose the parser to use:
+                <div className="mt-3 space-y-2">
+                  {parserChoices.map(candidate => (
+                    <div key={candidate.strategyName} className="flex items-center justify-between p-3 bg-gray-800/50 border border-gray-600 rounded-lg">
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-semibold text-white">{candidate.strategyName}</span>
+                          <Badge variant="secondary">{(candidate.score * 100).toFixed(0)}% confidence</Badge>
+                        </div>
+                        <div className="text-xs text-gray-400 mt-1">{candidate.reasons.join(' • ')}</div>
+                      </div>
+                      <Button size="sm" disabled={isLoading} onClick={() => submitData(candidate.strategyName, choosingForPreview)}>
+                        Use this parser
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {duplicateChoice && (
+            <Alert className="mt-6 border-yellow-600 bg-yellow-900/20">
+              <Copy className="h-4 w-4 text-yellow-400" />
+              <AlertDescription className="text-yellow-200">
+                {duplicateChoice.message}.
+                <div className="mt-2 space-y-1 text-sm">
+                  {duplicateChoice.duplicates.map(duplicate => (
+                    <div key={duplicate.runId} className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-yellow-300 border-yellow-600">{duplicate.kind}</Badge>
+                      <span className="text-white">Run #{duplicate.runId} {duplicate.runName}</span>
+                      <span className="text-gray-400">imported {duplicate.createdAt}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-3 flex gap-2">
+                  <Button size="sm" variant="outline" disabled={isLoading || isSaving} onClick={() => resolveDuplicate('skip')}>
+                    Skip
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={isLoading || isSaving} onClick={() => resolveDuplicate('replace')}>
+                    Replace run #{duplicateChoice.duplicates[0]?.runId}
+                  </Button>
+                  <Button size="sm" disabled={isLoading || isSaving} onClick={() => resolveDuplicate('keep-both')}>
+                    Keep both
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {result && (
             <Alert className={`mt-6 ${result.success ? 'border-green-600 bg-green-900/20' : 'border-red-600 bg-red-900/20'}`}>
               {result.success ? (
@@ -146,6 +331,7 @@ export default function InputPage() {
                 {result.runId && (
                   <div className="mt-2 text-sm">
                     <strong>Run ID:</strong> {result.runId} | <strong>Strategy:</strong> {result.strategyName}
+                    {result.parserName && <> | <strong>Parser:</strong> {result.parserName}</>}
                   </div>
                 )}
                 {result.summary && (
@@ -164,7 +350,7 @@ export default function InputPage() {
                       </div>
                       <div>
                         <span className="text-gray-400">Win Rate:</span>
-                        <div className="font-mono text-white">{result.summary.winRate.toFixed(1)}%</div>
+                        <div className="font-mono text-white">{(result.summary.winRate * 100).toFixed(1)}%</div>
                       </div>
                       <div>
                         <span className="text-gray-400">Profit Factor:</span>
@@ -184,9 +370,34 @@ export default function InputPage() {
               </AlertDescription>
             </Alert>
           )}
+
+          {result?.diagnostics && (
+            <div className="mt-4">
+              <ParseDiagnosticsPanel diagnostics={result.diagnostics} />
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {preview && preview.duplicates.length > 0 && (
+        <Alert className="mt-6 border-yellow-600 bg-yellow-900/20">
+          <Copy className="h-4 w-4 text-yellow-400" />
+          <AlertDescription className="text-yellow-200">
+            This run matches {preview.duplicates.map(duplicate => `run #${duplicate.runId} (${duplicate.kind})`).join(', ')}.
+            You will be asked whether to skip, replace or keep both when saving.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {preview && (
+        <RunPreviewPanel
+          parsedData={preview.parsedData}
+          parserName={preview.parserName}
+          isSaving={isSaving}
+          onSave={() => handleSavePreview()}
+        />
+      )}
+
       <Card className="mt-6 bg-gray-800 border-gray-700">
         <CardHeader>
           <CardTitle className="text-white">Supported Data Formats</CardTitle>
@@ -2,7 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { BarChart3, Upload, Home } from "lucide-react";
+import { BarChart3, Upload, Home, FileCode } from "lucide-react";
 import { Toaster } from "@/components/ui/sonner";
 import "./globals.css";
 
@@ -52,6 +52,12 @@ export default function RootLayout({
                     Upload Data
                   </Button>
                 </Link>
+                <Link href="/parsers">
+                  <Button variant="ghost" size="sm">
+                    <FileCode className="h-4 w-4 mr-2" />
+                    Parsers
+                  </Button>
+                </Link>
               </div>
             </div>
           </div>
@@ -9,12 +9,23 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Loader2,  Settings, Trash2, Eye, GitMerge, ChevronDown, ChevronUp, Info, Star, Calendar} from 'lucide-react';
+import { Loader2,  Settings, Trash2, Eye, GitMerge, ChevronDown, ChevronUp, Info, Star, Calendar, RefreshCw, FlaskConical} from 'lucide-react';
 import { toast } from 'sonner';
 import {  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Cell, Legend, ScatterChart, Scatter, ReferenceLine } from 'recharts';
 const Plot = dynamic(() => import('react-plotly.js'), { ssr: false });
 import { RunDetailsDialog } from '@/components/RunDetailsDialog';
 import { DayCompareDialog } from '@/components/DayCompareDialog';
+import { ReparseDialog } from '@/components/ReparseDialog';
+import { DuplicateRunsPanel } from '@/components/DuplicateRunsPanel';
+import { RiskSettingsPanel } from '@/components/RiskSettingsPanel';
+import { DateSplitsPanel } from '@/components/DateSplitsPanel';
+import { DrawdownPanel } from '@/components/DrawdownPanel';
+import { SignificancePanel } from '@/components/SignificancePanel';
+import { LineComparisonPanel } from '@/components/LineComparisonPanel';
+import { SensitivityPanel } from '@/components/SensitivityPanel';
+import { ParameterHeatmap } from '@/components/ParameterHeatmap';
+import { LineMatrixPanel } from '@/components/LineMatrixPanel';
+import { SlAdjustmentComparisonPanel } from '@/components/SlAdjustmentComparisonPanel';
 import { formatDateOnly, formatDateRange, getDateRangeFromStrings, findOverlappingDates } from '@/lib/date-utils';
 
 interface Strategy {
@@ -37,10 +48,18 @@ interface Run {
   win_rate: number;
   profit_factor: number;
   max_drawdown: number;
-  sharpe_ratio: number;
+  sharpe_ratio: number | null;
+  sortino_ratio?: number | null;
+  calmar_ratio?: number | null;
+  mar_ratio?: number | null;
   created_at: string;
   strategy_name: string;
   is_baseline?: boolean;
+  parser_name?: string | null;
+  parser_version?: string | null;
+  run_tag?: string | null;
+  source_run_id?: number | null;
+  simulation?: string | null;
 }
 
 interface DailyPnl {
@@ -250,6 +269,21 @@ export default function AnalysisPage() {
     }
   };
 
+  // Re-parsing and duplicate clean-up rewrite runs, so reload everything cached for them
+  const handleRunsChanged = () => {
+    fetchStrategies();
+    fetchRuns(selectedStrategy);
+    runs.forEach(run => fetchDailyPnl(run.id));
+    setParameters({});
+    selectedRuns.forEach(runId => fetchParameters(runId));
+  };
+
+  const handleDuplicateDeleted = (runId: number) => {
+    setSelectedRuns(prev => prev.filter(id => id !== runId));
+    setRuns(prev => prev.filter(run => run.id !== runId));
+    fetchStrategies();
+  };
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -1117,7 +1151,9 @@ export default function AnalysisPage() {
           <TabsTrigger value="runs" className="data-[state=active]:bg-gray-700 data-[state=active]:text-white">Runs Overview</TabsTrigger>
           <TabsTrigger value="comparison" className="data-[state=active]:bg-gray-700 data-[state=active]:text-white">Run Comparison</TabsTrigger>
           <TabsTrigger value="charts" className="data-[state=active]:bg-gray-700 data-[state=active]:text-white">Performance Charts</TabsTrigger>
-          <TabsTrigger value="notes" className="data-[state=active]:bg-gray-700 data-[state=active]:text-white">Notes</TabsTrigger>
+          <TabsTrigger value="sensitivity" className="data-[state=active]:bg-gray-700 data-[state=active]:text-white">Optimisation</TabsTrigger>
+          <TabsTrigger value="notes" className="data-[state=active]:bg-gray-700 data-[state=active]:text-white">Notes &amp; Settings</TabsTrigger>
+          <TabsTrigger value="duplicates" className="data-[state=active]:bg-gray-700 data-[state=active]:text-white">Duplicates</TabsTrigger>
         </TabsList>
 
         <TabsContent value="runs" className="space-y-6">
@@ -1166,10 +1202,33 @@ export default function AnalysisPage() {
 
           <Card className="bg-gray-800 border-gray-700">
             <CardHeader>
-              <CardTitle className="text-white">Strategy Runs</CardTitle>
-              <CardDescription className="text-gray-300">
-                Select runs to compare their performance and parameters. Select 2 or more runs to enable merging.
-              </CardDescription>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="text-white">Strategy Runs</CardTitle>
+                  <CardDescription className="text-gray-300">
+                    Select runs to compare their performance and parameters. Select 2 or more runs to enable merging.
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <ReparseDialog
+                    scope="strategy"
+                    strategyId={parseInt(selectedStrategy)}
+                    label={strategies.find(strategy => strategy.id.toString() === selectedStrategy)?.name || 'strategy'}
+                    onApplied={handleRunsChanged}
+                  >
+                    <Button variant="outline" size="sm" className="border-gray-600 text-gray-300 hover:bg-gray-700">
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Re-parse Strategy
+                    </Button>
+                  </ReparseDialog>
+                  <ReparseDialog scope="all" label="all runs" onApplied={handleRunsChanged}>
+                    <Button variant="outline" size="sm" className="border-gray-600 text-gray-300 hover:bg-gray-700">
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Re-parse All
+                    </Button>
+                  </ReparseDialog>
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
@@ -1203,6 +1262,21 @@ export default function AnalysisPage() {
                               Baseline
                             </Badge>
                           )}
+                          {run.run_tag && (
+                            <Badge variant="outline" className="border-gray-500 text-gray-300">
+                              {run.run_tag}
+                            </Badge>
+                          )}
+                          {run.simulation && (
+                            <Badge
+                              variant="outline"
+                              className="border-purple-500 text-purple-300 flex items-center gap-1"
+                              title={run.source_run_id ? `Simulated from run #${run.source_run_id}` : 'Simulated run'}
+                            >
+                              <FlaskConical className="h-3 w-3" />
+                              Virtual
+                            </Badge>
+                          )}
                         <h3 className="font-semibold text-white">
                           {run.run_name || `Run ${run.id}`}
                         </h3>
@@ -1239,6 +1313,20 @@ export default function AnalysisPage() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
+                        {/* Virtual runs have no raw data to re-parse */}
+                        {!run.simulation && (
+                          <ReparseDialog scope="run" runId={run.id} label={run.run_name || `Run ${run.id}`} onApplied={handleRunsChanged}>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => e.stopPropagation()}
+                              className="text-gray-400 hover:text-gray-200 hover:bg-gray-600"
+                              title={`Re-parse with the current parser${run.parser_version ? ` (stored: ${run.parser_name} ${run.parser_version})` : ''}`}
+                            >
+                              <RefreshCw className="h-4 w-4" />
+                            </Button>
+                          </ReparseDialog>
+                        )}
                         {baselineRun && run.id !== baselineRun.id && (
                           <Button
                             variant="ghost"
@@ -1295,7 +1383,7 @@ export default function AnalysisPage() {
                         </AlertDialog>
                       </div>
                     </div>
-                    <div className="mt-2 flex gap-2">
+                    <div className="mt-2 flex flex-wrap gap-2">
                       <Badge variant="outline">
                         Win Rate: {run.win_rate ? formatPercentage(run.win_rate) : 'N/A'}
                       </Badge>
@@ -1305,6 +1393,18 @@ export default function AnalysisPage() {
                       <Badge variant="outline">
                         Max DD: {run.max_drawdown ? formatCurrency(run.max_drawdown) : 'N/A'}
                       </Badge>
+                      <Badge variant="outline">
+                        Sharpe: {run.sharpe_ratio != null ? run.sharpe_ratio.toFixed(2) : 'N/A'}
+                      </Badge>
+                      <Badge variant="outline">
+                        Sortino: {run.sortino_ratio != null ? run.sortino_ratio.toFixed(2) : 'N/A'}
+                      </Badge>
+                      <Badge variant="outline">
+                        Calmar: {run.calmar_ratio != null ? run.calmar_ratio.toFixed(2) : 'N/A'}
+                      </Badge>
+                      <Badge variant="outline">
+                        MAR: {run.mar_ratio != null ? run.mar_ratio.toFixed(2) : 'N/A'}
+                      </Badge>
                     </div>
                   </div>
                 ))}
@@ -1381,6 +1481,35 @@ export default function AnalysisPage() {
                 </Card>
               )}
 
+              {/* Statistical Significance */}
+              {selectedRuns.length === 2 && (() => {
+                const [run1, run2] = [...selectedRuns].sort((a, b) => a - b).map(runId => {
+                  const run = runs.find(r => r.id === runId);
+                  return { id: runId, name: run?.run_description || run?.run_name || `Run ${runId}` };
+                });
+                return <SignificancePanel run1={run1} run2={run2} />;
+              })()}
+
+              {/* Line Performance */}
+              {selectedRuns.length > 1 && (
+                <LineComparisonPanel
+                  runs={[...selectedRuns].sort((a, b) => a - b).map(runId => {
+                    const run = runs.find(r => r.id === runId);
+                    return { id: runId, name: run?.run_description || run?.run_name || `Run ${runId}` };
+                  })}
+                />
+              )}
+
+              {/* SL Adjustments */}
+              {selectedRuns.length > 1 && (
+                <SlAdjustmentComparisonPanel
+                  runs={[...selectedRuns].sort((a, b) => a - b).map(runId => {
+                    const run = runs.find(r => r.id === runId);
+                    return { id: runId, name: run?.run_description || run?.run_name || `Run ${runId}` };
+                  })}
+                />
+              )}
+
               {/* Parameter Changes Summary */}
               {selectedRuns.length > 1 && (() => {
                 const paramComparison = compareParameters(selectedRuns);
@@ -1690,6 +1819,13 @@ export default function AnalysisPage() {
           {selectedRuns.length > 0 ? (
             <div className="space-y-6">
 
+            <DrawdownPanel
+              runs={[...selectedRuns].sort((a, b) => a - b).map(runId => ({
+                id: runId,
+                name: runs.find(run => run.id === runId)?.run_name || `Run ${runId}`
+              }))}
+            />
+
             {/* Proper Box Plot Distribution */}
             {selectedRuns.length > 1 && (() => {
               const plotData = getPlotlyBoxPlotData();
@@ -2433,6 +2569,12 @@ export default function AnalysisPage() {
           )}
         </TabsContent>
 
+        <TabsContent value="sensitivity" className="space-y-6">
+          <SensitivityPanel strategyId={selectedStrategy} />
+          <ParameterHeatmap strategyId={selectedStrategy} onRunSelect={handleViewRunDetails} />
+          <LineMatrixPanel strategyId={selectedStrategy} onRunSelect={handleViewRunDetails} />
+        </TabsContent>
+
         <TabsContent value="notes" className="space-y-6">
           <Card className="bg-gray-800 border-gray-700">
             <CardHeader>
@@ -2468,6 +2610,18 @@ export default function AnalysisPage() {
               </div>
             </CardContent>
           </Card>
+
+          {selectedStrategy && (
+            <RiskSettingsPanel strategyId={selectedStrategy} onSaved={() => fetchRuns(selectedStrategy)} />
+          )}
+
+          {selectedStrategy && (
+            <DateSplitsPanel strategyId={selectedStrategy} />
+          )}
+        </TabsContent>
+
+        <TabsContent value="duplicates" className="space-y-6">
+          <DuplicateRunsPanel strategyId={selectedStrategy} onRunDeleted={handleDuplicateDeleted} />
         </TabsContent>
       </Tabs>
       
@@ -2485,6 +2639,7 @@ export default function AnalysisPage() {
           localDescription={localDescription}
           savingDescription={savingDescription}
           onBaselineChange={handleBaselineChange}
+          onRunsChanged={handleRunsChanged}
         />
       ))}
 
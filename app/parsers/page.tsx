@@ -0,0 +1,418 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Save, Play, Trash2, Pencil, Plus, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { PARSER_SPEC_TEMPLATE, ParserSpec } from '@/lib/parsers/parser-spec';
+
+interface ParserDefinition {
+  id: number;
+  name: string;
+  description: string | null;
+  spec: ParserSpec;
+  created_at: string;
+  updated_at: string;
+}
+
+interface TestResult {
+  canParse: boolean;
+  summary: {
+    totalTrades: number;
+    netPnl: number;
+    winRate: number;
+    profitFactor: number;
+    maxDrawdown: number;
+    days: number;
+  } | null;
+  parameters: Array<{ name: string; value: string; type: string }>;
+  customMetrics: Array<{ name: string; value: number; description?: string }>;
+  events: Array<{ type: string; label: string; fields: string[]; count: number }>;
+}
+
+const TEMPLATE_JSON = JSON.stringify(PARSER_SPEC_TEMPLATE, null, 2);
+
+export default function ParsersPage() {
+  const [builtInParsers, setBuiltInParsers] = useState<string[]>([]);
+  const [definitions, setDefinitions] = useState<ParserDefinition[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [specJson, setSpecJson] = useState(TEMPLATE_JSON);
+  const [description, setDescription] = useState('');
+  const [sampleData, setSampleData] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  const fetchDefinitions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/parsers');
+      const data = await response.json();
+      if (data.success) {
+        setBuiltInParsers(data.builtInParsers);
+        setDefinitions(data.definitions);
+      }
+    } catch (error) {
+      console.error('Error fetching parser definitions:', error);
+      toast.error('Failed to load parser definitions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDefinitions();
+  }, [fetchDefinitions]);
+
+  const readSpec = (): ParserSpec | null => {
+    try {
+      return JSON.parse(specJson);
+    } catch (error) {
+      setErrors([`Spec is not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+      return null;
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setSpecJson(TEMPLATE_JSON);
+    setDescription('');
+    setErrors([]);
+    setTestResult(null);
+  };
+
+  const handleEdit = (definition: ParserDefinition) => {
+    setEditingId(definition.id);
+    setSpecJson(JSON.stringify(definition.spec, null, 2));
+    setDescription(definition.description || '');
+    setErrors([]);
+    setTestResult(null);
+  };
+
+  const handleSave = async () => {
+    const spec = readSpec();
+    if (!spec) return;
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch(editingId ? `/api/parsers/${editingId}` : '/api/parsers', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ spec, description }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(data.message);
+        resetForm();
+        fetchDefinitions();
+      } else {
+        setErrors(data.details || [data.error || 'Failed to save parser definition']);
+      }
+    } catch {
+      setErrors(['Network error. Please try again.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    const spec = readSpec();
+    if (!spec) return;
+
+    if (!sampleData.trim()) {
+      setErrors(['Paste some sample strategy output to test against']);
+      return;
+    }
+
+    setIsTesting(true);
+    setErrors([]);
+    setTestResult(null);
+
+    try {
+      const response = await fetch('/api/parsers/test', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ spec, rawData: sampleData }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setTestResult(data);
+      } else {
+        setErrors(data.details || [data.error || 'Failed to test parser spec']);
+      }
+    } catch {
+      setErrors(['Network error. Please try again.']);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleDelete = async (definition: ParserDefinition) => {
+    if (!confirm(`Delete parser "${definition.name}"? Existing runs are kept.`)) return;
+
+    try {
+      const response = await fetch(`/api/parsers/${definition.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(data.message);
+        if (editingId === definition.id) resetForm();
+        fetchDefinitions();
+      } else {
+        toast.error(data.error || 'Failed to delete parser definition');
+      }
+    } catch {
+      toast.error('Network error. Please try again.');
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-6xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2 text-white">Strategy Parsers</h1>
+        <p className="text-gray-300">
+          Describe a new strategy log format as a parser spec. Saved parsers are used for uploads immediately.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="bg-gray-800 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white">Available Parsers</CardTitle>
+            <CardDescription className="text-gray-300">
+              Built-in parsers are checked before custom ones.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="flex items-center text-gray-400">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading parsers...
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  {builtInParsers.map(name => (
+                    <div key={name} className="flex items-center justify-between p-2 bg-gray-900 rounded">
+                      <span className="text-white text-sm">{name}</span>
+                      <Badge variant="secondary">Built-in</Badge>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  {definitions.length === 0 && (
+                    <p className="text-sm text-gray-400">No custom parsers yet.</p>
+                  )}
+                  {definitions.map(definition => (
+                    <div
+                      key={definition.id}
+                      className={`p-2 rounded border ${editingId === definition.id ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 bg-gray-900'}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-white text-sm">{definition.name}</span>
+                        <div className="flex items-center space-x-1">
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(definition)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(definition)}>
+                            <Trash2 className="h-4 w-4 text-red-400" />
+                          </Button>
+                        </div>
+                      </div>
+                      {definition.description && (
+                        <p className="text-xs text-gray-400 mt-1">{definition.description}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <Button variant="outline" size="sm" onClick={resetForm} className="w-full">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Parser
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="bg-gray-800 border-gray-700">
+            <CardHeader>
+              <CardTitle className="text-white">{editingId ? 'Edit Parser' : 'New Parser'}</CardTitle>
+              <CardDescription className="text-gray-300">
+                Patterns are regular expressions matched case-insensitively per line. The PNL pattern needs a
+                named <code>pnl</code> group; <code>date</code>, <code>time</code> and <code>id</code> groups are optional.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="description" className="text-white">Description (Optional)</Label>
+                <Input
+                  id="description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="bg-gray-900 border-gray-600 text-white"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="spec" className="text-white">Parser Spec (JSON)</Label>
+                <Textarea
+                  id="spec"
+                  value={specJson}
+                  onChange={(e) => setSpecJson(e.target.value)}
+                  className="min-h-[360px] font-mono text-xs bg-gray-900 border-gray-600 text-white"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sampleData" className="text-white">Sample Data</Label>
+                <Textarea
+                  id="sampleData"
+                  placeholder="Paste strategy output to test the spec against..."
+                  value={sampleData}
+                  onChange={(e) => setSampleData(e.target.value)}
+                  className="min-h-[120px] max-h-[240px] overflow-y-auto font-mono text-xs bg-gray-900 border-gray-600 text-white placeholder-gray-400"
+                />
+              </div>
+
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={handleTest} disabled={isTesting}>
+                  {isTesting ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Play className="mr-2 h-4 w-4" />
+                  )}
+                  Test Spec
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  {editingId ? 'Update Parser' : 'Save Parser'}
+                </Button>
+              </div>
+
+              {errors.length > 0 && (
+                <Alert className="border-red-600 bg-red-900/20">
+                  <XCircle className="h-4 w-4 text-red-400" />
+                  <AlertDescription className="text-red-200">
+                    {errors.map((error, index) => (
+                      <div key={index}>{error}</div>
+                    ))}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+
+          {testResult && (
+            <Card className="bg-gray-800 border-gray-700">
+              <CardHeader>
+                <CardTitle className="text-white">Test Result</CardTitle>
+                <CardDescription className={testResult.canParse ? 'text-green-400' : 'text-red-400'}>
+                  {testResult.canParse
+                    ? 'The detection patterns match this data.'
+                    : 'The detection patterns do not match this data.'}
+                </CardDescription>
+              </CardHeader>
+              {testResult.summary && (
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <span className="text-gray-400">Total Trades:</span>
+                      <div className="font-mono text-white">{testResult.summary.totalTrades}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-400">Net PNL:</span>
+                      <div className={`font-mono ${testResult.summary.netPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        ${testResult.summary.netPnl.toFixed(2)}
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-gray-400">Win Rate:</span>
+                      <div className="font-mono text-white">{(testResult.summary.winRate * 100).toFixed(1)}%</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-400">Profit Factor:</span>
+                      <div className="font-mono text-white">{testResult.summary.profitFactor.toFixed(2)}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-400">Max Drawdown:</span>
+                      <div className="font-mono text-red-400">${testResult.summary.maxDrawdown.toFixed(2)}</div>
+                    </div>
+                    <div>
+                      <span className="text-gray-400">Trading Days:</span>
+                      <div className="font-mono text-white">{testResult.summary.days}</div>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="font-semibold text-white mb-2">Parameters ({testResult.parameters.length})</h4>
+                    <div className="space-y-1 text-sm">
+                      {testResult.parameters.map(param => (
+                        <div key={param.name} className="flex justify-between p-1 bg-gray-900 rounded">
+                          <span className="text-gray-300">{param.name}</span>
+                          <span className="font-mono text-white">{param.value}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {testResult.customMetrics.length > 0 && (
+                    <div>
+                      <h4 className="font-semibold text-white mb-2">Custom Metrics</h4>
+                      <div className="space-y-1 text-sm">
+                        {testResult.customMetrics.map(metric => (
+                          <div key={metric.name} className="flex justify-between p-1 bg-gray-900 rounded">
+                            <span className="text-gray-300">{metric.name}</span>
+                            <span className="font-mono text-white">{metric.value}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {testResult.events.length > 0 && (
+                    <div>
+                      <h4 className="font-semibold text-white mb-2">Events</h4>
+                      <div className="space-y-1 text-sm">
+                        {testResult.events.map(event => (
+                          <div key={event.type} className="flex justify-between p-1 bg-gray-900 rounded">
+                            <span className="text-gray-300">
+                              {event.label}
+                              {event.fields.length > 0 && <span className="text-gray-500 text-xs ml-2">{event.fields.join(', ')}</span>}
+                            </span>
+                            <span className="font-mono text-white">{event.count}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              )}
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LayoutGrid, Loader2 } from 'lucide-react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { BREAKDOWN_DIMENSIONS } from '@/lib/breakdown';
+import type { BreakdownDimension, BucketStats, Pivot } from '@/lib/breakdown';
+
+interface BreakdownPanelProps {
+  runId: number;
+}
+
+type BreakdownMetric = 'netPnl' | 'winRate' | 'expectancy' | 'profitFactor';
+
+const METRICS: Record<BreakdownMetric, { label: string; format: (value: number) => string; baseline: number }> = {
+  netPnl: { label: 'Net PNL', format: value => `$${value.toFixed(2)}`, baseline: 0 },
+  winRate: { label: 'Win Rate', format: value => `${value.toFixed(1)}%`, baseline: 50 },
+  expectancy: { label: 'Expectancy', format: value => `$${value.toFixed(2)}`, baseline: 0 },
+  profitFactor: { label: 'Profit Factor', format: value => value.toFixed(2), baseline: 1 }
+};
+
+const DIMENSIONS = Object.keys(BREAKDOWN_DIMENSIONS) as BreakdownDimension[];
+
+const metricValue = (bucket: BucketStats, metric: BreakdownMetric) => bucket[metric];
+
+const formatMetric = (bucket: BucketStats | null, metric: BreakdownMetric) => {
+  const value = bucket ? metricValue(bucket, metric) : null;
+  return value === null ? '-' : METRICS[metric].format(value);
+};
+
+const metricColor = (bucket: BucketStats | null, metric: BreakdownMetric) => {
+  const value = bucket ? metricValue(bucket, metric) : null;
+  if (value === null) return 'text-gray-500';
+  return value >= METRICS[metric].baseline ? 'text-green-400' : 'text-red-400';
+};
+
+export function BreakdownPanel({ runId }: BreakdownPanelProps) {
+  const [breakdowns, setBreakdowns] = useState<Record<BreakdownDimension, BucketStats[]> | null>(null);
+  const [pivotTable, setPivotTable] = useState<Pivot | null>(null);
+  const [source, setSource] = useState<string>('');
+  const [dimension, setDimension] = useState<BreakdownDimension>('dayOfWeek');
+  const [metric, setMetric] = useState<BreakdownMetric>('netPnl');
+  const [pivotRows, setPivotRows] = useState<BreakdownDimension>('dayOfWeek');
+  const [pivotColumns, setPivotColumns] = useState<BreakdownDimension>('hour');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (pivotRows === pivotColumns) return;
+    const fetchBreakdown = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/runs/${runId}/breakdown?rows=${pivotRows}&columns=${pivotColumns}`);
+        const data = await response.json();
+        if (data.success) {
+          setBreakdowns(data.breakdowns);
+          setPivotTable(data.pivot);
+          setSource(data.source);
+        }
+      } catch (error) {
+        console.error('Error fetching breakdown:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchBreakdown();
+  }, [runId, pivotRows, pivotColumns]);
+
+  if (loading && !breakdowns) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-400">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Loading breakdown...
+      </div>
+    );
+  }
+
+  const buckets = breakdowns?.[dimension] || [];
+
+  const dimensionSelect = (value: BreakdownDimension, onChange: (value: BreakdownDimension) => void) => (
+    <Select value={value} onValueChange={(next) => onChange(next as BreakdownDimension)}>
+      <SelectTrigger className="h-8 w-40 bg-gray-900 border-gray-600 text-white text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-gray-900 border-gray-600">
+        {DIMENSIONS.map(option => (
+          <SelectItem key={option} value={option} className="text-white text-xs">{BREAKDOWN_DIMENSIONS[option]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <Card className="bg-gray-700 border-gray-600">
+        <CardContent className="p-3 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-white flex items-center gap-2 text-sm">
+              <LayoutGrid className="h-4 w-4" />
+              Performance Breakdown
+              <span className="text-xs text-gray-400">from {source === 'trades' ? 'trade lifecycles' : 'trade summaries'}</span>
+            </h3>
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(METRICS) as BreakdownMetric[]).map(option => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={metric === option ? 'default' : 'outline'}
+                  onClick={() => setMetric(option)}
+                  className="h-7 text-xs"
+                >
+                  {METRICS[option].label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {DIMENSIONS.map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={dimension === option ? 'default' : 'outline'}
+                onClick={() => setDimension(option)}
+                className="h-7 text-xs"
+              >
+                {BREAKDOWN_DIMENSIONS[option]}
+              </Button>
+            ))}
+          </div>
+
+          {buckets.length === 0 ? (
+            <p className="text-xs text-gray-400 text-center py-4">No trades to break down.</p>
+          ) : (
+            <>
+              <div className="h-56 bg-gray-900/50 rounded-lg p-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={buckets.map(bucket => ({ label: bucket.label, value: metricValue(bucket, metric) }))}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" strokeOpacity={0.5} />
+                    <XAxis
+                      dataKey="label"
+                      tick={{ fill: '#9ca3af', fontSize: 10 }}
+                      axisLine={{ stroke: '#374151' }}
+                      tickLine={{ stroke: '#374151' }}
+                    />
+                    <YAxis
+                      tick={{ fill: '#9ca3af', fontSize: 10 }}
+                      axisLine={{ stroke: '#374151' }}
+                      tickLine={{ stroke: '#374151' }}
+                      tickFormatter={METRICS[metric].format}
+                    />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', color: '#fff' }}
+                      formatter={(value: number) => [value === null ? '-' : METRICS[metric].format(value), METRICS[metric].label]}
+                    />
+                    <ReferenceLine y={METRICS[metric].baseline} stroke="#6b7280" />
+                    <Bar dataKey="value" isAnimationActive={false}>
+                      {buckets.map(bucket => (
+                        <Cell
+                          key={bucket.key}
+                          fill={(metricValue(bucket, metric) ?? 0) >= METRICS[metric].baseline ? '#10b981' : '#ef4444'}
+                        />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-gray-600">
+                    <th className="text-left py-1 text-gray-300 font-medium">{BREAKDOWN_DIMENSIONS[dimension]}</th>
+                    <th className="text-right py-1 text-gray-300 font-medium">Trades</th>
+                    <th className="text-right py-1 text-gray-300 font-medium">Net PNL</th>
+                    <th className="text-right py-1 text-gray-300 font-medium">Win Rate</th>
+                    <th className="text-right py-1 text-gray-300 font-medium">Expectancy</th>
+                    <th className="text-right py-1 text-gray-300 font-medium">Profit Factor</th>
+                    <th className="text-right py-1 text-gray-300 font-medium">Avg Win</th>
+                    <th className="text-right py-1 text-gray-300 font-medium">Avg Loss</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {buckets.map(bucket => (
+                    <tr key={bucket.key} className="border-b border-gray-600 hover:bg-gray-600/50">
+                      <td className="py-1 text-gray-300">{bucket.label}</td>
+                      <td className="py-1 text-right text-gray-300">{bucket.trades}</td>
+                      <td className={`py-1 text-right font-medium ${metricColor(bucket, 'netPnl')}`}>{formatMetric(bucket, 'netPnl')}</td>
+                      <td className={`py-1 text-right ${metricColor(bucket, 'winRate')}`}>{formatMetric(bucket, 'winRate')}</td>
+                      <td className={`py-1 text-right ${metricColor(bucket, 'expectancy')}`}>{formatMetric(bucket, 'expectancy')}</td>
+                      <td className={`py-1 text-right ${metricColor(bucket, 'profitFactor')}`}>{formatMetric(bucket, 'profitFactor')}</td>
+                      <td className="py-1 text-right text-green-400">{bucket.averageWin === null ? '-' : `$${bucket.averageWin.toFixed(2)}`}</td>
+                      <td className="py-1 text-right text-red-400">{bucket.averageLoss === null ? '-' : `$${bucket.averageLoss.toFixed(2)}`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-700 border-gray-600">
+        <CardContent className="p-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-300">
+            <h3 className="text-white text-sm mr-2">Pivot</h3>
+            {dimensionSelect(pivotRows, setPivotRows)}
+            <span>by</span>
+            {dimensionSelect(pivotColumns, setPivotColumns)}
+            <span className="text-gray-400">showing {METRICS[metric].label.toLowerCase()}</span>
+            {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          </div>
+
+          {pivotRows === pivotColumns ? (
+            <p className="text-xs text-yellow-400">Pick two different dimensions.</p>
+          ) : pivotTable && pivotTable.rowKeys.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="text-xs w-full">
+                <thead>
+                  <tr className="border-b border-gray-600">
+                    <th className="text-left py-1 pr-2 text-gray-300 font-medium">
+                      {BREAKDOWN_DIMENSIONS[pivotTable.rows]} \ {BREAKDOWN_DIMENSIONS[pivotTable.columns]}
+                    </th>
+                    {pivotTable.columnKeys.map(column => (
+                      <th key={column.key} className="text-right py-1 px-2 text-gray-300 font-medium whitespace-nowrap">{column.label}</th>
+                    ))}
+                    <th className="text-right py-1 px-2 text-white font-medium">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pivotTable.rowKeys.map((row, rowIndex) => (
+                    <tr key={row.key} className="border-b border-gray-600">
+                      <td className="py-1 pr-2 text-gray-300 whitespace-nowrap">{row.label}</td>
+                      {pivotTable.cells[rowIndex].map((cell, columnIndex) => (
+                        <td
+                          key={pivotTable.columnKeys[columnIndex].key}
+                          className={`py-1 px-2 text-right font-mono ${metricColor(cell, metric)}`}
+                          title={cell ? `${cell.trades} trades` : 'No trades'}
+                        >
+                          {formatMetric(cell, metric)}
+                        </td>
+                      ))}
+                      <td className={`py-1 px-2 text-right font-mono font-medium ${metricColor(pivotTable.rowTotals[rowIndex], metric)}`}>
+                        {formatMetric(pivotTable.rowTotals[rowIndex], metric)}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-1 pr-2 text-white font-medium">Total</td>
+                    {pivotTable.columnTotals.map(total => (
+                      <td key={total.key} className={`py-1 px-2 text-right font-mono font-medium ${metricColor(total, metric)}`}>
+                        {formatMetric(total, metric)}
+                      </td>
+                    ))}
+                    <td />
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
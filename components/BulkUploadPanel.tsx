@@ -0,0 +1,331 @@
+'use client';
+
+import React, { useState, useRef } from 'react';
+import { unzipSync, strFromU8 } from 'fflate';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Upload, FileText, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Files parsed at once, enough to keep the server busy without flooding it
+const CONCURRENCY = 3;
+
+interface ParserCandidate {
+  strategyName: string;
+  score: number;
+}
+
+type FileStatus = 'queued' | 'parsing' | 'parsed' | 'failed' | 'duplicate' | 'ambiguous';
+
+interface BulkFile {
+  id: number;
+  name: string;
+  content: string;
+  status: FileStatus;
+  parserName?: string;
+  strategyName?: string;
+  runId?: number;
+  message?: string;
+  parserRanking?: ParserCandidate[];
+}
+
+const STATUS_STYLES: Record<FileStatus, string> = {
+  queued: 'text-gray-300 border-gray-600',
+  parsing: 'text-blue-300 border-blue-600',
+  parsed: 'text-green-300 border-green-600',
+  failed: 'text-red-300 border-red-600',
+  duplicate: 'text-yellow-300 border-yellow-600',
+  ambiguous: 'text-orange-300 border-orange-600'
+};
+
+async function runPool<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+// Expand zips into their .txt entries, skipping macOS metadata folders
+async function readUploads(files: File[]): Promise<Array<{ name: string; content: string }>> {
+  const entries: Array<{ name: string; content: string }> = [];
+  for (const file of files) {
+    const lowerName = file.name.toLowerCase();
+    if (lowerName.endsWith('.zip')) {
+      const archive = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+        filter: entry => entry.name.toLowerCase().endsWith('.txt') && !entry.name.startsWith('__MACOSX/')
+      });
+      for (const [name, data] of Object.entries(archive)) {
+        entries.push({ name: `${file.name}/${name}`, content: strFromU8(data) });
+      }
+    } else if (lowerName.endsWith('.txt')) {
+      entries.push({ name: file.name, content: await file.text() });
+    }
+  }
+  return entries;
+}
+
+export function BulkUploadPanel() {
+  const [files, setFiles] = useState<BulkFile[]>([]);
+  const [runDescription, setRunDescription] = useState('');
+  const [runTag, setRunTag] = useState('');
+  const [onDuplicate, setOnDuplicate] = useState<'skip' | 'replace' | 'keep-both'>('skip');
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const nextId = useRef(1);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const updateFile = (id: number, changes: Partial<BulkFile>) => {
+    setFiles(prev => prev.map(file => file.id === id ? { ...file, ...changes } : file));
+  };
+
+  const addFiles = async (selected: File[]) => {
+    try {
+      const entries = await readUploads(selected);
+      if (entries.length === 0) {
+        toast.error('No .txt files found. Upload NinjaTrader .txt logs or a .zip of them.');
+        return;
+      }
+
+      setFiles(prev => {
+        const added: BulkFile[] = [];
+        for (const entry of entries) {
+          // Identical logs in the same batch would create identical runs
+          const original = [...prev, ...added].find(file => file.content === entry.content);
+          added.push({
+            id: nextId.current++,
+            name: entry.name,
+            content: entry.content,
+            status: original ? 'duplicate' : 'queued',
+            message: original ? `Same content as ${original.name}` : undefined
+          });
+        }
+        return [...prev, ...added];
+      });
+    } catch (error) {
+      console.error('Error reading uploaded files:', error);
+      toast.error('Could not read the uploaded files');
+    }
+  };
+
+  const uploadFile = async (file: BulkFile, parserName?: string) => {
+    updateFile(file.id, { status: 'parsing', message: undefined, parserRanking: undefined });
+
+    try {
+      const response = await fetch('/api/parse', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rawData: file.content,
+          runDescription: runDescription || undefined,
+          runTag: runTag || undefined,
+          parserName,
+          onDuplicate
+        })
+      });
+      const data = await response.json();
+
+      if (data.success && data.skipped) {
+        updateFile(file.id, { status: 'duplicate', runId: data.runId, message: data.message });
+      } else if (data.success) {
+        updateFile(file.id, {
+          status: 'parsed',
+          runId: data.runId,
+          strategyName: data.strategyName,
+          parserName: data.parserName,
+          message: `${data.summary.totalTrades} trades, $${data.summary.netPnl.toFixed(2)}` +
+            (data.replacedRunId ? `, replaced run #${data.replacedRunId}` : '')
+        });
+      } else if (response.status === 409 && data.parserRanking) {
+        updateFile(file.id, { status: 'ambiguous', parserRanking: data.parserRanking, message: 'Choose a parser' });
+      } else {
+        updateFile(file.id, { status: 'failed', message: data.error || 'Failed to parse data' });
+      }
+    } catch {
+      updateFile(file.id, { status: 'failed', message: 'Network error' });
+    }
+  };
+
+  const handleUpload = async () => {
+    const queued = files.filter(file => file.status === 'queued' || file.status === 'failed');
+    if (queued.length === 0) return;
+
+    setIsUploading(true);
+    await runPool(queued, CONCURRENCY, file => uploadFile(file));
+    setIsUploading(false);
+    toast.success(`Processed ${queued.length} file${queued.length === 1 ? '' : 's'}`);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const counts = files.reduce((acc, file) => ({ ...acc, [file.status]: (acc[file.status] || 0) + 1 }), {} as Record<string, number>);
+  const pendingCount = (counts.queued || 0) + (counts.failed || 0);
+
+  return (
+    <Card className="mb-6 bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">Bulk Upload</CardTitle>
+        <CardDescription className="text-gray-300">
+          Drop many NinjaTrader .txt logs, or a .zip of them. Each file is parsed and saved as its own run.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInput.current?.click()}
+          className={`flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+            isDragging ? 'border-blue-500 bg-blue-900/20' : 'border-gray-600 hover:border-gray-500 bg-gray-900'
+          }`}
+        >
+          <FileText className="h-8 w-8 text-gray-400 mb-2" />
+          <p className="text-gray-300 text-sm">Drag files here or click to choose</p>
+          <p className="text-gray-500 text-xs">.txt or .zip</p>
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            accept=".txt,.zip"
+            className="hidden"
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="bulkDescription" className="text-white">Run Description (applied to every file)</Label>
+            <Input
+              id="bulkDescription"
+              value={runDescription}
+              onChange={(e) => setRunDescription(e.target.value)}
+              placeholder="e.g. Stop loss sweep 4-12 ticks"
+              className="bg-gray-900 border-gray-600 text-white"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulkTag" className="text-white">Tag</Label>
+            <Input
+              id="bulkTag"
+              value={runTag}
+              onChange={(e) => setRunTag(e.target.value)}
+              placeholder="e.g. sl-sweep-2025-08"
+              className="bg-gray-900 border-gray-600 text-white"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-white">Already imported runs</Label>
+            <Select value={onDuplicate} onValueChange={(value) => setOnDuplicate(value as typeof onDuplicate)}>
+              <SelectTrigger className="w-full bg-gray-900 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="skip">Skip the file</SelectItem>
+                <SelectItem value="replace">Replace the existing run</SelectItem>
+                <SelectItem value="keep-both">Keep both</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {files.length > 0 && (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(STATUS_STYLES) as FileStatus[]).filter(status => counts[status]).map(status => (
+                  <Badge key={status} variant="outline" className={STATUS_STYLES[status]}>
+                    {counts[status]} {status}
+                  </Badge>
+                ))}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isUploading}
+                onClick={() => setFiles([])}
+                className="text-gray-400 hover:text-gray-200"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Clear
+              </Button>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto border border-gray-700 rounded">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-900 sticky top-0">
+                  <tr>
+                    <th className="text-left p-2 text-gray-400 font-medium">File</th>
+                    <th className="text-left p-2 text-gray-400 font-medium">Status</th>
+                    <th className="text-left p-2 text-gray-400 font-medium">Parser</th>
+                    <th className="text-left p-2 text-gray-400 font-medium">Run</th>
+                    <th className="text-left p-2 text-gray-400 font-medium">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {files.map(file => (
+                    <tr key={file.id} className="border-t border-gray-700 align-top">
+                      <td className="p-2 text-gray-300 font-mono text-xs break-all">{file.name}</td>
+                      <td className="p-2">
+                        <Badge variant="outline" className={STATUS_STYLES[file.status]}>
+                          {file.status === 'parsing' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                          {file.status}
+                        </Badge>
+                      </td>
+                      <td className="p-2 text-gray-300">{file.parserName || '—'}</td>
+                      <td className="p-2 text-gray-300">{file.runId ? `#${file.runId}` : '—'}</td>
+                      <td className="p-2 text-gray-400 text-xs">
+                        {file.message}
+                        {file.parserRanking && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {file.parserRanking.map(candidate => (
+                              <Button
+                                key={candidate.strategyName}
+                                size="sm"
+                                variant="outline"
+                                className="h-6 px-2 text-xs"
+                                onClick={() => uploadFile(file, candidate.strategyName)}
+                              >
+                                {candidate.strategyName} ({(candidate.score * 100).toFixed(0)}%)
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <Button onClick={handleUpload} disabled={isUploading || pendingCount === 0} className="w-full">
+          {isUploading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Uploading...
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Upload {pendingCount} file{pendingCount === 1 ? '' : 's'}
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDateOnly } from '@/lib/date-utils';
+import type { DateSplit } from '@/lib/walk-forward';
+
+interface DateSplitsPanelProps {
+  strategyId: string;
+}
+
+const EMPTY_FORM = { name: '', inSampleStart: '', inSampleEnd: '', outOfSampleStart: '', outOfSampleEnd: '' };
+
+export function DateSplitsPanel({ strategyId }: DateSplitsPanelProps) {
+  const [splits, setSplits] = useState<DateSplit[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSplits = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/strategies/${strategyId}/date-splits`);
+      const data = await response.json();
+      if (data.success) {
+        setSplits(data.splits);
+      }
+    } catch (error) {
+      console.error('Error fetching date splits:', error);
+    }
+  }, [strategyId]);
+
+  useEffect(() => {
+    fetchSplits();
+  }, [fetchSplits]);
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/strategies/${strategyId}/date-splits`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Split "${form.name}" added`);
+        setForm(EMPTY_FORM);
+        fetchSplits();
+      } else {
+        toast.error(data.error || 'Failed to add split');
+      }
+    } catch (error) {
+      console.error('Error adding date split:', error);
+      toast.error('Failed to add split');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (split: DateSplit) => {
+    try {
+      const response = await fetch(`/api/strategies/${strategyId}/date-splits/${split.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        setSplits(prev => prev.filter(entry => entry.id !== split.id));
+      } else {
+        toast.error(data.error || 'Failed to delete split');
+      }
+    } catch (error) {
+      console.error('Error deleting date split:', error);
+      toast.error('Failed to delete split');
+    }
+  };
+
+  const dateInput = (field: keyof typeof EMPTY_FORM, label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`split-${field}`} className="text-white">{label}</Label>
+      <Input
+        id={`split-${field}`}
+        type="date"
+        value={form[field]}
+        onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+        className="bg-gray-900 border-gray-600 text-white"
+      />
+    </div>
+  );
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">In-Sample / Out-of-Sample Splits</CardTitle>
+        <CardDescription className="text-gray-400">
+          Date ranges every run of this strategy is measured on separately in its Walk-Forward tab
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {splits.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-700 text-gray-400">
+                <th className="text-left py-2 px-2 font-medium">Name</th>
+                <th className="text-left py-2 px-2 font-medium">In-Sample</th>
+                <th className="text-left py-2 px-2 font-medium">Out-of-Sample</th>
+                <th className="py-2 px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {splits.map(split => (
+                <tr key={split.id} className="border-b border-gray-700 text-gray-300">
+                  <td className="py-2 px-2 text-white">{split.name}</td>
+                  <td className="py-2 px-2">{formatDateOnly(split.inSampleStart)} – {formatDateOnly(split.inSampleEnd)}</td>
+                  <td className="py-2 px-2">{formatDateOnly(split.outOfSampleStart)} – {formatDateOnly(split.outOfSampleEnd)}</td>
+                  <td className="py-2 px-2 text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDelete(split)}
+                      className="border-red-600 text-red-400 hover:bg-red-900/20"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="split-name" className="text-white">Name</Label>
+            <Input
+              id="split-name"
+              value={form.name}
+              placeholder="e.g. 2024 / Q1 2025"
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              className="bg-gray-900 border-gray-600 text-white"
+            />
+          </div>
+          {dateInput('inSampleStart', 'In-Sample From')}
+          {dateInput('inSampleEnd', 'In-Sample To')}
+          {dateInput('outOfSampleStart', 'Out-of-Sample From')}
+          {dateInput('outOfSampleEnd', 'Out-of-Sample To')}
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={handleAdd}
+            disabled={saving || Object.values(form).some(value => !value)}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add Split
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { formatDateOnly } from '@/lib/date-utils';
+import type { DrawdownAnalysis, DrawdownMode } from '@/lib/drawdown';
+
+const LINE_COLORS = ['#10b981', '#3b82f6', '#8b5cf6', '#f59e0b', '#06b6d4'];
+
+interface DrawdownPanelProps {
+  runs: Array<{ id: number; name: string }>;
+}
+
+type RunDrawdowns = Record<DrawdownMode, DrawdownAnalysis>;
+
+export function DrawdownPanel({ runs }: DrawdownPanelProps) {
+  const [analyses, setAnalyses] = useState<Record<number, RunDrawdowns>>({});
+  const [mode, setMode] = useState<DrawdownMode>('close');
+  const [loading, setLoading] = useState(false);
+
+  const runIds = runs.map(run => run.id).join(',');
+
+  useEffect(() => {
+    const fetchDrawdowns = async () => {
+      setLoading(true);
+      try {
+        const entries = await Promise.all(runIds.split(',').filter(Boolean).map(async id => {
+          const response = await fetch(`/api/runs/${id}/drawdown`);
+          const data = await response.json();
+          return data.success ? [Number(id), { close: data.close, intraday: data.intraday }] as const : null;
+        }));
+        setAnalyses(Object.fromEntries(entries.filter(entry => entry !== null)));
+      } catch (error) {
+        console.error('Error fetching drawdowns:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchDrawdowns();
+  }, [runIds]);
+
+  // One row per date with each run's drawdown, runs that did not trade that day are left blank
+  const chartData = (() => {
+    const byDate = new Map<string, Record<string, number | string>>();
+    for (const run of runs) {
+      for (const point of analyses[run.id]?.[mode].underwater || []) {
+        const row = byDate.get(point.date) || { date: point.date };
+        row[`run_${run.id}`] = point.drawdown;
+        byDate.set(point.date, row);
+      }
+    }
+    return Array.from(byDate.values()).sort((a, b) => String(a.date).localeCompare(String(b.date)));
+  })();
+
+  const formatDays = (days: number | null) => (days === null ? '-' : `${days % 1 ? days.toFixed(1) : days}d`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Underwater Curve</CardTitle>
+            <CardDescription>
+              Distance below the previous equity peak. Intraday uses each day&apos;s lowest running PNL, so it
+              shows drawdowns that recovered before the close.
+            </CardDescription>
+          </div>
+          <div className="flex gap-1">
+            {(['close', 'intraday'] as DrawdownMode[]).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={mode === option ? 'default' : 'outline'}
+                onClick={() => setMode(option)}
+              >
+                {option === 'close' ? 'Daily close' : 'Intraday'}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center h-64 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Analysing drawdowns...
+          </div>
+        ) : (
+          <div className="h-80 bg-gray-900/50 rounded-lg p-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" strokeOpacity={0.5} />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fill: '#9ca3af', fontSize: 10 }}
+                  axisLine={{ stroke: '#374151' }}
+                  tickLine={{ stroke: '#374151' }}
+                  tickFormatter={(value) => formatDateOnly(value)}
+                />
+                <YAxis
+                  tick={{ fill: '#9ca3af', fontSize: 10 }}
+                  axisLine={{ stroke: '#374151' }}
+                  tickLine={{ stroke: '#374151' }}
+                  tickFormatter={(value) => `$${value}`}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', color: '#fff' }}
+                  labelFormatter={(label) => formatDateOnly(String(label))}
+                  formatter={(value: number, name: string) => [
+                    `$${value.toFixed(2)}`,
+                    runs.find(run => `run_${run.id}` === name)?.name || name
+                  ]}
+                />
+                <Legend formatter={(name: string) => runs.find(run => `run_${run.id}` === name)?.name || name} />
+                <ReferenceLine y={0} stroke="#6b7280" />
+                {runs.map((run, index) => (
+                  <Line
+                    key={run.id}
+                    type="stepAfter"
+                    dataKey={`run_${run.id}`}
+                    stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-700 text-gray-400">
+                <th className="text-left py-2 px-2 font-medium">Run</th>
+                <th className="text-right py-2 px-2 font-medium">Max DD</th>
+                <th className="text-right py-2 px-2 font-medium">Episodes</th>
+                <th className="text-right py-2 px-2 font-medium">Avg Recovery</th>
+                <th className="text-right py-2 px-2 font-medium">Median Recovery</th>
+                <th className="text-right py-2 px-2 font-medium">Longest Recovery</th>
+                <th className="text-right py-2 px-2 font-medium">Longest Under Water</th>
+                <th className="text-right py-2 px-2 font-medium">Current DD</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.filter(run => analyses[run.id]).map(run => {
+                const { stats } = analyses[run.id][mode];
+                return (
+                  <tr key={run.id} className="border-b border-gray-800">
+                    <td className="py-2 px-2">{run.name}</td>
+                    <td className="text-right py-2 px-2 font-mono text-red-400">
+                      ${stats.maxDrawdown.toFixed(2)} ({(stats.maxDrawdownPct * 100).toFixed(1)}%)
+                    </td>
+                    <td className="text-right py-2 px-2">{stats.recovered}/{stats.episodes} recovered</td>
+                    <td className="text-right py-2 px-2">{formatDays(stats.averageDaysToRecover)}</td>
+                    <td className="text-right py-2 px-2">{formatDays(stats.medianDaysToRecover)}</td>
+                    <td className="text-right py-2 px-2">{formatDays(stats.longestDaysToRecover)}</td>
+                    <td className="text-right py-2 px-2">{formatDays(stats.longestDuration)}</td>
+                    <td className="text-right py-2 px-2 font-mono">
+                      {stats.currentDrawdown > 0 ? `$${stats.currentDrawdown.toFixed(2)}` : '-'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">Durations are in trading days.</p>
+        </div>
+
+        {runs.filter(run => analyses[run.id]?.[mode].episodes.length).map(run => (
+          <div key={run.id} className="space-y-1">
+            <h4 className="text-sm font-medium">{run.name} · episodes</h4>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-gray-700 text-gray-400">
+                    <th className="text-left py-1 px-2 font-medium">Start</th>
+                    <th className="text-left py-1 px-2 font-medium">Trough</th>
+                    <th className="text-left py-1 px-2 font-medium">Recovered</th>
+                    <th className="text-right py-1 px-2 font-medium">Depth</th>
+                    <th className="text-right py-1 px-2 font-medium">To Trough</th>
+                    <th className="text-right py-1 px-2 font-medium">To Recover</th>
+                    <th className="text-right py-1 px-2 font-medium">Duration</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...analyses[run.id][mode].episodes].sort((a, b) => b.depth - a.depth).map(episode => (
+                    <tr key={episode.startDate} className="border-b border-gray-800">
+                      <td className="py-1 px-2">{formatDateOnly(episode.startDate)}</td>
+                      <td className="py-1 px-2">{formatDateOnly(episode.troughDate)}</td>
+                      <td className="py-1 px-2">{episode.recoveryDate ? formatDateOnly(episode.recoveryDate) : 'Not yet'}</td>
+                      <td className="text-right py-1 px-2 font-mono text-red-400">${episode.depth.toFixed(2)}</td>
+                      <td className="text-right py-1 px-2">{formatDays(episode.daysToTrough)}</td>
+                      <td className="text-right py-1 px-2">{formatDays(episode.daysToRecover)}</td>
+                      <td className="text-right py-1 px-2">{formatDays(episode.duration)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Loader2, Trash2, Star, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDateOnly } from '@/lib/date-utils';
+
+interface DuplicateRun {
+  id: number;
+  run_name: string | null;
+  run_description: string | null;
+  created_at: string;
+  net_pnl: number;
+  total_trades: number | null;
+  is_baseline: boolean;
+}
+
+interface DuplicateGroup {
+  kind: 'exact' | 'near';
+  runs: DuplicateRun[];
+}
+
+interface StrategyDuplicates {
+  strategyId: number;
+  strategyName: string;
+  groups: DuplicateGroup[];
+}
+
+interface DuplicateRunsPanelProps {
+  // Limit to one strategy, otherwise every strategy is listed
+  strategyId?: string;
+  onRunDeleted?: (runId: number) => void;
+}
+
+export function DuplicateRunsPanel({ strategyId, onRunDeleted }: DuplicateRunsPanelProps) {
+  const [strategies, setStrategies] = useState<StrategyDuplicates[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [deletingRun, setDeletingRun] = useState<number | null>(null);
+
+  const fetchDuplicates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/runs/duplicates${strategyId ? `?strategyId=${strategyId}` : ''}`);
+      const data = await response.json();
+      if (data.success) {
+        setStrategies(data.strategies);
+      }
+    } catch (error) {
+      console.error('Error fetching duplicate runs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [strategyId]);
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [fetchDuplicates]);
+
+  const handleDelete = async (runId: number) => {
+    setDeletingRun(runId);
+    try {
+      const response = await fetch(`/api/runs?runId=${runId}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success(`Deleted run #${runId}`);
+        onRunDeleted?.(runId);
+        await fetchDuplicates();
+      } else {
+        toast.error('Failed to delete run. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error deleting run:', error);
+      toast.error('Failed to delete run. Please try again.');
+    } finally {
+      setDeletingRun(null);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Copy className="h-5 w-5" />
+          Duplicate Runs
+        </CardTitle>
+        <CardDescription className="text-gray-300">
+          Exact duplicates share the same raw data. Near duplicates have the same parameters, date range and trade
+          count but came from a different log. Delete the extra copies so they do not skew strategy averages.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Looking for duplicates...
+          </div>
+        ) : strategies.length === 0 ? (
+          <p className="text-gray-400 text-sm">No duplicate runs found.</p>
+        ) : (
+          <div className="space-y-6">
+            {strategies.map(strategy => (
+              <div key={strategy.strategyId} className="space-y-3">
+                {!strategyId && <h4 className="font-semibold text-white">{strategy.strategyName}</h4>}
+                {strategy.groups.map((group, index) => (
+                  <div key={index} className="p-3 bg-gray-900 border border-gray-700 rounded space-y-2">
+                    <Badge
+                      variant="outline"
+                      className={group.kind === 'exact' ? 'text-red-300 border-red-600' : 'text-yellow-300 border-yellow-600'}
+                    >
+                      {group.kind === 'exact' ? 'Exact duplicate' : 'Near duplicate'} · {group.runs.length} runs
+                    </Badge>
+                    {group.runs.map((run, runIndex) => (
+                      <div key={run.id} className="flex items-center justify-between text-sm">
+                        <div className="flex items-center gap-2">
+                          <span className="text-white">Run #{run.id}</span>
+                          <span className="text-gray-300">{run.run_name}</span>
+                          {Boolean(run.is_baseline) && <Star className="h-3 w-3 text-yellow-400 fill-current" />}
+                          {runIndex === 0 && <span className="text-xs text-gray-500">(oldest)</span>}
+                        </div>
+                        <div className="flex items-center gap-4">
+                          <span className="text-gray-400">{formatDateOnly(run.created_at)}</span>
+                          <span className="text-gray-400">{run.total_trades ?? 0} trades</span>
+                          <span className={`font-mono ${run.net_pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            ${run.net_pnl.toFixed(2)}
+                          </span>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={deletingRun === run.id}
+                                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                              >
+                                {deletingRun === run.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Run</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Delete "{run.run_name || `Run ${run.id}`}"? This permanently removes the run and its
+                                  daily PNL, parameters, metrics, events and trades.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(run.id)} className="bg-red-600 hover:bg-red-700">
+                                  Delete Run
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Activity, Loader2 } from 'lucide-react';
+import type { EventTypeSummary, StoredEvent } from '@/lib/events';
+import type { EventPayloadValue } from '@/lib/parsers/base-parser';
+
+interface EventsPanelProps {
+  runId: number;
+}
+
+const formatValue = (value: EventPayloadValue | undefined) => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+export function EventsPanel({ runId }: EventsPanelProps) {
+  const [types, setTypes] = useState<EventTypeSummary[]>([]);
+  const [events, setEvents] = useState<StoredEvent[]>([]);
+  const [selectedType, setSelectedType] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setLoading(true);
+      try {
+        const query = selectedType ? `?type=${selectedType}` : '';
+        const response = await fetch(`/api/runs/${runId}/events${query}`);
+        const data = await response.json();
+        if (data.success) {
+          setTypes(data.types);
+          setEvents(data.events);
+        }
+      } catch (error) {
+        console.error('Error fetching events:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchEvents();
+  }, [runId, selectedType]);
+
+  const total = types.reduce((sum, type) => sum + type.count, 0);
+  const shownTypes = types.filter(type => events.some(event => event.type === type.type));
+
+  return (
+    <div className="space-y-3">
+      {types.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          <Button
+            variant={selectedType === null ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setSelectedType(null)}
+            className="h-7 text-xs"
+          >
+            All ({total})
+          </Button>
+          {types.map(type => (
+            <Button
+              key={type.type}
+              variant={selectedType === type.type ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSelectedType(type.type)}
+              disabled={type.count === 0}
+              className="h-7 text-xs"
+              title={type.description}
+            >
+              {type.label} ({type.count})
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-4 text-gray-400">
+          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+          Loading events...
+        </div>
+      ) : shownTypes.length === 0 ? (
+        <div className="text-center text-gray-400 py-4">No events recorded</div>
+      ) : (
+        shownTypes.map(type => {
+          const typeEvents = events.filter(event => event.type === type.type);
+          return (
+            <Card key={type.type} className="bg-gray-700 border-gray-600">
+              <CardContent className="p-3 space-y-2">
+                <h3 className="text-white flex items-center gap-2 text-sm">
+                  <Activity className="h-4 w-4" />
+                  {type.label} ({typeEvents.length})
+                </h3>
+                {type.description && <p className="text-xs text-gray-400">{type.description}</p>}
+                <div className="max-h-60 overflow-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-gray-600">
+                        <th className="text-left py-1 text-gray-300 font-medium">Date</th>
+                        <th className="text-left py-1 text-gray-300 font-medium">Time</th>
+                        <th className="text-left py-1 text-gray-300 font-medium">Trade</th>
+                        {type.fields.map(field => (
+                          <th
+                            key={field.name}
+                            className={`py-1 text-gray-300 font-medium ${field.type === 'number' ? 'text-right' : 'text-left'}`}
+                          >
+                            {field.label}
+                          </th>
+                        ))}
+                        <th className="text-right py-1 text-gray-300 font-medium">Log Line</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {typeEvents.map(event => (
+                        <tr key={event.id} className="border-b border-gray-600">
+                          <td className="py-1 text-white">{event.date}</td>
+                          <td className="py-1 text-gray-300">{event.time}</td>
+                          <td className="py-1 text-gray-300">{event.tradeId ? `#${event.tradeId}` : '-'}</td>
+                          {type.fields.map(field => (
+                            <td
+                              key={field.name}
+                              className={`py-1 text-gray-300 ${field.type === 'number' ? 'text-right font-mono' : ''}`}
+                            >
+                              {formatValue(event.payload[field.name])}
+                            </td>
+                          ))}
+                          <td className="py-1 text-right text-gray-500 font-mono">{event.sourceLine ?? '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Crosshair, Loader2 } from 'lucide-react';
+import { ScatterChart, Scatter, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import type { CaptureBucket, ExcursionPoint, ExcursionSummary, TradeOutcome, WhatIfResult } from '@/lib/excursions';
+import type { AmbiguousExit } from '@/lib/exit-replay';
+
+interface ExcursionPanelProps {
+  runId: number;
+}
+
+interface ExcursionResponse {
+  trades: ExcursionPoint[];
+  withoutExcursions: number;
+  withoutExits: number;
+  summary: ExcursionSummary;
+  captureDistribution: CaptureBucket[];
+  pointValue: number | null;
+  configured: { takeProfit: number | null; stopLoss: number | null };
+  ambiguity: AmbiguousExit;
+  actual: { trades: number; netPoints: number; netPnl: number; winRate: number };
+  whatIf: WhatIfResult[];
+}
+
+const OUTCOMES: Record<TradeOutcome, { label: string; color: string }> = {
+  win: { label: 'Win', color: '#10b981' },
+  loss: { label: 'Loss', color: '#ef4444' },
+  breakeven: { label: 'Breakeven', color: '#9ca3af' }
+};
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const formatPoints = (value: number) => `${value.toFixed(2)} pts`;
+const formatRatio = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(0)}%`);
+
+export function ExcursionPanel({ runId }: ExcursionPanelProps) {
+  const [takeProfits, setTakeProfits] = useState('');
+  const [stopLosses, setStopLosses] = useState('');
+  const [ambiguity, setAmbiguity] = useState<AmbiguousExit>('stop-first');
+  const [result, setResult] = useState<ExcursionResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchExcursions = useCallback(async (tp: string, sl: string, ambiguousExit: AmbiguousExit): Promise<ExcursionResponse | null> => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ ambiguity: ambiguousExit });
+      if (tp.trim()) query.set('tp', tp);
+      if (sl.trim()) query.set('sl', sl);
+      const response = await fetch(`/api/runs/${runId}/excursions?${query}`);
+      const data = await response.json();
+      if (data.success) {
+        setResult(data);
+        return data;
+      }
+      setError(data.error || 'Could not analyse excursions');
+    } catch (error) {
+      console.error('Error fetching trade excursions:', error);
+      setError('Could not analyse excursions');
+    } finally {
+      setLoading(false);
+    }
+    return null;
+  }, [runId]);
+
+  // Start from the run's own target and stop and fill the inputs with them, later replays are started with the button
+  useEffect(() => {
+    fetchExcursions('', '', 'stop-first').then(data => {
+      if (data?.configured.takeProfit != null) setTakeProfits(String(data.configured.takeProfit));
+      if (data?.configured.stopLoss != null) setStopLosses(String(data.configured.stopLoss));
+    });
+  }, [fetchExcursions]);
+
+  if (loading && !result) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-400">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Loading excursions...
+      </div>
+    );
+  }
+
+  if (!result || result.trades.length === 0) {
+    return error ? <p className="text-xs text-red-400">{error}</p> : null;
+  }
+
+  const { summary, actual } = result;
+  const isConfigured = (row: WhatIfResult) =>
+    row.takeProfit === result.configured.takeProfit && row.stopLoss === result.configured.stopLoss;
+
+  return (
+    <Card className="bg-gray-700 border-gray-600">
+      <CardContent className="p-3 space-y-3">
+        <h3 className="text-white flex items-center gap-2 text-sm">
+          <Crosshair className="h-4 w-4" />
+          Excursions and Exit Efficiency
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+        </h3>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-xs">
+          <div>
+            <div className="text-gray-400">Avg MFE</div>
+            <div className="text-green-400 font-mono">{summary.averageMfe === null ? '-' : formatPoints(summary.averageMfe)}</div>
+          </div>
+          <div>
+            <div className="text-gray-400">Avg MAE</div>
+            <div className="text-red-400 font-mono">{summary.averageMae === null ? '-' : formatPoints(summary.averageMae)}</div>
+          </div>
+          <div>
+            <div className="text-gray-400">Edge Ratio</div>
+            <div className="text-white font-mono">{summary.edgeRatio === null ? '-' : summary.edgeRatio.toFixed(2)}</div>
+          </div>
+          <div>
+            <div className="text-gray-400">Median Capture</div>
+            <div className="text-white font-mono">{formatRatio(summary.medianCapture)}</div>
+          </div>
+          <div>
+            <div className="text-gray-400">Losers That Were Up</div>
+            <div className="text-yellow-400 font-mono" title="Losing trades whose MFE reached the median points of the winners">
+              {summary.losersThatWereUp}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+          <div className="h-64 bg-gray-900/50 rounded-lg p-2">
+            <div className="text-xs text-gray-400 mb-1">MAE vs MFE (points)</div>
+            <ResponsiveContainer width="100%" height="90%">
+              <ScatterChart>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" strokeOpacity={0.5} />
+                <XAxis
+                  type="number"
+                  dataKey="mae"
+                  name="MAE"
+                  tick={{ fill: '#9ca3af', fontSize: 10 }}
+                  axisLine={{ stroke: '#374151' }}
+                  tickLine={{ stroke: '#374151' }}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="mfe"
+                  name="MFE"
+                  tick={{ fill: '#9ca3af', fontSize: 10 }}
+                  axisLine={{ stroke: '#374151' }}
+                  tickLine={{ stroke: '#374151' }}
+                />
+                <Tooltip
+                  content={({ payload }) => {
+                    const point = payload?.[0]?.payload as ExcursionPoint | undefined;
+                    if (!point) return null;
+                    return (
+                      <div className="rounded border border-gray-700 bg-gray-800 p-2 text-xs text-white">
+                        <div>{point.date} {point.time} · {point.direction}{point.line ? ` · ${point.line}` : ''}</div>
+                        <div className="text-gray-400">MFE {formatPoints(point.mfe)} · MAE {formatPoints(point.mae)}</div>
+                        <div className={point.pnl >= 0 ? 'text-green-400' : 'text-red-400'}>
+                          {formatCurrency(point.pnl)}
+                          {point.captureRatio !== null && ` · captured ${formatRatio(point.captureRatio)}`}
+                        </div>
+                      </div>
+                    );
+                  }}
+                />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+                {(Object.keys(OUTCOMES) as TradeOutcome[]).map(outcome => (
+                  <Scatter
+                    key={outcome}
+                    name={OUTCOMES[outcome].label}
+                    data={result.trades.filter(point => point.outcome === outcome)}
+                    fill={OUTCOMES[outcome].color}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="h-64 bg-gray-900/50 rounded-lg p-2">
+            <div className="text-xs text-gray-400 mb-1">Capture ratio (realised points / MFE)</div>
+            <ResponsiveContainer width="100%" height="90%">
+              <BarChart data={result.captureDistribution}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" strokeOpacity={0.5} />
+                <XAxis
+                  dataKey="label"
+                  tick={{ fill: '#9ca3af', fontSize: 10 }}
+                  axisLine={{ stroke: '#374151' }}
+                  tickLine={{ stroke: '#374151' }}
+                  interval={1}
+                />
+                <YAxis
+                  allowDecimals={false}
+                  tick={{ fill: '#9ca3af', fontSize: 10 }}
+                  axisLine={{ stroke: '#374151' }}
+                  tickLine={{ stroke: '#374151' }}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', color: '#fff' }}
+                  formatter={(value: number) => [value, 'Trades']}
+                />
+                <ReferenceLine x="0%" stroke="#6b7280" />
+                <Bar dataKey="count" fill="#3b82f6" isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-white text-sm">What If: Fixed Target and Stop</h4>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="whatIfTakeProfit" className="text-xs text-gray-300">Take profit (pts)</Label>
+              <Input
+                id="whatIfTakeProfit"
+                value={takeProfits}
+                onChange={(e) => setTakeProfits(e.target.value)}
+                placeholder="10, 15, 17"
+                className="w-36 h-8 bg-gray-900 border-gray-600 text-white text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="whatIfStopLoss" className="text-xs text-gray-300">Stop loss (pts)</Label>
+              <Input
+                id="whatIfStopLoss"
+                value={stopLosses}
+                onChange={(e) => setStopLosses(e.target.value)}
+                placeholder="10, 17"
+                className="w-36 h-8 bg-gray-900 border-gray-600 text-white text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-300">Both reached</Label>
+              <div className="flex gap-1">
+                {(['stop-first', 'target-first'] as AmbiguousExit[]).map(option => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant={ambiguity === option ? 'default' : 'outline'}
+                    onClick={() => setAmbiguity(option)}
+                  >
+                    {option === 'stop-first' ? 'Stop first' : 'Target first'}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <Button size="sm" onClick={() => fetchExcursions(takeProfits, stopLosses, ambiguity)} disabled={loading}>
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Replay'}
+            </Button>
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          {result.pointValue === null ? (
+            <p className="text-xs text-yellow-400">
+              No exit legs with points to price a replay. Re-parse the run to record its trade lifecycles.
+            </p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-600">
+                  <th className="text-left py-1 text-gray-300 font-medium">TP / SL</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Target Hits</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Stop Hits</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Both</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Unchanged</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Net Points</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Net PNL</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">vs Actual</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Win Rate</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Profit Factor</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-gray-600 bg-gray-600/40">
+                  <td className="py-1 text-white font-medium">Actual</td>
+                  <td className="py-1 text-right text-gray-500" colSpan={4}>{actual.trades} trades</td>
+                  <td className="py-1 text-right font-mono text-gray-300">{actual.netPoints.toFixed(2)}</td>
+                  <td className={`py-1 text-right font-mono ${actual.netPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatCurrency(actual.netPnl)}
+                  </td>
+                  <td className="py-1 text-right text-gray-500">-</td>
+                  <td className="py-1 text-right text-gray-300">{actual.winRate.toFixed(1)}%</td>
+                  <td className="py-1 text-right text-gray-500">-</td>
+                </tr>
+                {result.whatIf.map(row => {
+                  const change = row.netPnl - actual.netPnl;
+                  return (
+                    <tr
+                      key={`${row.takeProfit}/${row.stopLoss}`}
+                      className={`border-b border-gray-600 hover:bg-gray-600/50 ${isConfigured(row) ? 'text-blue-300' : 'text-gray-300'}`}
+                    >
+                      <td className="py-1" title={isConfigured(row) ? "The run's own Full Take Profit / Full Stop Loss" : undefined}>
+                        {row.takeProfit} / {row.stopLoss}{isConfigured(row) && ' (configured)'}
+                      </td>
+                      <td className="py-1 text-right">{row.targetHits}</td>
+                      <td className="py-1 text-right">{row.stopHits}</td>
+                      <td className="py-1 text-right">{row.ambiguous}</td>
+                      <td className="py-1 text-right">{row.unchanged}</td>
+                      <td className="py-1 text-right font-mono">{row.netPoints.toFixed(2)}</td>
+                      <td className={`py-1 text-right font-mono ${row.netPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {formatCurrency(row.netPnl)}
+                      </td>
+                      <td className={`py-1 text-right font-mono ${change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {change >= 0 ? '+' : ''}{formatCurrency(change)}
+                      </td>
+                      <td className="py-1 text-right">{row.winRate.toFixed(1)}%</td>
+                      <td className="py-1 text-right">{row.profitFactor === null ? '-' : row.profitFactor.toFixed(2)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-400">
+          Excursions are in points per contract and only cover the time the real trade was open, so a target or stop
+          wider than the exit it replaces is judged on that window alone. Trades that reached both are counted as
+          {result.ambiguity === 'stop-first' ? ' stopped out' : ' hitting the target'}. Target and stop exits are priced at
+          {result.pointValue === null ? ' -' : ` ${formatCurrency(result.pointValue)}`} per point per contract, trades
+          that reached neither keep their real PNL.
+          {result.withoutExcursions > 0 && ` ${result.withoutExcursions} trades without usable excursions are left out.`}
+          {result.withoutExits > 0 && ` ${result.withoutExits} trades without exit legs are plotted but not replayed, re-parse the run to include them.`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, FlaskConical, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AmbiguousExit } from '@/lib/exit-replay';
+import type { ExitRules, ExitSimulation, SimulatedExit, TradePerformance } from '@/lib/exit-simulator';
+
+interface ExitSimulatorPanelProps {
+  runId: number;
+  // JSON stored on virtual runs, which show the rules they were simulated with instead of the simulator
+  simulation?: string | null;
+  sourceRunId?: number | null;
+  onSaved?: (virtualRunId: number) => void;
+}
+
+interface SimulationResponse {
+  rules: ExitRules;
+  ambiguity: AmbiguousExit;
+  pointValue: number;
+  simulation: ExitSimulation;
+  actual: TradePerformance;
+  caveats: string[];
+  virtualRunId: number | null;
+}
+
+type RuleInputs = Record<keyof ExitRules, string>;
+
+const RULE_FIELDS: Array<{ key: keyof ExitRules; label: string; placeholder: string }> = [
+  { key: 'takeProfit', label: 'Take profit (pts)', placeholder: '17' },
+  { key: 'stopLoss', label: 'Stop loss (pts)', placeholder: '17' },
+  { key: 'trimPercent', label: 'Trim %', placeholder: '0' },
+  { key: 'trimTakeProfit', label: 'Trim TP (pts)', placeholder: 'none' },
+  { key: 'breakevenAfter', label: 'Breakeven after (pts)', placeholder: 'never' }
+];
+
+const EXIT_LABELS: Record<SimulatedExit, string> = {
+  target: 'Target',
+  trim: 'Trim',
+  stop: 'Stop',
+  breakeven: 'Breakeven',
+  unchanged: 'Actual exit',
+  mixed: 'Trim + other'
+};
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const COMPARED: Array<{ label: string; value: (performance: TradePerformance) => number | null; format: (value: number) => string; lowerIsBetter?: boolean }> = [
+  { label: 'Net PNL', value: performance => performance.netPnl, format: formatCurrency },
+  { label: 'Win Rate', value: performance => performance.winRate, format: value => `${(value * 100).toFixed(1)}%` },
+  { label: 'Profit Factor', value: performance => performance.profitFactor, format: value => value.toFixed(2) },
+  { label: 'Max Drawdown', value: performance => performance.maxDrawdown, format: formatCurrency, lowerIsBetter: true },
+  { label: 'Avg Trade', value: performance => performance.averageTrade, format: formatCurrency }
+];
+
+const toInputs = (rules: ExitRules): RuleInputs => ({
+  takeProfit: String(rules.takeProfit),
+  stopLoss: String(rules.stopLoss),
+  trimPercent: String(rules.trimPercent),
+  trimTakeProfit: rules.trimTakeProfit === null ? '' : String(rules.trimTakeProfit),
+  breakevenAfter: rules.breakevenAfter === null ? '' : String(rules.breakevenAfter)
+});
+
+// Blank optional fields mean "off", blank required ones fall back to the run's settings on the server
+const toRules = (inputs: RuleInputs) => ({
+  takeProfit: inputs.takeProfit.trim() ? Number(inputs.takeProfit) : undefined,
+  stopLoss: inputs.stopLoss.trim() ? Number(inputs.stopLoss) : undefined,
+  trimPercent: inputs.trimPercent.trim() ? Number(inputs.trimPercent) : 0,
+  trimTakeProfit: inputs.trimTakeProfit.trim() ? Number(inputs.trimTakeProfit) : null,
+  breakevenAfter: inputs.breakevenAfter.trim() ? Number(inputs.breakevenAfter) : null
+});
+
+export function ExitSimulatorPanel({ runId, simulation, sourceRunId, onSaved }: ExitSimulatorPanelProps) {
+  const [inputs, setInputs] = useState<RuleInputs | null>(null);
+  const [ambiguity, setAmbiguity] = useState<AmbiguousExit>('stop-first');
+  const [result, setResult] = useState<SimulationResponse | null>(null);
+  const [runName, setRunName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const simulate = useCallback(async (body: Record<string, unknown>) => {
+    const response = await fetch(`/api/runs/${runId}/simulate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Simulation failed');
+    }
+    return data as SimulationResponse;
+  }, [runId]);
+
+  const runSimulation = useCallback(async (body: Record<string, unknown>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await simulate(body);
+      setResult(data);
+      setInputs(toInputs(data.rules));
+    } catch (error) {
+      console.error('Error simulating exit rules:', error);
+      setError(error instanceof Error ? error.message : 'Simulation failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [simulate]);
+
+  // The first simulation uses the run's own exit settings
+  useEffect(() => {
+    if (!simulation) {
+      runSimulation({});
+    }
+  }, [simulation, runSimulation]);
+
+  const saveVirtualRun = async () => {
+    if (!inputs) return;
+    setSaving(true);
+    try {
+      const data = await simulate({ rules: toRules(inputs), ambiguity, save: true, runName: runName.trim() || undefined });
+      setResult(data);
+      toast.success(`Saved virtual run #${data.virtualRunId}`);
+      if (data.virtualRunId !== null) onSaved?.(data.virtualRunId);
+    } catch (error) {
+      console.error('Error saving virtual run:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save virtual run');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (simulation) {
+    const stored = JSON.parse(simulation) as { rules: ExitRules; ambiguity: AmbiguousExit; pointValue: number; caveats?: string[] };
+    return (
+      <Card className="bg-gray-700 border-gray-600">
+        <CardContent className="p-3 space-y-2 text-xs">
+          <h3 className="text-white flex items-center gap-2 text-sm">
+            <FlaskConical className="h-4 w-4" />
+            Virtual Run
+          </h3>
+          <p className="text-gray-300">
+            Simulated {sourceRunId ? `from run #${sourceRunId}` : 'from a run that has since been deleted'} with take profit{' '}
+            {stored.rules.takeProfit}, stop loss {stored.rules.stopLoss}
+            {stored.rules.trimPercent > 0 && stored.rules.trimTakeProfit !== null && `, trimming ${stored.rules.trimPercent}% at ${stored.rules.trimTakeProfit}`}
+            {stored.rules.breakevenAfter !== null && `, breakeven after ${stored.rules.breakevenAfter}`} points, resolving
+            ambiguous trades {stored.ambiguity === 'stop-first' ? 'stop first' : 'target first'} at {formatCurrency(stored.pointValue)} per point.
+          </p>
+          {(stored.caveats || []).map(caveat => (
+            <p key={caveat} className="text-yellow-400 flex items-start gap-1">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              {caveat}
+            </p>
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const exitCounts = result
+    ? result.simulation.trades.reduce((counts, trade) => ({ ...counts, [trade.exit]: (counts[trade.exit] || 0) + 1 }), {} as Partial<Record<SimulatedExit, number>>)
+    : {};
+
+  return (
+    <div className="space-y-3">
+      <Card className="bg-gray-700 border-gray-600">
+        <CardContent className="p-3 space-y-3">
+          <h3 className="text-white flex items-center gap-2 text-sm">
+            <FlaskConical className="h-4 w-4" />
+            Exit Rule Simulator
+          </h3>
+          {inputs && (
+            <div className="flex flex-wrap items-end gap-3">
+              {RULE_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`simulate-${field.key}`} className="text-xs text-gray-300">{field.label}</Label>
+                  <Input
+                    id={`simulate-${field.key}`}
+                    type="number"
+                    min="0"
+                    value={inputs[field.key]}
+                    placeholder={field.placeholder}
+                    onChange={(e) => setInputs({ ...inputs, [field.key]: e.target.value })}
+                    className="w-28 h-8 bg-gray-900 border-gray-600 text-white text-xs"
+                  />
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-300">Both reached</Label>
+                <div className="flex gap-1">
+                  {(['stop-first', 'target-first'] as AmbiguousExit[]).map(option => (
+                    <Button
+                      key={option}
+                      size="sm"
+                      variant={ambiguity === option ? 'default' : 'outline'}
+                      onClick={() => setAmbiguity(option)}
+                    >
+                      {option === 'stop-first' ? 'Stop first' : 'Target first'}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <Button size="sm" onClick={() => runSimulation({ rules: toRules(inputs), ambiguity })} disabled={loading}>
+                {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Simulate'}
+              </Button>
+            </div>
+          )}
+          {loading && !result && (
+            <div className="flex items-center justify-center py-6 text-gray-400">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Simulating...
+            </div>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card className="bg-gray-700 border-gray-600">
+          <CardContent className="p-3 space-y-3">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-600">
+                  <th className="text-left py-1 text-gray-300 font-medium"></th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Actual</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Simulated</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARED.map(metric => {
+                  const actual = metric.value(result.actual);
+                  const simulated = metric.value(result.simulation);
+                  const change = actual === null || simulated === null ? null : simulated - actual;
+                  const better = change !== null && (metric.lowerIsBetter ? change <= 0 : change >= 0);
+                  return (
+                    <tr key={metric.label} className="border-b border-gray-600">
+                      <td className="py-1 text-gray-300">{metric.label}</td>
+                      <td className="py-1 text-right font-mono text-gray-300">{actual === null ? '-' : metric.format(actual)}</td>
+                      <td className="py-1 text-right font-mono text-white">{simulated === null ? '-' : metric.format(simulated)}</td>
+                      <td className={`py-1 text-right font-mono ${change === null ? 'text-gray-500' : better ? 'text-green-400' : 'text-red-400'}`}>
+                        {change === null ? '-' : `${change >= 0 ? '+' : ''}${metric.format(change)}`}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="flex flex-wrap gap-3 text-xs text-gray-300">
+              <span>{result.simulation.totalTrades} trades:</span>
+              {(Object.keys(EXIT_LABELS) as SimulatedExit[]).filter(exit => exitCounts[exit]).map(exit => (
+                <span key={exit}>{EXIT_LABELS[exit]} <span className="text-white">{exitCounts[exit]}</span></span>
+              ))}
+              <span>Ambiguous <span className="text-yellow-400">{result.simulation.ambiguousTrades}</span></span>
+            </div>
+
+            <div className="space-y-1">
+              {result.caveats.map(caveat => (
+                <p key={caveat} className="text-xs text-yellow-400 flex items-start gap-1">
+                  <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                  {caveat}
+                </p>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2 pt-2 border-t border-gray-600">
+              <div className="space-y-1">
+                <Label htmlFor="virtualRunName" className="text-xs text-gray-300">Virtual run name</Label>
+                <Input
+                  id="virtualRunName"
+                  value={runName}
+                  onChange={(e) => setRunName(e.target.value)}
+                  placeholder="Defaults to this run's name (simulated)"
+                  className="w-72 h-8 bg-gray-900 border-gray-600 text-white text-xs"
+                />
+              </div>
+              <Button size="sm" onClick={saveVirtualRun} disabled={saving || loading}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Save className="h-4 w-4 mr-1" />}
+                Save as virtual run
+              </Button>
+              <span className="text-xs text-gray-400">Saves the rules as entered, it appears next to the real runs of this strategy.</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, Loader2, Target } from 'lucide-react';
+import type { LineComparisonRow, LineStatistic } from '@/lib/line-statistics';
+
+interface LineComparisonPanelProps {
+  runs: Array<{ id: number; name: string }>;
+}
+
+type ComparedMetric = 'netPnl' | 'winRate' | 'totalTrades' | 'avgPnl' | 'profitFactor';
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const METRICS: Record<ComparedMetric, { label: string; format: (value: number) => string }> = {
+  netPnl: { label: 'Net PNL', format: formatCurrency },
+  winRate: { label: 'Win Rate', format: value => `${(value * 100).toFixed(1)}%` },
+  totalTrades: { label: 'Trades', format: value => String(value) },
+  avgPnl: { label: 'Avg PNL', format: formatCurrency },
+  profitFactor: { label: 'Profit Factor', format: value => value.toFixed(2) }
+};
+
+// 'line' sorts up lines before down lines and then by level, a run ID sorts by that run's value
+type SortKey = 'line' | number;
+
+const sideOrder = (row: LineComparisonRow) => (row.side === 'up' ? 0 : row.side === 'down' ? 1 : 2);
+
+export function LineComparisonPanel({ runs }: LineComparisonPanelProps) {
+  const [lines, setLines] = useState<LineComparisonRow[]>([]);
+  const [metric, setMetric] = useState<ComparedMetric>('netPnl');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'line', descending: false });
+  const [loading, setLoading] = useState(false);
+  const runIds = runs.map(run => run.id).join(',');
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/runs/line-statistics?runIds=${runIds}`);
+        const data = await response.json();
+        if (data.success) {
+          setLines(data.lines);
+        }
+      } catch (error) {
+        console.error('Error comparing line statistics:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchComparison();
+  }, [runIds]);
+
+  // Only strategies that trade named lines have any
+  if (!loading && lines.length === 0) return null;
+
+  const valueOf = (stat: LineStatistic | undefined) => (stat ? stat[metric] : null);
+  const difference = (row: LineComparisonRow) => {
+    if (runs.length !== 2) return null;
+    const [before, after] = runs.map(run => valueOf(row.runs[run.id]));
+    return before === null || after === null ? null : after - before;
+  };
+
+  const sorted = [...lines].sort((a, b) => {
+    const direction = sort.descending ? -1 : 1;
+    if (sort.key === 'line') {
+      return direction * (sideOrder(a) - sideOrder(b) || (a.level ?? 0) - (b.level ?? 0) || a.line.localeCompare(b.line));
+    }
+    const aValue = valueOf(a.runs[sort.key]);
+    const bValue = valueOf(b.runs[sort.key]);
+    // Lines a run did not trade go last either way
+    if (aValue === null || bValue === null) return aValue === null ? (bValue === null ? 0 : 1) : -1;
+    return direction * (aValue - bValue);
+  });
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => (prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== 'line' }));
+  };
+
+  const sortIcon = (key: SortKey) => sort.key === key && (
+    sort.descending ? <ArrowDown className="inline h-3 w-3 ml-1" /> : <ArrowUp className="inline h-3 w-3 ml-1" />
+  );
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <div>
+            <CardTitle className="text-white flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Line Performance
+            </CardTitle>
+            <CardDescription className="text-gray-300">
+              Each magic line across the selected runs. Click a column to sort by it.
+            </CardDescription>
+          </div>
+          <div className="flex gap-1 flex-wrap">
+            {(Object.keys(METRICS) as ComparedMetric[]).map(key => (
+              <Button key={key} size="sm" variant={metric === key ? 'default' : 'outline'} onClick={() => setMetric(key)}>
+                {METRICS[key].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading line statistics...
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700 text-gray-400">
+                  <th className="text-left py-2 px-2 font-medium cursor-pointer hover:text-white" onClick={() => toggleSort('line')}>
+                    Line{sortIcon('line')}
+                  </th>
+                  {runs.map(run => (
+                    <th
+                      key={run.id}
+                      className="text-right py-2 px-2 font-medium cursor-pointer hover:text-white"
+                      onClick={() => toggleSort(run.id)}
+                    >
+                      {run.name}{sortIcon(run.id)}
+                    </th>
+                  ))}
+                  {runs.length === 2 && <th className="text-right py-2 px-2 font-medium">Change</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map(row => {
+                  const change = difference(row);
+                  return (
+                    <tr key={row.line} className="border-b border-gray-700 text-gray-300">
+                      <td className="py-2 px-2 text-white">{row.line}</td>
+                      {runs.map(run => {
+                        const value = valueOf(row.runs[run.id]);
+                        return (
+                          <td key={run.id} className="py-2 px-2 text-right font-mono">
+                            {value === null ? '-' : METRICS[metric].format(value)}
+                          </td>
+                        );
+                      })}
+                      {runs.length === 2 && (
+                        <td className={`py-2 px-2 text-right font-mono ${change === null ? 'text-gray-500' : change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {change === null ? '-' : `${change >= 0 ? '+' : ''}${METRICS[metric].format(change)}`}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
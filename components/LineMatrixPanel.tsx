@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { DEFAULT_LOSER_CRITERIA } from '@/lib/line-matrix';
+import type { LineMatrixCell, LineMatrixRow, LineMatrixRun } from '@/lib/line-matrix';
+
+interface LineMatrixPanelProps {
+  strategyId: string;
+  onRunSelect: (runId: number) => void;
+}
+
+type ColourBy = 'netPnl' | 'winRate';
+
+const LOSING_SHARES = [0.5, 0.75, 1];
+const MIN_RUNS = [1, 2, 3, 5];
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(0)}`;
+
+// Green for profit through red for loss, stronger the further from break-even
+const cellColor = (cell: LineMatrixCell, colourBy: ColourBy, maxAbsPnl: number) => {
+  const signed = colourBy === 'netPnl'
+    ? (maxAbsPnl > 0 ? cell.netPnl / maxAbsPnl : 0)
+    : (cell.winRate - 50) / 50;
+  const strength = Math.min(1, Math.abs(signed));
+  return `hsla(${signed >= 0 ? 142 : 0}, 65%, 35%, ${0.15 + strength * 0.7})`;
+};
+
+export function LineMatrixPanel({ strategyId, onRunSelect }: LineMatrixPanelProps) {
+  const [runs, setRuns] = useState<LineMatrixRun[]>([]);
+  const [rows, setRows] = useState<LineMatrixRow[]>([]);
+  const [colourBy, setColourBy] = useState<ColourBy>('netPnl');
+  const [minRuns, setMinRuns] = useState(DEFAULT_LOSER_CRITERIA.minRuns);
+  const [losingShare, setLosingShare] = useState(DEFAULT_LOSER_CRITERIA.losingShare);
+  const [losersOnly, setLosersOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!strategyId) return;
+    const fetchMatrix = async () => {
+      setLoading(true);
+      try {
+        const query = new URLSearchParams({ minRuns: String(minRuns), losingShare: String(losingShare) });
+        const response = await fetch(`/api/strategies/${strategyId}/line-matrix?${query}`);
+        const data = await response.json();
+        if (data.success) {
+          setRuns(data.runs);
+          setRows(data.rows);
+        }
+      } catch (error) {
+        console.error('Error fetching line matrix:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchMatrix();
+  }, [strategyId, minRuns, losingShare]);
+
+  const maxAbsPnl = Math.max(0, ...rows.flatMap(row => Object.values(row.cells).map(cell => Math.abs(cell.netPnl))));
+  const maxAbsTotal = Math.max(0, ...rows.map(row => Math.abs(row.total.netPnl)));
+  const losers = rows.filter(row => row.consistentLoser);
+  const visibleRows = losersOnly ? losers : rows;
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">Line Performance Matrix</CardTitle>
+        <CardDescription className="text-gray-400">
+          Net PNL, trades and win rate of every line level in every run, to see which levels carry the strategy
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-400">Colour by</Label>
+            <div className="flex gap-1">
+              <Button size="sm" variant={colourBy === 'netPnl' ? 'default' : 'outline'} onClick={() => setColourBy('netPnl')}>Net PNL</Button>
+              <Button size="sm" variant={colourBy === 'winRate' ? 'default' : 'outline'} onClick={() => setColourBy('winRate')}>Win Rate</Button>
+            </div>
+          </div>
+          <div className="space-y-1 min-w-40">
+            <Label htmlFor="matrixLosingShare" className="text-xs text-gray-400">Consistent loser: lost in</Label>
+            <Select value={String(losingShare)} onValueChange={(value) => setLosingShare(Number(value))}>
+              <SelectTrigger id="matrixLosingShare" className="bg-gray-900 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-gray-600">
+                {LOSING_SHARES.map(share => (
+                  <SelectItem key={share} value={String(share)} className="text-white">
+                    {share === 1 ? 'every run' : `${share * 100}%+ of runs`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 min-w-32">
+            <Label htmlFor="matrixMinRuns" className="text-xs text-gray-400">Traded in at least</Label>
+            <Select value={String(minRuns)} onValueChange={(value) => setMinRuns(Number(value))}>
+              <SelectTrigger id="matrixMinRuns" className="bg-gray-900 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-gray-600">
+                {MIN_RUNS.map(count => (
+                  <SelectItem key={count} value={String(count)} className="text-white">
+                    {count} run{count === 1 ? '' : 's'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            size="sm"
+            variant={losersOnly ? 'default' : 'outline'}
+            onClick={() => setLosersOnly(!losersOnly)}
+            disabled={losers.length === 0 && !losersOnly}
+          >
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            Consistent losers only ({losers.length})
+          </Button>
+        </div>
+
+        {loading && rows.length === 0 ? (
+          <div className="flex items-center justify-center h-32 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Building line matrix...
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-400">No trade summaries with a line for this strategy.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-xs border-separate border-spacing-1">
+              <thead>
+                <tr>
+                  <th className="text-left text-gray-400 font-medium px-2">Line</th>
+                  {runs.map(run => (
+                    <th key={run.id} className="text-center font-medium px-1 min-w-20">
+                      <button
+                        onClick={() => onRunSelect(run.id)}
+                        title={run.name}
+                        className="text-gray-300 hover:text-blue-300 max-w-24 truncate"
+                      >
+                        #{run.id}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="text-center text-gray-300 font-medium px-2 min-w-20">All runs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map(row => (
+                  <tr key={row.key}>
+                    <th className="text-left font-medium px-2 whitespace-nowrap">
+                      <span className={row.consistentLoser ? 'text-red-300' : 'text-gray-200'}>{row.label}</span>
+                      {row.consistentLoser && (
+                        <Badge variant="outline" className="ml-2 border-red-600 text-red-400 text-[10px]">
+                          lost in {row.losingRuns}/{row.runsTraded}
+                        </Badge>
+                      )}
+                    </th>
+                    {runs.map(run => {
+                      const cell = row.cells[run.id];
+                      const disabled = row.enabledRuns !== null && !row.enabledRuns.includes(run.id);
+                      if (!cell) {
+                        return (
+                          <td
+                            key={run.id}
+                            title={disabled ? 'Level not enabled in this run' : 'No trades on this line'}
+                            style={{
+                              backgroundImage: disabled
+                                ? 'repeating-linear-gradient(45deg, #374151 0, #374151 2px, transparent 2px, transparent 8px)'
+                                : undefined
+                            }}
+                            className="h-10 rounded text-center border border-dashed border-gray-600 text-gray-500"
+                          >
+                            {disabled ? '' : '0'}
+                          </td>
+                        );
+                      }
+                      return (
+                        <td
+                          key={run.id}
+                          onClick={() => onRunSelect(run.id)}
+                          title={`${run.name}\n${row.label}: ${formatCurrency(cell.netPnl)}, ${cell.trades} trades, ${cell.winRate.toFixed(0)}% win rate`}
+                          style={{ backgroundColor: cellColor(cell, colourBy, maxAbsPnl) }}
+                          className="h-10 rounded text-center font-mono text-white cursor-pointer hover:ring-2 hover:ring-blue-400"
+                        >
+                          <div>{formatCurrency(cell.netPnl)}</div>
+                          <div className="text-[10px] text-gray-300">{cell.trades} · {cell.winRate.toFixed(0)}%</div>
+                        </td>
+                      );
+                    })}
+                    <td
+                      style={{ backgroundColor: cellColor(row.total, colourBy, maxAbsTotal) }}
+                      className="h-10 rounded text-center font-mono text-white"
+                    >
+                      <div>{formatCurrency(row.total.netPnl)}</div>
+                      <div className="text-[10px] text-gray-300">{row.total.trades} · {row.total.winRate.toFixed(0)}%</div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          Cells show net PNL, trades and win rate. Hatched cells are levels missing from the run&apos;s Upside / Downside
+          Levels. A consistent loser lost money in {losingShare === 1 ? 'every run' : `at least ${losingShare * 100}% of the runs`} that
+          traded it, and was traded in at least {minRuns} run{minRuns === 1 ? '' : 's'}.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,319 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dices, Loader2 } from 'lucide-react';
+import { ComposedChart, Area, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import type { MonteCarloMethod, MonteCarloResult, MonteCarloSource, MonteCarloThreshold, PercentileSet } from '@/lib/monte-carlo';
+
+interface MonteCarloPanelProps {
+  runId: number;
+}
+
+type MonteCarloResponse = MonteCarloResult & {
+  source: MonteCarloSource;
+  dailyLimits: Array<MonteCarloThreshold & { probability: number }>;
+};
+
+const PERCENTILE_KEYS: Array<keyof PercentileSet> = ['p5', 'p25', 'p50', 'p75', 'p95'];
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const DEFAULT_QUERY = { source: 'trades', method: 'bootstrap', iterations: '1000', seed: '1' };
+
+export function MonteCarloPanel({ runId }: MonteCarloPanelProps) {
+  const [source, setSource] = useState<MonteCarloSource>('trades');
+  const [method, setMethod] = useState<MonteCarloMethod>('bootstrap');
+  const [iterations, setIterations] = useState('1000');
+  const [seed, setSeed] = useState('1');
+  const [drawdownLimit, setDrawdownLimit] = useState('');
+  const [result, setResult] = useState<MonteCarloResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const simulate = useCallback(async (query: URLSearchParams) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/runs/${runId}/monte-carlo?${query}`);
+      const data = await response.json();
+      if (data.success) {
+        setResult(data);
+      } else {
+        setResult(null);
+        setError(data.error || 'Simulation failed');
+      }
+    } catch (error) {
+      console.error('Error running Monte Carlo simulation:', error);
+      setError('Simulation failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [runId]);
+
+  // Simulate once with the defaults when the tab opens, later runs are started with the button
+  useEffect(() => {
+    simulate(new URLSearchParams(DEFAULT_QUERY));
+  }, [simulate]);
+
+  const runSimulation = () => {
+    const query = new URLSearchParams({ source, method, iterations, seed });
+    if (drawdownLimit) query.set('ruinThreshold', drawdownLimit);
+    simulate(query);
+  };
+
+  const fanData = result?.bands.map(band => ({
+    step: band.step,
+    outer: [band.p5, band.p95],
+    inner: [band.p25, band.p75],
+    p50: band.p50
+  })) || [];
+
+  const stepLabel = result?.source === 'daily' ? 'Day' : 'Trade';
+
+  return (
+    <div className="space-y-3">
+      <Card className="bg-gray-700 border-gray-600">
+        <CardContent className="p-3 space-y-3">
+          <h3 className="text-white flex items-center gap-2 text-sm">
+            <Dices className="h-4 w-4" />
+            Monte Carlo Simulation
+          </h3>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-300">Sample</Label>
+              <div className="flex gap-1">
+                {(['trades', 'daily'] as MonteCarloSource[]).map(option => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant={source === option ? 'default' : 'outline'}
+                    onClick={() => setSource(option)}
+                  >
+                    {option === 'trades' ? 'Trade PNL' : 'Daily PNL'}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-300">Method</Label>
+              <div className="flex gap-1">
+                {(['bootstrap', 'shuffle'] as MonteCarloMethod[]).map(option => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant={method === option ? 'default' : 'outline'}
+                    onClick={() => setMethod(option)}
+                  >
+                    {option === 'bootstrap' ? 'Bootstrap' : 'Shuffle'}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mcIterations" className="text-xs text-gray-300">Iterations</Label>
+              <Input
+                id="mcIterations"
+                type="number"
+                min="1"
+                max="10000"
+                value={iterations}
+                onChange={(e) => setIterations(e.target.value)}
+                className="w-24 h-8 bg-gray-900 border-gray-600 text-white text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mcSeed" className="text-xs text-gray-300">Seed</Label>
+              <Input
+                id="mcSeed"
+                type="number"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                className="w-24 h-8 bg-gray-900 border-gray-600 text-white text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mcDrawdownLimit" className="text-xs text-gray-300">Total Drawdown Limit ($)</Label>
+              <Input
+                id="mcDrawdownLimit"
+                type="number"
+                min="0"
+                placeholder="Optional"
+                value={drawdownLimit}
+                onChange={(e) => setDrawdownLimit(e.target.value)}
+                className="w-32 h-8 bg-gray-900 border-gray-600 text-white text-xs"
+              />
+            </div>
+            <Button size="sm" onClick={runSimulation} disabled={loading || !iterations || !seed}>
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Run'}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-400">
+            Bootstrap draws the same number of PNL values with replacement, shuffle reorders the actual values.
+            The same seed always gives the same result. The strategy Max Loss and Loss Cut Off settings are checked per day,
+            on the trades resampled as whole days (bootstrap) or reordered within each day (shuffle). The optional total
+            drawdown limit is checked against the largest drawdown of each path over the whole sample.
+          </p>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <Card className="bg-gray-700 border-gray-600">
+            <CardContent className="p-3">
+              <h3 className="text-white text-sm mb-1">Equity Fan</h3>
+              <p className="text-xs text-gray-400 mb-3">
+                Cumulative PNL over {result.iterations} paths of {result.sampleSize} {result.source === 'daily' ? 'days' : 'trades'}.
+                Shaded bands are the 5-95th and 25-75th percentiles, the line is the median.
+              </p>
+              <div className="h-64 bg-gray-900/50 rounded-lg p-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={fanData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" strokeOpacity={0.5} />
+                    <XAxis
+                      dataKey="step"
+                      tick={{ fill: '#9ca3af', fontSize: 10 }}
+                      axisLine={{ stroke: '#374151' }}
+                      tickLine={{ stroke: '#374151' }}
+                    />
+                    <YAxis
+                      tick={{ fill: '#9ca3af', fontSize: 10 }}
+                      axisLine={{ stroke: '#374151' }}
+                      tickLine={{ stroke: '#374151' }}
+                      tickFormatter={(value) => `$${value}`}
+                    />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', color: '#fff' }}
+                      labelFormatter={(label) => `${stepLabel} ${label}`}
+                      formatter={(value: number | number[], name: string) => [
+                        Array.isArray(value) ? `${formatCurrency(value[0])} to ${formatCurrency(value[1])}` : formatCurrency(value),
+                        name === 'outer' ? '5-95th' : name === 'inner' ? '25-75th' : 'Median'
+                      ]}
+                    />
+                    <ReferenceLine y={0} stroke="#6b7280" />
+                    <Area type="monotone" dataKey="outer" stroke="none" fill="#3b82f6" fillOpacity={0.2} isAnimationActive={false} />
+                    <Area type="monotone" dataKey="inner" stroke="none" fill="#3b82f6" fillOpacity={0.35} isAnimationActive={false} />
+                    <Line type="monotone" dataKey="p50" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gray-700 border-gray-600">
+            <CardContent className="p-3">
+              <h3 className="text-white text-sm mb-1">Max Drawdown Distribution</h3>
+              <p className="text-xs text-gray-400 mb-3">
+                Mean {formatCurrency(result.maxDrawdown.mean)}, actual sequence {formatCurrency(result.actual.maxDrawdown)}
+              </p>
+              <div className="h-48 bg-gray-900/50 rounded-lg p-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={result.maxDrawdown.histogram}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" strokeOpacity={0.5} />
+                    <XAxis
+                      dataKey="to"
+                      tick={{ fill: '#9ca3af', fontSize: 10 }}
+                      axisLine={{ stroke: '#374151' }}
+                      tickLine={{ stroke: '#374151' }}
+                      tickFormatter={(value) => `$${Math.round(value)}`}
+                    />
+                    <YAxis
+                      tick={{ fill: '#9ca3af', fontSize: 10 }}
+                      axisLine={{ stroke: '#374151' }}
+                      tickLine={{ stroke: '#374151' }}
+                    />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', color: '#fff' }}
+                      labelFormatter={(_, payload) => {
+                        const bucket = payload?.[0]?.payload;
+                        return bucket ? `${formatCurrency(bucket.from)} to ${formatCurrency(bucket.to)}` : '';
+                      }}
+                      formatter={(value: number) => [value, 'Paths']}
+                    />
+                    <Bar dataKey="count" fill="#ef4444" fillOpacity={0.7} isAnimationActive={false} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gray-700 border-gray-600">
+            <CardContent className="p-3 space-y-3">
+              <h3 className="text-white text-sm">Percentiles</h3>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-gray-600">
+                    <th className="text-left py-1 text-gray-300 font-medium">Metric</th>
+                    {PERCENTILE_KEYS.map(key => (
+                      <th key={key} className="text-right py-1 text-gray-300 font-medium">{key.toUpperCase()}</th>
+                    ))}
+                    <th className="text-right py-1 text-gray-300 font-medium">Actual</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-gray-600">
+                    <td className="py-1 text-gray-300">Final PNL</td>
+                    {PERCENTILE_KEYS.map(key => (
+                      <td
+                        key={key}
+                        className={`py-1 text-right font-mono ${result.finalPnl.percentiles[key] >= 0 ? 'text-green-400' : 'text-red-400'}`}
+                      >
+                        {formatCurrency(result.finalPnl.percentiles[key])}
+                      </td>
+                    ))}
+                    <td className="py-1 text-right font-mono text-gray-300">{formatCurrency(result.actual.finalPnl)}</td>
+                  </tr>
+                  <tr className="border-b border-gray-600">
+                    <td className="py-1 text-gray-300">Max Drawdown</td>
+                    {PERCENTILE_KEYS.map(key => (
+                      <td key={key} className="py-1 text-right font-mono text-red-400">
+                        {formatCurrency(result.maxDrawdown.percentiles[key])}
+                      </td>
+                    ))}
+                    <td className="py-1 text-right font-mono text-gray-300">{formatCurrency(result.actual.maxDrawdown)}</td>
+                  </tr>
+                </tbody>
+              </table>
+
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-gray-600">
+                    <th className="text-left py-1 text-gray-300 font-medium">Risk</th>
+                    <th className="text-right py-1 text-gray-300 font-medium">Limit</th>
+                    <th className="text-right py-1 text-gray-300 font-medium">Probability</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-gray-600">
+                    <td className="py-1 text-gray-300">Finishing with a loss</td>
+                    <td className="py-1 text-right text-gray-400">-</td>
+                    <td className="py-1 text-right font-mono text-white">{formatPercent(result.finalPnl.probabilityOfLoss)}</td>
+                  </tr>
+                  {result.dailyLimits.map(limit => (
+                    <tr key={limit.name} className="border-b border-gray-600">
+                      <td className="py-1 text-gray-300">A day reaching {limit.name}</td>
+                      <td className="py-1 text-right font-mono text-gray-400">{formatCurrency(limit.value)}</td>
+                      <td className="py-1 text-right font-mono text-white">{formatPercent(limit.probability)}</td>
+                    </tr>
+                  ))}
+                  {result.thresholds.map(threshold => (
+                    <tr key={threshold.name} className="border-b border-gray-600">
+                      <td className="py-1 text-gray-300">Total drawdown reaching the limit</td>
+                      <td className="py-1 text-right font-mono text-gray-400">{formatCurrency(threshold.value)}</td>
+                      <td className="py-1 text-right font-mono text-white">{formatPercent(threshold.probability)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
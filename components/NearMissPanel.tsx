@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertTriangle, Loader2, Target } from 'lucide-react';
+import type { FillNearMissBucket, NearMissSetting, TpNearMissBucket } from '@/lib/near-miss';
+
+interface NearMissPanelProps {
+  runId: number;
+}
+
+interface NearMissResponse {
+  pointValue: number | null;
+  tpNearMisses: { events: unknown[]; buckets: TpNearMissBucket[] };
+  fillNearMisses: { events: unknown[]; buckets: FillNearMissBucket[]; averagePnl: Record<string, number | null> };
+  recommendation: {
+    candidates: NearMissSetting[];
+    best: NearMissSetting | null;
+    current: { enabled: boolean | null; distance: number | null; offset: number | null };
+  };
+  caveats: string[];
+}
+
+const formatCurrency = (value: number | null) => (value === null ? '-' : `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`);
+const pnlColor = (value: number | null) => (value === null ? 'text-gray-500' : value >= 0 ? 'text-green-400' : 'text-red-400');
+const gain = (setting: NearMissSetting) => setting.pnlChange ?? setting.pointsChange;
+
+export function NearMissPanel({ runId }: NearMissPanelProps) {
+  const [result, setResult] = useState<NearMissResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchNearMisses = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/runs/${runId}/near-misses`);
+        const data = await response.json();
+        if (data.success) {
+          setResult(data);
+        } else {
+          setError(data.error || 'Could not analyse near misses');
+        }
+      } catch (error) {
+        console.error('Error fetching near misses:', error);
+        setError('Could not analyse near misses');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchNearMisses();
+  }, [runId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-400">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Analysing near misses...
+      </div>
+    );
+  }
+
+  if (!result) {
+    return error ? <p className="text-xs text-red-400">{error}</p> : null;
+  }
+  if (result.tpNearMisses.events.length === 0 && result.fillNearMisses.events.length === 0) {
+    return null;
+  }
+
+  const { recommendation } = result;
+  const sum = (values: Array<number | null>) =>
+    values.some(value => value !== null) ? values.reduce<number>((total, value) => total + (value ?? 0), 0) : null;
+  const missedPnl = sum(result.tpNearMisses.buckets.map(bucket => bucket.missedPnl));
+  const unfilledPnl = sum(result.fillNearMisses.buckets.map(bucket => bucket.estimatedPnl));
+  const topCandidates = [...recommendation.candidates]
+    .filter(setting => setting.triggered > 0)
+    .sort((a, b) => gain(b) - gain(a))
+    .slice(0, 5);
+  const { current } = recommendation;
+  const isBest = (setting: NearMissSetting) =>
+    recommendation.best !== null && setting.distance === recommendation.best.distance && setting.offset === recommendation.best.offset;
+
+  return (
+    <Card className="bg-gray-700 border-gray-600">
+      <CardContent className="p-3 space-y-3">
+        <h3 className="text-white flex items-center gap-2 text-sm">
+          <Target className="h-4 w-4" />
+          Near-Miss Cost
+        </h3>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+          <div>
+            <div className="text-gray-400">TP Near Misses</div>
+            <div className="text-white font-mono">{result.tpNearMisses.events.length}</div>
+          </div>
+          <div>
+            <div className="text-gray-400">Cost of Missed Targets</div>
+            <div className={`font-mono ${pnlColor(missedPnl === null ? null : -missedPnl)}`}>{formatCurrency(missedPnl)}</div>
+          </div>
+          <div>
+            <div className="text-gray-400">Fill Near Misses</div>
+            <div className="text-white font-mono">{result.fillNearMisses.events.length}</div>
+          </div>
+          <div>
+            <div className="text-gray-400">Est. PNL of Unfilled Trades</div>
+            <div className={`font-mono ${pnlColor(unfilledPnl)}`}>{formatCurrency(unfilledPnl)}</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <h4 className="text-white text-sm">TP Near Misses by Distance</h4>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-600">
+                  <th className="text-left py-1 text-gray-300 font-medium">Distance</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Events</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Later Hit TP</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Missed Points</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.tpNearMisses.buckets.filter(bucket => bucket.events > 0).map(bucket => (
+                  <tr key={bucket.label} className="border-b border-gray-600">
+                    <td className="py-1 text-white">{bucket.label}</td>
+                    <td className="py-1 text-right text-gray-300" title={`${bucket.matched} matched to a trade`}>{bucket.events}</td>
+                    <td className="py-1 text-right text-gray-300">{bucket.laterHitTarget}</td>
+                    <td className="py-1 text-right font-mono text-gray-300">{bucket.missedPoints.toFixed(2)}</td>
+                    <td className={`py-1 text-right font-mono ${pnlColor(bucket.missedPnl === null ? null : -bucket.missedPnl)}`}>
+                      {formatCurrency(bucket.missedPnl)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-1">
+            <h4 className="text-white text-sm">Fill Near Misses by Distance</h4>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-600">
+                  <th className="text-left py-1 text-gray-300 font-medium">Distance</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Unfilled Entries</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Est. PNL</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.fillNearMisses.buckets.filter(bucket => bucket.events > 0).map(bucket => (
+                  <tr key={bucket.label} className="border-b border-gray-600">
+                    <td className="py-1 text-white">{bucket.label}</td>
+                    <td className="py-1 text-right text-gray-300">{bucket.events}</td>
+                    <td className={`py-1 text-right font-mono ${pnlColor(bucket.estimatedPnl)}`}>{formatCurrency(bucket.estimatedPnl)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-400">
+              Average filled trade: Long {formatCurrency(result.fillNearMisses.averagePnl.LONG ?? null)}, Short{' '}
+              {formatCurrency(result.fillNearMisses.averagePnl.SHORT ?? null)}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <h4 className="text-white text-sm">Trim TP Near Miss</h4>
+          <p className="text-xs text-gray-300">
+            Current: {current.enabled === null ? 'not in the run\'s parameters' : current.enabled ? 'on' : 'off'}
+            {current.distance !== null && `, distance ${current.distance}pts`}
+            {current.offset !== null && `, offset ${current.offset}pts`}
+          </p>
+          {recommendation.best ? (
+            <p className="text-xs text-green-400">
+              Try distance {recommendation.best.distance}pts with offset {recommendation.best.offset}pts: {recommendation.best.triggered} near
+              misses would have exited early for {recommendation.best.pnlChange !== null
+                ? formatCurrency(recommendation.best.pnlChange)
+                : `${recommendation.best.pointsChange.toFixed(2)} pts`} more.
+            </p>
+          ) : (
+            <p className="text-xs text-gray-400">No distance and offset would have improved the logged near misses, leave it off.</p>
+          )}
+          {topCandidates.length > 0 && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-600">
+                  <th className="text-left py-1 text-gray-300 font-medium">Distance / Offset</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Triggered</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">Points Change</th>
+                  <th className="text-right py-1 text-gray-300 font-medium">PNL Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {topCandidates.map(setting => (
+                  <tr
+                    key={`${setting.distance}-${setting.offset}`}
+                    className={`border-b border-gray-600 ${isBest(setting) ? 'bg-blue-900/30' : ''}`}
+                  >
+                    <td className="py-1 text-white">{setting.distance}pts / {setting.offset}pts</td>
+                    <td className="py-1 text-right text-gray-300">{setting.triggered}</td>
+                    <td className="py-1 text-right font-mono text-gray-300">{setting.pointsChange.toFixed(2)}</td>
+                    <td className={`py-1 text-right font-mono ${pnlColor(setting.pnlChange)}`}>{formatCurrency(setting.pnlChange)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {result.caveats.map(caveat => (
+          <p key={caveat} className="text-xs text-yellow-400 flex items-start gap-1">
+            <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            {caveat}
+          </p>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
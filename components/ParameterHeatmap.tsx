@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { HEATMAP_AGGREGATES, HEATMAP_METRICS } from '@/lib/parameter-heatmap';
+import type { Heatmap, HeatmapAggregate, HeatmapCell, HeatmapMetric } from '@/lib/parameter-heatmap';
+
+interface ParameterHeatmapProps {
+  strategyId: string;
+  onRunSelect: (runId: number) => void;
+}
+
+type HeatmapResponse = Heatmap & {
+  x: string;
+  y: string;
+  metric: HeatmapMetric;
+  aggregate: HeatmapAggregate;
+  excludedRuns: number;
+};
+
+const formatMetric = (metric: HeatmapMetric, value: number | null) => {
+  if (value === null) return '-';
+  switch (metric) {
+    case 'netPnl':
+    case 'maxDrawdown':
+      return `$${value.toFixed(0)}`;
+    case 'winRate':
+      return `${value.toFixed(1)}%`;
+    case 'totalTrades':
+      return value.toFixed(0);
+    default:
+      return value.toFixed(2);
+  }
+};
+
+// Red for the worst cell through to green for the best
+const cellColor = (heatmap: HeatmapResponse, value: number | null) => {
+  if (value === null || heatmap.min === null || heatmap.max === null) return undefined;
+  let ratio = heatmap.max > heatmap.min ? (value - heatmap.min) / (heatmap.max - heatmap.min) : 0.5;
+  if (HEATMAP_METRICS[heatmap.metric].lowerIsBetter) ratio = 1 - ratio;
+  return `hsl(${Math.round(ratio * 120)}, 65%, ${28 + ratio * 8}%)`;
+};
+
+export function ParameterHeatmap({ strategyId, onRunSelect }: ParameterHeatmapProps) {
+  const [parameters, setParameters] = useState<Array<{ name: string; distinctValues: number }>>([]);
+  const [xParameter, setXParameter] = useState('');
+  const [yParameter, setYParameter] = useState('');
+  const [metric, setMetric] = useState<HeatmapMetric>('netPnl');
+  const [aggregate, setAggregate] = useState<HeatmapAggregate>('mean');
+  const [heatmap, setHeatmap] = useState<HeatmapResponse | null>(null);
+  const [selectedCell, setSelectedCell] = useState<HeatmapCell | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!strategyId) return;
+    const fetchParameters = async () => {
+      try {
+        const response = await fetch(`/api/strategies/${strategyId}/heatmap`);
+        const data = await response.json();
+        if (data.success) {
+          setParameters(data.parameters);
+          setXParameter(data.parameters[0]?.name ?? '');
+          setYParameter(data.parameters[1]?.name ?? '');
+        }
+      } catch (error) {
+        console.error('Error fetching heatmap parameters:', error);
+      }
+    };
+    fetchParameters();
+  }, [strategyId]);
+
+  useEffect(() => {
+    if (!strategyId || !xParameter || !yParameter || xParameter === yParameter) {
+      setHeatmap(null);
+      return;
+    }
+    const fetchHeatmap = async () => {
+      setLoading(true);
+      setSelectedCell(null);
+      try {
+        const query = new URLSearchParams({ x: xParameter, y: yParameter, metric, aggregate });
+        const response = await fetch(`/api/strategies/${strategyId}/heatmap?${query}`);
+        const data = await response.json();
+        if (data.success) {
+          setHeatmap(data.heatmap);
+        }
+      } catch (error) {
+        console.error('Error fetching heatmap:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchHeatmap();
+  }, [strategyId, xParameter, yParameter, metric, aggregate]);
+
+  const handleCellClick = (cell: HeatmapCell) => {
+    if (cell.runs.length === 1) {
+      onRunSelect(cell.runs[0].id);
+    } else if (cell.runs.length > 1) {
+      setSelectedCell(cell);
+    }
+  };
+
+  const parameterSelect = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <div className="space-y-1 min-w-48">
+      <Label htmlFor={id} className="text-xs text-gray-400">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} className="bg-gray-900 border-gray-600 text-white">
+          <SelectValue placeholder="Select parameter" />
+        </SelectTrigger>
+        <SelectContent className="bg-gray-900 border-gray-600">
+          {parameters.map(parameter => (
+            <SelectItem key={parameter.name} value={parameter.name} className="text-white">
+              {parameter.name} ({parameter.distinctValues})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Optimisation Heatmap</CardTitle>
+        <CardDescription>
+          A metric over two parameters. Cells shared by several runs are aggregated, hatched cells are combinations
+          no run has tried. Click a cell to open its run.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {parameters.length < 2 ? (
+          <p className="text-sm text-gray-400 text-center py-8">
+            At least two numeric parameters must vary across this strategy&apos;s runs to build a heatmap.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-3">
+              {parameterSelect('heatmapX', 'Columns (X)', xParameter, setXParameter)}
+              {parameterSelect('heatmapY', 'Rows (Y)', yParameter, setYParameter)}
+              <div className="space-y-1 min-w-40">
+                <Label htmlFor="heatmapMetric" className="text-xs text-gray-400">Metric</Label>
+                <Select value={metric} onValueChange={(value) => setMetric(value as HeatmapMetric)}>
+                  <SelectTrigger id="heatmapMetric" className="bg-gray-900 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-600">
+                    {(Object.keys(HEATMAP_METRICS) as HeatmapMetric[]).map(key => (
+                      <SelectItem key={key} value={key} className="text-white">{HEATMAP_METRICS[key].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 min-w-32">
+                <Label htmlFor="heatmapAggregate" className="text-xs text-gray-400">Shared cells</Label>
+                <Select value={aggregate} onValueChange={(value) => setAggregate(value as HeatmapAggregate)}>
+                  <SelectTrigger id="heatmapAggregate" className="bg-gray-900 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-600">
+                    {HEATMAP_AGGREGATES.map(option => (
+                      <SelectItem key={option} value={option} className="text-white capitalize">{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {xParameter === yParameter ? (
+              <p className="text-sm text-yellow-400">Pick two different parameters.</p>
+            ) : loading ? (
+              <div className="flex items-center justify-center h-32 text-gray-400">
+                <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                Building heatmap...
+              </div>
+            ) : heatmap && (
+              <div className="space-y-3">
+                <div className="overflow-x-auto">
+                  <table className="text-xs border-separate border-spacing-1">
+                    <thead>
+                      <tr>
+                        <th className="text-right text-gray-400 font-medium px-2">{heatmap.y} \ {heatmap.x}</th>
+                        {heatmap.xValues.map(x => (
+                          <th key={x} className="text-center text-gray-300 font-medium px-2 min-w-16">{x}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {heatmap.cells.map((row, yIndex) => (
+                        <tr key={heatmap.yValues[yIndex]}>
+                          <th className="text-right text-gray-300 font-medium px-2">{heatmap.yValues[yIndex]}</th>
+                          {row.map(cell => {
+                            const missing = cell.runs.length === 0;
+                            return (
+                              <td
+                                key={cell.x}
+                                onClick={() => handleCellClick(cell)}
+                                title={missing
+                                  ? 'No run with this combination'
+                                  : cell.runs.map(run => `${run.name}: ${formatMetric(heatmap.metric, run.value)}`).join('\n')}
+                                style={{
+                                  backgroundColor: cellColor(heatmap, cell.value),
+                                  backgroundImage: missing
+                                    ? 'repeating-linear-gradient(45deg, #374151 0, #374151 2px, transparent 2px, transparent 8px)'
+                                    : undefined
+                                }}
+                                className={`h-10 rounded text-center font-mono ${missing
+                                  ? 'border border-dashed border-gray-600 text-gray-500'
+                                  : 'cursor-pointer text-white hover:ring-2 hover:ring-blue-400'} ${selectedCell === cell ? 'ring-2 ring-blue-400' : ''}`}
+                              >
+                                {missing ? '' : formatMetric(heatmap.metric, cell.value)}
+                                {cell.runs.length > 1 && <div className="text-[10px] text-gray-300">{cell.runs.length} runs</div>}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {heatmap.missingCells} of {heatmap.xValues.length * heatmap.yValues.length} combinations not tested
+                  {heatmap.excludedRuns > 0 ? `, ${heatmap.excludedRuns} run${heatmap.excludedRuns === 1 ? '' : 's'} without both parameters left out` : ''}
+                </p>
+
+                {selectedCell && (
+                  <div className="rounded-lg bg-gray-900/50 p-3 space-y-2">
+                    <div className="text-sm">
+                      {heatmap.x} = {selectedCell.x}, {heatmap.y} = {selectedCell.y}
+                      <span className="text-gray-400"> · {selectedCell.runs.length} runs</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {selectedCell.runs.map(run => (
+                        <Button key={run.id} size="sm" variant="outline" onClick={() => onRunSelect(run.id)}>
+                          {run.name} · {formatMetric(heatmap.metric, run.value)}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
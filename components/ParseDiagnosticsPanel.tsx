@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import type { ParseDiagnostics } from '@/lib/parsers/parse-diagnostics';
+
+interface ParseDiagnosticsPanelProps {
+  diagnostics: ParseDiagnostics;
+}
+
+export function ParseDiagnosticsPanel({ diagnostics }: ParseDiagnosticsPanelProps) {
+  const unrecognizedCount = diagnostics.totalLines - diagnostics.recognizedLines;
+  const droppedTrades = diagnostics.orphanedTrades.filter(orphan => orphan.dropped);
+  const issueCount = diagnostics.unrecognizedLines.length + diagnostics.orphanedTrades.length +
+    diagnostics.duplicateTradeIds.length + diagnostics.missingParameters.length + diagnostics.warnings.length;
+
+  return (
+    <div className="p-4 bg-gray-800/50 border border-gray-600 rounded-lg space-y-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-white flex items-center">
+          {issueCount === 0 ? (
+            <CheckCircle className="h-4 w-4 mr-2 text-green-400" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 mr-2 text-yellow-400" />
+          )}
+          Parse Diagnostics
+        </h4>
+        <span className="text-gray-400">
+          {diagnostics.recognizedLines} of {diagnostics.totalLines} lines recognised
+        </span>
+      </div>
+
+      {issueCount === 0 && (
+        <p className="text-gray-300">Every line was recognised and every trade was complete.</p>
+      )}
+
+      {diagnostics.unrecognizedLines.length > 0 && (
+        <div>
+          <div className="text-gray-300 mb-1">
+            Unrecognised lines <Badge variant="secondary">{unrecognizedCount}</Badge>
+          </div>
+          <div className="space-y-1">
+            {diagnostics.unrecognizedLines.map(entry => (
+              <div key={entry.prefix} className="p-2 bg-gray-900 rounded">
+                <div className="flex justify-between">
+                  <span className="font-mono text-white">{entry.prefix}</span>
+                  <span className="text-gray-400">{entry.count}× (first on line {entry.firstLine})</span>
+                </div>
+                <div className="font-mono text-xs text-gray-500 truncate">{entry.sample}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diagnostics.orphanedTrades.length > 0 && (
+        <div>
+          <div className="text-gray-300 mb-1">
+            Incomplete trades <Badge variant="secondary">{diagnostics.orphanedTrades.length}</Badge>
+            {droppedTrades.length > 0 && (
+              <span className="text-red-400 ml-2">{droppedTrades.length} not imported</span>
+            )}
+          </div>
+          <div className="space-y-1">
+            {diagnostics.orphanedTrades.map((orphan, index) => (
+              <div key={`${orphan.tradeId}-${index}`} className="flex justify-between p-2 bg-gray-900 rounded">
+                <span className="font-mono text-white">{orphan.tradeId} <span className="text-gray-500">line {orphan.sourceLine}</span></span>
+                <span className={orphan.dropped ? 'text-red-400' : 'text-yellow-400'}>
+                  missing {orphan.missing.join(', ')}{orphan.dropped ? ' (dropped)' : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diagnostics.duplicateTradeIds.length > 0 && (
+        <div>
+          <div className="text-gray-300 mb-1">
+            Duplicate trade IDs <Badge variant="secondary">{diagnostics.duplicateTradeIds.length}</Badge>
+          </div>
+          <div className="space-y-1">
+            {diagnostics.duplicateTradeIds.map(duplicate => (
+              <div key={`${duplicate.kind}-${duplicate.tradeId}`} className="flex justify-between p-2 bg-gray-900 rounded">
+                <span className="font-mono text-white">{duplicate.tradeId} <span className="text-gray-500">{duplicate.kind}</span></span>
+                <span className="text-gray-400">lines {duplicate.sourceLines.join(', ')}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diagnostics.missingParameters.length > 0 && (
+        <div>
+          <div className="text-gray-300 mb-1">Settings not extracted</div>
+          <div className="flex flex-wrap gap-1">
+            {diagnostics.missingParameters.map(name => (
+              <Badge key={name} variant="outline" className="text-yellow-300 border-yellow-600">{name}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diagnostics.warnings.length > 0 && (
+        <div className="space-y-1">
+          {diagnostics.warnings.map((warning, index) => (
+            <div key={index} className="text-yellow-300">• {warning}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import type { RunReparsePlan, FieldChange } from '@/lib/reparse';
+
+interface ReparseDialogProps {
+  scope: 'run' | 'strategy' | 'all';
+  runId?: number;
+  strategyId?: number;
+  // What is being re-parsed, e.g. the run or strategy name
+  label: string;
+  onApplied?: () => void;
+  children: React.ReactNode;
+}
+
+const formatValue = (value: number | string | null) => {
+  if (value === null) return '—';
+  return typeof value === 'number' ? Number(value.toFixed(4)).toString() : value;
+};
+
+function ChangeList({ title, changes }: { title: string; changes: FieldChange[] }) {
+  if (changes.length === 0) return null;
+  return (
+    <div>
+      <div className="text-gray-400 mb-1">{title}</div>
+      <div className="space-y-0.5">
+        {changes.map(change => (
+          <div key={change.field} className="flex justify-between font-mono text-xs">
+            <span className="text-gray-300">{change.field}</span>
+            <span>
+              <span className="text-red-300">{formatValue(change.before)}</span>
+              <span className="text-gray-500"> → </span>
+              <span className="text-green-300">{formatValue(change.after)}</span>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export const ReparseDialog = ({ scope, runId, strategyId, label, onApplied, children }: ReparseDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [plans, setPlans] = useState<RunReparsePlan[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (apply: boolean, runIds?: number[]) => {
+    const response = await fetch('/api/runs/reparse', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scope, runId, strategyId, apply, runIds })
+    });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Re-parse failed');
+    }
+    return data;
+  }, [scope, runId, strategyId]);
+
+  const fetchPlan = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await request(false);
+      setPlans(data.plans);
+      setSelected(data.plans.filter((plan: RunReparsePlan) => plan.status === 'changed').map((plan: RunReparsePlan) => plan.runId));
+    } catch (error) {
+      console.error('Error previewing re-parse:', error);
+      setError(error instanceof Error ? error.message : 'Failed to preview re-parse');
+    } finally {
+      setLoading(false);
+    }
+  }, [request]);
+
+  useEffect(() => {
+    if (open) {
+      fetchPlan();
+    }
+  }, [open, fetchPlan]);
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      const data = await request(true, selected);
+      toast.success(data.message);
+      setOpen(false);
+      onApplied?.();
+    } catch (error) {
+      console.error('Error applying re-parse:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to apply re-parse');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const toggleRun = (id: number) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(runId => runId !== id) : [...prev, id]);
+  };
+
+  const changed = plans.filter(plan => plan.status === 'changed');
+  const unchanged = plans.filter(plan => plan.status === 'unchanged');
+  const skipped = plans.filter(plan => plan.status === 'skipped');
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl sm:max-w-3xl max-h-[90vh] bg-gray-800 border-gray-700 flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="text-white">Re-parse {label}</DialogTitle>
+          <DialogDescription className="text-gray-300">
+            Runs the current parsers over the stored raw data. Review the changes, then apply them in a single transaction.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 text-sm">
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-gray-400">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Re-parsing stored runs...
+            </div>
+          ) : error ? (
+            <p className="text-red-400">{error}</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{changed.length} changed</Badge>
+                <Badge variant="outline">{unchanged.length} unchanged</Badge>
+                {skipped.length > 0 && <Badge variant="outline" className="text-yellow-300 border-yellow-600">{skipped.length} skipped</Badge>}
+              </div>
+
+              {changed.map(plan => (
+                <div key={plan.runId} className="p-3 bg-gray-900 border border-gray-700 rounded space-y-2">
+                  <label className="flex items-center justify-between cursor-pointer">
+                    <span className="flex items-center gap-2 text-white font-medium">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(plan.runId)}
+                        onChange={() => toggleRun(plan.runId)}
+                        className="rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+                      />
+                      Run #{plan.runId} {plan.runName && <span className="text-gray-400 font-normal">{plan.runName}</span>}
+                    </span>
+                    <span className="text-xs text-gray-400 font-mono">
+                      {plan.parserName} {plan.parserVersionBefore || 'unversioned'} → {plan.parserVersionAfter}
+                    </span>
+                  </label>
+
+                  <ChangeList title="Run results" changes={plan.runChanges} />
+                  <ChangeList title="Custom metrics" changes={plan.metricChanges} />
+
+                  {(plan.trades.added.length > 0 || plan.trades.removed.length > 0 || plan.trades.changed.length > 0) && (
+                    <div>
+                      <div className="text-gray-400 mb-1">Trade summaries ({plan.trades.before} → {plan.trades.after})</div>
+                      <div className="text-xs space-y-0.5">
+                        {plan.trades.added.length > 0 && <div className="text-green-300">+ {plan.trades.added.length} added: {plan.trades.added.slice(0, 10).join(', ')}{plan.trades.added.length > 10 ? '…' : ''}</div>}
+                        {plan.trades.removed.length > 0 && <div className="text-red-300">− {plan.trades.removed.length} removed: {plan.trades.removed.slice(0, 10).join(', ')}{plan.trades.removed.length > 10 ? '…' : ''}</div>}
+                        {plan.trades.changed.length > 0 && <div className="text-yellow-300">~ {plan.trades.changed.length} changed: {plan.trades.changed.slice(0, 10).join(', ')}{plan.trades.changed.length > 10 ? '…' : ''}</div>}
+                      </div>
+                    </div>
+                  )}
+
+                  {plan.events.some(event => event.changed) && (
+                    <div>
+                      <div className="text-gray-400 mb-1">Events</div>
+                      <div className="space-y-0.5">
+                        {plan.events.filter(event => event.changed).map(event => (
+                          <div key={event.eventType} className="flex justify-between font-mono text-xs">
+                            <span className="text-gray-300">{event.eventType}</span>
+                            <span className="text-gray-300">
+                              {event.before} → {event.after}{event.before === event.after ? ' (contents changed)' : ''}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {plan.otherChanges.length > 0 && (
+                    <div className="text-xs text-gray-400">Also rewrites: {plan.otherChanges.join(', ')}</div>
+                  )}
+                </div>
+              ))}
+
+              {skipped.map(plan => (
+                <div key={plan.runId} className="flex justify-between p-2 bg-gray-900 rounded text-xs">
+                  <span className="text-white">Run #{plan.runId} {plan.runName}</span>
+                  <span className="text-yellow-300">{plan.reason}</span>
+                </div>
+              ))}
+
+              {plans.length > 0 && changed.length === 0 && (
+                <p className="text-gray-300">Every run already matches what the current parsers produce.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={() => setOpen(false)} className="border-gray-600 text-gray-300">
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={loading || applying || selected.length === 0}>
+            {applying ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Apply {selected.length} run{selected.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
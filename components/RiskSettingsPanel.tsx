@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface RiskSettingsPanelProps {
+  strategyId: string;
+  // Called after the runs' ratios were recomputed with the new settings
+  onSaved?: () => void;
+}
+
+export function RiskSettingsPanel({ strategyId, onSaved }: RiskSettingsPanelProps) {
+  const [accountSize, setAccountSize] = useState('');
+  // Shown as a percentage, stored as a fraction
+  const [riskFreeRate, setRiskFreeRate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch(`/api/strategies/${strategyId}/risk-settings`);
+        const data = await response.json();
+        if (data.success) {
+          setAccountSize(String(data.settings.accountSize));
+          setRiskFreeRate(String(+(data.settings.riskFreeRate * 100).toFixed(4)));
+        }
+      } catch (error) {
+        console.error('Error fetching risk settings:', error);
+      }
+    };
+    fetchSettings();
+  }, [strategyId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/strategies/${strategyId}/risk-settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accountSize: parseFloat(accountSize),
+          riskFreeRate: parseFloat(riskFreeRate) / 100
+        })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`Risk settings saved, ratios recomputed for ${data.recomputedRuns} run${data.recomputedRuns === 1 ? '' : 's'}`);
+        onSaved?.();
+      } else {
+        toast.error(data.error || 'Failed to save risk settings');
+      }
+    } catch (error) {
+      console.error('Error saving risk settings:', error);
+      toast.error('Failed to save risk settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">Risk Settings</CardTitle>
+        <CardDescription className="text-gray-400">
+          Sharpe, Sortino, Calmar and MAR are computed from each run&apos;s daily PNL as returns on this account size
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="accountSize" className="text-white">Account Size ($)</Label>
+            <Input
+              id="accountSize"
+              type="number"
+              min="0"
+              value={accountSize}
+              onChange={(e) => setAccountSize(e.target.value)}
+              className="bg-gray-900 border-gray-600 text-white"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="riskFreeRate" className="text-white">Risk-Free Rate (% per year)</Label>
+            <Input
+              id="riskFreeRate"
+              type="number"
+              min="0"
+              step="0.1"
+              value={riskFreeRate}
+              onChange={(e) => setRiskFreeRate(e.target.value)}
+              className="bg-gray-900 border-gray-600 text-white"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            disabled={saving || !accountSize || !riskFreeRate}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {saving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Recomputing...
+              </>
+            ) : (
+              'Save and Recompute'
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,8 +6,19 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
-import { BarChart3, Settings, Calendar, Activity, Target, FileText, Star, ChevronDown, ChevronRight, Clock } from 'lucide-react';
+import { BarChart3, Settings, Calendar, Activity, Target, FileText, Star, ChevronDown, ChevronRight, Clock, TrendingUp, ArrowUp, ArrowDown } from 'lucide-react';
 import { formatDateOnly } from '@/lib/date-utils';
+import { ParseDiagnosticsPanel } from '@/components/ParseDiagnosticsPanel';
+import { MonteCarloPanel } from '@/components/MonteCarloPanel';
+import { WalkForwardPanel } from '@/components/WalkForwardPanel';
+import { BreakdownPanel } from '@/components/BreakdownPanel';
+import { ExcursionPanel } from '@/components/ExcursionPanel';
+import { ExitSimulatorPanel } from '@/components/ExitSimulatorPanel';
+import { NearMissPanel } from '@/components/NearMissPanel';
+import { SlAdjustmentPanel } from '@/components/SlAdjustmentPanel';
+import { EventsPanel } from '@/components/EventsPanel';
+import type { ParseDiagnostics } from '@/lib/parsers/parse-diagnostics';
+import type { LineStatisticField, LineStatisticsGroup } from '@/lib/line-statistics';
 
 interface Run {
   id: number;
@@ -17,9 +28,15 @@ interface Run {
   total_trades: number;
   win_rate: number;
   profit_factor: number;
+  sharpe_ratio?: number | null;
+  sortino_ratio?: number | null;
+  calmar_ratio?: number | null;
+  mar_ratio?: number | null;
   created_at: string;
   strategy_name: string;
   is_baseline?: boolean;
+  source_run_id?: number | null;
+  simulation?: string | null;
 }
 
 interface DailyPnl {
@@ -41,17 +58,6 @@ interface Metric {
   metric_description?: string;
 }
 
-interface DetailedEvent {
-  date: string;
-  time: string;
-  tradeId?: string;
-  direction: string;
-  target?: string;
-  closestDistance: string;
-  reason?: string;
-  trigger?: string;
-  adjustment?: string;
-}
 
 interface DetailedTrade {
   tradeId: string;
@@ -82,6 +88,7 @@ interface RunDetailsDialogProps {
   localDescription?: { [runId: number]: string };
   savingDescription?: number | null;
   onBaselineChange?: (runId: number, isBaseline: boolean) => Promise<void>;
+  onRunsChanged?: () => void;
 }
 
 export const RunDetailsDialog = ({ 
@@ -94,26 +101,25 @@ export const RunDetailsDialog = ({
   onDescriptionChange,
   localDescription,
   savingDescription,
-  onBaselineChange
+  onBaselineChange,
+  onRunsChanged
 }: RunDetailsDialogProps) => {
   const [runMetrics, setRunMetrics] = useState<Metric[]>([]);
   const [loadingMetrics, setLoadingMetrics] = useState(false);
-  const [detailedEvents, setDetailedEvents] = useState<{
-    tpNearMisses: DetailedEvent[];
-    fillNearMisses: DetailedEvent[];
-    slAdjustments: DetailedEvent[];
-  }>({ tpNearMisses: [], fillNearMisses: [], slAdjustments: [] });
   const [detailedTrades, setDetailedTrades] = useState<DetailedTrade[]>([]);
-  const [loadingEvents, setLoadingEvents] = useState(false);
   const [loadingTrades, setLoadingTrades] = useState(false);
   const [rawData, setRawData] = useState<string | null>(null);
   const [loadingRawData, setLoadingRawData] = useState(false);
   const [rawDataError, setRawDataError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostics | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
   const [isBaseline, setIsBaseline] = useState(run.is_baseline || false);
   const [updatingBaseline, setUpdatingBaseline] = useState(false);
   const [expandedLines, setExpandedLines] = useState<Set<string>>(new Set());
   const [expandedHours, setExpandedHours] = useState<Set<string>>(new Set());
+  const [lineStatistics, setLineStatistics] = useState<LineStatisticsGroup[]>([]);
+  const [loadingLines, setLoadingLines] = useState(false);
+  const [lineSort, setLineSort] = useState<{ field: LineStatisticField; descending: boolean }>({ field: 'side', descending: false });
 
   const formatCurrency = (value: number | null | undefined) => {
     if (value === null || value === undefined || isNaN(value)) return '-';
@@ -123,6 +129,10 @@ export const RunDetailsDialog = ({
     if (value === null || value === undefined || isNaN(value)) return '-';
     return `${(value * 100).toFixed(1)}%`;
   };
+  const formatRatio = (value: number | null | undefined) => {
+    if (value === null || value === undefined || isNaN(value)) return '-';
+    return value.toFixed(2);
+  };
 
   const formatTradeDateTime = (date: string, time: string) => {
     // Parse the date (YYYY-MM-DD format) and format as "Mar 25"
@@ -160,25 +170,25 @@ export const RunDetailsDialog = ({
     }
   }, [run.id]);
 
-  const fetchEvents = useCallback(async () => {
-    setLoadingEvents(true);
+  const fetchLineStatistics = useCallback(async () => {
+    setLoadingLines(true);
     try {
-      const response = await fetch(`/api/runs/${run.id}/events`);
+      const response = await fetch(`/api/runs/${run.id}/line-statistics?sort=${lineSort.field}&order=${lineSort.descending ? 'desc' : 'asc'}`);
       const data = await response.json();
       if (data.success) {
-        setDetailedEvents(data.events);
+        setLineStatistics(data.lines);
       }
     } catch (error) {
-      console.error('Error fetching events:', error);
+      console.error('Error fetching line statistics:', error);
     } finally {
-      setLoadingEvents(false);
+      setLoadingLines(false);
     }
-  }, [run.id]);
+  }, [run.id, lineSort]);
 
   const fetchTrades = useCallback(async () => {
     setLoadingTrades(true);
     try {
-      const response = await fetch(`/api/runs/${run.id}/trades`);
+      const response = await fetch(`/api/runs/${run.id}/trade-summaries`);
       const data = await response.json();
       if (data.success) {
         setDetailedTrades(data.trades);
@@ -198,6 +208,7 @@ export const RunDetailsDialog = ({
       const data = await response.json();
       if (data.success) {
         setRawData(data.rawData);
+        setDiagnostics(data.diagnostics);
         setRawDataError(null);
       } else {
         // Handle API errors gracefully
@@ -218,11 +229,17 @@ export const RunDetailsDialog = ({
   useEffect(() => {
     if (isOpen && run.id) {
       fetchMetrics();
-      fetchEvents();
       fetchTrades();
       fetchRawData();
     }
-  }, [isOpen, run.id, fetchMetrics, fetchEvents, fetchTrades, fetchRawData]);
+  }, [isOpen, run.id, fetchMetrics, fetchTrades, fetchRawData]);
+
+  // Refetched on its own when the sort changes
+  useEffect(() => {
+    if (isOpen && run.id) {
+      fetchLineStatistics();
+    }
+  }, [isOpen, run.id, fetchLineStatistics]);
 
   const handleSave = async () => {
     if (!onSaveDescription) return;
@@ -246,46 +263,11 @@ export const RunDetailsDialog = ({
   const isEditing = localDescription && localDescription[run.id] !== undefined;
   const isSaving = savingDescription === run.id;
 
-  // Organize metrics by line
-  const organizeMetricsByLine = () => {
-    const lineMetrics: { [lineName: string]: Metric[] } = {};
-    const generalMetrics: Metric[] = [];
-
-    runMetrics.forEach(metric => {
-      if (metric.metric_name.includes(' - ')) {
-        const [lineName] = metric.metric_name.split(' - ');
-        if (!lineMetrics[lineName]) {
-          lineMetrics[lineName] = [];
-        }
-        lineMetrics[lineName].push(metric);
-      } else {
-        generalMetrics.push(metric);
-      }
-    });
-
-    return { lineMetrics, generalMetrics };
-  };
-
-  // Organize hourly metrics for a specific line
-  const organizeHourlyMetrics = (lineName: string, metrics: Metric[]) => {
-    const hourlyMetrics: { [hour: string]: Metric[] } = {};
-    const lineOverallMetrics: Metric[] = [];
-
-    metrics.forEach(metric => {
-      // Check if this is an hourly metric (contains hour pattern like "09:00")
-      const hourMatch = metric.metric_name.match(/(\d{2}:\d{2})/);
-      if (hourMatch) {
-        const hour = hourMatch[1];
-        if (!hourlyMetrics[hour]) {
-          hourlyMetrics[hour] = [];
-        }
-        hourlyMetrics[hour].push(metric);
-      } else {
-        lineOverallMetrics.push(metric);
-      }
-    });
-
-    return { hourlyMetrics, lineOverallMetrics };
+  // Line columns sort descending first, the line itself in its natural up-then-down, by level order
+  const toggleLineSort = (field: LineStatisticField) => {
+    setLineSort(prev => (prev.field === field
+      ? { field, descending: !prev.descending }
+      : { field, descending: field !== 'side' }));
   };
 
   const toggleLineExpansion = (lineName: string) => {
@@ -351,8 +333,6 @@ export const RunDetailsDialog = ({
     return tradesByLineAndHour;
   };
 
-  const { lineMetrics, generalMetrics } = organizeMetricsByLine();
-
   // Organize parameters by category
   const organizeParametersByCategory = () => {
     const categories: { [category: string]: Parameter[] } = {
@@ -411,7 +391,7 @@ export const RunDetailsDialog = ({
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
-      <DialogContent className={`${activeTab === 'lines' || activeTab === 'raw' ? 'max-w-[95vw] sm:max-w-[95vw]' : 'max-w-4xl sm:max-w-4xl'} max-h-[90vh] bg-gray-800 border-gray-700 flex flex-col`}>
+      <DialogContent className={`${activeTab === 'lines' || activeTab === 'raw' || activeTab === 'breakdown' ? 'max-w-[95vw] sm:max-w-[95vw]' : 'max-w-4xl sm:max-w-4xl'} max-h-[90vh] bg-gray-800 border-gray-700 flex flex-col`}>
         <DialogHeader className="pb-2">
           <div className="flex items-center gap-2 mb-1">
             <Badge variant="outline" className="bg-blue-600/20 border-blue-500 text-blue-300 text-xs px-2 py-0.5">
@@ -504,19 +484,49 @@ export const RunDetailsDialog = ({
         </DialogHeader>
         
         <Tabs defaultValue="overview" value={activeTab} onValueChange={setActiveTab} className="w-full flex flex-col flex-1 min-h-0">
-          <TabsList className="grid w-full grid-cols-7 bg-gray-700 flex-shrink-0">
+          <TabsList className="grid w-full grid-cols-11 bg-gray-700 flex-shrink-0">
             <TabsTrigger value="overview" className="text-xs">Overview</TabsTrigger>
             <TabsTrigger value="lines" className="text-xs">Magic Lines</TabsTrigger>
             <TabsTrigger value="events" className="text-xs">Events</TabsTrigger>
             <TabsTrigger value="trades" className="text-xs">Trade Analysis</TabsTrigger>
+            <TabsTrigger value="breakdown" className="text-xs">Breakdown</TabsTrigger>
             <TabsTrigger value="daily" className="text-xs">Daily PNL</TabsTrigger>
+            <TabsTrigger value="walk-forward" className="text-xs">Walk-Forward</TabsTrigger>
+            <TabsTrigger value="monte-carlo" className="text-xs">Monte Carlo</TabsTrigger>
+            <TabsTrigger value="simulator" className="text-xs">Simulator</TabsTrigger>
             <TabsTrigger value="params" className="text-xs">Parameters</TabsTrigger>
             <TabsTrigger value="raw" className="text-xs">Raw Data</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-3 mt-3 flex-1 overflow-y-auto">
+            <Card className="bg-gray-700 border-gray-600">
+              <CardContent className="p-3">
+                <h3 className="text-white flex items-center gap-2 text-sm mb-3">
+                  <TrendingUp className="h-4 w-4" />
+                  Risk-Adjusted Returns
+                </h3>
+                <div className="grid grid-cols-4 gap-2">
+                  {[
+                    { label: 'Sharpe', value: run.sharpe_ratio },
+                    { label: 'Sortino', value: run.sortino_ratio },
+                    { label: 'Calmar', value: run.calmar_ratio },
+                    { label: 'MAR', value: run.mar_ratio }
+                  ].map(ratio => (
+                    <div key={ratio.label} className="py-1.5 px-2 bg-gray-600 rounded text-center">
+                      <div className="text-gray-300 text-xs">{ratio.label}</div>
+                      <div className="text-white font-mono text-sm">{formatRatio(ratio.value)}</div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-gray-400 text-xs mt-2">
+                  Annualised from daily PNL against the strategy&apos;s account size and risk-free rate
+                </p>
+              </CardContent>
+            </Card>
             {/* Enhanced Metrics */}
-            {generalMetrics.length > 0 ? (
+            {loadingMetrics ? (
+              <div className="text-center text-gray-400 py-4">Loading metrics...</div>
+            ) : runMetrics.length > 0 ? (
             <Card className="bg-gray-700 border-gray-600">
               <CardContent className="p-3">
                   <h3 className="text-white flex items-center gap-2 text-sm mb-3">
@@ -524,7 +534,7 @@ export const RunDetailsDialog = ({
                     Trading Performance Metrics
                   </h3>
                   <div className="grid grid-cols-2 gap-2">
-                    {generalMetrics.map((metric, index) => {
+                    {runMetrics.map((metric, index) => {
                       // Format different types of metrics appropriately
                       const isDuration = metric.metric_name.includes('Duration');
                       const isConsecutive = metric.metric_name.includes('Consecutive');
@@ -561,9 +571,9 @@ export const RunDetailsDialog = ({
           </TabsContent>
 
           <TabsContent value="lines" className="space-y-3 mt-3 flex-1 overflow-y-auto">
-            {loadingMetrics ? (
+            {loadingLines && lineStatistics.length === 0 ? (
               <div className="text-center text-gray-400 py-4">Loading line statistics...</div>
-            ) : Object.keys(lineMetrics).length > 0 ? (
+            ) : lineStatistics.length > 0 ? (
               <div className="space-y-3">
                 <Card className="bg-gray-700 border-gray-600">
                   <CardContent className="p-0">
@@ -571,47 +581,36 @@ export const RunDetailsDialog = ({
                       <table className="w-full min-w-full">
                         <thead className="bg-gray-800 border-b border-gray-600">
                           <tr>
-                            <th className="text-left py-3 px-4 text-white font-medium text-sm">Magic Line</th>
-                            <th className="text-right py-3 px-4 text-white font-medium text-sm">Total Trades</th>
-                            <th className="text-right py-3 px-4 text-white font-medium text-sm">Win Rate</th>
-                            <th className="text-right py-3 px-4 text-white font-medium text-sm">Net PNL</th>
-                            <th className="text-right py-3 px-4 text-white font-medium text-sm">Avg PNL</th>
-                            <th className="text-right py-3 px-4 text-white font-medium text-sm">Gross Profit</th>
-                            <th className="text-right py-3 px-4 text-white font-medium text-sm">Gross Loss</th>
-                            <th className="text-right py-3 px-4 text-white font-medium text-sm">Profit Factor</th>
+                            {([
+                              ['side', 'Magic Line', 'text-left'],
+                              ['totalTrades', 'Total Trades', 'text-right'],
+                              ['winRate', 'Win Rate', 'text-right'],
+                              ['netPnl', 'Net PNL', 'text-right'],
+                              ['avgPnl', 'Avg PNL', 'text-right'],
+                              ['grossProfit', 'Gross Profit', 'text-right'],
+                              ['grossLoss', 'Gross Loss', 'text-right'],
+                              ['profitFactor', 'Profit Factor', 'text-right']
+                            ] as Array<[LineStatisticField, string, string]>).map(([field, label, align]) => (
+                              <th
+                                key={field}
+                                onClick={() => toggleLineSort(field)}
+                                className={`${align} py-3 px-4 text-white font-medium text-sm cursor-pointer select-none hover:text-blue-300`}
+                              >
+                                {label}
+                                {lineSort.field === field && (lineSort.descending
+                                  ? <ArrowDown className="inline h-3 w-3 ml-1" />
+                                  : <ArrowUp className="inline h-3 w-3 ml-1" />)}
+                              </th>
+                            ))}
                             <th className="text-center py-3 px-4 text-white font-medium text-sm">Hourly</th>
                           </tr>
                         </thead>
                         <tbody>
-                          {Object.entries(lineMetrics)
-                            .sort(([a], [b]) => {
-                              // Extract direction and numeric values
-                              const aIsUp = a.includes('UP');
-                              const bIsUp = b.includes('UP');
-                              const aNum = parseFloat(a.replace(/[^\d.-]/g, ''));
-                              const bNum = parseFloat(b.replace(/[^\d.-]/g, ''));
-                              
-                              // First sort by direction: UP lines first, then DOWN lines
-                              if (aIsUp && !bIsUp) return -1;
-                              if (!aIsUp && bIsUp) return 1;
-                              
-                              // Within same direction, sort by numeric value
-                              return aNum - bNum;
-                            })
-                            .map(([lineName, metrics]) => {
-                              const { hourlyMetrics, lineOverallMetrics } = organizeHourlyMetrics(lineName, metrics);
+                          {lineStatistics.map(lineStats => {
+                              const lineName = lineStats.line;
                               const isExpanded = expandedLines.has(lineName);
-                              const hasHourlyData = Object.keys(hourlyMetrics).length > 0;
-                              
-                              // Extract specific metrics for this line (overall)
-                              const totalTrades = lineOverallMetrics.find(m => m.metric_name.includes('Total Trades'))?.metric_value || 0;
-                              const winRate = lineOverallMetrics.find(m => m.metric_name.includes('Win Rate'))?.metric_value || 0;
-                              const netPnl = lineOverallMetrics.find(m => m.metric_name.includes('Net PNL'))?.metric_value || 0;
-                              const avgPnl = lineOverallMetrics.find(m => m.metric_name.includes('Avg PNL'))?.metric_value || 0;
-                              const grossProfit = lineOverallMetrics.find(m => m.metric_name.includes('Gross Profit'))?.metric_value || 0;
-                              const grossLoss = lineOverallMetrics.find(m => m.metric_name.includes('Gross Loss'))?.metric_value || 0;
-                              const profitFactor = lineOverallMetrics.find(m => m.metric_name.includes('Profit Factor'))?.metric_value || 0;
-                          
+                              const hasHourlyData = lineStats.hours.length > 0;
+
                               return (
                                 <React.Fragment key={lineName}>
                                   {/* Main line row */}
@@ -623,29 +622,29 @@ export const RunDetailsDialog = ({
                                       </div>
                                     </td>
                                     <td className="text-right py-3 px-4">
-                                      <span className="text-white font-mono text-sm">{totalTrades}</span>
+                                      <span className="text-white font-mono text-sm">{lineStats.totalTrades}</span>
                                     </td>
                                     <td className="text-right py-3 px-4">
-                                      <span className="text-white font-mono text-sm">{formatPercentage(winRate)}</span>
+                                      <span className="text-white font-mono text-sm">{formatPercentage(lineStats.winRate)}</span>
                                     </td>
                                     <td className="text-right py-3 px-4">
-                                      <span className={`font-mono text-sm ${netPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                                        {formatCurrency(netPnl)}
+                                      <span className={`font-mono text-sm ${lineStats.netPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                        {formatCurrency(lineStats.netPnl)}
                                       </span>
                                     </td>
                                     <td className="text-right py-3 px-4">
-                                      <span className={`font-mono text-sm ${avgPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                                        {formatCurrency(avgPnl)}
+                                      <span className={`font-mono text-sm ${lineStats.avgPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                        {formatCurrency(lineStats.avgPnl)}
                                       </span>
                                     </td>
                                     <td className="text-right py-3 px-4">
-                                      <span className="text-green-400 font-mono text-sm">{formatCurrency(grossProfit)}</span>
+                                      <span className="text-green-400 font-mono text-sm">{formatCurrency(lineStats.grossProfit)}</span>
                                     </td>
                                     <td className="text-right py-3 px-4">
-                                      <span className="text-red-400 font-mono text-sm">{formatCurrency(grossLoss)}</span>
+                                      <span className="text-red-400 font-mono text-sm">{formatCurrency(lineStats.grossLoss)}</span>
                                     </td>
                                     <td className="text-right py-3 px-4">
-                                      <span className="text-white font-mono text-sm">{profitFactor.toFixed(2)}</span>
+                                      <span className="text-white font-mono text-sm">{formatRatio(lineStats.profitFactor)}</span>
                                     </td>
                                     <td className="text-center py-3 px-4">
                                       {hasHourlyData && (
@@ -668,26 +667,14 @@ export const RunDetailsDialog = ({
                                   {/* Hourly breakdown rows */}
                                   {isExpanded && hasHourlyData && (
                                     <>
-                                      {Object.entries(hourlyMetrics)
-                                        .sort(([a], [b]) => a.localeCompare(b))
-                                        .map(([hour, hourMetrics]) => {
+                                      {lineStats.hours.map(hourStats => {
+                                          const hour = `${String(hourStats.hour).padStart(2, '0')}:00`;
                                           const hourKey = `${lineName}-${hour}`;
                                           const isHourExpanded = expandedHours.has(hourKey);
                                           const tradesByLineAndHour = organizeTradesByLineAndHour();
                                           const hourTrades = tradesByLineAndHour[lineName]?.[hour] || [];
                                           const hasTradeData = hourTrades.length > 0;
                                           
-                                          // Calculate metrics directly from detailedTrades for consistency
-                                          const hourTotalTrades = hourTrades.length;
-                                          const hourWinningTrades = hourTrades.filter(t => t.actualPnl > 0).length;
-                                          const hourWinRate = hourTotalTrades > 0 ? hourWinningTrades / hourTotalTrades : 0;
-                                          const hourNetPnl = hourTrades.reduce((sum, t) => sum + t.actualPnl, 0);
-                                          const hourAvgPnl = hourTotalTrades > 0 ? hourNetPnl / hourTotalTrades : 0;
-                                          const hourGrossProfit = hourTrades.filter(t => t.actualPnl > 0).reduce((sum, t) => sum + t.actualPnl, 0);
-                                          const hourGrossLoss = Math.abs(hourTrades.filter(t => t.actualPnl < 0).reduce((sum, t) => sum + t.actualPnl, 0));
-                                          const hourProfitFactor = hourGrossLoss > 0 ? hourGrossProfit / hourGrossLoss : 0;
-                                          
-                                          
                                           return (
                                             <React.Fragment key={`${lineName}-${hour}`}>
                                               {/* Hour summary row */}
@@ -711,29 +698,29 @@ export const RunDetailsDialog = ({
                                                   </div>
                                                 </td>
                                                 <td className="text-right py-2 px-4">
-                                                  <span className="text-gray-300 font-mono text-xs">{hourTotalTrades}</span>
+                                                  <span className="text-gray-300 font-mono text-xs">{hourStats.totalTrades}</span>
                                                 </td>
                                                 <td className="text-right py-2 px-4">
-                                                  <span className="text-gray-300 font-mono text-xs">{formatPercentage(hourWinRate)}</span>
+                                                  <span className="text-gray-300 font-mono text-xs">{formatPercentage(hourStats.winRate)}</span>
                                                 </td>
                                                 <td className="text-right py-2 px-4">
-                                                  <span className={`font-mono text-xs ${hourNetPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                                                    {formatCurrency(hourNetPnl)}
+                                                  <span className={`font-mono text-xs ${hourStats.netPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                                    {formatCurrency(hourStats.netPnl)}
                                                   </span>
                                                 </td>
                                                 <td className="text-right py-2 px-4">
-                                                  <span className={`font-mono text-xs ${hourAvgPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                                                    {formatCurrency(hourAvgPnl)}
+                                                  <span className={`font-mono text-xs ${hourStats.avgPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                                    {formatCurrency(hourStats.avgPnl)}
                                                   </span>
                                                 </td>
                                                 <td className="text-right py-2 px-4">
-                                                  <span className="text-green-400 font-mono text-xs">{formatCurrency(hourGrossProfit)}</span>
+                                                  <span className="text-green-400 font-mono text-xs">{formatCurrency(hourStats.grossProfit)}</span>
                                                 </td>
                                                 <td className="text-right py-2 px-4">
-                                                  <span className="text-red-400 font-mono text-xs">{formatCurrency(hourGrossLoss)}</span>
+                                                  <span className="text-red-400 font-mono text-xs">{formatCurrency(hourStats.grossLoss)}</span>
                                                 </td>
                                                 <td className="text-right py-2 px-4">
-                                                  <span className="text-gray-300 font-mono text-xs">{hourProfitFactor.toFixed(2)}</span>
+                                                  <span className="text-gray-300 font-mono text-xs">{formatRatio(hourStats.profitFactor)}</span>
                                                 </td>
                                                 <td className="text-center py-2 px-4"></td>
                                               </tr>
@@ -817,113 +804,13 @@ export const RunDetailsDialog = ({
           </TabsContent>
 
           <TabsContent value="events" className="space-y-3 mt-3 flex-1 overflow-y-auto">
-            {loadingEvents ? (
-              <div className="text-center text-gray-400 py-4">Loading events...</div>
-            ) : (
-              <div className="space-y-3">
-                {/* TP Near Misses */}
-                {detailedEvents.tpNearMisses.length > 0 && (
-                  <Card className="bg-gray-700 border-gray-600">
-                    <CardContent className="p-3">
-                      <h3 className="text-white flex items-center gap-2 text-sm mb-3">
-                        <Target className="h-4 w-4" />
-                        TP Near Misses ({detailedEvents.tpNearMisses.length})
-                      </h3>
-                      <div className="space-y-2 max-h-60 overflow-y-auto">
-                        {detailedEvents.tpNearMisses.map((event, index) => (
-                          <div key={index} className="bg-gray-600 rounded p-2 text-xs">
-                            <div className="flex justify-between items-start mb-1">
-                              <span className="text-white font-medium">
-                                Trade #{event.tradeId} - {event.direction}
-                              </span>
-                              <span className="text-red-400 font-mono">
-                                {event.closestDistance}pts
-                              </span>
-                            </div>
-                            <div className="text-gray-300">
-                              Target: {event.target} | Reason: {event.reason}
-                            </div>
-                            <div className="text-gray-400 text-xs">
-                              {event.date} {event.time}
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    </CardContent>
-                  </Card>
-                )}
-
-                {/* Fill Near Misses */}
-                {detailedEvents.fillNearMisses.length > 0 && (
-            <Card className="bg-gray-700 border-gray-600">
-              <CardContent className="p-3">
-                      <h3 className="text-white flex items-center gap-2 text-sm mb-3">
-                        <Target className="h-4 w-4" />
-                        Fill Near Misses ({detailedEvents.fillNearMisses.length})
-                      </h3>
-                      <div className="space-y-2 max-h-60 overflow-y-auto">
-                        {detailedEvents.fillNearMisses.map((event, index) => (
-                          <div key={index} className="bg-gray-600 rounded p-2 text-xs">
-                            <div className="flex justify-between items-start mb-1">
-                              <span className="text-white font-medium">
-                                {event.direction} Fill Miss
-                              </span>
-                              <span className="text-red-400 font-mono">
-                                {event.closestDistance}pts
-                              </span>
-                            </div>
-                            <div className="text-gray-400 text-xs">
-                              {event.date} {event.time}
-                    </div>
-                  </div>
-                        ))}
-                </div>
-              </CardContent>
-            </Card>
-                )}
-
-                {/* SL Adjustments */}
-                {detailedEvents.slAdjustments.length > 0 && (
-            <Card className="bg-gray-700 border-gray-600">
-              <CardContent className="p-3">
-                      <h3 className="text-white flex items-center gap-2 text-sm mb-3">
-                        <Settings className="h-4 w-4" />
-                        SL Adjustments ({detailedEvents.slAdjustments.length})
-                      </h3>
-                      <div className="space-y-2 max-h-60 overflow-y-auto">
-                        {detailedEvents.slAdjustments.map((event, index) => (
-                          <div key={index} className="bg-gray-600 rounded p-2 text-xs">
-                            <div className="flex justify-between items-start mb-1">
-                              <span className="text-white font-medium">
-                                Trade #{event.tradeId} - {event.direction}
-                              </span>
-                              <span className="text-yellow-400 font-mono">
-                                {event.trigger}
-                              </span>
-                            </div>
-                            <div className="text-gray-300">
-                              Adjustment: {event.adjustment}
-                            </div>
-                            <div className="text-gray-400 text-xs">
-                              {event.date} {event.time}
-                            </div>
-                  </div>
-                        ))}
-                </div>
-              </CardContent>
-            </Card>
-                )}
-
-                {detailedEvents.tpNearMisses.length === 0 && 
-                 detailedEvents.fillNearMisses.length === 0 && 
-                 detailedEvents.slAdjustments.length === 0 && (
-                  <div className="text-center text-gray-400 py-4">No events recorded</div>
-                )}
-              </div>
-            )}
+            <NearMissPanel runId={run.id} />
+            <SlAdjustmentPanel runId={run.id} />
+            <EventsPanel runId={run.id} />
           </TabsContent>
 
           <TabsContent value="trades" className="space-y-3 mt-3 flex-1 overflow-y-auto">
+            <ExcursionPanel runId={run.id} />
             {loadingTrades ? (
               <div className="text-center text-gray-400 py-4">Loading trade analysis...</div>
             ) : detailedTrades.length > 0 ? (
@@ -985,6 +872,10 @@ export const RunDetailsDialog = ({
             )}
           </TabsContent>
 
+          <TabsContent value="breakdown" className="space-y-3 mt-3 flex-1 overflow-y-auto">
+            <BreakdownPanel runId={run.id} />
+          </TabsContent>
+
           <TabsContent value="daily" className="space-y-3 mt-3 flex-1 overflow-y-auto">
           <Card className="bg-gray-700 border-gray-600">
               <CardContent className="p-3">
@@ -1027,6 +918,23 @@ export const RunDetailsDialog = ({
           </Card>
           </TabsContent>
 
+          <TabsContent value="walk-forward" className="space-y-3 mt-3 flex-1 overflow-y-auto">
+            <WalkForwardPanel runId={run.id} />
+          </TabsContent>
+
+          <TabsContent value="monte-carlo" className="space-y-3 mt-3 flex-1 overflow-y-auto">
+            <MonteCarloPanel runId={run.id} />
+          </TabsContent>
+
+          <TabsContent value="simulator" className="space-y-3 mt-3 flex-1 overflow-y-auto">
+            <ExitSimulatorPanel
+              runId={run.id}
+              simulation={run.simulation}
+              sourceRunId={run.source_run_id}
+              onSaved={() => onRunsChanged?.()}
+            />
+          </TabsContent>
+
           <TabsContent value="params" className="space-y-3 mt-3 flex-1 overflow-y-auto">
             {Object.keys(parameterCategories).length > 0 ? (
               <div className="space-y-3">
@@ -1087,22 +995,25 @@ export const RunDetailsDialog = ({
                 <p className="text-xs text-red-300 mt-1">{rawDataError}</p>
               </div>
             ) : rawData ? (
-              <Card className="bg-gray-700 border-gray-600">
-                <CardContent className="p-3">
-                  <h3 className="text-white flex items-center gap-2 text-sm mb-3">
-                    <FileText className="h-4 w-4" />
-                    Original Raw Data
-                    <Badge variant="outline" className="text-xs">
-                      {rawData.length} characters
-                    </Badge>
-                  </h3>
-                  <div className="bg-gray-900 border border-gray-600 rounded p-3 max-h-96 overflow-y-auto">
-                    <pre className="text-gray-300 text-xs whitespace-pre-wrap font-mono leading-relaxed">
-                      {rawData}
-                    </pre>
-                  </div>
-                </CardContent>
-              </Card>
+              <>
+                {diagnostics && <ParseDiagnosticsPanel diagnostics={diagnostics} />}
+                <Card className="bg-gray-700 border-gray-600">
+                  <CardContent className="p-3">
+                    <h3 className="text-white flex items-center gap-2 text-sm mb-3">
+                      <FileText className="h-4 w-4" />
+                      Original Raw Data
+                      <Badge variant="outline" className="text-xs">
+                        {rawData.length} characters
+                      </Badge>
+                    </h3>
+                    <div className="bg-gray-900 border border-gray-600 rounded p-3 max-h-96 overflow-y-auto">
+                      <pre className="text-gray-300 text-xs whitespace-pre-wrap font-mono leading-relaxed">
+                        {rawData}
+                      </pre>
+                    </div>
+                  </CardContent>
+                </Card>
+              </>
             ) : (
               <div className="text-center text-gray-400 py-4">
                 <FileText className="h-8 w-8 mx-auto mb-2 opacity-50" />
@@ -0,0 +1,151 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Save } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ParseDiagnosticsPanel } from '@/components/ParseDiagnosticsPanel';
+import type { ParsedRunData } from '@/lib/parsers/base-parser';
+
+interface RunPreviewPanelProps {
+  parsedData: ParsedRunData;
+  parserName?: string;
+  isSaving: boolean;
+  onSave: () => void;
+}
+
+export function RunPreviewPanel({ parsedData, parserName, isSaving, onSave }: RunPreviewPanelProps) {
+  // Cumulative PNL by day, the same shape the equity charts on the analysis page use
+  let cumulative = 0;
+  const equityCurve = [...parsedData.dailyPnl]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(day => {
+      cumulative += day.pnl;
+      return { date: day.date, pnl: day.pnl, cumulative: Math.round(cumulative * 100) / 100 };
+    });
+
+  const eventCount = parsedData.events?.length ?? 0;
+
+  return (
+    <Card className="mt-6 bg-gray-800 border-gray-700">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-white">Preview: {parsedData.runName || parsedData.strategyName}</CardTitle>
+            <CardDescription className="text-gray-300">
+              Nothing has been saved yet. Saving stores exactly what is shown here.
+            </CardDescription>
+          </div>
+          <Button onClick={onSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save run
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          <Badge variant="secondary">Strategy: {parsedData.strategyName}</Badge>
+          {parserName && <Badge variant="secondary">Parser: {parserName}</Badge>}
+          <Badge variant="outline">{parsedData.detailedTrades?.length || 0} trades</Badge>
+          <Badge variant="outline">{eventCount} events</Badge>
+          <Badge variant="outline">{parsedData.customMetrics.length} custom metrics</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <span className="text-gray-400">Total Trades:</span>
+            <div className="font-mono text-white">{parsedData.totalTrades || 0}</div>
+          </div>
+          <div>
+            <span className="text-gray-400">Net PNL:</span>
+            <div className={`font-mono ${parsedData.netPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              ${parsedData.netPnl.toFixed(2)}
+            </div>
+          </div>
+          <div>
+            <span className="text-gray-400">Win Rate:</span>
+            <div className="font-mono text-white">{((parsedData.winRate || 0) * 100).toFixed(1)}%</div>
+          </div>
+          <div>
+            <span className="text-gray-400">Profit Factor:</span>
+            <div className="font-mono text-white">{(parsedData.profitFactor || 0).toFixed(2)}</div>
+          </div>
+          <div>
+            <span className="text-gray-400">Max Drawdown:</span>
+            <div className="font-mono text-red-400">${(parsedData.maxDrawdown || 0).toFixed(2)}</div>
+          </div>
+          <div>
+            <span className="text-gray-400">Trading Days:</span>
+            <div className="font-mono text-white">{parsedData.dailyPnl.length}</div>
+          </div>
+        </div>
+
+        {equityCurve.length > 0 && (
+          <div>
+            <h4 className="font-semibold text-white mb-2">Equity Curve</h4>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={equityCurve}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" strokeOpacity={0.5} />
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fill: '#9ca3af', fontSize: 10 }}
+                    axisLine={{ stroke: '#374151' }}
+                    tickLine={{ stroke: '#374151' }}
+                  />
+                  <YAxis
+                    tick={{ fill: '#9ca3af', fontSize: 10 }}
+                    axisLine={{ stroke: '#374151' }}
+                    tickLine={{ stroke: '#374151' }}
+                    tickFormatter={(value) => `$${value}`}
+                  />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', color: '#fff' }}
+                    formatter={(value: number, name: string) => [`$${value.toFixed(2)}`, name === 'cumulative' ? 'Cumulative PNL' : 'Daily PNL']}
+                  />
+                  <ReferenceLine y={0} stroke="#6b7280" />
+                  <Line type="monotone" dataKey="cumulative" stroke="#60a5fa" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h4 className="font-semibold text-white mb-2">Parameters ({parsedData.parameters.length})</h4>
+          {parsedData.parameters.length === 0 ? (
+            <p className="text-sm text-gray-400">No parameters were extracted.</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto border border-gray-700 rounded">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-900 sticky top-0">
+                  <tr>
+                    <th className="text-left p-2 text-gray-400 font-medium">Parameter</th>
+                    <th className="text-left p-2 text-gray-400 font-medium">Value</th>
+                    <th className="text-left p-2 text-gray-400 font-medium">Type</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {parsedData.parameters.map(param => (
+                    <tr key={param.name} className="border-t border-gray-700">
+                      <td className="p-2 text-gray-300">{param.name}</td>
+                      <td className="p-2 font-mono text-white">{param.value}</td>
+                      <td className="p-2 text-gray-500">{param.type}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {parsedData.diagnostics && <ParseDiagnosticsPanel diagnostics={parsedData.diagnostics} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { ParameterSensitivity, SensitivityMetric, SensitivityPoint } from '@/lib/sensitivity';
+
+interface SensitivityPanelProps {
+  strategyId: string;
+}
+
+const METRICS: Array<{ key: SensitivityMetric; label: string; format: (value: number) => string }> = [
+  { key: 'netPnl', label: 'Net PNL', format: value => `$${value.toFixed(0)}` },
+  { key: 'profitFactor', label: 'Profit Factor', format: value => value.toFixed(2) },
+  { key: 'maxDrawdown', label: 'Max Drawdown', format: value => `$${value.toFixed(0)}` }
+];
+
+export function SensitivityPanel({ strategyId }: SensitivityPanelProps) {
+  const [parameters, setParameters] = useState<ParameterSensitivity[]>([]);
+  const [runCount, setRunCount] = useState(0);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!strategyId) return;
+    const fetchSensitivity = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/strategies/${strategyId}/sensitivity`);
+        const data = await response.json();
+        if (data.success) {
+          setParameters(data.parameters);
+          setRunCount(data.runCount);
+          setSelected(data.parameters[0]?.parameter ?? null);
+        }
+      } catch (error) {
+        console.error('Error fetching parameter sensitivity:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSensitivity();
+  }, [strategyId]);
+
+  const current = parameters.find(parameter => parameter.parameter === selected);
+
+  const formatCorrelation = (parameter: ParameterSensitivity, metric: SensitivityMetric) => {
+    const correlation = parameter.metrics[metric];
+    if (!correlation) return <span className="text-gray-500">-</span>;
+    return (
+      <span className={correlation.correlation >= 0 ? 'text-green-400' : 'text-red-400'}>
+        {correlation.correlation >= 0 ? '+' : ''}{correlation.correlation.toFixed(2)}
+      </span>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Parameter Sensitivity</CardTitle>
+        <CardDescription>
+          How each numeric parameter relates to net PNL, profit factor and max drawdown across all {runCount} runs.
+          Where runs differ in one parameter only, just those runs are compared so other changes do not blur the effect.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center h-32 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Analysing parameters...
+          </div>
+        ) : parameters.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-8">
+            No numeric parameter takes more than one value across this strategy&apos;s runs.
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-700 text-gray-400">
+                    <th className="text-left py-2 px-2 font-medium">#</th>
+                    <th className="text-left py-2 px-2 font-medium">Parameter</th>
+                    <th className="text-left py-2 px-2 font-medium w-40">Explains</th>
+                    {METRICS.map(metric => (
+                      <th key={metric.key} className="text-right py-2 px-2 font-medium">r {metric.label}</th>
+                    ))}
+                    <th className="text-right py-2 px-2 font-medium">Values</th>
+                    <th className="text-right py-2 px-2 font-medium">Basis</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {parameters.map((parameter, index) => (
+                    <tr
+                      key={parameter.parameter}
+                      onClick={() => setSelected(parameter.parameter)}
+                      className={`border-b border-gray-800 cursor-pointer hover:bg-gray-800/50 ${selected === parameter.parameter ? 'bg-gray-800' : ''}`}
+                    >
+                      <td className="py-2 px-2 text-gray-500">{index + 1}</td>
+                      <td className="py-2 px-2">{parameter.parameter}</td>
+                      <td className="py-2 px-2">
+                        <div className="flex items-center gap-2">
+                          <div className="h-2 flex-1 rounded bg-gray-700">
+                            <div className="h-2 rounded bg-blue-500" style={{ width: `${parameter.score * 100}%` }} />
+                          </div>
+                          <span className="text-xs text-gray-400 w-10 text-right">{(parameter.score * 100).toFixed(0)}%</span>
+                        </div>
+                      </td>
+                      {METRICS.map(metric => (
+                        <td key={metric.key} className="text-right py-2 px-2 font-mono">{formatCorrelation(parameter, metric.key)}</td>
+                      ))}
+                      <td className="text-right py-2 px-2">{parameter.distinctValues}</td>
+                      <td className="text-right py-2 px-2">
+                        {parameter.controlled ? (
+                          <Badge variant="outline" className="border-green-600 text-green-300 text-xs">
+                            {parameter.controlledGroups} controlled group{parameter.controlledGroups === 1 ? '' : 's'}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="border-yellow-600 text-yellow-300 text-xs">All runs</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-2">
+                Explains is the average R² over the three metrics. &quot;All runs&quot; means no runs differ in this
+                parameter alone, so other parameter changes may be mixed into the result.
+              </p>
+            </div>
+
+            {current && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  {current.parameter}
+                  <span className="text-gray-400 font-normal"> · green points are from controlled comparisons</span>
+                </h4>
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                  {METRICS.map(metric => {
+                    const points = current.points.filter(point => point[metric.key] !== null);
+                    const split = (controlled: boolean) => points
+                      .filter(point => point.controlled === controlled)
+                      .map(point => ({ ...point, y: point[metric.key] }));
+                    return (
+                      <div key={metric.key} className="h-64 bg-gray-900/50 rounded-lg p-2">
+                        <div className="text-xs text-gray-400 mb-1">{metric.label}</div>
+                        <ResponsiveContainer width="100%" height="90%">
+                          <ScatterChart>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#374151" strokeOpacity={0.5} />
+                            <XAxis
+                              type="number"
+                              dataKey="value"
+                              domain={['auto', 'auto']}
+                              tick={{ fill: '#9ca3af', fontSize: 10 }}
+                              axisLine={{ stroke: '#374151' }}
+                              tickLine={{ stroke: '#374151' }}
+                            />
+                            <YAxis
+                              type="number"
+                              dataKey="y"
+                              tick={{ fill: '#9ca3af', fontSize: 10 }}
+                              axisLine={{ stroke: '#374151' }}
+                              tickLine={{ stroke: '#374151' }}
+                              tickFormatter={metric.format}
+                            />
+                            <Tooltip
+                              contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', color: '#fff' }}
+                              content={({ payload }) => {
+                                const point = payload?.[0]?.payload as (SensitivityPoint & { y: number }) | undefined;
+                                if (!point) return null;
+                                return (
+                                  <div className="rounded border border-gray-700 bg-gray-800 p-2 text-xs text-white">
+                                    <div>{point.runName}</div>
+                                    <div className="text-gray-400">{current.parameter}: {point.value}</div>
+                                    <div>{metric.label}: {metric.format(point.y)}</div>
+                                  </div>
+                                );
+                              }}
+                            />
+                            <Scatter data={split(false)} fill="#6b7280" isAnimationActive={false} />
+                            <Scatter data={split(true)} fill="#10b981" isAnimationActive={false} />
+                          </ScatterChart>
+                        </ResponsiveContainer>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { formatDateOnly } from '@/lib/date-utils';
+import type { SignificanceResult } from '@/lib/significance';
+
+interface SignificancePanelProps {
+  // run1 is the reference, differences are run2 minus run1
+  run1: { id: number; name: string };
+  run2: { id: number; name: string };
+}
+
+type SignificanceResponse = SignificanceResult & { from: string | null; to: string | null };
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const formatPValue = (value: number) => (value < 0.001 ? '< 0.001' : value.toFixed(3));
+
+export function SignificancePanel({ run1, run2 }: SignificancePanelProps) {
+  const [result, setResult] = useState<SignificanceResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchSignificance = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/runs/significance?run1=${run1.id}&run2=${run2.id}`);
+        const data = await response.json();
+        if (data.success) {
+          setResult(data);
+        } else {
+          setResult(null);
+          setError(data.error || 'Failed to test significance');
+        }
+      } catch (error) {
+        console.error('Error testing significance:', error);
+        setError('Failed to test significance');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSignificance();
+  }, [run1.id, run2.id]);
+
+  const rows = result ? [
+    {
+      name: 'Paired t-test',
+      description: 'Mean daily difference',
+      test: result.pairedT,
+      effectLabel: "Cohen's d",
+      detail: result.pairedT ? `t = ${result.pairedT.statistic.toFixed(2)}, df = ${result.pairedT.degreesOfFreedom}` : null
+    },
+    {
+      name: 'Wilcoxon signed-rank',
+      description: 'Median difference, robust to outlier days',
+      test: result.wilcoxon,
+      effectLabel: 'Rank-biserial r',
+      detail: result.wilcoxon ? `W+ = ${result.wilcoxon.statistic.toFixed(1)}, ${result.wilcoxon.nonZeroPairs} non-tied days` : null
+    },
+    {
+      name: 'Bootstrap',
+      description: `${((1 - result.significanceLevel) * 100).toFixed(0)}% interval on the mean difference`,
+      test: result.bootstrap,
+      effectLabel: "Cohen's d",
+      detail: result.bootstrap
+        ? `${formatCurrency(result.bootstrap.lower)} to ${formatCurrency(result.bootstrap.upper)}, ${result.bootstrap.iterations} resamples`
+        : null
+    }
+  ] : [];
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white">Statistical Significance</CardTitle>
+        <CardDescription className="text-gray-400">
+          Paired tests of {run2.name} against {run1.name} on the days both runs traded
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-6 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Running tests...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-400">{error}</p>
+        ) : result && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <Badge
+                className={result.significant
+                  ? 'bg-green-600/20 border-green-500 text-green-300 text-sm'
+                  : 'bg-gray-600/20 border-gray-500 text-gray-300 text-sm'}
+                variant="outline"
+              >
+                {result.significant ? 'Significant' : 'Not significant'}
+              </Badge>
+              <span className="text-sm text-gray-300">
+                {result.significant
+                  ? `${result.meanDifference > 0 ? run2.name : run1.name} is better by ${formatCurrency(Math.abs(result.meanDifference))} a day on average (p < ${result.significanceLevel})`
+                  : `The difference of ${formatCurrency(result.meanDifference)} a day could be chance; all three tests must agree at p < ${result.significanceLevel}`}
+              </span>
+            </div>
+
+            {result.lowSample && (
+              <div className="flex items-start gap-2 rounded-md border border-yellow-600 bg-yellow-900/20 p-3 text-sm text-yellow-200">
+                <AlertTriangle className="h-4 w-4 mt-0.5 text-yellow-400 flex-shrink-0" />
+                <span>
+                  Only {result.sampleSize} overlapping day{result.sampleSize === 1 ? '' : 's'}
+                  {result.from && result.to ? ` (${formatDateOnly(result.from)} to ${formatDateOnly(result.to)})` : ''}.
+                  At least {result.recommendedSampleSize} are recommended before trusting these results.
+                </span>
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-700 text-gray-400">
+                    <th className="text-left py-2 px-2 font-medium">Test</th>
+                    <th className="text-left py-2 px-2 font-medium">Details</th>
+                    <th className="text-right py-2 px-2 font-medium">p-value</th>
+                    <th className="text-right py-2 px-2 font-medium">Effect Size</th>
+                    <th className="text-right py-2 px-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.name} className="border-b border-gray-800">
+                      <td className="py-2 px-2">
+                        <div className="text-white">{row.name}</div>
+                        <div className="text-xs text-gray-500">{row.description}</div>
+                      </td>
+                      <td className="py-2 px-2 text-xs text-gray-400">{row.detail ?? 'Not enough varying days to test'}</td>
+                      <td className="py-2 px-2 text-right font-mono">{row.test ? formatPValue(row.test.pValue) : '-'}</td>
+                      <td className="py-2 px-2 text-right font-mono">
+                        {row.test ? `${row.test.effectSize.toFixed(2)}` : '-'}
+                        <div className="text-xs text-gray-500 font-sans">{row.effectLabel}</div>
+                      </td>
+                      <td className={`py-2 px-2 text-right ${row.test?.significant ? 'text-green-400' : 'text-gray-400'}`}>
+                        {row.test ? (row.test.significant ? 'Significant' : 'Not significant') : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
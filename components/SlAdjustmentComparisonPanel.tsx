@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import type { SlAdjustmentGroup } from '@/lib/sl-adjustments';
+
+interface SlAdjustmentComparisonPanelProps {
+  runs: Array<{ id: number; name: string }>;
+}
+
+interface RunSlAdjustments {
+  id: number;
+  originalStopLoss: number | null;
+  overall: SlAdjustmentGroup;
+  byTrigger: SlAdjustmentGroup[];
+}
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const rate = (count: number, group: SlAdjustmentGroup) => (group.trades > 0 ? `${((count / group.trades) * 100).toFixed(0)}%` : '-');
+
+const ROWS: Array<{ label: string; value: (group: SlAdjustmentGroup) => string }> = [
+  { label: 'Adjusted trades', value: group => String(group.trades) },
+  { label: 'Stopped at adjusted level', value: group => rate(group.adjustedStop, group) },
+  { label: 'Reached take profit', value: group => rate(group.target, group) },
+  { label: 'Net PNL', value: group => formatCurrency(group.netPnl) },
+  { label: 'Saved vs original SL', value: group => (group.savedPnl === null ? '-' : formatCurrency(group.savedPnl)) }
+];
+
+export function SlAdjustmentComparisonPanel({ runs }: SlAdjustmentComparisonPanelProps) {
+  const [reports, setReports] = useState<RunSlAdjustments[]>([]);
+  const [loading, setLoading] = useState(false);
+  const runIds = runs.map(run => run.id).join(',');
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/runs/sl-adjustments?runIds=${runIds}`);
+        const data = await response.json();
+        if (data.success) {
+          setReports(data.runs);
+        }
+      } catch (error) {
+        console.error('Error comparing SL adjustments:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchComparison();
+  }, [runIds]);
+
+  // Only runs that adjust their stops have anything to compare
+  if (!loading && reports.every(report => report.overall.trades === 0)) return null;
+
+  const reportOf = (runId: number) => reports.find(report => report.id === runId);
+  const triggers = Array.from(new Set(reports.flatMap(report => report.byTrigger.map(group => group.trigger)))).sort();
+  const sections = ['All', ...triggers];
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          SL Adjustments
+        </CardTitle>
+        <CardDescription className="text-gray-300">
+          How trades that moved their stop ended in each selected run, overall and by the last trigger reached.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading SL adjustments...
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700 text-gray-400">
+                  <th className="text-left py-2 px-2 font-medium">Metric</th>
+                  {runs.map(run => (
+                    <th key={run.id} className="text-right py-2 px-2 font-medium">
+                      {run.name}
+                      {reportOf(run.id)?.originalStopLoss != null && (
+                        <div className="text-xs text-gray-500 font-normal">SL {reportOf(run.id)!.originalStopLoss}pts</div>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sections.map(section => (
+                  <React.Fragment key={section}>
+                    <tr className="border-b border-gray-700">
+                      <td colSpan={runs.length + 1} className="py-2 px-2 text-white font-medium">
+                        {section === 'All' ? 'All adjusted trades' : `Last trigger ${section}`}
+                      </td>
+                    </tr>
+                    {ROWS.map(row => (
+                      <tr key={`${section}-${row.label}`} className="border-b border-gray-700 text-gray-300">
+                        <td className="py-1 px-2 pl-4">{row.label}</td>
+                        {runs.map(run => {
+                          const report = reportOf(run.id);
+                          const group = section === 'All' ? report?.overall : report?.byTrigger.find(item => item.trigger === section);
+                          return (
+                            <td key={run.id} className="py-1 px-2 text-right font-mono">
+                              {group ? row.value(group) : '-'}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
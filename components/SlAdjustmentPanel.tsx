@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronRight, Loader2, ShieldCheck } from 'lucide-react';
+import type { AdjustedTradeOutcome, SlAdjustmentGroup, SlAdjustmentReport } from '@/lib/sl-adjustments';
+
+interface SlAdjustmentPanelProps {
+  runId: number;
+}
+
+const OUTCOME_LABELS: Record<AdjustedTradeOutcome, string> = {
+  'adjusted-stop': 'Adjusted stop',
+  'original-stop': 'Original stop',
+  target: 'Take profit',
+  other: 'Other exit'
+};
+
+const formatCurrency = (value: number | null) => (value === null ? '-' : `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`);
+const pnlColor = (value: number | null) => (value === null ? 'text-gray-500' : value >= 0 ? 'text-green-400' : 'text-red-400');
+const share = (count: number, group: SlAdjustmentGroup) => (group.trades > 0 ? `${count} (${((count / group.trades) * 100).toFixed(0)}%)` : '-');
+
+export function SlAdjustmentPanel({ runId }: SlAdjustmentPanelProps) {
+  const [report, setReport] = useState<SlAdjustmentReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showTrades, setShowTrades] = useState(false);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/runs/${runId}/sl-adjustments`);
+        const data = await response.json();
+        if (data.success) {
+          setReport(data);
+        } else {
+          setError(data.error || 'Could not analyse SL adjustments');
+        }
+      } catch (error) {
+        console.error('Error fetching SL adjustments:', error);
+        setError('Could not analyse SL adjustments');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReport();
+  }, [runId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-400">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Analysing SL adjustments...
+      </div>
+    );
+  }
+
+  if (!report) {
+    return error ? <p className="text-xs text-red-400">{error}</p> : null;
+  }
+  if (report.trades.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-gray-700 border-gray-600">
+      <CardContent className="p-3 space-y-3">
+        <h3 className="text-white flex items-center gap-2 text-sm">
+          <ShieldCheck className="h-4 w-4" />
+          SL Adjustment Effectiveness
+        </h3>
+
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-600">
+              <th className="text-left py-1 text-gray-300 font-medium">Last Trigger</th>
+              <th className="text-right py-1 text-gray-300 font-medium">Trades</th>
+              <th className="text-right py-1 text-gray-300 font-medium">Adjusted Stop</th>
+              <th className="text-right py-1 text-gray-300 font-medium">Take Profit</th>
+              <th className="text-right py-1 text-gray-300 font-medium">Original Stop</th>
+              <th className="text-right py-1 text-gray-300 font-medium">Other</th>
+              <th className="text-right py-1 text-gray-300 font-medium">Net PNL</th>
+              <th className="text-right py-1 text-gray-300 font-medium">Saved vs Original SL</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...report.byTrigger, report.overall].map(group => (
+              <tr key={group.trigger} className={`border-b border-gray-600 ${group === report.overall ? 'bg-gray-600/40 font-medium' : ''}`}>
+                <td className="py-1 text-white">{group.trigger}</td>
+                <td className="py-1 text-right text-gray-300">{group.trades}</td>
+                <td className="py-1 text-right text-gray-300">{share(group.adjustedStop, group)}</td>
+                <td className="py-1 text-right text-gray-300">{share(group.target, group)}</td>
+                <td className="py-1 text-right text-gray-300">{share(group.originalStop, group)}</td>
+                <td className="py-1 text-right text-gray-300">{share(group.other, group)}</td>
+                <td className={`py-1 text-right font-mono ${pnlColor(group.netPnl)}`}>{formatCurrency(group.netPnl)}</td>
+                <td className={`py-1 text-right font-mono ${pnlColor(group.savedPnl)}`}>{formatCurrency(group.savedPnl)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-xs text-gray-400">
+          Savings price the legs stopped at an adjusted level against the original {report.originalStopLoss !== null ? `${report.originalStopLoss}pt ` : ''}
+          stop, assuming they would have run to it. A trade that would have recovered instead cannot be seen in the log.
+          {report.unmatchedAdjustments > 0 && ` ${report.unmatchedAdjustments} adjustments could not be matched to a trade.`}
+        </p>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowTrades(!showTrades)}
+          className="h-6 px-1 text-xs text-gray-400 hover:text-white"
+        >
+          {showTrades ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          {report.trades.length} adjusted trades
+        </Button>
+        {showTrades && (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-gray-600">
+                <th className="text-left py-1 text-gray-300 font-medium">Date</th>
+                <th className="text-left py-1 text-gray-300 font-medium">Trade</th>
+                <th className="text-left py-1 text-gray-300 font-medium">Trigger</th>
+                <th className="text-right py-1 text-gray-300 font-medium">Stop Moved To</th>
+                <th className="text-left py-1 pl-3 text-gray-300 font-medium">Outcome</th>
+                <th className="text-right py-1 text-gray-300 font-medium">PNL</th>
+                <th className="text-right py-1 text-gray-300 font-medium">Saved</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.trades.map(trade => (
+                <tr key={`${trade.date}-${trade.tradeId}`} className="border-b border-gray-600">
+                  <td className="py-1 text-white">{trade.date}</td>
+                  <td className="py-1 text-gray-300">#{trade.tradeId} {trade.direction}</td>
+                  <td className="py-1 text-gray-300">{trade.trigger}{trade.adjustments > 1 && ` (${trade.adjustments} moves)`}</td>
+                  <td className="py-1 text-right font-mono text-gray-300">{trade.adjustedStop === null ? '-' : `${trade.adjustedStop}pts`}</td>
+                  <td className="py-1 pl-3 text-gray-300">{OUTCOME_LABELS[trade.outcome]}</td>
+                  <td className={`py-1 text-right font-mono ${pnlColor(trade.pnl)}`}>{formatCurrency(trade.pnl)}</td>
+                  <td className={`py-1 text-right font-mono ${pnlColor(trade.savedPnl)}`}>{formatCurrency(trade.savedPnl)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
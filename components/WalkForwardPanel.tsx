@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, Scale } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { formatDateOnly } from '@/lib/date-utils';
+import type { RollingPoint, SegmentMetrics, SplitResult } from '@/lib/walk-forward';
+
+interface WalkForwardPanelProps {
+  runId: number;
+}
+
+const CHARTS: Array<{ key: keyof RollingPoint; label: string; color: string; format: (value: number) => string; reference?: number }> = [
+  { key: 'pnl', label: 'Rolling PNL', color: '#10b981', format: value => `$${value.toFixed(0)}`, reference: 0 },
+  { key: 'winRate', label: 'Rolling Win Rate', color: '#3b82f6', format: value => `${value.toFixed(0)}%`, reference: 50 },
+  { key: 'profitFactor', label: 'Rolling Profit Factor', color: '#f59e0b', format: value => value.toFixed(2), reference: 1 }
+];
+
+const formatValue = (value: number | null, format: (value: number) => string) => (value === null ? '-' : format(value));
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const SEGMENT_ROWS: Array<{ label: string; value: (segment: SegmentMetrics) => string }> = [
+  { label: 'Days / Trades', value: segment => `${segment.days} / ${segment.trades}` },
+  { label: 'Net PNL', value: segment => formatCurrency(segment.netPnl) },
+  { label: 'Avg Daily PNL', value: segment => formatValue(segment.averageDailyPnl, formatCurrency) },
+  { label: 'Win Rate', value: segment => formatValue(segment.winRate, value => `${value.toFixed(1)}%`) },
+  { label: 'Profit Factor', value: segment => formatValue(segment.profitFactor, value => value.toFixed(2)) },
+  { label: 'Winning Days', value: segment => formatValue(segment.winningDays, value => `${value.toFixed(1)}%`) },
+  { label: 'Max Drawdown', value: segment => formatCurrency(segment.maxDrawdown) }
+];
+
+export function WalkForwardPanel({ runId }: WalkForwardPanelProps) {
+  const [rolling, setRolling] = useState<Array<{ window: number; points: RollingPoint[] }>>([]);
+  const [splits, setSplits] = useState<SplitResult[]>([]);
+  const [windowSize, setWindowSize] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchWalkForward = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/runs/${runId}/walk-forward`);
+        const data = await response.json();
+        if (data.success) {
+          setRolling(data.rolling);
+          setSplits(data.splits);
+          setWindowSize(data.rolling[0]?.window ?? null);
+        }
+      } catch (error) {
+        console.error('Error fetching walk-forward analysis:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchWalkForward();
+  }, [runId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-400">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Analysing stability...
+      </div>
+    );
+  }
+
+  const points = rolling.find(entry => entry.window === windowSize)?.points || [];
+
+  return (
+    <div className="space-y-3">
+      <Card className="bg-gray-700 border-gray-600">
+        <CardContent className="p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-white text-sm">Rolling Windows</h3>
+            <div className="flex gap-1">
+              {rolling.map(entry => (
+                <Button
+                  key={entry.window}
+                  size="sm"
+                  variant={windowSize === entry.window ? 'default' : 'outline'}
+                  onClick={() => setWindowSize(entry.window)}
+                >
+                  {entry.window} days
+                </Button>
+              ))}
+            </div>
+          </div>
+          {points.length === 0 ? (
+            <p className="text-xs text-gray-400 text-center py-4">This run has fewer than {windowSize} trading days.</p>
+          ) : (
+            CHARTS.map(chart => (
+              <div key={chart.key} className="h-40 bg-gray-900/50 rounded-lg p-2">
+                <div className="text-xs text-gray-400 mb-1">{chart.label}</div>
+                <ResponsiveContainer width="100%" height="85%">
+                  <LineChart data={points}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" strokeOpacity={0.5} />
+                    <XAxis
+                      dataKey="date"
+                      tick={{ fill: '#9ca3af', fontSize: 10 }}
+                      axisLine={{ stroke: '#374151' }}
+                      tickLine={{ stroke: '#374151' }}
+                      tickFormatter={(value) => formatDateOnly(value)}
+                    />
+                    <YAxis
+                      tick={{ fill: '#9ca3af', fontSize: 10 }}
+                      axisLine={{ stroke: '#374151' }}
+                      tickLine={{ stroke: '#374151' }}
+                      tickFormatter={chart.format}
+                    />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', color: '#fff' }}
+                      labelFormatter={(label) => `${windowSize} days to ${formatDateOnly(String(label))}`}
+                      formatter={(value: number) => [chart.format(value), chart.label]}
+                    />
+                    {chart.reference !== undefined && <ReferenceLine y={chart.reference} stroke="#6b7280" />}
+                    <Line type="monotone" dataKey={chart.key} stroke={chart.color} strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-700 border-gray-600">
+        <CardContent className="p-3 space-y-3">
+          <h3 className="text-white flex items-center gap-2 text-sm">
+            <Scale className="h-4 w-4" />
+            In-Sample vs Out-of-Sample
+          </h3>
+          {splits.length === 0 ? (
+            <p className="text-xs text-gray-400">
+              No date splits defined for this strategy. Add them under Notes &amp; Settings.
+            </p>
+          ) : (
+            splits.map(result => (
+              <div key={result.split.id} className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-white font-medium">{result.split.name}</span>
+                  <span className="text-gray-300">
+                    Degradation ratio:{' '}
+                    <span className={`font-mono ${result.degradationRatio === null
+                      ? 'text-gray-400'
+                      : result.degradationRatio >= 0.5 ? 'text-green-400' : 'text-red-400'}`}
+                    >
+                      {result.degradationRatio === null ? '-' : result.degradationRatio.toFixed(2)}
+                    </span>
+                  </span>
+                </div>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-gray-600">
+                      <th className="text-left py-1 text-gray-300 font-medium">Metric</th>
+                      <th className="text-right py-1 text-gray-300 font-medium">
+                        In-Sample ({formatDateOnly(result.split.inSampleStart)} – {formatDateOnly(result.split.inSampleEnd)})
+                      </th>
+                      <th className="text-right py-1 text-gray-300 font-medium">
+                        Out-of-Sample ({formatDateOnly(result.split.outOfSampleStart)} – {formatDateOnly(result.split.outOfSampleEnd)})
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {SEGMENT_ROWS.map(row => (
+                      <tr key={row.label} className="border-b border-gray-600">
+                        <td className="py-1 text-gray-300">{row.label}</td>
+                        <td className="py-1 text-right font-mono text-white">{row.value(result.inSample)}</td>
+                        <td className="py-1 text-right font-mono text-white">{row.value(result.outOfSample)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))
+          )}
+          <p className="text-xs text-gray-500">
+            The degradation ratio is the out-of-sample average daily PNL divided by the in-sample one. 1 means the
+            edge held up, 0 that it disappeared out of sample.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
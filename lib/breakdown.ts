@@ -0,0 +1,176 @@
+// Slices a run's trades by calendar and regime dimensions with the same per-bucket statistics everywhere
+
+export type BreakdownDimension = 'dayOfWeek' | 'month' | 'hour' | 'direction' | 'line' | 'sessionHalf';
+
+export const BREAKDOWN_DIMENSIONS: Record<BreakdownDimension, string> = {
+  dayOfWeek: 'Day of Week',
+  month: 'Month',
+  hour: 'Hour',
+  direction: 'Direction',
+  line: 'Line',
+  sessionHalf: 'Session Half'
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export interface BreakdownTrade {
+  date: string;
+  // Entry time, as logged ("10:24:00 AM") or 24-hour ("10:24")
+  time: string;
+  direction: string;
+  line: string | null;
+  pnl: number;
+}
+
+// Session bounds in minutes after midnight, trades before the midpoint fall in the first half
+export interface SessionWindow {
+  start: number;
+  end: number;
+}
+
+export interface BucketStats {
+  key: string;
+  label: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  netPnl: number;
+  winRate: number;
+  // Average PNL per trade
+  expectancy: number;
+  // Null without a losing trade
+  profitFactor: number | null;
+  averageWin: number | null;
+  averageLoss: number | null;
+}
+
+export interface Pivot {
+  rows: BreakdownDimension;
+  columns: BreakdownDimension;
+  rowKeys: Array<{ key: string; label: string }>;
+  columnKeys: Array<{ key: string; label: string }>;
+  // cells[rowIndex][columnIndex], null where no trade falls in both buckets
+  cells: Array<Array<BucketStats | null>>;
+  rowTotals: BucketStats[];
+  columnTotals: BucketStats[];
+}
+
+export function minutesOfDay(time: string): number | null {
+  const match = time.match(/(\d{1,2}):(\d{2})(?::\d{2})?(?:\s*(AM|PM))?/i);
+  if (!match) return null;
+
+  let hour = parseInt(match[1]);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hour !== 12) hour += 12;
+  if (period === 'AM' && hour === 12) hour = 0;
+  return hour * 60 + parseInt(match[2]);
+}
+
+function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  return `${String(Math.floor(rounded / 60)).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+// Sortable key and display label of the bucket a trade falls in, null when it cannot be placed
+function bucketOf(trade: BreakdownTrade, dimension: BreakdownDimension, session: SessionWindow | null): { key: string; label: string } | null {
+  switch (dimension) {
+    case 'dayOfWeek': {
+      const day = new Date(`${trade.date}T00:00:00Z`).getUTCDay();
+      return isNaN(day) ? null : { key: String(day), label: DAY_NAMES[day] };
+    }
+    case 'month': {
+      const month = trade.date.slice(0, 7);
+      const index = parseInt(trade.date.slice(5, 7)) - 1;
+      return MONTH_NAMES[index] ? { key: month, label: `${MONTH_NAMES[index]} ${trade.date.slice(0, 4)}` } : null;
+    }
+    case 'hour': {
+      const minutes = minutesOfDay(trade.time);
+      if (minutes === null) return null;
+      const hour = Math.floor(minutes / 60);
+      return { key: String(hour).padStart(2, '0'), label: `${formatMinutes(hour * 60)}–${formatMinutes(hour * 60 + 59)}` };
+    }
+    case 'direction':
+      return { key: trade.direction.toUpperCase(), label: trade.direction.toUpperCase() };
+    case 'line':
+      return trade.line ? { key: trade.line, label: trade.line } : null;
+    case 'sessionHalf': {
+      const minutes = minutesOfDay(trade.time);
+      if (minutes === null || !session) return null;
+      const midpoint = (session.start + session.end) / 2;
+      return minutes < midpoint
+        ? { key: '1', label: `First half (${formatMinutes(session.start)}–${formatMinutes(midpoint)})` }
+        : { key: '2', label: `Second half (${formatMinutes(midpoint)}–${formatMinutes(session.end)})` };
+    }
+  }
+}
+
+function compareKeys(dimension: BreakdownDimension, a: string, b: string): number {
+  return dimension === 'dayOfWeek' ? Number(a) - Number(b) : a.localeCompare(b, undefined, { numeric: true });
+}
+
+export function bucketStats(key: string, label: string, trades: BreakdownTrade[]): BucketStats {
+  const winners = trades.filter(trade => trade.pnl > 0);
+  const losers = trades.filter(trade => trade.pnl < 0);
+  const grossProfit = winners.reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLoss = Math.abs(losers.reduce((sum, trade) => sum + trade.pnl, 0));
+  const netPnl = trades.reduce((sum, trade) => sum + trade.pnl, 0);
+
+  return {
+    key,
+    label,
+    trades: trades.length,
+    wins: winners.length,
+    losses: losers.length,
+    netPnl,
+    winRate: trades.length > 0 ? (winners.length / trades.length) * 100 : 0,
+    expectancy: trades.length > 0 ? netPnl / trades.length : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    averageWin: winners.length > 0 ? grossProfit / winners.length : null,
+    averageLoss: losers.length > 0 ? -grossLoss / losers.length : null
+  };
+}
+
+function group(trades: BreakdownTrade[], dimension: BreakdownDimension, session: SessionWindow | null) {
+  const groups = new Map<string, { label: string; trades: BreakdownTrade[] }>();
+  for (const trade of trades) {
+    const bucket = bucketOf(trade, dimension, session);
+    if (!bucket) continue;
+    const entry = groups.get(bucket.key) || { label: bucket.label, trades: [] };
+    entry.trades.push(trade);
+    groups.set(bucket.key, entry);
+  }
+  return new Map([...groups.entries()].sort(([a], [b]) => compareKeys(dimension, a, b)));
+}
+
+export function breakdown(trades: BreakdownTrade[], dimension: BreakdownDimension, session: SessionWindow | null): BucketStats[] {
+  return Array.from(group(trades, dimension, session).entries())
+    .map(([key, entry]) => bucketStats(key, entry.label, entry.trades));
+}
+
+export function pivot(
+  trades: BreakdownTrade[],
+  rows: BreakdownDimension,
+  columns: BreakdownDimension,
+  session: SessionWindow | null
+): Pivot {
+  const rowGroups = group(trades, rows, session);
+  const columnGroups = group(trades, columns, session);
+  const columnKeys = Array.from(columnGroups.entries()).map(([key, entry]) => ({ key, label: entry.label }));
+
+  return {
+    rows,
+    columns,
+    rowKeys: Array.from(rowGroups.entries()).map(([key, entry]) => ({ key, label: entry.label })),
+    columnKeys,
+    cells: Array.from(rowGroups.values()).map(rowGroup => {
+      const byColumn = group(rowGroup.trades, columns, session);
+      return columnKeys.map(({ key, label }) => {
+        const cell = byColumn.get(key);
+        return cell ? bucketStats(key, label, cell.trades) : null;
+      });
+    }),
+    rowTotals: Array.from(rowGroups.entries()).map(([key, entry]) => bucketStats(key, entry.label, entry.trades)),
+    columnTotals: Array.from(columnGroups.entries()).map(([key, entry]) => bucketStats(key, entry.label, entry.trades))
+  };
+}
@@ -28,6 +28,19 @@ export function formatDateOnly(dateString: string): string {
   return dateString;
 }
 
+/**
+ * Converts a log date in M/D/YYYY or YYYY-MM-DD format to YYYY-MM-DD, so dates compare and sort as strings
+ * @param dateStr - Date string as logged
+ * @returns Date string in YYYY-MM-DD format, or the input as-is if the format is unrecognized
+ */
+export function normalizeDate(dateStr: string): string {
+  if (dateStr.includes('/')) {
+    const [month, day, year] = dateStr.split('/');
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+  return dateStr;
+}
+
 /**
  * Formats a date range for display without timezone conversion
  * @param startDate - Start date string in YYYY-MM-DD format
@@ -0,0 +1,160 @@
+import { median } from '@/lib/statistics';
+
+// Durations are counted in trading days, i.e. daily PNL entries, not calendar days
+
+export type DrawdownMode = 'close' | 'intraday';
+
+export interface DrawdownDay {
+  date: string;
+  pnl: number;
+  // Running closed-trade PNL extremes within the day, relative to the day's start
+  highestIntradayPnl?: number | null;
+  lowestIntradayPnl?: number | null;
+}
+
+export interface UnderwaterPoint {
+  date: string;
+  equity: number;
+  // High-water mark from earlier days that this day's drawdown is measured against
+  peak: number;
+  // Zero or negative, in dollars
+  drawdown: number;
+  // Drawdown as a fraction of the peak balance (account size + peak equity)
+  drawdownPct: number;
+}
+
+export interface DrawdownEpisode {
+  // Date the peak was set, null when it is the starting balance
+  peakDate: string | null;
+  startDate: string;
+  troughDate: string;
+  recoveryDate: string | null;
+  depth: number;
+  depthPct: number;
+  daysToTrough: number;
+  // From the trough back to the peak, null while still under water
+  daysToRecover: number | null;
+  // From the first day under water to recovery, or to the last day for an open episode
+  duration: number;
+}
+
+export interface RecoveryStats {
+  episodes: number;
+  recovered: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  averageDepth: number;
+  averageDaysToRecover: number | null;
+  medianDaysToRecover: number | null;
+  longestDaysToRecover: number | null;
+  longestDuration: number;
+  // Depth of the drawdown the run ended in, 0 when it ended at a peak
+  currentDrawdown: number;
+}
+
+export interface DrawdownAnalysis {
+  mode: DrawdownMode;
+  underwater: UnderwaterPoint[];
+  episodes: DrawdownEpisode[];
+  stats: RecoveryStats;
+}
+
+/**
+ * Underwater curve, drawdown episodes and time-to-recover statistics for a daily PNL series.
+ * In intraday mode each day's lowest running PNL counts towards the drawdown. The order of a day's
+ * high and low is unknown, so the low is measured against the peak from earlier days and the day's
+ * high only raises the peak afterwards.
+ */
+export function analyseDrawdowns(days: DrawdownDay[], mode: DrawdownMode, accountSize: number): DrawdownAnalysis {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const underwater: UnderwaterPoint[] = [];
+  const episodes: DrawdownEpisode[] = [];
+
+  let equity = 0;
+  let peak = 0;
+  let peakDate: string | null = null;
+  let open: { episode: DrawdownEpisode; startIndex: number; troughIndex: number } | null = null;
+
+  for (let index = 0; index < sorted.length; index++) {
+    const day = sorted[index];
+    const close = equity + day.pnl;
+    // Parsers that don't record intraday extremes fall back to the close
+    const low = mode === 'intraday' ? equity + Math.min(0, day.pnl, day.lowestIntradayPnl ?? 0) : close;
+    const high = mode === 'intraday' ? equity + Math.max(0, day.pnl, day.highestIntradayPnl ?? 0) : close;
+
+    const drawdown = Math.min(0, low - peak);
+    const peakBalance = accountSize + peak;
+    const drawdownPct = peakBalance > 0 ? drawdown / peakBalance : 0;
+
+    if (drawdown < 0) {
+      if (!open) {
+        open = {
+          episode: {
+            peakDate,
+            startDate: day.date,
+            troughDate: day.date,
+            recoveryDate: null,
+            depth: 0,
+            depthPct: 0,
+            daysToTrough: 0,
+            daysToRecover: null,
+            duration: 0
+          },
+          startIndex: index,
+          troughIndex: index
+        };
+      }
+      if (-drawdown > open.episode.depth) {
+        open.episode.depth = -drawdown;
+        open.episode.depthPct = -drawdownPct;
+        open.episode.troughDate = day.date;
+        open.episode.daysToTrough = index - open.startIndex;
+        open.troughIndex = index;
+      }
+    }
+
+    if (open && high >= peak) {
+      episodes.push({
+        ...open.episode,
+        recoveryDate: day.date,
+        daysToRecover: index - open.troughIndex,
+        duration: index - open.startIndex
+      });
+      open = null;
+    }
+
+    underwater.push({ date: day.date, equity: close, peak, drawdown, drawdownPct });
+    equity = close;
+    if (high > peak) {
+      peak = high;
+      peakDate = day.date;
+    }
+  }
+
+  let currentDrawdown = 0;
+  if (open) {
+    episodes.push({ ...open.episode, duration: sorted.length - 1 - open.startIndex });
+    currentDrawdown = peak - equity;
+  }
+
+  const recoveryTimes = episodes.filter(episode => episode.daysToRecover !== null).map(episode => episode.daysToRecover!);
+  const deepest = episodes.reduce<DrawdownEpisode | null>((max, episode) => (!max || episode.depth > max.depth ? episode : max), null);
+
+  return {
+    mode,
+    underwater,
+    episodes,
+    stats: {
+      episodes: episodes.length,
+      recovered: recoveryTimes.length,
+      maxDrawdown: deepest?.depth ?? 0,
+      maxDrawdownPct: deepest?.depthPct ?? 0,
+      averageDepth: episodes.length > 0 ? episodes.reduce((sum, episode) => sum + episode.depth, 0) / episodes.length : 0,
+      averageDaysToRecover: recoveryTimes.length > 0 ? recoveryTimes.reduce((sum, days) => sum + days, 0) / recoveryTimes.length : null,
+      medianDaysToRecover: median(recoveryTimes),
+      longestDaysToRecover: recoveryTimes.length > 0 ? Math.max(...recoveryTimes) : null,
+      longestDuration: episodes.reduce((max, episode) => Math.max(max, episode.duration), 0),
+      currentDrawdown
+    }
+  };
+}
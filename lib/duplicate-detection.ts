@@ -0,0 +1,75 @@
+import { createHash } from 'crypto';
+import type { SqlExecutor } from '@/lib/migrations/types';
+import type { ParsedRunData } from '@/lib/parsers/base-parser';
+
+// What to do when an imported run matches one already stored
+export type DuplicateAction = 'ask' | 'skip' | 'replace' | 'keep-both';
+export const DUPLICATE_ACTIONS: DuplicateAction[] = ['ask', 'skip', 'replace', 'keep-both'];
+
+export interface DuplicateMatch {
+  runId: number;
+  runName: string | null;
+  createdAt: string;
+  // exact: identical raw data, near: same parameters, date range and trade count from a different log
+  kind: 'exact' | 'near';
+}
+
+export interface FingerprintInput {
+  strategyName: string;
+  parameters: Array<{ name: string; value: string }>;
+  firstDate: string | null;
+  lastDate: string | null;
+  totalTrades: number;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Line endings and trailing whitespace differ between copy/paste and exported files, ignore them
+export function contentHash(rawData: string): string {
+  return sha256(rawData.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim());
+}
+
+export function computeFingerprint(input: FingerprintInput): string {
+  const parameters = input.parameters
+    .map(param => `${param.name.trim()}=${param.value.trim()}`)
+    .sort();
+  return sha256(JSON.stringify([input.strategyName, parameters, input.firstDate, input.lastDate, input.totalTrades]));
+}
+
+export function fingerprintParsedRun(parsedData: ParsedRunData): string {
+  const dates = parsedData.dailyPnl.map(day => day.date).sort();
+  return computeFingerprint({
+    strategyName: parsedData.strategyName,
+    parameters: parsedData.parameters,
+    firstDate: dates[0] ?? null,
+    lastDate: dates[dates.length - 1] ?? null,
+    totalTrades: parsedData.totalTrades || 0
+  });
+}
+
+// Stored runs matching the hash or fingerprint, exact matches first
+export async function findDuplicateRuns(
+  executor: SqlExecutor,
+  match: { contentHash: string | null; fingerprint: string }
+): Promise<DuplicateMatch[]> {
+  const result = await executor.execute({
+    sql: `
+      SELECT id, run_name, created_at, content_hash
+      FROM strategy_runs
+      WHERE (content_hash = ? OR fingerprint = ?) AND simulation IS NULL
+      ORDER BY created_at DESC
+    `,
+    args: [match.contentHash, match.fingerprint]
+  });
+
+  return result.rows
+    .map(row => ({
+      runId: Number(row.id),
+      runName: (row.run_name as string | null) ?? null,
+      createdAt: row.created_at as string,
+      kind: (match.contentHash && row.content_hash === match.contentHash ? 'exact' : 'near') as DuplicateMatch['kind']
+    }))
+    .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'exact' ? -1 : 1));
+}
@@ -0,0 +1,94 @@
+import type { SqlExecutor } from '@/lib/migrations/types';
+import type { EventFieldType, EventPayloadValue, EventTypeDefinition } from '@/lib/parsers/base-parser';
+
+// Stored strategy_events described by the event types their run declared, so any strategy's events can be listed
+
+export interface EventTypeSummary extends EventTypeDefinition {
+  count: number;
+  // False for types found in the events that the run's parser did not declare
+  declared: boolean;
+}
+
+export interface StoredEvent {
+  id: number;
+  type: string;
+  date: string;
+  time: string;
+  tradeId: string | null;
+  payload: Record<string, EventPayloadValue>;
+  sourceLine: number | null;
+}
+
+// json_each types to the field types a parser would declare
+const JSON_FIELD_TYPES: Record<string, EventFieldType> = {
+  integer: 'number',
+  real: 'number',
+  true: 'boolean',
+  false: 'boolean'
+};
+
+// "tp_near_miss" into "Tp Near Miss", "closestDistance" into "Closest Distance"
+export function humanizeEventName(name: string): string {
+  return name
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+export function parseEventTypes(json: string | null): EventTypeDefinition[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Declared types first in the parser's order, then undeclared ones with fields inferred from their payloads.
+ * Counts cover every event of the run.
+ */
+export async function getEventTypeSummaries(executor: SqlExecutor, runId: number, declaredJson: string | null): Promise<EventTypeSummary[]> {
+  const [countsResult, fieldsResult] = await Promise.all([
+    executor.execute({
+      sql: 'SELECT event_type, COUNT(*) AS count FROM strategy_events WHERE run_id = ? GROUP BY event_type ORDER BY event_type',
+      args: [runId]
+    }),
+    executor.execute({
+      sql: `
+        SELECT DISTINCT e.event_type, f.key, f.type
+        FROM strategy_events e, json_each(e.payload) f
+        WHERE e.run_id = ?
+      `,
+      args: [runId]
+    })
+  ]);
+
+  const counts = new Map((countsResult.rows as any[]).map(row => [row.event_type as string, Number(row.count)]));
+  const declared = parseEventTypes(declaredJson);
+  const summaries: EventTypeSummary[] = declared.map(definition => ({
+    ...definition,
+    count: counts.get(definition.type) ?? 0,
+    declared: true
+  }));
+
+  for (const [type, count] of counts) {
+    if (declared.some(definition => definition.type === type)) continue;
+    const fields = new Map<string, EventFieldType>();
+    for (const row of fieldsResult.rows as any[]) {
+      if (row.event_type !== type || row.type === 'null') continue;
+      // A field holding different kinds of values across events is shown as text
+      const fieldType = JSON_FIELD_TYPES[row.type] ?? 'string';
+      fields.set(row.key, fields.has(row.key) && fields.get(row.key) !== fieldType ? 'string' : fieldType);
+    }
+    summaries.push({
+      type,
+      label: humanizeEventName(type),
+      fields: Array.from(fields.entries()).map(([name, fieldType]) => ({ name, label: humanizeEventName(name), type: fieldType })),
+      count,
+      declared: false
+    });
+  }
+  return summaries;
+}
@@ -0,0 +1,184 @@
+import { AmbiguousExit, replayExit } from '@/lib/exit-replay';
+import { mean, median } from '@/lib/statistics';
+
+// Maximum adverse / favourable excursion (MAE / MFE) analytics and fixed TP/SL replays from the trade summaries
+
+export type TradeOutcome = 'win' | 'loss' | 'breakeven';
+
+export interface ExcursionTrade {
+  tradeId: string;
+  date: string;
+  time: string;
+  direction: string;
+  line: string | null;
+  // In points per contract, both positive
+  mfe: number;
+  mae: number;
+  pnl: number;
+  // Quantity-weighted points per contract over the trade's exits, null without lifecycle data
+  realisedPoints: number | null;
+  quantity: number | null;
+}
+
+export interface ExcursionPoint extends ExcursionTrade {
+  outcome: TradeOutcome;
+  // Realised points as a fraction of the MFE, null when there was no favourable excursion or no lifecycle data
+  captureRatio: number | null;
+}
+
+export interface CaptureBucket {
+  // Lower bound, the first bucket collects everything below it and the last everything above
+  from: number;
+  label: string;
+  count: number;
+}
+
+export interface ExcursionSummary {
+  trades: number;
+  averageMfe: number | null;
+  averageMae: number | null;
+  // Average MFE over average MAE, above 1 means trades tend to go further for than against
+  edgeRatio: number | null;
+  // The median, losers that barely went green make the mean meaningless
+  medianCapture: number | null;
+  // Losing trades that had been in profit by at least the winners' median realised points
+  losersThatWereUp: number;
+}
+
+export interface WhatIfResult {
+  takeProfit: number;
+  stopLoss: number;
+  trades: number;
+  targetHits: number;
+  stopHits: number;
+  // Reached both, resolved by the AmbiguousExit assumption
+  ambiguous: number;
+  // Reached neither, so they keep their actual exit
+  unchanged: number;
+  netPoints: number;
+  // Trades exiting at the target or stop are estimated from points, quantity and the run's dollars per point
+  netPnl: number;
+  winRate: number;
+  profitFactor: number | null;
+}
+
+// A log that reports a high or low of 0 gives an excursion the size of the price itself, those are unusable
+export function hasUsableExcursions(entryPrice: number, maxProfit: number | null, maxLoss: number | null): boolean {
+  return maxProfit !== null && maxLoss !== null && Math.abs(maxProfit) < entryPrice && Math.abs(maxLoss) < entryPrice;
+}
+
+export function tradeOutcome(pnl: number): TradeOutcome {
+  return pnl > 0 ? 'win' : pnl < 0 ? 'loss' : 'breakeven';
+}
+
+/**
+ * Dollars per point per contract, net of fees, as the median over the run's exit legs.
+ * Legs of under a point are skipped, fees dominate them.
+ */
+export function estimatePointValue(legs: Array<{ points: number | null; quantity: number | null; pnl: number }>): number | null {
+  return median(legs
+    .filter(leg => leg.points !== null && leg.quantity && Math.abs(leg.points) >= 1)
+    .map(leg => leg.pnl / (leg.points! * leg.quantity!)));
+}
+
+export function excursionPoints(trades: ExcursionTrade[]): ExcursionPoint[] {
+  return trades.map(trade => ({
+    ...trade,
+    outcome: tradeOutcome(trade.pnl),
+    captureRatio: trade.realisedPoints !== null && trade.mfe > 0 ? trade.realisedPoints / trade.mfe : null
+  }));
+}
+
+// 10% buckets from -100% to 100% with open-ended buckets either side
+export function captureHistogram(points: ExcursionPoint[]): CaptureBucket[] {
+  const buckets: CaptureBucket[] = [{ from: -Infinity, label: '< -100%', count: 0 }];
+  for (let step = -10; step < 10; step++) {
+    buckets.push({ from: step / 10, label: `${step * 10}%`, count: 0 });
+  }
+  buckets.push({ from: 1, label: '≥ 100%', count: 0 });
+
+  for (const point of points) {
+    if (point.captureRatio === null) continue;
+    const index = point.captureRatio < -1 ? 0 : point.captureRatio >= 1 ? buckets.length - 1 : Math.floor(point.captureRatio * 10) + 11;
+    buckets[index].count++;
+  }
+  return buckets;
+}
+
+export function summariseExcursions(points: ExcursionPoint[]): ExcursionSummary {
+  const averageMfe = mean(points.map(point => point.mfe));
+  const averageMae = mean(points.map(point => point.mae));
+  const captures = points.map(point => point.captureRatio).filter((ratio): ratio is number => ratio !== null);
+  const winnersRealised = median(points
+    .filter(point => point.outcome === 'win' && point.realisedPoints !== null)
+    .map(point => point.realisedPoints!));
+
+  return {
+    trades: points.length,
+    averageMfe,
+    averageMae,
+    edgeRatio: averageMfe !== null && averageMae ? averageMfe / averageMae : null,
+    medianCapture: median(captures),
+    losersThatWereUp: winnersRealised === null
+      ? 0
+      : points.filter(point => point.outcome === 'loss' && point.mfe >= winnersRealised).length
+  };
+}
+
+/**
+ * Replay each trade with a single fixed target and stop in points, see replayExit. A trade that reached
+ * neither keeps its actual exit and real PNL.
+ */
+export function replayFixedExits(
+  trades: ExcursionTrade[],
+  takeProfit: number,
+  stopLoss: number,
+  pointValue: number,
+  ambiguousExit: AmbiguousExit
+): WhatIfResult {
+  const replayable = trades.filter(trade => trade.realisedPoints !== null && trade.quantity);
+  let targetHits = 0;
+  let stopHits = 0;
+  let ambiguous = 0;
+  let unchanged = 0;
+  const results: Array<{ points: number; pnl: number }> = [];
+
+  for (const trade of replayable) {
+    const replayed = replayExit(
+      { mfe: trade.mfe, mae: trade.mae, actualPoints: trade.realisedPoints! },
+      { takeProfit, stopLoss },
+      ambiguousExit
+    );
+    if (replayed.ambiguous) {
+      ambiguous++;
+    } else if (replayed.exit === 'target') {
+      targetHits++;
+    } else if (replayed.exit === 'stop') {
+      stopHits++;
+    }
+    if (replayed.exit === 'unchanged') {
+      // Keeps its real PNL rather than an estimate
+      unchanged++;
+      results.push({ points: replayed.points, pnl: trade.pnl });
+      continue;
+    }
+    results.push({ points: replayed.points, pnl: replayed.points * trade.quantity! * pointValue });
+  }
+
+  const grossProfit = results.filter(result => result.pnl > 0).reduce((sum, result) => sum + result.pnl, 0);
+  const grossLoss = Math.abs(results.filter(result => result.pnl < 0).reduce((sum, result) => sum + result.pnl, 0));
+
+  return {
+    takeProfit,
+    stopLoss,
+    trades: results.length,
+    targetHits,
+    stopHits,
+    ambiguous,
+    unchanged,
+    netPoints: results.reduce((sum, result) => sum + result.points, 0),
+    netPnl: results.reduce((sum, result) => sum + result.pnl, 0),
+    winRate: results.length > 0 ? (results.filter(result => result.pnl > 0).length / results.length) * 100 : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null
+  };
+}
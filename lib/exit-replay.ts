@@ -0,0 +1,66 @@
+// Replays one trade's exit under a fixed target and stop from its excursions, shared by the excursion
+// what-if grid and the exit simulator so both resolve a trade the same way
+
+// Which exit is assumed when a trade reached both the target and the stop, the summaries do not record the order
+export type AmbiguousExit = 'stop-first' | 'target-first';
+export const AMBIGUOUS_EXITS: AmbiguousExit[] = ['stop-first', 'target-first'];
+
+export type ReplayedExit = 'target' | 'stop' | 'breakeven' | 'unchanged';
+
+export interface ReplayExcursion {
+  // Points, both positive
+  mfe: number;
+  mae: number;
+  // Points per contract the trade actually made
+  actualPoints: number;
+}
+
+export interface ReplayRules {
+  takeProfit: number;
+  stopLoss: number;
+  // Move the stop to the entry once the trade is this many points in profit, null to never move it
+  breakevenAfter?: number | null;
+}
+
+/**
+ * The summaries only record how far the trade went each way, not in which order, so a trade that reached
+ * both its target (or the breakeven trigger) and the stop is resolved by `ambiguousExit`. A trade that
+ * reached neither keeps its actual exit, capped at the target and stop. Excursions are only known while the
+ * real trade was open, so a wider target or stop than the one that closed it is judged on that window only.
+ */
+export function replayExit(
+  trade: ReplayExcursion,
+  rules: ReplayRules,
+  ambiguousExit: AmbiguousExit
+): { points: number; exit: ReplayedExit; ambiguous: boolean } {
+  const { takeProfit, stopLoss } = rules;
+  const reachedTarget = trade.mfe >= takeProfit;
+  const reachedStop = trade.mae >= stopLoss;
+  const armedBreakeven = rules.breakevenAfter != null && trade.mfe >= rules.breakevenAfter;
+
+  if (reachedStop) {
+    if (reachedTarget) {
+      return ambiguousExit === 'target-first'
+        ? { points: takeProfit, exit: 'target', ambiguous: true }
+        : { points: -stopLoss, exit: 'stop', ambiguous: true };
+    }
+    if (armedBreakeven) {
+      return ambiguousExit === 'target-first'
+        ? { points: 0, exit: 'breakeven', ambiguous: true }
+        : { points: -stopLoss, exit: 'stop', ambiguous: true };
+    }
+    return { points: -stopLoss, exit: 'stop', ambiguous: false };
+  }
+  if (reachedTarget) {
+    return { points: takeProfit, exit: 'target', ambiguous: false };
+  }
+
+  const capped = Math.min(takeProfit, Math.max(-stopLoss, trade.actualPoints));
+  // The adverse move may have come before the trigger, in which case the loss stands
+  if (armedBreakeven && capped < 0) {
+    return ambiguousExit === 'target-first'
+      ? { points: 0, exit: 'breakeven', ambiguous: true }
+      : { points: capped, exit: 'unchanged', ambiguous: true };
+  }
+  return { points: capped, exit: 'unchanged', ambiguous: false };
+}
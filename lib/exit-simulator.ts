@@ -0,0 +1,190 @@
+import { AmbiguousExit, replayExit } from '@/lib/exit-replay';
+
+// Re-evaluates a run's trades under other exit rules, from each trade's excursions in the trade summaries
+
+export interface ExitRules {
+  // Points, for the part of the position that is not trimmed
+  takeProfit: number;
+  stopLoss: number;
+  // Share of the position, 0-100, that exits early at trimTakeProfit
+  trimPercent: number;
+  trimTakeProfit: number | null;
+  // Move the stop to the entry once the trade is this many points in profit, null to never move it
+  breakevenAfter: number | null;
+}
+
+export interface SimulationTrade {
+  tradeId: string;
+  date: string;
+  time: string;
+  direction: string;
+  line: string | null;
+  // Points, both positive
+  mfe: number;
+  mae: number;
+  actualPnl: number;
+  // Quantity times the dollars per point of one contract
+  dollarsPerPoint: number;
+}
+
+export type SimulatedExit = 'target' | 'trim' | 'stop' | 'breakeven' | 'unchanged' | 'mixed';
+
+export interface SimulatedTrade extends SimulationTrade {
+  // Per contract, averaged over the trimmed and remaining parts of the position
+  points: number;
+  pnl: number;
+  exit: SimulatedExit;
+  // Reached both a favourable level and the stop, so the result depends on the AmbiguousExit assumption
+  ambiguous: boolean;
+}
+
+export interface TradePerformance {
+  totalTrades: number;
+  netPnl: number;
+  // Fraction, like strategy_runs.win_rate
+  winRate: number;
+  profitFactor: number | null;
+  // Peak to trough of the trade-by-trade equity curve
+  maxDrawdown: number;
+  averageTrade: number;
+  dailyPnl: Array<{ date: string; pnl: number; trades: number }>;
+}
+
+export interface ExitSimulation extends TradePerformance {
+  trades: SimulatedTrade[];
+  ambiguousTrades: number;
+  unchangedTrades: number;
+}
+
+// The run's own settings, so an unchanged simulation starts from what was traded
+export const EXIT_RULE_PARAMETERS: Record<keyof ExitRules, string | null> = {
+  takeProfit: 'Full Take Profit',
+  stopLoss: 'Full Stop Loss',
+  trimPercent: 'Trim Percent',
+  trimTakeProfit: 'Trim Take Profit',
+  breakevenAfter: null
+};
+
+export function validateExitRules(rules: ExitRules): string | null {
+  const positive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+  if (!positive(rules.takeProfit)) return 'takeProfit must be a positive number of points';
+  if (!positive(rules.stopLoss)) return 'stopLoss must be a positive number of points';
+  if (typeof rules.trimPercent !== 'number' || !(rules.trimPercent >= 0 && rules.trimPercent <= 100)) {
+    return 'trimPercent must be between 0 and 100';
+  }
+  if (rules.trimPercent > 0 && !positive(rules.trimTakeProfit)) return 'trimTakeProfit must be a positive number of points when trimming';
+  if (rules.breakevenAfter !== null && !positive(rules.breakevenAfter)) return 'breakevenAfter must be a positive number of points or null';
+  return null;
+}
+
+// Exit of one part of the position with its own target, see replayExit
+function simulatePart(
+  trade: SimulationTrade,
+  target: number,
+  rules: ExitRules,
+  ambiguousExit: AmbiguousExit
+): { points: number; exit: Exclude<SimulatedExit, 'trim' | 'mixed'>; ambiguous: boolean } {
+  const actualPoints = trade.dollarsPerPoint > 0 ? trade.actualPnl / trade.dollarsPerPoint : 0;
+  return replayExit(
+    { mfe: trade.mfe, mae: trade.mae, actualPoints },
+    { takeProfit: target, stopLoss: rules.stopLoss, breakevenAfter: rules.breakevenAfter },
+    ambiguousExit
+  );
+}
+
+export function simulateTrade(trade: SimulationTrade, rules: ExitRules, ambiguousExit: AmbiguousExit): SimulatedTrade {
+  const trimShare = rules.trimTakeProfit !== null ? rules.trimPercent / 100 : 0;
+  const parts = [
+    { share: trimShare, trim: true, ...simulatePart(trade, rules.trimTakeProfit ?? rules.takeProfit, rules, ambiguousExit) },
+    { share: 1 - trimShare, trim: false, ...simulatePart(trade, rules.takeProfit, rules, ambiguousExit) }
+  ].filter(part => part.share > 0);
+
+  const points = parts.reduce((sum, part) => sum + part.share * part.points, 0);
+  const exits = new Set(parts.map(part => (part.trim && part.exit === 'target' ? 'trim' : part.exit)));
+
+  return {
+    ...trade,
+    points,
+    pnl: points * trade.dollarsPerPoint,
+    exit: exits.size === 1 ? Array.from(exits)[0] : 'mixed',
+    ambiguous: parts.some(part => part.ambiguous)
+  };
+}
+
+// Trades in the order they were taken
+export function tradePerformance(trades: Array<{ date: string; pnl: number }>): TradePerformance {
+  const netPnl = trades.reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossProfit = trades.filter(trade => trade.pnl > 0).reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLoss = Math.abs(trades.filter(trade => trade.pnl < 0).reduce((sum, trade) => sum + trade.pnl, 0));
+
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  const daily = new Map<string, { pnl: number; trades: number }>();
+  for (const trade of trades) {
+    equity += trade.pnl;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    const day = daily.get(trade.date) || { pnl: 0, trades: 0 };
+    daily.set(trade.date, { pnl: day.pnl + trade.pnl, trades: day.trades + 1 });
+  }
+
+  return {
+    totalTrades: trades.length,
+    netPnl,
+    winRate: trades.length > 0 ? trades.filter(trade => trade.pnl > 0).length / trades.length : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    maxDrawdown,
+    averageTrade: trades.length > 0 ? netPnl / trades.length : 0,
+    dailyPnl: Array.from(daily.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => ({ date, ...day }))
+  };
+}
+
+export function simulateExits(trades: SimulationTrade[], rules: ExitRules, ambiguousExit: AmbiguousExit): ExitSimulation {
+  const simulated = trades.map(trade => simulateTrade(trade, rules, ambiguousExit));
+  return {
+    ...tradePerformance(simulated),
+    trades: simulated,
+    ambiguousTrades: simulated.filter(trade => trade.ambiguous).length,
+    unchangedTrades: simulated.filter(trade => trade.exit === 'unchanged').length
+  };
+}
+
+// "TP 15 / SL 10, trim 50% at 45, breakeven after 8"
+export function describeExitRules(rules: ExitRules): string {
+  return [
+    `TP ${rules.takeProfit} / SL ${rules.stopLoss}`,
+    rules.trimPercent > 0 && rules.trimTakeProfit !== null ? `trim ${rules.trimPercent}% at ${rules.trimTakeProfit}` : null,
+    rules.breakevenAfter !== null ? `breakeven after ${rules.breakevenAfter}` : null
+  ].filter(Boolean).join(', ');
+}
+
+// What the numbers can and cannot be trusted for, shown with every simulation
+export function simulationCaveats(
+  simulation: ExitSimulation,
+  ambiguousExit: AmbiguousExit,
+  options: { skippedTrades: number; pointValueEstimated: boolean }
+): string[] {
+  const caveats = [
+    'Excursions only cover the time the real trade was open, a wider target or stop is judged on that window alone.',
+    'The strategy\'s own stop adjustments and time-based exits are not replayed, only kept where a trade keeps its actual exit.'
+  ];
+  if (simulation.ambiguousTrades > 0) {
+    caveats.push(
+      `${simulation.ambiguousTrades} of ${simulation.totalTrades} trades reached a favourable level and the stop, the bar order is not ` +
+      `recorded so they are resolved ${ambiguousExit === 'stop-first' ? 'pessimistically (stop first)' : 'optimistically (target first)'}.`
+    );
+  }
+  if (simulation.unchangedTrades > 0) {
+    caveats.push(`${simulation.unchangedTrades} trades reached neither the target nor the stop and keep their actual exit, capped at both.`);
+  }
+  if (options.pointValueEstimated) {
+    caveats.push('PNL is priced with a dollars-per-point value estimated from the run\'s exit legs, fees are only approximated.');
+  }
+  if (options.skippedTrades > 0) {
+    caveats.push(`${options.skippedTrades} trades without usable excursions are left out.`);
+  }
+  return caveats;
+}
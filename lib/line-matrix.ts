@@ -0,0 +1,127 @@
+import { LineSide, parseLineName } from '@/lib/line-statistics';
+
+// Line levels against every run of a strategy, to see which levels carry it across parameter changes
+
+export interface LineMatrixRun {
+  id: number;
+  name: string;
+  // From the run's `Upside Levels` / `Downside Levels` parameters, null when it has none
+  upsideLevels: number[] | null;
+  downsideLevels: number[] | null;
+}
+
+export interface LineMatrixTrade {
+  runId: number;
+  line: string | null;
+  pnl: number;
+}
+
+export interface LineMatrixCell {
+  trades: number;
+  netPnl: number;
+  // Percentage of trades with a positive PNL
+  winRate: number;
+}
+
+export interface LineMatrixRow {
+  // "up:2.618", or the line name when it has no side and level
+  key: string;
+  label: string;
+  side: LineSide | null;
+  level: number | null;
+  // Keyed by run ID, missing where the run took no trade on the line
+  cells: Record<number, LineMatrixCell>;
+  // Runs whose level parameters include this line, null when no run records its levels
+  enabledRuns: number[] | null;
+  total: LineMatrixCell;
+  runsTraded: number;
+  losingRuns: number;
+  consistentLoser: boolean;
+}
+
+export interface ConsistentLoserCriteria {
+  // Fewer runs than this are not enough to call a line a loser
+  minRuns: number;
+  // Share of the runs that traded the line which must have lost on it, 0-1
+  losingShare: number;
+}
+
+export const DEFAULT_LOSER_CRITERIA: ConsistentLoserCriteria = { minRuns: 2, losingShare: 0.75 };
+
+// "0.6, 2.618, 4.262" as logged in the run's settings. Runs parsed before Magic Lines 1.8.0 stored values that
+// run on into the next log line's timestamp, so only the first line is read.
+export function parseLevels(value: string | null | undefined): number[] | null {
+  if (!value) return null;
+  const levels = value.split('\n')[0].split(/[,;\s]+/).filter(Boolean).map(Number);
+  return levels.length > 0 && levels.every(level => isFinite(level)) ? levels : null;
+}
+
+function cellOf(pnls: number[]): LineMatrixCell {
+  return {
+    trades: pnls.length,
+    netPnl: pnls.reduce((sum, pnl) => sum + pnl, 0),
+    winRate: pnls.length > 0 ? (pnls.filter(pnl => pnl > 0).length / pnls.length) * 100 : 0
+  };
+}
+
+const sameLevel = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+export function buildLineMatrix(
+  runs: LineMatrixRun[],
+  trades: LineMatrixTrade[],
+  criteria: ConsistentLoserCriteria = DEFAULT_LOSER_CRITERIA
+): LineMatrixRow[] {
+  // Line names can differ in prefix between runs, the side and level identify the line
+  const rows = new Map<string, { label: string; side: LineSide | null; level: number | null; pnls: Map<number, number[]> }>();
+  for (const trade of trades) {
+    if (!trade.line) continue;
+    const { side, level } = parseLineName(trade.line);
+    const key = side && level !== null ? `${side}:${level}` : trade.line;
+    const row = rows.get(key) || {
+      label: side && level !== null ? `${side.toUpperCase()} ${level}` : trade.line,
+      side,
+      level,
+      pnls: new Map<number, number[]>()
+    };
+    row.pnls.set(trade.runId, [...(row.pnls.get(trade.runId) || []), trade.pnl]);
+    rows.set(key, row);
+  }
+
+  const levelsKnown = runs.some(run => run.upsideLevels !== null || run.downsideLevels !== null);
+
+  return Array.from(rows.entries())
+    .map(([key, row]) => {
+      const cells: Record<number, LineMatrixCell> = {};
+      for (const [runId, pnls] of row.pnls) {
+        cells[runId] = cellOf(pnls);
+      }
+      const traded = Object.values(cells);
+      const losingRuns = traded.filter(cell => cell.netPnl < 0).length;
+      const enabledRuns = levelsKnown && row.side && row.level !== null
+        ? runs
+          .filter(run => {
+            const levels = row.side === 'up' ? run.upsideLevels : run.downsideLevels;
+            // A run that does not record its levels is not known to exclude the line
+            return levels === null || levels.some(level => sameLevel(level, row.level!));
+          })
+          .map(run => run.id)
+        : null;
+
+      return {
+        key,
+        label: row.label,
+        side: row.side,
+        level: row.level,
+        cells,
+        enabledRuns,
+        total: cellOf(Array.from(row.pnls.values()).flat()),
+        runsTraded: traded.length,
+        losingRuns,
+        consistentLoser: traded.length >= criteria.minRuns && losingRuns / traded.length >= criteria.losingShare
+      };
+    })
+    .sort((a, b) => {
+      const sideOrder = (row: LineMatrixRow) => (row.side === 'up' ? 0 : row.side === 'down' ? 1 : 2);
+      return sideOrder(a) - sideOrder(b) || (a.level ?? 0) - (b.level ?? 0) || a.key.localeCompare(b.key);
+    });
+}
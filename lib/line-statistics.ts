@@ -0,0 +1,238 @@
+import type { SqlExecutor } from '@/lib/migrations/types';
+
+// Per-line and per-line-per-hour trade statistics, stored in line_statistics
+
+export type LineSide = 'up' | 'down';
+
+export interface LineStatistic {
+  line: string;
+  // Parsed from names like "CME_UP_2.618", null when the name does not follow that pattern
+  side: LineSide | null;
+  level: number | null;
+  // Entry hour 0-23, null for the line as a whole
+  hour: number | null;
+  totalTrades: number;
+  winningTrades: number;
+  // Null for rows migrated from the old metric names, which did not record it
+  losingTrades: number | null;
+  // Fraction, like strategy_runs.win_rate
+  winRate: number;
+  netPnl: number;
+  avgPnl: number;
+  grossProfit: number;
+  grossLoss: number;
+  // Null without a losing trade
+  profitFactor: number | null;
+}
+
+// A line's overall row with its hourly rows
+export interface LineStatisticsGroup extends LineStatistic {
+  hours: LineStatistic[];
+}
+
+// One line across several runs, keyed by run ID, runs without the line are missing
+export interface LineComparisonRow {
+  line: string;
+  side: LineSide | null;
+  level: number | null;
+  runs: Record<number, LineStatistic>;
+}
+
+// Sortable fields and the column each one is stored in
+export const LINE_STATISTIC_COLUMNS = {
+  line: 'line',
+  side: 'side',
+  level: 'level',
+  totalTrades: 'total_trades',
+  winningTrades: 'winning_trades',
+  losingTrades: 'losing_trades',
+  winRate: 'win_rate',
+  netPnl: 'net_pnl',
+  avgPnl: 'avg_pnl',
+  grossProfit: 'gross_profit',
+  grossLoss: 'gross_loss',
+  profitFactor: 'profit_factor'
+} as const;
+
+export type LineStatisticField = keyof typeof LINE_STATISTIC_COLUMNS;
+
+export function isLineStatisticField(value: string): value is LineStatisticField {
+  return Object.prototype.hasOwnProperty.call(LINE_STATISTIC_COLUMNS, value);
+}
+
+export function parseLineName(line: string): { side: LineSide | null; level: number | null } {
+  const match = line.match(/_(UP|DOWN)_(-?\d+(?:\.\d+)?)$/i);
+  return match
+    ? { side: match[1].toLowerCase() as LineSide, level: parseFloat(match[2]) }
+    : { side: null, level: null };
+}
+
+export function entryHour(time: string): number | null {
+  const match = time.match(/(\d{1,2}):\d{2}(?::\d{2})?(?:\s*(AM|PM))?/i);
+  if (!match) return null;
+
+  let hour = parseInt(match[1]);
+  const period = match[2]?.toUpperCase();
+  if (period === 'PM' && hour !== 12) hour += 12;
+  if (period === 'AM' && hour === 12) hour = 0;
+  return hour;
+}
+
+function statistic(line: string, hour: number | null, pnls: number[]): LineStatistic {
+  const wins = pnls.filter(pnl => pnl > 0);
+  const losses = pnls.filter(pnl => pnl < 0);
+  const grossProfit = wins.reduce((sum, pnl) => sum + pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0));
+  const netPnl = pnls.reduce((sum, pnl) => sum + pnl, 0);
+
+  return {
+    line,
+    ...parseLineName(line),
+    hour,
+    totalTrades: pnls.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: pnls.length > 0 ? wins.length / pnls.length : 0,
+    netPnl,
+    avgPnl: pnls.length > 0 ? netPnl / pnls.length : 0,
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null
+  };
+}
+
+/**
+ * One row per line plus one per line and entry hour. Trades without a line are skipped,
+ * trades whose time cannot be read only count towards the line's overall row.
+ */
+export function calculateLineStatistics(trades: Array<{ line: string | null; time: string; pnl: number }>): LineStatistic[] {
+  const byLine = new Map<string, { pnls: number[]; hours: Map<number, number[]> }>();
+
+  for (const trade of trades) {
+    if (!trade.line) continue;
+    const entry = byLine.get(trade.line) || { pnls: [], hours: new Map<number, number[]>() };
+    entry.pnls.push(trade.pnl);
+    const hour = entryHour(trade.time);
+    if (hour !== null) {
+      entry.hours.set(hour, [...(entry.hours.get(hour) || []), trade.pnl]);
+    }
+    byLine.set(trade.line, entry);
+  }
+
+  return Array.from(byLine.entries()).flatMap(([line, entry]) => [
+    statistic(line, null, entry.pnls),
+    ...Array.from(entry.hours.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([hour, pnls]) => statistic(line, hour, pnls))
+  ]);
+}
+
+export function lineStatisticStatements(runId: number, statistics: LineStatistic[]) {
+  return statistics.map(stat => ({
+    sql: `
+      INSERT INTO line_statistics (
+        run_id, line, side, level, hour, total_trades, winning_trades, losing_trades,
+        win_rate, net_pnl, avg_pnl, gross_profit, gross_loss, profit_factor
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    args: [
+      runId, stat.line, stat.side, stat.level, stat.hour, stat.totalTrades, stat.winningTrades, stat.losingTrades,
+      stat.winRate, stat.netPnl, stat.avgPnl, stat.grossProfit, stat.grossLoss, stat.profitFactor
+    ]
+  }));
+}
+
+function rowToStatistic(row: Record<string, unknown>): LineStatistic {
+  const numberOrNull = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+  return {
+    line: row.line as string,
+    side: (row.side as LineSide | null) ?? null,
+    level: numberOrNull(row.level),
+    hour: numberOrNull(row.hour),
+    totalTrades: Number(row.total_trades),
+    winningTrades: Number(row.winning_trades),
+    losingTrades: numberOrNull(row.losing_trades),
+    winRate: Number(row.win_rate),
+    netPnl: Number(row.net_pnl),
+    avgPnl: Number(row.avg_pnl),
+    grossProfit: Number(row.gross_profit),
+    grossLoss: Number(row.gross_loss),
+    profitFactor: numberOrNull(row.profit_factor)
+  };
+}
+
+const SELECT_COLUMNS = `
+  run_id, line, side, level, hour, total_trades, winning_trades, losing_trades,
+  win_rate, net_pnl, avg_pnl, gross_profit, gross_loss, profit_factor
+`;
+
+/**
+ * A run's lines sorted by `sort` (nulls last), each with its hourly rows in hour order.
+ * The default order is up lines before down lines, then by level.
+ */
+export async function getLineStatistics(
+  executor: SqlExecutor,
+  runId: number,
+  sort: LineStatisticField = 'side',
+  descending = false
+): Promise<LineStatisticsGroup[]> {
+  const column = LINE_STATISTIC_COLUMNS[sort];
+  // Alphabetically 'down' comes first, so side is ordered explicitly
+  const primary = sort === 'side'
+    ? `CASE side WHEN 'up' THEN 0 WHEN 'down' THEN 1 ELSE 2 END ${descending ? 'DESC' : 'ASC'}`
+    : `${column} IS NULL, ${column} ${descending ? 'DESC' : 'ASC'}`;
+
+  const result = await executor.execute({
+    sql: `
+      SELECT ${SELECT_COLUMNS}
+      FROM line_statistics
+      WHERE run_id = ?
+      ORDER BY ${primary}, level IS NULL, level, line, hour
+    `,
+    args: [runId]
+  });
+
+  const statistics = result.rows.map(row => rowToStatistic(row as Record<string, unknown>));
+  // Overall rows set the order, hourly rows are attached to their line
+  const groups = new Map<string, LineStatisticsGroup>(
+    statistics.filter(stat => stat.hour === null).map(stat => [stat.line, { ...stat, hours: [] }])
+  );
+  for (const stat of statistics) {
+    if (stat.hour !== null) {
+      groups.get(stat.line)?.hours.push(stat);
+    }
+  }
+  for (const group of groups.values()) {
+    group.hours.sort((a, b) => a.hour! - b.hour!);
+  }
+  return Array.from(groups.values());
+}
+
+// Overall line rows of several runs, or their rows for one entry hour
+export async function getLineStatisticsForRuns(
+  executor: SqlExecutor,
+  runIds: number[],
+  hour: number | null = null
+): Promise<Array<LineStatistic & { runId: number }>> {
+  if (runIds.length === 0) return [];
+  const result = await executor.execute({
+    sql: `
+      SELECT ${SELECT_COLUMNS}
+      FROM line_statistics
+      WHERE run_id IN (${runIds.map(() => '?').join(', ')}) AND ${hour === null ? 'hour IS NULL' : 'hour = ?'}
+    `,
+    args: hour === null ? runIds : [...runIds, hour]
+  });
+  return result.rows.map(row => ({ runId: Number(row.run_id), ...rowToStatistic(row as Record<string, unknown>) }));
+}
+
+export function compareLineStatistics(statistics: Array<LineStatistic & { runId: number }>): LineComparisonRow[] {
+  const lines = new Map<string, LineComparisonRow>();
+  for (const { runId, ...stat } of statistics) {
+    const entry = lines.get(stat.line) || { line: stat.line, side: stat.side, level: stat.level, runs: {} };
+    entry.runs[runId] = stat;
+    lines.set(stat.line, entry);
+  }
+  return Array.from(lines.values());
+}
@@ -0,0 +1,126 @@
+import { Migration } from './types';
+
+// The schema as it stood before versioned migrations. Tables are created with IF NOT EXISTS
+// so databases that predate the migration table adopt this version without changes.
+export const initialSchema: Migration = {
+  id: '001_initial_schema',
+  description: 'Strategies, runs, daily PNL, parameters, metrics, events and trade summaries',
+  async up(tx) {
+    // Strategies table - stores strategy metadata
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS strategies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        description TEXT,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Strategy runs table - stores individual run results
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS strategy_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        strategy_id INTEGER NOT NULL,
+        run_name TEXT,
+        run_description TEXT,
+        net_pnl REAL NOT NULL,
+        total_trades INTEGER,
+        win_rate REAL,
+        profit_factor REAL,
+        max_drawdown REAL,
+        sharpe_ratio REAL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (strategy_id) REFERENCES strategies (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Daily PNL table - stores daily performance breakdown
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS daily_pnl (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        date DATE NOT NULL,
+        pnl REAL NOT NULL,
+        trades INTEGER DEFAULT 0,
+        highest_intraday_pnl REAL,
+        lowest_intraday_pnl REAL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (run_id) REFERENCES strategy_runs (id) ON DELETE CASCADE,
+        UNIQUE(run_id, date)
+      )
+    `);
+
+    // Strategy parameters table - flexible parameter storage
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS strategy_parameters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        parameter_name TEXT NOT NULL,
+        parameter_value TEXT NOT NULL,
+        parameter_type TEXT NOT NULL CHECK (parameter_type IN ('string', 'number', 'boolean', 'date')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (run_id) REFERENCES strategy_runs (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Strategy-specific metrics table - for custom metrics per strategy
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS strategy_metrics (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        metric_name TEXT NOT NULL,
+        metric_value REAL NOT NULL,
+        metric_description TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (run_id) REFERENCES strategy_runs (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Detailed events table - for TP near misses, fill near misses, SL adjustments
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS strategy_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        event_type TEXT NOT NULL CHECK (event_type IN ('tp_near_miss', 'fill_near_miss', 'sl_adjustment')),
+        date DATE NOT NULL,
+        time TIME NOT NULL,
+        trade_id TEXT,
+        direction TEXT,
+        target TEXT,
+        closest_distance TEXT,
+        reason TEXT,
+        trigger TEXT,
+        adjustment TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (run_id) REFERENCES strategy_runs (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Detailed trade summaries table - for trade analysis
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS strategy_trade_summaries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        trade_id TEXT NOT NULL,
+        date DATE NOT NULL,
+        time TIME NOT NULL,
+        direction TEXT NOT NULL,
+        line TEXT NOT NULL,
+        entry_price REAL NOT NULL,
+        high_price REAL NOT NULL,
+        low_price REAL NOT NULL,
+        max_profit REAL NOT NULL,
+        max_loss REAL NOT NULL,
+        actual_pnl REAL NOT NULL,
+        bars INTEGER NOT NULL,
+        max_profit_vs_target REAL,
+        max_loss_vs_stop REAL,
+        profit_efficiency REAL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (run_id) REFERENCES strategy_runs (id) ON DELETE CASCADE
+      )
+    `);
+  }
+};
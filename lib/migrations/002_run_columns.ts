@@ -0,0 +1,15 @@
+import { Migration, addColumnIfMissing } from './types';
+
+// Columns that used to be added by ALTER-and-ignore blocks on every startup
+export const runColumns: Migration = {
+  id: '002_run_columns',
+  description: 'Strategy notes, run description, raw data, baseline flag and intraday PNL',
+  async up(tx) {
+    await addColumnIfMissing(tx, 'strategies', 'notes', 'TEXT');
+    await addColumnIfMissing(tx, 'strategy_runs', 'run_description', 'TEXT');
+    await addColumnIfMissing(tx, 'strategy_runs', 'raw_data', 'TEXT');
+    await addColumnIfMissing(tx, 'strategy_runs', 'is_baseline', 'BOOLEAN DEFAULT FALSE');
+    await addColumnIfMissing(tx, 'daily_pnl', 'highest_intraday_pnl', 'REAL');
+    await addColumnIfMissing(tx, 'daily_pnl', 'lowest_intraday_pnl', 'REAL');
+  }
+};
@@ -0,0 +1,18 @@
+import { Migration } from './types';
+
+export const parserDefinitions: Migration = {
+  id: '003_parser_definitions',
+  description: 'Declarative parser specs created from the Parsers page',
+  async up(tx) {
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS parser_definitions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        description TEXT,
+        spec TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+};
@@ -0,0 +1,11 @@
+import { Migration, addColumnIfMissing } from './types';
+
+export const parseDiagnostics: Migration = {
+  id: '004_parse_diagnostics',
+  description: 'Parse diagnostics per run and source line numbers on events and trade summaries',
+  async up(tx) {
+    await addColumnIfMissing(tx, 'strategy_runs', 'diagnostics', 'TEXT');
+    await addColumnIfMissing(tx, 'strategy_events', 'source_line', 'INTEGER');
+    await addColumnIfMissing(tx, 'strategy_trade_summaries', 'source_line', 'INTEGER');
+  }
+};
@@ -0,0 +1,10 @@
+import { Migration, addColumnIfMissing } from './types';
+
+export const parserVersion: Migration = {
+  id: '005_parser_version',
+  description: 'Parser name and version that produced each run',
+  async up(tx) {
+    await addColumnIfMissing(tx, 'strategy_runs', 'parser_name', 'TEXT');
+    await addColumnIfMissing(tx, 'strategy_runs', 'parser_version', 'TEXT');
+  }
+};
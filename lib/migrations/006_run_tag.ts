@@ -0,0 +1,10 @@
+import { Migration, addColumnIfMissing } from './types';
+
+export const runTag: Migration = {
+  id: '006_run_tag',
+  description: 'Free-form tag shared by runs uploaded together, e.g. an optimisation sweep',
+  async up(tx) {
+    await addColumnIfMissing(tx, 'strategy_runs', 'run_tag', 'TEXT');
+    await tx.execute('CREATE INDEX IF NOT EXISTS idx_strategy_runs_run_tag ON strategy_runs (run_tag)');
+  }
+};
@@ -0,0 +1,63 @@
+import { createHash } from 'crypto';
+import { Migration, addColumnIfMissing } from './types';
+
+// Frozen copies of lib/duplicate-detection as of this migration, so later changes there do not alter the backfill
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function contentHash(rawData: string): string {
+  return sha256(rawData.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim());
+}
+
+function computeFingerprint(input: {
+  strategyName: string;
+  parameters: Array<{ name: string; value: string }>;
+  firstDate: string | null;
+  lastDate: string | null;
+  totalTrades: number;
+}): string {
+  const parameters = input.parameters
+    .map(param => `${param.name.trim()}=${param.value.trim()}`)
+    .sort();
+  return sha256(JSON.stringify([input.strategyName, parameters, input.firstDate, input.lastDate, input.totalTrades]));
+}
+
+export const runFingerprints: Migration = {
+  id: '007_run_fingerprints',
+  description: 'Raw data hash and semantic fingerprint for duplicate detection, backfilled for existing runs',
+  async up(tx) {
+    await addColumnIfMissing(tx, 'strategy_runs', 'content_hash', 'TEXT');
+    await addColumnIfMissing(tx, 'strategy_runs', 'fingerprint', 'TEXT');
+    await tx.execute('CREATE INDEX IF NOT EXISTS idx_strategy_runs_content_hash ON strategy_runs (content_hash)');
+    await tx.execute('CREATE INDEX IF NOT EXISTS idx_strategy_runs_fingerprint ON strategy_runs (fingerprint)');
+
+    const runs = await tx.execute(`
+      SELECT sr.id, sr.raw_data, sr.total_trades, s.name as strategy_name,
+        (SELECT MIN(date) FROM daily_pnl WHERE run_id = sr.id) as first_date,
+        (SELECT MAX(date) FROM daily_pnl WHERE run_id = sr.id) as last_date
+      FROM strategy_runs sr
+      JOIN strategies s ON sr.strategy_id = s.id
+    `);
+
+    for (const run of runs.rows) {
+      const parameters = await tx.execute({
+        sql: 'SELECT parameter_name, parameter_value FROM strategy_parameters WHERE run_id = ?',
+        args: [run.id]
+      });
+      const fingerprint = computeFingerprint({
+        strategyName: run.strategy_name as string,
+        parameters: parameters.rows.map(row => ({ name: row.parameter_name as string, value: row.parameter_value as string })),
+        firstDate: (run.first_date as string | null) ?? null,
+        lastDate: (run.last_date as string | null) ?? null,
+        totalTrades: Number(run.total_trades || 0)
+      });
+
+      await tx.execute({
+        sql: 'UPDATE strategy_runs SET content_hash = ?, fingerprint = ? WHERE id = ?',
+        args: [run.raw_data ? contentHash(run.raw_data as string) : null, fingerprint, run.id]
+      });
+    }
+  }
+};
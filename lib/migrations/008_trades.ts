@@ -0,0 +1,52 @@
+import { Migration } from './types';
+
+export const trades: Migration = {
+  id: '008_trades',
+  description: 'Normalized trades with one trade_legs row per trim or final exit',
+  async up(tx) {
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS trades (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        trade_id TEXT NOT NULL,
+        date DATE NOT NULL,
+        entry_time TIME NOT NULL,
+        exit_date DATE,
+        exit_time TIME,
+        direction TEXT NOT NULL CHECK (direction IN ('LONG', 'SHORT')),
+        line TEXT,
+        entry_price REAL NOT NULL,
+        quantity INTEGER,
+        realized_pnl REAL NOT NULL,
+        exit_reason TEXT NOT NULL,
+        max_profit REAL,
+        max_loss REAL,
+        bars INTEGER,
+        bars_since_last_trade INTEGER,
+        sl_adjustments INTEGER NOT NULL DEFAULT 0,
+        near_misses INTEGER NOT NULL DEFAULT 0,
+        source_line INTEGER,
+        FOREIGN KEY (run_id) REFERENCES strategy_runs (id) ON DELETE CASCADE
+      )
+    `);
+    await tx.execute('CREATE INDEX IF NOT EXISTS idx_trades_run_date ON trades (run_id, date)');
+
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS trade_legs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trade_id INTEGER NOT NULL,
+        leg_index INTEGER NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('trim', 'final')),
+        exit_date DATE NOT NULL,
+        exit_time TIME NOT NULL,
+        quantity INTEGER,
+        points REAL,
+        realized_pnl REAL NOT NULL,
+        exit_reason TEXT NOT NULL,
+        source_line INTEGER,
+        FOREIGN KEY (trade_id) REFERENCES trades (id) ON DELETE CASCADE
+      )
+    `);
+    await tx.execute('CREATE INDEX IF NOT EXISTS idx_trade_legs_trade ON trade_legs (trade_id)');
+  }
+};
@@ -0,0 +1,109 @@
+import { Migration, SqlExecutor, addColumnIfMissing } from './types';
+
+// Frozen copy of lib/risk-metrics as of this migration, so later changes there do not alter the backfill
+
+const TRADING_DAYS_PER_YEAR = 252;
+const CALMAR_WINDOW_DAYS = TRADING_DAYS_PER_YEAR * 3;
+const DEFAULT_ACCOUNT_SIZE = 50000;
+const DEFAULT_RISK_FREE_RATE = 0;
+
+interface RiskMetrics {
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  calmarRatio: number | null;
+  marRatio: number | null;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function growthAndDrawdown(returns: number[]): { annualReturn: number; maxDrawdown: number } {
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  for (const dailyReturn of returns) {
+    equity = Math.max(0, equity * (1 + dailyReturn));
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+  }
+  return { annualReturn: Math.pow(equity, TRADING_DAYS_PER_YEAR / returns.length) - 1, maxDrawdown };
+}
+
+function finiteOrNull(value: number): number | null {
+  return isFinite(value) ? value : null;
+}
+
+function computeRiskMetrics(dailyPnl: Array<{ date: string; pnl: number }>, accountSize: number, riskFreeRate: number): RiskMetrics {
+  const empty: RiskMetrics = { sharpeRatio: null, sortinoRatio: null, calmarRatio: null, marRatio: null };
+  if (dailyPnl.length < 2 || !(accountSize > 0)) {
+    return empty;
+  }
+
+  const returns: number[] = [];
+  let balance = accountSize;
+  for (const day of [...dailyPnl].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (balance <= 0) break;
+    returns.push(day.pnl / balance);
+    balance += day.pnl;
+  }
+  if (returns.length < 2) {
+    return empty;
+  }
+
+  const dailyRiskFree = Math.pow(1 + riskFreeRate, 1 / TRADING_DAYS_PER_YEAR) - 1;
+  const excess = returns.map(dailyReturn => dailyReturn - dailyRiskFree);
+  const averageExcess = mean(excess);
+  const deviation = Math.sqrt(excess.reduce((sum, value) => sum + Math.pow(value - averageExcess, 2), 0) / (excess.length - 1));
+  const downsideDeviation = Math.sqrt(mean(excess.map(value => Math.pow(Math.min(0, value), 2))));
+  const annualise = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const full = growthAndDrawdown(returns);
+  const recent = growthAndDrawdown(returns.slice(-CALMAR_WINDOW_DAYS));
+
+  return {
+    sharpeRatio: deviation > 0 ? finiteOrNull(averageExcess / deviation * annualise) : null,
+    sortinoRatio: downsideDeviation > 0 ? finiteOrNull(averageExcess / downsideDeviation * annualise) : null,
+    calmarRatio: recent.maxDrawdown > 0 ? finiteOrNull(recent.annualReturn / recent.maxDrawdown) : null,
+    marRatio: full.maxDrawdown > 0 ? finiteOrNull(full.annualReturn / full.maxDrawdown) : null
+  };
+}
+
+async function recomputeRunRiskMetrics(tx: SqlExecutor) {
+  const runs = await tx.execute(`
+    SELECT sr.id, s.account_size, s.risk_free_rate
+    FROM strategy_runs sr
+    JOIN strategies s ON sr.strategy_id = s.id
+  `);
+
+  for (const run of runs.rows) {
+    const dailyPnl = await tx.execute({ sql: 'SELECT date, pnl FROM daily_pnl WHERE run_id = ?', args: [run.id] });
+    const metrics = computeRiskMetrics(
+      dailyPnl.rows.map(row => ({ date: row.date as string, pnl: Number(row.pnl) })),
+      run.account_size != null ? Number(run.account_size) : DEFAULT_ACCOUNT_SIZE,
+      run.risk_free_rate != null ? Number(run.risk_free_rate) : DEFAULT_RISK_FREE_RATE
+    );
+    // Keep a Sharpe ratio read from the log when the daily series is too short
+    await tx.execute({
+      sql: `
+        UPDATE strategy_runs
+        SET sharpe_ratio = COALESCE(?, sharpe_ratio), sortino_ratio = ?, calmar_ratio = ?, mar_ratio = ?
+        WHERE id = ?
+      `,
+      args: [metrics.sharpeRatio, metrics.sortinoRatio, metrics.calmarRatio, metrics.marRatio, run.id]
+    });
+  }
+}
+
+export const riskMetrics: Migration = {
+  id: '009_risk_metrics',
+  description: 'Per-strategy account size and risk-free rate, Sortino/Calmar/MAR columns, ratios recomputed for existing runs',
+  async up(tx) {
+    await addColumnIfMissing(tx, 'strategies', 'account_size', 'REAL');
+    await addColumnIfMissing(tx, 'strategies', 'risk_free_rate', 'REAL');
+    await addColumnIfMissing(tx, 'strategy_runs', 'sortino_ratio', 'REAL');
+    await addColumnIfMissing(tx, 'strategy_runs', 'calmar_ratio', 'REAL');
+    await addColumnIfMissing(tx, 'strategy_runs', 'mar_ratio', 'REAL');
+    await recomputeRunRiskMetrics(tx);
+  }
+};
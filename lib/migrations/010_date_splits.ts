@@ -0,0 +1,22 @@
+import { Migration } from './types';
+
+export const dateSplits: Migration = {
+  id: '010_date_splits',
+  description: 'Per-strategy in-sample / out-of-sample date splits for walk-forward analysis',
+  async up(tx) {
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS strategy_date_splits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        strategy_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        in_sample_start DATE NOT NULL,
+        in_sample_end DATE NOT NULL,
+        out_of_sample_start DATE NOT NULL,
+        out_of_sample_end DATE NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (strategy_id) REFERENCES strategies (id) ON DELETE CASCADE
+      )
+    `);
+    await tx.execute('CREATE INDEX IF NOT EXISTS idx_strategy_date_splits_strategy ON strategy_date_splits (strategy_id)');
+  }
+};
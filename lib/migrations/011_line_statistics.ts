@@ -0,0 +1,98 @@
+import { Migration, SqlExecutor } from './types';
+
+// Frozen copies of lib/line-statistics as of this migration, so later changes there do not alter the move
+
+type MetricField = 'totalTrades' | 'winRate' | 'netPnl' | 'avgPnl' | 'grossProfit' | 'grossLoss' | 'profitFactor';
+
+function parseLineName(line: string): { side: 'up' | 'down' | null; level: number | null } {
+  const match = line.match(/_(UP|DOWN)_(-?\d+(?:\.\d+)?)$/i);
+  return match
+    ? { side: match[1].toLowerCase() as 'up' | 'down', level: parseFloat(match[2]) }
+    : { side: null, level: null };
+}
+
+// Suffixes of the per-line metrics the Magic Lines parser used to store in strategy_metrics,
+// e.g. "CME_UP_2.618 - Win Rate" and "CME_UP_2.618 - 10:00 - Win Rate"
+const METRIC_FIELDS: Record<string, MetricField> = {
+  'Total Trades': 'totalTrades',
+  'Win Rate': 'winRate',
+  'Net PNL': 'netPnl',
+  'Avg PNL': 'avgPnl',
+  'Gross Profit': 'grossProfit',
+  'Gross Loss': 'grossLoss',
+  'Profit Factor': 'profitFactor'
+};
+const LINE_METRIC_PATTERN = new RegExp(`^(.+?)(?: - (\\d{2}):00)? - (${Object.keys(METRIC_FIELDS).join('|')})$`);
+
+async function moveLineMetrics(tx: SqlExecutor) {
+  const result = await tx.execute(`SELECT id, run_id, metric_name, metric_value FROM strategy_metrics WHERE metric_name LIKE '% - %'`);
+
+  const rows = new Map<string, { runId: number; values: Partial<Record<MetricField, number>>; line: string; hour: number | null }>();
+  const migratedIds: number[] = [];
+  for (const row of result.rows) {
+    const match = (row.metric_name as string).match(LINE_METRIC_PATTERN);
+    if (!match) continue;
+    const [, line, hour, field] = match;
+    const key = `${row.run_id}|${line}|${hour ?? ''}`;
+    const entry = rows.get(key) || { runId: Number(row.run_id), values: {}, line, hour: hour === undefined ? null : parseInt(hour) };
+    entry.values[METRIC_FIELDS[field]] = Number(row.metric_value);
+    rows.set(key, entry);
+    migratedIds.push(Number(row.id));
+  }
+
+  for (const { runId, values, line, hour } of rows.values()) {
+    const totalTrades = values.totalTrades ?? 0;
+    const grossLoss = values.grossLoss ?? 0;
+    const { side, level } = parseLineName(line);
+    await tx.execute({
+      sql: `
+        INSERT INTO line_statistics (
+          run_id, line, side, level, hour, total_trades, winning_trades, losing_trades,
+          win_rate, net_pnl, avg_pnl, gross_profit, gross_loss, profit_factor
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      args: [
+        runId, line, side, level, hour, totalTrades, Math.round((values.winRate ?? 0) * totalTrades), null,
+        values.winRate ?? 0, values.netPnl ?? 0, values.avgPnl ?? 0, values.grossProfit ?? 0, grossLoss,
+        // Stored as 0 when there was no loss
+        grossLoss > 0 ? values.profitFactor ?? null : null
+      ]
+    });
+  }
+
+  for (let i = 0; i < migratedIds.length; i += 500) {
+    const ids = migratedIds.slice(i, i + 500);
+    await tx.execute({ sql: `DELETE FROM strategy_metrics WHERE id IN (${ids.map(() => '?').join(', ')})`, args: ids });
+  }
+}
+
+export const lineStatistics: Migration = {
+  id: '011_line_statistics',
+  description: 'Per-line and per-line-per-hour statistics table, moved out of string-encoded strategy_metrics names',
+  async up(tx) {
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS line_statistics (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        line TEXT NOT NULL,
+        side TEXT CHECK (side IN ('up', 'down')),
+        level REAL,
+        hour INTEGER CHECK (hour BETWEEN 0 AND 23),
+        total_trades INTEGER NOT NULL,
+        winning_trades INTEGER NOT NULL,
+        losing_trades INTEGER,
+        win_rate REAL NOT NULL,
+        net_pnl REAL NOT NULL,
+        avg_pnl REAL NOT NULL,
+        gross_profit REAL NOT NULL,
+        gross_loss REAL NOT NULL,
+        profit_factor REAL,
+        FOREIGN KEY (run_id) REFERENCES strategy_runs (id) ON DELETE CASCADE
+      )
+    `);
+    // The overall row of a line has no hour, IFNULL keeps it unique too
+    await tx.execute('CREATE UNIQUE INDEX IF NOT EXISTS idx_line_statistics_run_line_hour ON line_statistics (run_id, line, IFNULL(hour, -1))');
+    await moveLineMetrics(tx);
+  }
+};
@@ -0,0 +1,10 @@
+import { Migration, addColumnIfMissing } from './types';
+
+export const virtualRuns: Migration = {
+  id: '012_virtual_runs',
+  description: 'Runs derived from another run by the exit simulator, with the rules they were simulated under',
+  async up(tx) {
+    await addColumnIfMissing(tx, 'strategy_runs', 'source_run_id', 'INTEGER REFERENCES strategy_runs (id) ON DELETE SET NULL');
+    await addColumnIfMissing(tx, 'strategy_runs', 'simulation', 'TEXT');
+  }
+};
@@ -0,0 +1,95 @@
+import { Migration, addColumnIfMissing } from './types';
+
+// The event types the Magic Lines parser declared at this migration, frozen so later parser versions do not change them
+const MAGIC_LINES_EVENT_TYPES = [
+  {
+    type: 'tp_near_miss',
+    label: 'TP Near Misses',
+    description: 'Price came close to a take profit target without reaching it',
+    fields: [
+      { name: 'direction', label: 'Direction', type: 'string' },
+      { name: 'target', label: 'Target', type: 'string' },
+      { name: 'closestDistance', label: 'Closest (pts)', type: 'number' },
+      { name: 'reason', label: 'Reason', type: 'string' }
+    ]
+  },
+  {
+    type: 'fill_near_miss',
+    label: 'Fill Near Misses',
+    description: 'Price came close to a line without filling the entry',
+    fields: [
+      { name: 'direction', label: 'Direction', type: 'string' },
+      { name: 'closestDistance', label: 'Closest (pts)', type: 'number' }
+    ]
+  },
+  {
+    type: 'sl_adjustment',
+    label: 'SL Adjustments',
+    description: 'The stop was moved after price reached an X level',
+    fields: [
+      { name: 'direction', label: 'Direction', type: 'string' },
+      { name: 'trigger', label: 'Trigger', type: 'string' },
+      { name: 'adjustment', label: 'Adjusted To', type: 'string' }
+    ]
+  }
+];
+
+// Rebuilds strategy_events without the CHECK on event_type, moving the Magic Lines specific columns into a JSON payload.
+// json_patch onto '{}' drops the keys whose column was NULL.
+export const genericEvents: Migration = {
+  id: '013_generic_events',
+  description: 'Strategy-agnostic events with a JSON payload, and the event types each run declares',
+  async up(tx) {
+    await addColumnIfMissing(tx, 'strategy_runs', 'event_types', 'TEXT');
+
+    const info = await tx.execute('PRAGMA table_info(strategy_events)');
+    if (info.rows.some(row => row.name === 'payload')) {
+      return;
+    }
+
+    await tx.execute(`
+      CREATE TABLE strategy_events_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        event_type TEXT NOT NULL,
+        date DATE NOT NULL,
+        time TIME NOT NULL,
+        trade_id TEXT,
+        payload TEXT NOT NULL DEFAULT '{}',
+        source_line INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (run_id) REFERENCES strategy_runs (id) ON DELETE CASCADE
+      )
+    `);
+    // closest_distance was stored as text, and as the log time for fill near misses parsed before 1.5.0
+    await tx.execute(`
+      INSERT INTO strategy_events_new (id, run_id, event_type, date, time, trade_id, payload, source_line, created_at)
+      SELECT id, run_id, event_type, date, time, trade_id,
+        json_patch('{}', json_object(
+          'direction', direction,
+          'target', target,
+          'closestDistance', CASE
+            WHEN trim(closest_distance) GLOB '[0-9]*' AND trim(closest_distance) NOT GLOB '*[^0-9.]*'
+            THEN CAST(closest_distance AS REAL)
+          END,
+          'reason', reason,
+          'trigger', trigger,
+          'adjustment', adjustment
+        )),
+        source_line, created_at
+      FROM strategy_events
+    `);
+    await tx.execute('DROP TABLE strategy_events');
+    await tx.execute('ALTER TABLE strategy_events_new RENAME TO strategy_events');
+    await tx.execute('CREATE INDEX IF NOT EXISTS idx_strategy_events_run_type ON strategy_events (run_id, event_type)');
+
+    // Every stored event so far came from the Magic Lines parser
+    await tx.execute({
+      sql: `
+        UPDATE strategy_runs SET event_types = ?
+        WHERE event_types IS NULL AND id IN (SELECT DISTINCT run_id FROM strategy_events)
+      `,
+      args: [JSON.stringify(MAGIC_LINES_EVENT_TYPES)]
+    });
+  }
+};
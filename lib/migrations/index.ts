@@ -0,0 +1,134 @@
+import type { Client } from '@libsql/client';
+import { Migration } from './types';
+import { initialSchema } from './001_initial_schema';
+import { runColumns } from './002_run_columns';
+import { parserDefinitions } from './003_parser_definitions';
+import { parseDiagnostics } from './004_parse_diagnostics';
+import { parserVersion } from './005_parser_version';
+import { runTag } from './006_run_tag';
+import { runFingerprints } from './007_run_fingerprints';
+import { trades } from './008_trades';
+import { riskMetrics } from './009_risk_metrics';
+import { dateSplits } from './010_date_splits';
+import { lineStatistics } from './011_line_statistics';
+import { virtualRuns } from './012_virtual_runs';
+import { genericEvents } from './013_generic_events';
+
+export type { Migration, SqlExecutor } from './types';
+
+// Applied in this order. Append new migrations, never edit or reorder released ones.
+export const migrations: Migration[] = [
+  initialSchema,
+  runColumns,
+  parserDefinitions,
+  parseDiagnostics,
+  parserVersion,
+  runTag,
+  runFingerprints,
+  trades,
+  riskMetrics,
+  dateSplits,
+  lineStatistics,
+  virtualRuns,
+  genericEvents
+];
+
+export interface MigrationStatus {
+  applied: Array<{ id: string; description: string | null; appliedAt: string; durationMs: number | null }>;
+  pending: Array<{ id: string; description: string }>;
+  // Recorded in the database but not known to this build, e.g. a newer deploy ran against it
+  unknown: string[];
+}
+
+export class MigrationError extends Error {
+  constructor(public migrationId: string, cause: unknown) {
+    super(`Migration ${migrationId} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'MigrationError';
+  }
+}
+
+async function ensureMigrationsTable(client: Client) {
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id TEXT PRIMARY KEY,
+      description TEXT,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      duration_ms INTEGER
+    )
+  `);
+}
+
+export async function getMigrationStatus(client: Client): Promise<MigrationStatus> {
+  await ensureMigrationsTable(client);
+  const result = await client.execute('SELECT id, description, applied_at, duration_ms FROM schema_migrations ORDER BY id');
+
+  const appliedIds = new Set<string>();
+  const applied = result.rows.map(row => {
+    appliedIds.add(row.id as string);
+    return {
+      id: row.id as string,
+      description: row.description as string | null,
+      appliedAt: row.applied_at as string,
+      durationMs: row.duration_ms as number | null
+    };
+  });
+
+  const knownIds = new Set(migrations.map(migration => migration.id));
+
+  return {
+    applied,
+    pending: migrations
+      .filter(migration => !appliedIds.has(migration.id))
+      .map(({ id, description }) => ({ id, description })),
+    unknown: applied.filter(entry => !knownIds.has(entry.id)).map(entry => entry.id)
+  };
+}
+
+/**
+ * Apply every pending migration in order. Each migration runs in its own write transaction
+ * together with its schema_migrations row, so a failure leaves the database at the previous
+ * version and stops the run with a MigrationError.
+ */
+export async function runMigrations(client: Client): Promise<string[]> {
+  const status = await getMigrationStatus(client);
+  if (status.unknown.length > 0) {
+    console.warn(`Database has migrations this build does not know about: ${status.unknown.join(', ')}`);
+  }
+
+  const appliedNow: string[] = [];
+
+  for (const pending of status.pending) {
+    const migration = migrations.find(entry => entry.id === pending.id)!;
+    const startedAt = Date.now();
+    const tx = await client.transaction('write');
+
+    try {
+      // Another process may have applied it since the status was read
+      const alreadyApplied = await tx.execute({
+        sql: 'SELECT 1 FROM schema_migrations WHERE id = ?',
+        args: [migration.id]
+      });
+      if (alreadyApplied.rows.length > 0) {
+        await tx.rollback();
+        continue;
+      }
+
+      await migration.up(tx);
+      await tx.execute({
+        sql: 'INSERT INTO schema_migrations (id, description, duration_ms) VALUES (?, ?, ?)',
+        args: [migration.id, migration.description, Date.now() - startedAt]
+      });
+      await tx.commit();
+      appliedNow.push(migration.id);
+    } catch (error) {
+      if (!tx.closed) {
+        await tx.rollback();
+      }
+      throw new MigrationError(migration.id, error);
+    } finally {
+      tx.close();
+    }
+  }
+
+  return appliedNow;
+}
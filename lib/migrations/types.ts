@@ -0,0 +1,23 @@
+import type { InStatement, ResultSet } from '@libsql/client';
+
+// Anything that can run a statement: the client itself or an open transaction
+export interface SqlExecutor {
+  execute(stmt: InStatement): Promise<ResultSet>;
+}
+
+export interface Migration {
+  // Ordered, never renamed once released, e.g. "001_initial_schema"
+  id: string;
+  description: string;
+  up(tx: SqlExecutor): Promise<void>;
+}
+
+// ALTER TABLE ... ADD COLUMN for databases created before the column existed.
+// Checks the table first so real failures are not mistaken for "duplicate column".
+export async function addColumnIfMissing(tx: SqlExecutor, table: string, column: string, definition: string) {
+  const info = await tx.execute(`PRAGMA table_info(${table})`);
+  if (info.rows.some(row => row.name === column)) {
+    return;
+  }
+  await tx.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
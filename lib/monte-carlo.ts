@@ -0,0 +1,245 @@
+// Resample a run's PNL sequence to see how much of its drawdown and outcome was down to ordering and luck
+
+export type MonteCarloSource = 'trades' | 'daily';
+// bootstrap: draw with replacement, shuffle: reorder the same values
+export type MonteCarloMethod = 'bootstrap' | 'shuffle';
+
+export const MONTE_CARLO_SOURCES: MonteCarloSource[] = ['trades', 'daily'];
+export const MONTE_CARLO_METHODS: MonteCarloMethod[] = ['bootstrap', 'shuffle'];
+export const MAX_MONTE_CARLO_ITERATIONS = 10000;
+// Resampled values per request (iterations x sample size), bounds the time one simulation can take
+export const MAX_MONTE_CARLO_SAMPLES = 20_000_000;
+
+const HISTOGRAM_BUCKETS = 20;
+// Percentile bands are taken at most at this many evenly spaced steps, so memory does not grow with the sample size
+const BAND_POINTS = 200;
+
+export interface PercentileSet {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloThreshold {
+  name: string;
+  // Loss in dollars that counts as hitting the limit, over the whole path or within one day
+  value: number;
+}
+
+export interface MonteCarloOptions {
+  method: MonteCarloMethod;
+  iterations: number;
+  seed: number;
+  thresholds: MonteCarloThreshold[];
+}
+
+export interface MonteCarloResult {
+  method: MonteCarloMethod;
+  iterations: number;
+  seed: number;
+  sampleSize: number;
+  // Cumulative PNL percentiles after evenly spaced trades or days, step 0 is the start and the last step the end
+  bands: Array<{ step: number } & PercentileSet>;
+  maxDrawdown: {
+    percentiles: PercentileSet;
+    mean: number;
+    histogram: Array<{ from: number; to: number; count: number }>;
+  };
+  finalPnl: {
+    percentiles: PercentileSet;
+    probabilityOfLoss: number;
+  };
+  // Total drawdown limits, checked against each path's max drawdown
+  thresholds: Array<MonteCarloThreshold & { probability: number }>;
+  // The sequence as it actually happened, for comparison
+  actual: { finalPnl: number; maxDrawdown: number };
+}
+
+// Small fast PRNG, the same seed always gives the same simulation
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Linear interpolation between closest ranks, values must be sorted ascending
+function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function percentileSet(sorted: ArrayLike<number>): PercentileSet {
+  return {
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95)
+  };
+}
+
+function maxDrawdownOf(values: ArrayLike<number>): number {
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (let i = 0; i < values.length; i++) {
+    equity += values[i];
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+  }
+  return maxDrawdown;
+}
+
+export function runMonteCarlo(values: number[], options: MonteCarloOptions): MonteCarloResult {
+  const { method, iterations, seed } = options;
+  const random = mulberry32(seed);
+  const steps = values.length;
+
+  const points = Math.min(steps, BAND_POINTS);
+  const gridSteps = Array.from(new Set(Array.from({ length: points + 1 }, (_, index) => Math.round((index * steps) / points))));
+  const gridIndex = new Int32Array(steps + 1).fill(-1);
+  gridSteps.forEach((step, index) => { gridIndex[step] = index; });
+
+  // equity[gridPoint * iterations + i] so each grid step's outcomes are contiguous for sorting, step 0 stays 0
+  const equity = new Float64Array(gridSteps.length * iterations);
+  const drawdowns = new Float64Array(iterations);
+  const finals = new Float64Array(iterations);
+  const sample = new Float64Array(steps);
+
+  for (let i = 0; i < iterations; i++) {
+    if (method === 'shuffle') {
+      sample.set(values);
+      // Fisher-Yates
+      for (let j = steps - 1; j > 0; j--) {
+        const k = Math.floor(random() * (j + 1));
+        const swap = sample[j];
+        sample[j] = sample[k];
+        sample[k] = swap;
+      }
+    } else {
+      for (let j = 0; j < steps; j++) {
+        sample[j] = values[Math.floor(random() * steps)];
+      }
+    }
+
+    let cumulative = 0;
+    for (let j = 0; j < steps; j++) {
+      cumulative += sample[j];
+      if (gridIndex[j + 1] >= 0) equity[gridIndex[j + 1] * iterations + i] = cumulative;
+    }
+    finals[i] = cumulative;
+    drawdowns[i] = maxDrawdownOf(sample);
+  }
+
+  const bands: MonteCarloResult['bands'] = [];
+  gridSteps.forEach((step, index) => {
+    const outcomes = equity.subarray(index * iterations, (index + 1) * iterations).sort();
+    bands.push({ step, ...percentileSet(outcomes) });
+  });
+
+  const sortedDrawdowns = Float64Array.from(drawdowns).sort();
+  const largest = sortedDrawdowns[iterations - 1] || 0;
+  const bucketSize = largest > 0 ? largest / HISTOGRAM_BUCKETS : 1;
+  const histogram = Array.from({ length: HISTOGRAM_BUCKETS }, (_, index) => ({
+    from: index * bucketSize,
+    to: (index + 1) * bucketSize,
+    count: 0
+  }));
+  for (const drawdown of drawdowns) {
+    histogram[Math.min(HISTOGRAM_BUCKETS - 1, Math.floor(drawdown / bucketSize))].count++;
+  }
+
+  const sortedFinals = Float64Array.from(finals).sort();
+
+  return {
+    method,
+    iterations,
+    seed,
+    sampleSize: steps,
+    bands,
+    maxDrawdown: {
+      percentiles: percentileSet(sortedDrawdowns),
+      mean: drawdowns.reduce((sum, drawdown) => sum + drawdown, 0) / iterations,
+      histogram
+    },
+    finalPnl: {
+      percentiles: percentileSet(sortedFinals),
+      probabilityOfLoss: finals.filter(final => final < 0).length / iterations
+    },
+    thresholds: options.thresholds.map(threshold => ({
+      ...threshold,
+      probability: drawdowns.filter(drawdown => drawdown >= threshold.value).length / iterations
+    })),
+    actual: {
+      finalPnl: values.reduce((sum, value) => sum + value, 0),
+      maxDrawdown: maxDrawdownOf(values)
+    }
+  };
+}
+
+/**
+ * Chance of a strategy's per-day loss limits (e.g. Max Loss) being hit, from the run's trades grouped into
+ * trading days. Bootstrap draws the same number of days with replacement, shuffle keeps the days and reorders
+ * the trades within each. A path hits a limit when the running PNL of any of its days falls to minus the limit.
+ */
+export function simulateDailyLimits(
+  days: number[][],
+  limits: MonteCarloThreshold[],
+  options: Omit<MonteCarloOptions, 'thresholds'>
+): Array<MonteCarloThreshold & { probability: number }> {
+  const { method, iterations, seed } = options;
+  if (days.length === 0 || limits.length === 0) {
+    return limits.map(limit => ({ ...limit, probability: 0 }));
+  }
+
+  const random = mulberry32(seed);
+  const lowestOf = (trades: ArrayLike<number>) => {
+    let running = 0;
+    let lowest = 0;
+    for (let i = 0; i < trades.length; i++) {
+      running += trades[i];
+      lowest = Math.min(lowest, running);
+    }
+    return lowest;
+  };
+  const dayLows = days.map(lowestOf);
+  const longestDay = Math.max(...days.map(trades => trades.length));
+  const sample = new Float64Array(longestDay);
+  // The worst running PNL of any day on each path, a limit is hit when it is at or below minus the limit
+  const worstDays = new Float64Array(iterations);
+
+  for (let i = 0; i < iterations; i++) {
+    let worst = 0;
+    for (let d = 0; d < days.length; d++) {
+      if (method === 'shuffle') {
+        const trades = days[d];
+        sample.set(trades);
+        for (let j = trades.length - 1; j > 0; j--) {
+          const k = Math.floor(random() * (j + 1));
+          const swap = sample[j];
+          sample[j] = sample[k];
+          sample[k] = swap;
+        }
+        worst = Math.min(worst, lowestOf(sample.subarray(0, trades.length)));
+      } else {
+        worst = Math.min(worst, dayLows[Math.floor(random() * days.length)]);
+      }
+    }
+    worstDays[i] = worst;
+  }
+
+  return limits.map(limit => ({
+    ...limit,
+    probability: worstDays.filter(worst => worst <= -limit.value).length / iterations
+  }));
+}
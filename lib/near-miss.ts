@@ -0,0 +1,206 @@
+import { minutesOfDay } from '@/lib/breakdown';
+import { normalizeDate } from '@/lib/date-utils';
+
+// What TP near misses cost and what unfilled entries might have made, from strategy_events and the trades
+
+// Upper bounds in points, anything further falls in a last open-ended bucket
+export const NEAR_MISS_DISTANCES = [0.25, 0.5, 1, 2, 3];
+const NEAR_MISS_OFFSETS = [0, 0.25, 0.5, 1];
+
+export interface TpNearMiss {
+  date: string;
+  time: string;
+  tradeId: string;
+  direction: string;
+  // Points, parsed from the logged "17.0pts target"
+  target: number | null;
+  closestDistance: number;
+  // The trade's legs still open when the near miss was logged, null when the event has no matching trade
+  openQuantity: number | null;
+  // Quantity-weighted points per contract of those legs
+  openPoints: number | null;
+  exitReason: string | null;
+}
+
+export interface FillNearMiss {
+  date: string;
+  time: string;
+  direction: string;
+  closestDistance: number;
+}
+
+export interface NearMissBucket {
+  label: string;
+  // Upper bound in points, null for the last bucket
+  upTo: number | null;
+  events: number;
+}
+
+export interface TpNearMissBucket extends NearMissBucket {
+  matched: number;
+  // Target points minus what the open legs made, per contract, summed over the matched events
+  missedPoints: number;
+  // Those points times the open quantity and dollars per point, null without a point value
+  missedPnl: number | null;
+  // Matched events whose trade still went on to its take profit
+  laterHitTarget: number;
+}
+
+export interface FillNearMissBucket extends NearMissBucket {
+  // Each unfilled entry valued at the average PNL of the filled trades in its direction
+  estimatedPnl: number | null;
+}
+
+export interface NearMissSetting {
+  distance: number;
+  offset: number;
+  triggered: number;
+  // Change in PNL had the open legs exited at the target less the distance and offset, null without a point value
+  pnlChange: number | null;
+  pointsChange: number;
+}
+
+export interface NearMissRecommendation {
+  candidates: NearMissSetting[];
+  // The candidate with the largest gain, null when none would have helped
+  best: NearMissSetting | null;
+}
+
+export function parseTargetPoints(target: string | null): number | null {
+  const match = target?.match(/(-?\d+(?:\.\d+)?)/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+export function distanceBucketIndex(distance: number): number {
+  const index = NEAR_MISS_DISTANCES.findIndex(upTo => distance <= upTo);
+  return index === -1 ? NEAR_MISS_DISTANCES.length : index;
+}
+
+function emptyBuckets(): NearMissBucket[] {
+  return [
+    ...NEAR_MISS_DISTANCES.map(upTo => ({ label: `≤ ${upTo}pt`, upTo, events: 0 })),
+    { label: `> ${NEAR_MISS_DISTANCES[NEAR_MISS_DISTANCES.length - 1]}pt`, upTo: null, events: 0 }
+  ];
+}
+
+export interface NearMissLeg {
+  exitDate: string;
+  exitTime: string;
+  quantity: number | null;
+  points: number | null;
+}
+
+/**
+ * The legs of a trade that were still open when a near miss was logged. Log times only go down to the minute,
+ * so a leg closed in the same minute counts as open. Null when any of them is missing its points or quantity.
+ * Dates may be M/D/YYYY as logged, they are normalized before comparing.
+ */
+export function openLegs(date: string, time: string, legs: NearMissLeg[]): { quantity: number; points: number } | null {
+  const at = (legDate: string, legTime: string) =>
+    `${normalizeDate(legDate)} ${String(minutesOfDay(legTime) ?? 0).padStart(4, '0')}`;
+  const open = legs.filter(leg => at(leg.exitDate, leg.exitTime) >= at(date, time));
+  if (open.length === 0 || open.some(leg => leg.quantity === null || leg.points === null)) return null;
+
+  const quantity = open.reduce((sum, leg) => sum + leg.quantity!, 0);
+  if (quantity <= 0) return null;
+  return { quantity, points: open.reduce((sum, leg) => sum + leg.points! * leg.quantity!, 0) / quantity };
+}
+
+const isMatched = (event: TpNearMiss) => event.target !== null && event.openQuantity !== null && event.openPoints !== null;
+
+/**
+ * The cost of each TP near miss is the target in points minus what the legs still open at the time went on to
+ * make. It is negative when those legs later did better than the missed target, e.g. a runner reaching its own TP.
+ */
+export function analyseTpNearMisses(events: TpNearMiss[], pointValue: number | null): TpNearMissBucket[] {
+  const buckets: TpNearMissBucket[] = emptyBuckets().map(bucket => ({
+    ...bucket,
+    matched: 0,
+    missedPoints: 0,
+    missedPnl: pointValue === null ? null : 0,
+    laterHitTarget: 0
+  }));
+
+  for (const event of events) {
+    const bucket = buckets[distanceBucketIndex(event.closestDistance)];
+    bucket.events++;
+    if (!isMatched(event)) continue;
+    const missed = event.target! - event.openPoints!;
+    bucket.matched++;
+    bucket.missedPoints += missed;
+    if (bucket.missedPnl !== null) bucket.missedPnl += missed * event.openQuantity! * pointValue!;
+    if (event.exitReason === 'tp') bucket.laterHitTarget++;
+  }
+  return buckets;
+}
+
+export function estimateFillNearMisses(
+  events: FillNearMiss[],
+  trades: Array<{ direction: string; pnl: number }>
+): { buckets: FillNearMissBucket[]; averagePnl: Record<string, number | null> } {
+  const averagePnl: Record<string, number | null> = {};
+  for (const direction of ['LONG', 'SHORT']) {
+    const pnls = trades.filter(trade => trade.direction.toUpperCase() === direction).map(trade => trade.pnl);
+    averagePnl[direction] = pnls.length > 0 ? pnls.reduce((sum, pnl) => sum + pnl, 0) / pnls.length : null;
+  }
+
+  const buckets: FillNearMissBucket[] = emptyBuckets().map(bucket => ({ ...bucket, estimatedPnl: null }));
+  for (const event of events) {
+    const bucket = buckets[distanceBucketIndex(event.closestDistance)];
+    bucket.events++;
+    const average = averagePnl[event.direction.toUpperCase()];
+    if (average !== null && average !== undefined) {
+      bucket.estimatedPnl = (bucket.estimatedPnl ?? 0) + average;
+    }
+  }
+  return { buckets, averagePnl };
+}
+
+/**
+ * Candidate `Trim TP Near Miss` settings: once a trade comes within `distance` of its target, the open legs exit
+ * at the target less `distance` and `offset`. A limit only counts as filled when the price traded through it, so
+ * a near miss that stopped exactly `distance` away needs an offset to trigger. Only logged near misses are
+ * replayed, trades that came within the distance and went straight on to the target are assumed unaffected.
+ */
+export function recommendNearMissSettings(events: TpNearMiss[], pointValue: number | null): NearMissRecommendation {
+  const matched = events.filter(isMatched);
+  const candidates = NEAR_MISS_DISTANCES.flatMap(distance => NEAR_MISS_OFFSETS.map(offset => {
+    const triggered = matched.filter(event => event.closestDistance < distance + offset);
+    const changes = triggered.map(event => {
+      const points = event.target! - distance - offset - event.openPoints!;
+      return { points, pnl: pointValue === null ? null : points * event.openQuantity! * pointValue };
+    });
+    return {
+      distance,
+      offset,
+      triggered: triggered.length,
+      pointsChange: changes.reduce((sum, change) => sum + change.points, 0),
+      pnlChange: pointValue === null ? null : changes.reduce((sum, change) => sum + change.pnl!, 0)
+    };
+  }));
+
+  const gain = (setting: NearMissSetting) => setting.pnlChange ?? setting.pointsChange;
+  const best = candidates
+    .filter(setting => setting.triggered > 0 && gain(setting) > 0)
+    .sort((a, b) => gain(b) - gain(a))[0] ?? null;
+  return { candidates, best };
+}
+
+export function nearMissCaveats(
+  tpNearMisses: TpNearMiss[],
+  pointValue: number | null
+): string[] {
+  const unmatched = tpNearMisses.filter(event => !isMatched(event)).length;
+  const caveats = [
+    'Only near misses the strategy logged are counted, trades that came as close and went on to the target are not.',
+    'The recommendation replays logged near misses alone and assumes a limit the price traded through always fills.',
+    'Unfilled entries are valued at the average PNL of the run\'s filled trades in the same direction, not replayed.'
+  ];
+  if (unmatched > 0) {
+    caveats.push(`${unmatched} of ${tpNearMisses.length} TP near misses could not be matched to a trade with complete exit legs and are left out of the cost.`);
+  }
+  caveats.push(pointValue !== null
+    ? 'Dollar costs use a dollars-per-point value estimated from the run\'s exit legs.'
+    : 'The run has no exit legs to estimate a dollars-per-point value from, costs are in points only.');
+  return caveats;
+}
@@ -0,0 +1,99 @@
+import { mean, median } from '@/lib/statistics';
+
+// Grid of a run metric over two numeric parameters, the app's view of an optimisation sweep
+
+export type HeatmapMetric =
+  | 'netPnl'
+  | 'winRate'
+  | 'profitFactor'
+  | 'maxDrawdown'
+  | 'totalTrades'
+  | 'sharpeRatio'
+  | 'sortinoRatio'
+  | 'calmarRatio'
+  | 'marRatio';
+
+export type HeatmapAggregate = 'mean' | 'median' | 'min' | 'max';
+
+// strategy_runs column behind each metric, and whether a lower value is better
+export const HEATMAP_METRICS: Record<HeatmapMetric, { column: string; label: string; lowerIsBetter?: boolean }> = {
+  netPnl: { column: 'net_pnl', label: 'Net PNL' },
+  winRate: { column: 'win_rate', label: 'Win Rate' },
+  profitFactor: { column: 'profit_factor', label: 'Profit Factor' },
+  maxDrawdown: { column: 'max_drawdown', label: 'Max Drawdown', lowerIsBetter: true },
+  totalTrades: { column: 'total_trades', label: 'Total Trades' },
+  sharpeRatio: { column: 'sharpe_ratio', label: 'Sharpe Ratio' },
+  sortinoRatio: { column: 'sortino_ratio', label: 'Sortino Ratio' },
+  calmarRatio: { column: 'calmar_ratio', label: 'Calmar Ratio' },
+  marRatio: { column: 'mar_ratio', label: 'MAR Ratio' }
+};
+
+export const HEATMAP_AGGREGATES: HeatmapAggregate[] = ['mean', 'median', 'min', 'max'];
+
+export interface HeatmapRun {
+  id: number;
+  name: string;
+  x: number;
+  y: number;
+  // Null when the run has no value for the metric
+  value: number | null;
+}
+
+export interface HeatmapCell {
+  x: number;
+  y: number;
+  runs: Array<{ id: number; name: string; value: number | null }>;
+  // Aggregate of the runs' values, null for a missing combination or when no run has the metric
+  value: number | null;
+}
+
+export interface Heatmap {
+  xValues: number[];
+  yValues: number[];
+  // cells[yIndex][xIndex]
+  cells: HeatmapCell[][];
+  min: number | null;
+  max: number | null;
+  missingCells: number;
+}
+
+function aggregate(values: number[], method: HeatmapAggregate): number | null {
+  switch (method) {
+    case 'min':
+      return values.length > 0 ? Math.min(...values) : null;
+    case 'max':
+      return values.length > 0 ? Math.max(...values) : null;
+    case 'median':
+      return median(values);
+    default:
+      return mean(values);
+  }
+}
+
+// Every combination of the values seen on each axis gets a cell, combinations no run tried are left empty
+export function buildHeatmap(runs: HeatmapRun[], method: HeatmapAggregate): Heatmap {
+  const xValues = Array.from(new Set(runs.map(run => run.x))).sort((a, b) => a - b);
+  const yValues = Array.from(new Set(runs.map(run => run.y))).sort((a, b) => a - b);
+
+  const cells: HeatmapCell[][] = yValues.map(y => xValues.map(x => ({ x, y, runs: [], value: null })));
+  for (const run of runs) {
+    cells[yValues.indexOf(run.y)][xValues.indexOf(run.x)].runs.push({ id: run.id, name: run.name, value: run.value });
+  }
+
+  let min: number | null = null;
+  let max: number | null = null;
+  let missingCells = 0;
+  for (const cell of cells.flat()) {
+    if (cell.runs.length === 0) {
+      missingCells++;
+      continue;
+    }
+    cell.value = aggregate(cell.runs.map(run => run.value).filter((value): value is number => value !== null), method);
+    if (cell.value !== null) {
+      min = min === null ? cell.value : Math.min(min, cell.value);
+      max = max === null ? cell.value : Math.max(max, cell.value);
+    }
+  }
+
+  return { xValues, yValues, cells, min, max, missingCells };
+}
@@ -1,3 +1,75 @@
+import { ParseDiagnostics } from './parse-diagnostics';
+import type { LineStatistic } from '@/lib/line-statistics';
+import { normalizeDate } from '@/lib/date-utils';
+
+// Why a trade, or one leg of it, was closed
+export type TradeExitReason = 'tp' | 'sl' | 'trim' | 'time-based' | 'end-of-day' | 'trading-disabled' | 'unknown';
+export const TRADE_EXIT_REASONS: TradeExitReason[] = ['tp', 'sl', 'trim', 'time-based', 'end-of-day', 'trading-disabled', 'unknown'];
+
+// One partial or final exit of a trade
+export interface ParsedTradeLeg {
+  kind: 'trim' | 'final';
+  date: string;
+  time: string;
+  quantity: number | null;
+  // Per contract, positive is profit
+  points: number | null;
+  pnl: number;
+  exitReason: TradeExitReason;
+  sourceLine?: number;
+}
+
+// A trade from fill to its last exit
+export interface ParsedTrade {
+  tradeId: string;
+  date: string;
+  entryTime: string;
+  exitDate: string | null;
+  exitTime: string | null;
+  direction: 'LONG' | 'SHORT';
+  line: string | null;
+  entryPrice: number;
+  quantity: number | null;
+  pnl: number;
+  exitReason: TradeExitReason;
+  maxProfit: number | null;
+  maxLoss: number | null;
+  bars: number | null;
+  barsSinceLastTrade: number | null;
+  slAdjustments: number;
+  nearMisses: number;
+  sourceLine?: number;
+  legs: ParsedTradeLeg[];
+}
+
+export type EventFieldType = 'string' | 'number' | 'boolean';
+export type EventPayloadValue = string | number | boolean | null;
+
+// An event a parser can emit and the payload fields it carries, so events can be shown without knowing the strategy
+export interface EventTypeDefinition {
+  // snake_case, stored as strategy_events.event_type
+  type: string;
+  label: string;
+  description?: string;
+  fields: Array<{ name: string; label: string; type: EventFieldType }>;
+}
+
+export interface ParsedEvent {
+  type: string;
+  date: string;
+  time: string;
+  tradeId?: string | null;
+  payload: Record<string, EventPayloadValue>;
+  sourceLine?: number;
+}
+
+export const EVENT_TYPE_PATTERN = /^[a-z][a-z0-9_]*$/;
+const EVENT_FIELD_TYPES: EventFieldType[] = ['string', 'number', 'boolean'];
+
+export function isEventPayloadValue(value: unknown): value is EventPayloadValue {
+  return value === null || typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && isFinite(value));
+}
+
 export interface ParsedRunData {
   strategyName: string;
   runName?: string;
@@ -8,6 +80,9 @@ export interface ParsedRunData {
   profitFactor?: number;
   maxDrawdown?: number;
   sharpeRatio?: number;
+  sortinoRatio?: number;
+  calmarRatio?: number;
+  marRatio?: number;
   dailyPnl: Array<{
     date: string;
     pnl: number;
@@ -25,31 +100,11 @@ export interface ParsedRunData {
     value: number;
     description?: string;
   }>;
-  detailedEvents?: {
-    tpNearMisses: Array<{
-      date: string;
-      time: string;
-      tradeId: string;
-      direction: string;
-      target: string;
-      closestDistance: string;
-      reason: string;
-    }>;
-    fillNearMisses: Array<{
-      date: string;
-      time: string;
-      direction: string;
-      closestDistance: string;
-    }>;
-    slAdjustments: Array<{
-      date: string;
-      time: string;
-      tradeId: string;
-      direction: string;
-      trigger: string;
-      adjustment: string;
-    }>;
-  };
+  // Per-line and per-line-per-hour statistics, for strategies that trade named lines
+  lineStatistics?: LineStatistic[];
+  // Log events such as near misses, described by eventTypes which the registry copies from the parser
+  events?: ParsedEvent[];
+  eventTypes?: EventTypeDefinition[];
   detailedTrades?: Array<{
     date: string;
     time: string;
@@ -66,13 +121,189 @@ export interface ParsedRunData {
     maxProfitVsTarget: number;
     maxLossVsStop: number;
     profitEfficiency: number;
+    sourceLine?: number;
   }>;
+  // Full lifecycle of each trade, for parsers that can reconstruct partial exits
+  trades?: ParsedTrade[];
+  diagnostics?: ParseDiagnostics;
+  // Set by the registry to the parser that produced the data
+  parserName?: string;
+  parserVersion?: string;
+}
+
+const PARAMETER_TYPES = ['string', 'number', 'boolean', 'date'];
+
+// A field of each item in an array of ParsedRunData and what it must be
+type FieldCheck = [field: string, valid: (value: any) => boolean, expected: string];
+
+const isNumber = (value: unknown) => typeof value === 'number' && isFinite(value);
+const isString = (value: unknown) => typeof value === 'string';
+const optional = (valid: (value: any) => boolean) => (value: any) => value === undefined || value === null || valid(value);
+// Must be present, but null is stored as NULL
+const nullable = (valid: (value: any) => boolean) => (value: any) => value === null || valid(value);
+const oneOf = (values: readonly unknown[]) => (value: any) => values.includes(value);
+
+const NUMBER: [(value: any) => boolean, string] = [isNumber, 'a number'];
+const OPTIONAL_NUMBER: [(value: any) => boolean, string] = [optional(isNumber), 'a number or null'];
+const NULLABLE_NUMBER: [(value: any) => boolean, string] = [nullable(isNumber), 'a number or null'];
+const STRING: [(value: any) => boolean, string] = [isString, 'a string'];
+const NULLABLE_STRING: [(value: any) => boolean, string] = [nullable(isString), 'a string or null'];
+
+const DAILY_PNL_CHECKS: FieldCheck[] = [
+  ['date', ...STRING], ['pnl', ...NUMBER], ['trades', ...OPTIONAL_NUMBER],
+  ['highestIntradayPnl', ...OPTIONAL_NUMBER], ['lowestIntradayPnl', ...OPTIONAL_NUMBER]
+];
+const PARAMETER_CHECKS: FieldCheck[] = [
+  ['name', ...STRING], ['value', ...STRING], ['type', oneOf(PARAMETER_TYPES), `one of ${PARAMETER_TYPES.join(', ')}`]
+];
+const METRIC_CHECKS: FieldCheck[] = [['name', ...STRING], ['value', ...NUMBER], ['description', optional(isString), 'a string']];
+const LINE_STATISTIC_CHECKS: FieldCheck[] = [
+  ['line', ...STRING], ['side', nullable(oneOf(['up', 'down'])), 'up, down or null'], ['level', ...NULLABLE_NUMBER],
+  ['hour', nullable(hour => Number.isInteger(hour) && hour >= 0 && hour <= 23), 'an hour from 0 to 23 or null'],
+  ['totalTrades', ...NUMBER], ['winningTrades', ...NUMBER], ['losingTrades', ...NULLABLE_NUMBER], ['winRate', ...NUMBER],
+  ['netPnl', ...NUMBER], ['avgPnl', ...NUMBER], ['grossProfit', ...NUMBER], ['grossLoss', ...NUMBER], ['profitFactor', ...NULLABLE_NUMBER]
+];
+const EVENT_TYPE_CHECKS: FieldCheck[] = [
+  ['type', type => isString(type) && EVENT_TYPE_PATTERN.test(type), 'snake_case'], ['label', ...STRING],
+  ['description', optional(isString), 'a string'], ['fields', Array.isArray, 'an array']
+];
+const EVENT_FIELD_CHECKS: FieldCheck[] = [
+  ['name', ...STRING], ['label', ...STRING], ['type', oneOf(EVENT_FIELD_TYPES), `one of ${EVENT_FIELD_TYPES.join(', ')}`]
+];
+const EVENT_CHECKS: FieldCheck[] = [
+  ['type', type => isString(type) && EVENT_TYPE_PATTERN.test(type), 'snake_case'], ['date', ...STRING], ['time', ...STRING],
+  ['tradeId', optional(isString), 'a string or null'],
+  ['payload', payload => !!payload && typeof payload === 'object' && !Array.isArray(payload) &&
+    Object.values(payload).every(isEventPayloadValue), 'an object of strings, numbers, booleans or null'],
+  ['sourceLine', ...OPTIONAL_NUMBER]
+];
+const DETAILED_TRADE_CHECKS: FieldCheck[] = [
+  ['tradeId', ...STRING], ['date', ...STRING], ['time', ...STRING], ['direction', ...STRING],
+  ['line', ...STRING], ['entry', ...NUMBER], ['high', ...NUMBER], ['low', ...NUMBER], ['maxProfit', ...NUMBER],
+  ['maxLoss', ...NUMBER], ['actualPnl', ...NUMBER], ['bars', ...NUMBER], ['maxProfitVsTarget', ...NULLABLE_NUMBER],
+  ['maxLossVsStop', ...NULLABLE_NUMBER], ['profitEfficiency', ...NULLABLE_NUMBER], ['sourceLine', ...OPTIONAL_NUMBER]
+];
+const TRADE_CHECKS: FieldCheck[] = [
+  ['tradeId', ...STRING], ['date', ...STRING], ['entryTime', ...STRING], ['exitDate', ...NULLABLE_STRING],
+  ['exitTime', ...NULLABLE_STRING], ['direction', oneOf(['LONG', 'SHORT']), 'LONG or SHORT'], ['line', ...NULLABLE_STRING],
+  ['entryPrice', ...NUMBER], ['quantity', ...NULLABLE_NUMBER], ['pnl', ...NUMBER],
+  ['exitReason', oneOf(TRADE_EXIT_REASONS), `one of ${TRADE_EXIT_REASONS.join(', ')}`], ['maxProfit', ...NULLABLE_NUMBER],
+  ['maxLoss', ...NULLABLE_NUMBER], ['bars', ...NULLABLE_NUMBER], ['barsSinceLastTrade', ...NULLABLE_NUMBER],
+  ['slAdjustments', ...NUMBER], ['nearMisses', ...NUMBER], ['sourceLine', ...OPTIONAL_NUMBER], ['legs', Array.isArray, 'an array']
+];
+const TRADE_LEG_CHECKS: FieldCheck[] = [
+  ['kind', oneOf(['trim', 'final']), 'trim or final'], ['date', ...STRING], ['time', ...STRING],
+  ['quantity', ...NULLABLE_NUMBER], ['points', ...NULLABLE_NUMBER], ['pnl', ...NUMBER],
+  ['exitReason', oneOf(TRADE_EXIT_REASONS), `one of ${TRADE_EXIT_REASONS.join(', ')}`], ['sourceLine', ...OPTIONAL_NUMBER]
+];
+
+// The first failing field of an array's items, e.g. "detailedTrades[3].entry must be a number"
+function itemErrors(name: string, items: unknown, checks: FieldCheck[], required = true): string[] {
+  if (items === undefined && !required) {
+    return [];
+  }
+  if (!Array.isArray(items)) {
+    return [`${name} must be an array`];
+  }
+  for (const [index, item] of items.entries()) {
+    if (!item || typeof item !== 'object') {
+      return [`${name}[${index}] must be an object`];
+    }
+    for (const [field, valid, expected] of checks) {
+      if (!valid(item[field])) {
+        return [`${name}[${index}].${field} must be ${expected}`];
+      }
+    }
+  }
+  return [];
+}
+
+/**
+ * Check the shape of ParsedRunData that came back from a client, e.g. a previewed run being saved.
+ * Every item is checked against what its table accepts, so bad data is a list of human readable problems
+ * instead of a failed insert. Empty when the data can be stored.
+ */
+export function validateParsedRunData(data: any): string[] {
+  if (!data || typeof data !== 'object') {
+    return ['Parsed data must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (typeof data.strategyName !== 'string' || !data.strategyName.trim()) {
+    errors.push('strategyName is required');
+  }
+  if (!isNumber(data.netPnl)) {
+    errors.push('netPnl must be a number');
+  }
+  for (const field of ['totalTrades', 'winRate', 'profitFactor', 'maxDrawdown', 'sharpeRatio', 'sortinoRatio', 'calmarRatio', 'marRatio']) {
+    if (!optional(isNumber)(data[field])) {
+      errors.push(`${field} must be a number`);
+    }
+  }
+  for (const field of ['runName', 'runDescription', 'parserName', 'parserVersion']) {
+    if (!optional(isString)(data[field])) {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  errors.push(...itemErrors('dailyPnl', data.dailyPnl, DAILY_PNL_CHECKS));
+  errors.push(...itemErrors('parameters', data.parameters, PARAMETER_CHECKS));
+  errors.push(...itemErrors('customMetrics', data.customMetrics, METRIC_CHECKS));
+  errors.push(...itemErrors('lineStatistics', data.lineStatistics, LINE_STATISTIC_CHECKS, false));
+  errors.push(...itemErrors('events', data.events, EVENT_CHECKS, false));
+  errors.push(...itemErrors('detailedTrades', data.detailedTrades, DETAILED_TRADE_CHECKS, false));
+
+  const eventTypeErrors = itemErrors('eventTypes', data.eventTypes, EVENT_TYPE_CHECKS, false);
+  errors.push(...eventTypeErrors);
+  if (eventTypeErrors.length === 0) {
+    for (const [index, definition] of (data.eventTypes || []).entries()) {
+      errors.push(...itemErrors(`eventTypes[${index}].fields`, definition.fields, EVENT_FIELD_CHECKS));
+    }
+  }
+
+  const tradeErrors = itemErrors('trades', data.trades, TRADE_CHECKS, false);
+  errors.push(...tradeErrors);
+  if (tradeErrors.length === 0) {
+    for (const [index, trade] of (data.trades || []).entries()) {
+      errors.push(...itemErrors(`trades[${index}].legs`, trade.legs, TRADE_LEG_CHECKS));
+    }
+  }
+  return errors;
+}
+
+export interface ParserConfidence {
+  // 0 = cannot parse, 1 = certain
+  score: number;
+  reasons: string[];
 }
 
 export abstract class BaseStrategyParser {
   abstract strategyName: string;
+  // Bump whenever parse() output changes for the same input, stored runs record it so they can be re-parsed
+  abstract parserVersion: string;
   abstract canParse(rawData: string): boolean;
   abstract parse(rawData: string): ParsedRunData;
+  // The event types parse() can emit, stored with each run so the Events tab can label their payloads
+  eventTypes: EventTypeDefinition[] = [];
+
+  // Parsers should override this with signals specific to their format so the registry can rank them
+  getConfidence(rawData: string): ParserConfidence {
+    return this.canParse(rawData)
+      ? { score: 0.5, reasons: ['canParse matched'] }
+      : { score: 0, reasons: [] };
+  }
+
+  protected scoreSignals(rawData: string, signals: Array<{ pattern: RegExp; weight: number; reason: string }>): ParserConfidence {
+    let score = 0;
+    const reasons: string[] = [];
+    for (const signal of signals) {
+      if (signal.pattern.test(rawData)) {
+        score += signal.weight;
+        reasons.push(signal.reason);
+      }
+    }
+    return { score: Math.min(1, score), reasons };
+  }
 
   protected extractNumber(text: string, pattern: RegExp): number | undefined {
     const match = text.match(pattern);
@@ -85,7 +316,8 @@ export abstract class BaseStrategyParser {
 
   protected extractString(text: string, pattern: RegExp): string | undefined {
     const match = text.match(pattern);
-    return match ? match[1].trim() : undefined;
+    // An optional group that did not take part in the match is undefined
+    return match && match[1] !== undefined ? match[1].trim() : undefined;
   }
 
   protected parseDate(dateStr: string): string {
@@ -97,6 +329,77 @@ export abstract class BaseStrategyParser {
     return date.toISOString().split('T')[0];
   }
 
+  protected normalizeDate(dateStr: string): string {
+    // Handle both M/D/YYYY and YYYY-MM-DD formats
+    return normalizeDate(dateStr);
+  }
+
+  protected calculateDailyPnl(tradeData: Array<{ date: string; pnl: number }>): Array<{ date: string; pnl: number; trades: number; highestIntradayPnl?: number; lowestIntradayPnl?: number }> {
+    
+    const dailyMap = new Map<string, { 
+      pnl: number; 
+      trades: number; 
+      highestIntradayPnl: number; 
+      lowestIntradayPnl: number;
+      runningPnl: number;
+    }>();
+
+    for (const trade of tradeData) {
+      const existing = dailyMap.get(trade.date) || { 
+        pnl: 0, 
+        trades: 0, 
+        highestIntradayPnl: 0, 
+        lowestIntradayPnl: 0,
+        runningPnl: 0
+      };
+      
+      const tradePnl = isFinite(trade.pnl) ? trade.pnl : 0;
+      const newRunningPnl = existing.runningPnl + tradePnl;
+      const newPnl = existing.pnl + tradePnl;
+      
+      // Update intraday highs and lows
+      const newHighest = Math.max(existing.highestIntradayPnl, newRunningPnl);
+      const newLowest = Math.min(existing.lowestIntradayPnl, newRunningPnl);
+      
+      dailyMap.set(trade.date, {
+        pnl: newPnl,
+        trades: existing.trades + 1,
+        highestIntradayPnl: newHighest,
+        lowestIntradayPnl: newLowest,
+        runningPnl: newRunningPnl
+      });
+    }
+
+    return Array.from(dailyMap.entries())
+      .map(([date, data]) => ({ 
+        date, 
+        pnl: isFinite(data.pnl) ? data.pnl : 0, 
+        trades: data.trades,
+        highestIntradayPnl: isFinite(data.highestIntradayPnl) ? data.highestIntradayPnl : undefined,
+        lowestIntradayPnl: isFinite(data.lowestIntradayPnl) ? data.lowestIntradayPnl : undefined
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  protected calculateMaxDrawdown(tradeData: Array<{ pnl: number }>): number {
+    let peak = 0;
+    let maxDrawdown = 0;
+    let runningTotal = 0;
+
+    for (const trade of tradeData) {
+      runningTotal += trade.pnl;
+      if (runningTotal > peak) {
+        peak = runningTotal;
+      }
+      const drawdown = peak - runningTotal;
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+      }
+    }
+
+    return maxDrawdown;
+  }
+
   protected extractDailyPnl(text: string): Array<{ date: string; pnl: number; trades?: number }> {
     // This is a base implementation - strategy-specific parsers should override
     const dailyPnl: Array<{ date: string; pnl: number; trades?: number }> = [];
@@ -0,0 +1,251 @@
+import { createHash } from 'crypto';
+import { BaseStrategyParser, EventPayloadValue, ParsedEvent, ParsedRunData, ParserConfidence } from './base-parser';
+import { EVENT_POSITION_GROUPS, namedGroups, ParserSpec } from './parser-spec';
+import { ParseDiagnosticsCollector } from './parse-diagnostics';
+import { humanizeEventName } from '@/lib/events';
+
+/**
+ * Generic parser that executes a declarative ParserSpec.
+ * Specs are stored in the parser_definitions table and created from the parser builder page.
+ */
+export class DeclarativeStrategyParser extends BaseStrategyParser {
+  strategyName: string;
+  parserVersion: string;
+  readonly spec: ParserSpec;
+
+  constructor(spec: ParserSpec) {
+    super();
+    this.spec = spec;
+    this.strategyName = spec.strategyName;
+    // Any edit to the spec is a new version
+    this.parserVersion = `spec-${createHash('sha256').update(JSON.stringify(spec)).digest('hex').slice(0, 12)}`;
+    this.eventTypes = (spec.events || []).map(event => ({
+      type: event.type,
+      label: event.label,
+      description: event.description,
+      // Every named group other than the event's position is a field, text unless the spec says otherwise
+      fields: namedGroups(event.pattern)
+        .filter(name => !EVENT_POSITION_GROUPS.includes(name))
+        .map(name => {
+          const declared = event.fields?.find(field => field.name === name);
+          return { name, label: declared?.label || humanizeEventName(name), type: declared?.type || 'string' };
+        })
+    }));
+  }
+
+  canParse(rawData: string): boolean {
+    const minMatches = this.spec.detection.minMatches ?? 1;
+    const matches = this.spec.detection.patterns
+      .filter(pattern => new RegExp(pattern, 'im').test(rawData))
+      .length;
+    return matches >= minMatches;
+  }
+
+  getConfidence(rawData: string): ParserConfidence {
+    if (!this.canParse(rawData)) {
+      return { score: 0, reasons: [] };
+    }
+
+    // Meeting minMatches earns a base score, each matched detection pattern adds an equal share on top
+    const patterns = this.spec.detection.patterns;
+    const matched = this.scoreSignals(rawData, patterns.map(pattern => ({
+      pattern: new RegExp(pattern, 'im'),
+      weight: 0.6 / patterns.length,
+      reason: `Matched /${pattern}/`
+    })));
+    return {
+      score: Math.min(1, 0.4 + matched.score),
+      reasons: [`Matched ${matched.reasons.length} of ${patterns.length} detection patterns`, ...matched.reasons]
+    };
+  }
+
+  parse(rawData: string): ParsedRunData {
+    const lines = rawData.split(/\r?\n/);
+    const diagnostics = new ParseDiagnosticsCollector(rawData);
+
+    const runName = this.spec.runNamePattern
+      ? this.extractString(rawData, new RegExp(this.spec.runNamePattern, 'i'))
+      : undefined;
+
+    const parameters = this.extractParameters(lines, diagnostics);
+    const tradeData = this.extractTradeData(lines, diagnostics);
+
+    const totalTrades = tradeData.length;
+    const netPnl = tradeData.reduce((sum, trade) => sum + trade.pnl, 0);
+    const winningTrades = tradeData.filter(trade => trade.pnl > 0).length;
+    const winRate = totalTrades > 0 ? winningTrades / totalTrades : 0;
+
+    const grossProfit = tradeData.filter(trade => trade.pnl > 0).reduce((sum, trade) => sum + trade.pnl, 0);
+    const grossLoss = Math.abs(tradeData.filter(trade => trade.pnl < 0).reduce((sum, trade) => sum + trade.pnl, 0));
+    const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : 0;
+
+    const customMetrics = (this.spec.customMetrics || []).map(metric => {
+      const pattern = new RegExp(metric.countPattern, 'i');
+      diagnostics.consumeMatching([pattern]);
+      return {
+        name: metric.name,
+        value: lines.filter(line => pattern.test(line)).length,
+        description: metric.description
+      };
+    });
+
+    const events = this.extractEvents(lines, diagnostics);
+
+    return {
+      strategyName: this.strategyName,
+      runName,
+      netPnl,
+      totalTrades,
+      winRate,
+      profitFactor,
+      maxDrawdown: this.calculateMaxDrawdown(tradeData),
+      dailyPnl: this.calculateDailyPnl(tradeData),
+      parameters,
+      customMetrics,
+      events,
+      diagnostics: diagnostics.build()
+    };
+  }
+
+  private extractEvents(lines: string[], diagnostics: ParseDiagnosticsCollector): ParsedEvent[] {
+    const events: ParsedEvent[] = [];
+    for (const [index, spec] of (this.spec.events || []).entries()) {
+      const pattern = new RegExp(spec.pattern, 'i');
+      const definition = this.eventTypes[index];
+      lines.forEach((line, lineIndex) => {
+        const groups = line.match(pattern)?.groups;
+        if (!groups) return;
+
+        const payload: Record<string, EventPayloadValue> = {};
+        for (const field of definition.fields) {
+          const value = groups[field.name];
+          if (value === undefined) {
+            payload[field.name] = null;
+          } else if (field.type === 'number') {
+            const number = parseFloat(value.replace(/,/g, ''));
+            if (isNaN(number)) {
+              diagnostics.warn(`Line ${lineIndex + 1}: ${field.name} value "${value}" of a ${spec.type} event is not a number`);
+            }
+            payload[field.name] = isNaN(number) ? null : number;
+          } else if (field.type === 'boolean') {
+            payload[field.name] = /^(true|yes|on|1)$/i.test(value.trim());
+          } else {
+            payload[field.name] = value.trim();
+          }
+        }
+
+        events.push({
+          type: spec.type,
+          date: groups.date ? this.normalizeDate(groups.date) : '',
+          time: groups.time || '',
+          tradeId: groups.id ?? null,
+          payload,
+          sourceLine: lineIndex + 1
+        });
+        diagnostics.consumeLine(lineIndex + 1);
+      });
+    }
+    return events;
+  }
+
+  private extractParameters(lines: string[], diagnostics: ParseDiagnosticsCollector): ParsedRunData['parameters'] {
+    // Group lines by settings header section so parameters can be scoped to one section
+    const sectionLines = new Map<string, string[]>();
+    const sectionHeaders: RegExp[] = [];
+    if (this.spec.settingsHeader) {
+      const sectionPattern = new RegExp(this.spec.settingsHeader.sectionPattern, 'i');
+      sectionHeaders.push(sectionPattern);
+      let currentSection: string | null = null;
+      for (const line of lines) {
+        const sectionMatch = line.match(sectionPattern);
+        if (sectionMatch) {
+          currentSection = (sectionMatch[1] || '').trim().toUpperCase();
+          sectionLines.set(currentSection, []);
+          continue;
+        }
+        if (currentSection) {
+          sectionLines.get(currentSection)!.push(line);
+        }
+      }
+    }
+
+    const parameters: ParsedRunData['parameters'] = [];
+    for (const param of this.spec.parameters) {
+      const scope = param.section
+        ? sectionLines.get(param.section.trim().toUpperCase()) || []
+        : lines;
+      const value = this.extractString(scope.join('\n'), new RegExp(param.pattern, 'i'));
+      if (value) {
+        parameters.push({ name: param.name, value, type: param.type });
+      } else {
+        diagnostics.addMissingParameter(param.name);
+      }
+    }
+
+    diagnostics.consumeMatching([...sectionHeaders, ...this.spec.parameters.map(param => new RegExp(param.pattern, 'i'))]);
+    return parameters;
+  }
+
+  private extractTradeData(lines: string[], diagnostics: ParseDiagnosticsCollector): Array<{ date: string; time: string; direction?: string; entry?: number; pnl: number }> {
+    const fills = new Map<string, { direction?: string; entry?: number }>();
+    const fillLines: Array<{ id: string; sourceLine: number }> = [];
+    if (this.spec.trades.fillPattern) {
+      const fillPattern = new RegExp(this.spec.trades.fillPattern, 'i');
+      lines.forEach((line, index) => {
+        const groups = line.match(fillPattern)?.groups;
+        if (groups?.id) {
+          const key = `${groups.date ? this.normalizeDate(groups.date) : ''}_${groups.id}`;
+          fills.set(key, {
+            direction: groups.direction?.toUpperCase(),
+            entry: groups.entry ? parseFloat(groups.entry) : undefined
+          });
+          fillLines.push({ id: key, sourceLine: index + 1 });
+          diagnostics.consumeLine(index + 1);
+        }
+      });
+    }
+
+    const trades: Array<{ date: string; time: string; direction?: string; entry?: number; pnl: number }> = [];
+    const pnlLines: Array<{ id: string; sourceLine: number }> = [];
+    const pnlPattern = new RegExp(this.spec.trades.pnlPattern, 'i');
+    for (const [index, line] of lines.entries()) {
+      const groups = line.match(pnlPattern)?.groups;
+      if (!groups?.pnl) continue;
+
+      const pnl = parseFloat(groups.pnl.replace(/,/g, ''));
+      if (isNaN(pnl)) {
+        diagnostics.warn(`Line ${index + 1}: PNL value "${groups.pnl}" is not a number`);
+        continue;
+      }
+      diagnostics.consumeLine(index + 1);
+
+      const date = groups.date ? this.normalizeDate(groups.date) : '';
+      const key = `${date}_${groups.id}`;
+      const fill = groups.id ? fills.get(key) : undefined;
+      if (groups.id) {
+        pnlLines.push({ id: key, sourceLine: index + 1 });
+        if (this.spec.trades.fillPattern && !fill) {
+          diagnostics.addOrphanedTrade(key, index + 1, ['fill line'], false);
+        }
+      }
+      trades.push({
+        date,
+        time: groups.time || '',
+        direction: fill?.direction,
+        entry: fill?.entry,
+        pnl
+      });
+    }
+
+    const pnlIds = new Set(pnlLines.map(entry => entry.id));
+    for (const fill of fillLines) {
+      if (!pnlIds.has(fill.id)) {
+        diagnostics.addOrphanedTrade(fill.id, fill.sourceLine, ['PNL line'], true);
+      }
+    }
+    diagnostics.checkDuplicates('fill', fillLines);
+    diagnostics.checkDuplicates('PNL', pnlLines);
+
+    return trades;
+  }
+}
@@ -1,7 +1,53 @@
-import { BaseStrategyParser, ParsedRunData } from './base-parser';
+import {
+  BaseStrategyParser,
+  EventTypeDefinition,
+  ParsedEvent,
+  ParsedRunData,
+  ParsedTrade,
+  ParsedTradeLeg,
+  ParserConfidence,
+  TradeExitReason
+} from './base-parser';
+import { ParseDiagnosticsCollector } from './parse-diagnostics';
+import { calculateLineStatistics } from '@/lib/line-statistics';
+
+export const MAGIC_LINES_EVENT_TYPES: EventTypeDefinition[] = [
+  {
+    type: 'tp_near_miss',
+    label: 'TP Near Misses',
+    description: 'Price came close to a take profit target without reaching it',
+    fields: [
+      { name: 'direction', label: 'Direction', type: 'string' },
+      { name: 'target', label: 'Target', type: 'string' },
+      { name: 'closestDistance', label: 'Closest (pts)', type: 'number' },
+      { name: 'reason', label: 'Reason', type: 'string' }
+    ]
+  },
+  {
+    type: 'fill_near_miss',
+    label: 'Fill Near Misses',
+    description: 'Price came close to a line without filling the entry',
+    fields: [
+      { name: 'direction', label: 'Direction', type: 'string' },
+      { name: 'closestDistance', label: 'Closest (pts)', type: 'number' }
+    ]
+  },
+  {
+    type: 'sl_adjustment',
+    label: 'SL Adjustments',
+    description: 'The stop was moved after price reached an X level',
+    fields: [
+      { name: 'direction', label: 'Direction', type: 'string' },
+      { name: 'trigger', label: 'Trigger', type: 'string' },
+      { name: 'adjustment', label: 'Adjusted To', type: 'string' }
+    ]
+  }
+];
 
 export class MagicLinesScalperParser extends BaseStrategyParser {
   strategyName = 'MagicLinesScalper';
+  parserVersion = '1.8.0';
+  eventTypes = MAGIC_LINES_EVENT_TYPES;
 
   canParse(rawData: string): boolean {
     // Check for strategy name in settings header
@@ -22,17 +68,34 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
     return patternCount >= 2;
   }
 
+  getConfidence(rawData: string): ParserConfidence {
+    if (!this.canParse(rawData)) {
+      return { score: 0, reasons: [] };
+    }
+
+    return this.scoreSignals(rawData, [
+      { pattern: /MagicLinesScalper/, weight: 0.4, reason: 'MagicLinesScalper named in settings header' },
+      { pattern: /RTH Magic Lines|Magic Lines/, weight: 0.15, reason: 'Magic Lines log entries' },
+      { pattern: /\[TRADE FILL \(ID: \d+\)\]/i, weight: 0.15, reason: 'TRADE FILL lines' },
+      { pattern: /\[PNL UPDATE \(ID: \d+\)\]/i, weight: 0.15, reason: 'PNL UPDATE lines' },
+      { pattern: /\[TRADE SUMMARY \(ID: \d+\)\]/i, weight: 0.15, reason: 'TRADE SUMMARY lines' }
+    ]);
+  }
+
   parse(rawData: string): ParsedRunData {
     
     // Extract strategy name and run ID
     const strategyMatch = rawData.match(/Strategy '([^']+)'/);
     const strategyName = strategyMatch ? strategyMatch[1] : 'MagicLinesScalper';
     
+    // Extraction steps report which lines they used so anything left over shows up in the diagnostics
+    const diagnostics = new ParseDiagnosticsCollector(rawData);
+
     // Extract parameters from the detailed parameter section
-    const parameters = this.extractParameters(rawData);
+    const parameters = this.extractParameters(rawData, diagnostics);
     
     // Extract trade data and calculate metrics
-    const tradeData = this.extractTradeData(rawData);
+    const tradeData = this.extractTradeData(rawData, diagnostics);
     
     // Calculate daily PNL from trade summaries
     const dailyPnl = this.calculateDailyPnl(tradeData);
@@ -62,8 +125,17 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
     const customMetrics = this.extractCustomMetrics(rawData, tradeData);
 
     // Extract detailed events and trade summaries
-    const detailedEvents = this.extractDetailedEvents(rawData);
-    const detailedTrades = this.extractDetailedTradeSummaries(rawData);
+    const events = this.extractEvents(rawData, diagnostics);
+    const detailedTrades = this.extractDetailedTradeSummaries(rawData, diagnostics);
+    const trades = this.extractTradeLifecycles(parameters, diagnostics);
+
+    // Informational lines that carry nothing we store
+    diagnostics.consumeMatching([
+      /Strategy '[^']+'|Settings \[/,
+      /\[RTH Magic Lines\]/,
+      /\[Trade Completion\]/,
+      /TRADING DISABLED/
+    ]);
 
     const result = {
       strategyName: this.strategyName,
@@ -73,19 +145,21 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
       winRate: ensureFinite(winRate),
       profitFactor: ensureFinite(profitFactor),
       maxDrawdown: ensureFinite(maxDrawdown),
-      sharpeRatio: 0, // Would need more data to calculate
       dailyPnl,
       parameters,
       customMetrics,
-      detailedEvents,
-      detailedTrades
+      lineStatistics: calculateLineStatistics(tradeData),
+      events,
+      detailedTrades,
+      trades,
+      diagnostics: diagnostics.build()
     };
     
     
     return result;
   }
 
-  private extractParameters(rawData: string): Array<{ name: string; value: string; type: 'string' | 'number' | 'boolean' | 'date' }> {
+  private extractParameters(rawData: string, diagnostics: ParseDiagnosticsCollector): Array<{ name: string; value: string; type: 'string' | 'number' | 'boolean' | 'date' }> {
     const parameters: Array<{ name: string; value: string; type: 'string' | 'number' | 'boolean' | 'date' }> = [];
     
     // Main parameters
@@ -151,11 +225,12 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
 
     // Magic lines parameters
     const magicLinesParams = [
-      { name: 'Upside Levels', pattern: /Upside Levels:\s*([\d.,\s]+)/i, type: 'string' as const },
-      { name: 'Downside Levels', pattern: /Downside Levels:\s*([\d.,\s]+)/i, type: 'string' as const },
+      // Tabs and spaces only, so the list stops at the end of its line instead of running into the next timestamp
+      { name: 'Upside Levels', pattern: /Upside Levels:[\t ]*([\d.,\t ]+)/i, type: 'string' as const },
+      { name: 'Downside Levels', pattern: /Downside Levels:[\t ]*([\d.,\t ]+)/i, type: 'string' as const },
       { name: 'Morning Lines', pattern: /Morning Lines:\s*(True|False)/i, type: 'boolean' as const },
       { name: 'Duration', pattern: /Morning Lines:.*?Duration:\s*(\d+)min/i, type: 'number' as const },
-      { name: 'Morning Levels', pattern: /Morning Lines:.*?Levels:\s*([\d.,\s]+)/i, type: 'string' as const },
+      { name: 'Morning Levels', pattern: /Morning Lines:.*?Levels:[\t ]*([\d.,\t ]+)/i, type: 'string' as const },
       { name: 'Mini Mode', pattern: /Mini Mode:\s*(True|False)/i, type: 'boolean' as const },
       { name: 'Instrument', pattern: /Instrument:\s*(\w+)/i, type: 'string' as const },
     ];
@@ -174,10 +249,27 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
       }
     }
 
+    // Every "Key: value" line under a === SECTION === heading is a declared setting
+    const settingsLineNumbers: number[] = [];
+    let inSettings = false;
+    diagnostics.getLines().forEach((line, index) => {
+      if (/===\s*.+?\s*===/.test(line)) {
+        inSettings = true;
+        diagnostics.consumeLine(index + 1);
+      } else if (inSettings && /\[[^\]]+\]/.test(line)) {
+        // The first tagged log line ends the settings header
+        inSettings = false;
+      } else if (inSettings && line.trim()) {
+        diagnostics.consumeLine(index + 1);
+        settingsLineNumbers.push(index + 1);
+      }
+    });
+    diagnostics.checkSettingsCoverage(settingsLineNumbers, allParams.map(param => param.pattern));
+
     return parameters;
   }
 
-  private extractTradeData(rawData: string): Array<{
+  private extractTradeData(rawData: string, diagnostics: ParseDiagnosticsCollector): Array<{
     date: string;
     time: string;
     direction: 'LONG' | 'SHORT';
@@ -223,6 +315,7 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
       direction: 'LONG' | 'SHORT';
       entry: number;
       barsSinceLastTrade: number;
+      sourceLine: number;
     }> = [];
 
     let match;
@@ -236,7 +329,8 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
         id: tradeId,
         direction: direction as 'LONG' | 'SHORT',
         entry: parseFloat(entryStr),
-        barsSinceLastTrade: parseInt(barsSinceLastTradeStr)
+        barsSinceLastTrade: parseInt(barsSinceLastTradeStr),
+        sourceLine: diagnostics.consume(match.index)
       });
     }
 
@@ -256,6 +350,7 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
       maxProfit: number;
       maxLoss: number;
       bars: number;
+      sourceLine: number;
     }> = [];
 
     while ((match = tradeSummaryPattern.exec(rawData)) !== null) {
@@ -273,7 +368,8 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
         low: parseFloat(lowStr),
         maxProfit: parseFloat(maxProfitStr),
         maxLoss: parseFloat(maxLossStr),
-        bars: parseInt(barsStr)
+        bars: parseInt(barsStr),
+        sourceLine: diagnostics.consume(match.index)
       });
     }
 
@@ -287,6 +383,7 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
       id: string;
       completedTradePnl: number;
       totalPnl: number;
+      sourceLine: number;
     }> = [];
 
     while ((match = pnlUpdatePattern.exec(rawData)) !== null) {
@@ -298,7 +395,8 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
         time,
         id: tradeId,
         completedTradePnl: parseFloat(completedTradePnlStr),
-        totalPnl: parseFloat(totalPnlStr)
+        totalPnl: parseFloat(totalPnlStr),
+        sourceLine: diagnostics.consume(match.index)
       });
     }
 
@@ -325,6 +423,7 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
         quantity: parseInt(quantityStr),
         points: parseFloat(pointsStr)
       });
+      diagnostics.consume(match.index);
     }
 
     // Match all trade components together using IDs
@@ -337,7 +436,19 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
     tradeSummaries.forEach(summary => summaryMap.set(summary.id, summary));
     pnlUpdates.forEach(pnl => pnlMap.set(pnl.id, pnl));
     currentTradeData.forEach(current => currentTradeMap.set(current.id, current));
-    
+
+    diagnostics.checkDuplicates('TRADE FILL', tradeFills);
+    diagnostics.checkDuplicates('TRADE SUMMARY', tradeSummaries);
+    diagnostics.checkDuplicates('COMPLETED TRADE PnL', pnlUpdates);
+
+    // Summaries and PNL lines can only be attached to a trade through its fill
+    const fillIds = new Set(tradeFills.map(fill => fill.id));
+    for (const orphan of [...tradeSummaries, ...pnlUpdates]) {
+      if (!fillIds.has(orphan.id)) {
+        diagnostics.addOrphanedTrade(orphan.id, orphan.sourceLine, ['TRADE FILL'], true);
+      }
+    }
+    let defaultedQuantities = 0;
 
     for (const tradeFill of tradeFills) {
       
@@ -349,8 +460,14 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
       if (summary) {
         
         const pnl = pnlUpdate ? pnlUpdate.completedTradePnl : 0;
+        if (!pnlUpdate) {
+          diagnostics.addOrphanedTrade(tradeFill.id, tradeFill.sourceLine, ['COMPLETED TRADE PnL'], false);
+        }
         
         const tradeData = currentTrade || { quantity: 6, points: 0 }; // Default values
+        if (!currentTrade) {
+          defaultedQuantities++;
+        }
 
         // Count SL adjustments and near misses for this trade using ID
         const tradeId = tradeFill.id.split('_')[1]; // Extract just the ID number
@@ -386,79 +503,199 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
         
         trades.push(trade);
       } else {
+        const missing = pnlUpdate ? ['TRADE SUMMARY'] : ['TRADE SUMMARY', 'COMPLETED TRADE PnL'];
+        diagnostics.addOrphanedTrade(tradeFill.id, tradeFill.sourceLine, missing, true);
       }
     }
 
-    return trades;
-  }
-
-  private calculateDailyPnl(tradeData: Array<{ date: string; pnl: number; bars: number }>): Array<{ date: string; pnl: number; trades: number; highestIntradayPnl?: number; lowestIntradayPnl?: number }> {
-    
-    const dailyMap = new Map<string, { 
-      pnl: number; 
-      trades: number; 
-      highestIntradayPnl: number; 
-      lowestIntradayPnl: number;
-      runningPnl: number;
-    }>();
-
-    for (const trade of tradeData) {
-      const existing = dailyMap.get(trade.date) || { 
-        pnl: 0, 
-        trades: 0, 
-        highestIntradayPnl: 0, 
-        lowestIntradayPnl: 0,
-        runningPnl: 0
-      };
-      
-      const tradePnl = isFinite(trade.pnl) ? trade.pnl : 0;
-      const newRunningPnl = existing.runningPnl + tradePnl;
-      const newPnl = existing.pnl + tradePnl;
-      
-      // Update intraday highs and lows
-      const newHighest = Math.max(existing.highestIntradayPnl, newRunningPnl);
-      const newLowest = Math.min(existing.lowestIntradayPnl, newRunningPnl);
-      
-      dailyMap.set(trade.date, {
-        pnl: newPnl,
-        trades: existing.trades + 1,
-        highestIntradayPnl: newHighest,
-        lowestIntradayPnl: newLowest,
-        runningPnl: newRunningPnl
-      });
+    if (defaultedQuantities > 0) {
+      diagnostics.warn(`${defaultedQuantities} trade(s) had no CURRENT TRADE PnL line, quantity defaulted to 6`);
     }
 
-    const result = Array.from(dailyMap.entries())
-      .map(([date, data]) => ({ 
-        date, 
-        pnl: isFinite(data.pnl) ? data.pnl : 0, 
-        trades: data.trades,
-        highestIntradayPnl: isFinite(data.highestIntradayPnl) ? data.highestIntradayPnl : undefined,
-        lowestIntradayPnl: isFinite(data.lowestIntradayPnl) ? data.lowestIntradayPnl : undefined
-      }))
-      .sort((a, b) => a.date.localeCompare(b.date));
-    
-    
-    return result;
+    return trades;
   }
 
-  private calculateMaxDrawdown(tradeData: Array<{ pnl: number }>): number {
-    let peak = 0;
-    let maxDrawdown = 0;
-    let runningTotal = 0;
+  private extractTradeLifecycles(
+    parameters: Array<{ name: string; value: string }>,
+    diagnostics: ParseDiagnosticsCollector
+  ): ParsedTrade[] {
+    const param = (name: string) => parameters.find(p => p.name === name)?.value;
+    const number = (name: string) => {
+      const value = parseFloat(param(name) ?? '');
+      return isFinite(value) ? value : null;
+    };
 
-    for (const trade of tradeData) {
-      runningTotal += trade.pnl;
-      if (runningTotal > peak) {
-        peak = runningTotal;
+    const takeProfits = [number('Full Take Profit'), number('Trim Take Profit')].filter((v): v is number => v !== null);
+    const fullStop = number('Full Stop Loss');
+    const timeBasedBars = number('SL Time-Based');
+    const sessionEnd = [param('End Time'), param('Early Finish') === 'True' ? param('Early Finish Time') : undefined]
+      .map(time => (time ? this.minutesOfDay(time) : null))
+      .filter((v): v is number => v !== null);
+    const endOfDay = sessionEnd.length > 0 ? Math.min(...sessionEnd) : null;
+    // Exits fill past the target by the entry offset plus slippage
+    const tolerance = (number('Entry Offset') ?? 0.75) + 0.75;
+
+    interface OpenTrade {
+      trade: ParsedTrade;
+      stopLevels: number[];
+      tradingDisabled: boolean;
+      completedPnl: number | null;
+    }
+    const openTrades = new Map<string, OpenTrade>();
+    const ordered: OpenTrade[] = [];
+
+    const prefix = String.raw`(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{1,2}-\d{1,2})\s+(\d{1,2}:\d{2}:\d{2}\s+(?:AM|PM))\s+(?:\[[^\]]+\]\s+)?`;
+    const fillPattern = new RegExp(`^${prefix}\\[TRADE FILL \\(ID: (\\d+)\\)\\]\\s+(LONG|SHORT)\\s+FILLED:\\s*([\\d.]+)\\s*\\|\\s*Bars Since Last Trade:\\s*(\\d+)`, 'i');
+    const legPattern = new RegExp(`^${prefix}\\[PNL UPDATE \\(ID: (\\d+)\\)\\]\\s+CURRENT TRADE PnL:\\s*\\$([+-]?[\\d.]+).*?Points\\s*:\\s*([+-]?[\\d.]+)\\s*\\|\\s*Quantity:\\s*(\\d+)`, 'i');
+    const completedPattern = new RegExp(`^${prefix}\\[PNL UPDATE \\(ID: (\\d+)\\)\\]\\s+COMPLETED TRADE PnL:\\s*\\$([+-]?[\\d.]+)`, 'i');
+    const summaryPattern = new RegExp(`^${prefix}\\[TRADE SUMMARY \\(ID: (\\d+)\\)\\]\\s+\\w+\\s*\\|\\s*Line:\\s*([^|]+)\\|.*?Max Profit:\\s*([+-]?[\\d.]+)pts\\s*\\|\\s*Max Loss:\\s*([+-]?[\\d.]+)pts\\s*\\|\\s*Bars:\\s*(\\d+)`, 'i');
+    const stopPattern = new RegExp(`^${prefix}\\[TRADE SL \\(ID: (\\d+)\\)\\].*?adjusting SL to \\w+ \\(([+-]?[\\d.]+)\\)`, 'i');
+    const nearMissPattern = new RegExp(`^${prefix}\\[(?:TP )?NEAR MISS \\(ID: (\\d+)\\)\\]`, 'i');
+    const disabledPattern = new RegExp(`^${prefix}\\*+ TRADING DISABLED \\(mid-trade\\)`, 'i');
+
+    // Trade IDs restart every day, so lines are matched to their fill by date and ID
+    const lookup = (match: RegExpMatchArray) => openTrades.get(`${this.normalizeDate(match[1])}_${match[3]}`);
+
+    diagnostics.getLines().forEach((text, index) => {
+      const sourceLine = index + 1;
+      let match;
+      if ((match = text.match(fillPattern))) {
+        const [, date, time, id, direction, entry, barsSinceLastTrade] = match;
+        const normalizedDate = this.normalizeDate(date);
+        const entryState: OpenTrade = {
+          trade: {
+            tradeId: id,
+            date: normalizedDate,
+            entryTime: time,
+            exitDate: null,
+            exitTime: null,
+            direction: direction.toUpperCase() as 'LONG' | 'SHORT',
+            line: null,
+            entryPrice: parseFloat(entry),
+            quantity: null,
+            pnl: 0,
+            exitReason: 'unknown',
+            maxProfit: null,
+            maxLoss: null,
+            bars: null,
+            barsSinceLastTrade: parseInt(barsSinceLastTrade),
+            slAdjustments: 0,
+            nearMisses: 0,
+            sourceLine,
+            legs: []
+          },
+          stopLevels: fullStop !== null ? [-fullStop] : [],
+          tradingDisabled: false,
+          completedPnl: null
+        };
+        openTrades.set(`${normalizedDate}_${id}`, entryState);
+        ordered.push(entryState);
+      } else if ((match = text.match(disabledPattern))) {
+        const date = this.normalizeDate(match[1]);
+        openTrades.forEach(state => {
+          if (state.trade.date === date && state.completedPnl === null) state.tradingDisabled = true;
+        });
+      } else if ((match = text.match(legPattern))) {
+        const state = lookup(match);
+        state?.trade.legs.push({
+          kind: 'final',
+          date: this.normalizeDate(match[1]),
+          time: match[2],
+          quantity: parseInt(match[6]),
+          points: parseFloat(match[5]),
+          pnl: parseFloat(match[4]),
+          exitReason: 'unknown',
+          sourceLine
+        });
+      } else if ((match = text.match(completedPattern))) {
+        const state = lookup(match);
+        if (state) {
+          state.completedPnl = parseFloat(match[4]);
+          state.trade.exitDate = this.normalizeDate(match[1]);
+          state.trade.exitTime = match[2];
+        }
+      } else if ((match = text.match(summaryPattern))) {
+        const state = lookup(match);
+        if (state) {
+          state.trade.line = this.normalizeLineName(match[4]);
+          state.trade.maxProfit = parseFloat(match[5]);
+          state.trade.maxLoss = parseFloat(match[6]);
+          state.trade.bars = parseInt(match[7]);
+        }
+      } else if ((match = text.match(stopPattern))) {
+        const state = lookup(match);
+        if (state) {
+          state.trade.slAdjustments++;
+          state.stopLevels.push(parseFloat(match[4]));
+        }
+      } else if ((match = text.match(nearMissPattern))) {
+        const state = lookup(match);
+        if (state) state.trade.nearMisses++;
       }
-      const drawdown = peak - runningTotal;
-      if (drawdown > maxDrawdown) {
-        maxDrawdown = drawdown;
+    });
+
+    const classify = (state: OpenTrade, leg: ParsedTradeLeg): TradeExitReason => {
+      if (leg.points !== null) {
+        if (takeProfits.some(target => Math.abs(leg.points! - target) <= tolerance)) return 'tp';
+        if (fullStop !== null && leg.points <= -fullStop) return 'sl';
+        if (state.stopLevels.some(level => Math.abs(leg.points! - level) <= tolerance)) return 'sl';
       }
-    }
+      const exitMinutes = this.minutesOfDay(leg.time);
+      if (leg.date !== state.trade.date || (endOfDay !== null && exitMinutes !== null && exitMinutes >= endOfDay)) {
+        return 'end-of-day';
+      }
+      if (timeBasedBars !== null && state.trade.bars !== null && state.trade.bars >= timeBasedBars) return 'time-based';
+      if (state.tradingDisabled) return 'trading-disabled';
+      return 'unknown';
+    };
+
+    return ordered
+      .filter(state => state.completedPnl !== null || state.trade.legs.length > 0)
+      .map(state => {
+        const { trade } = state;
+        // Without CURRENT TRADE PnL lines the whole position closed on the COMPLETED line
+        if (trade.legs.length === 0) {
+          trade.legs.push({
+            kind: 'final',
+            date: trade.exitDate!,
+            time: trade.exitTime!,
+            quantity: null,
+            points: null,
+            pnl: state.completedPnl!,
+            exitReason: 'unknown'
+          });
+        }
+
+        // Every exit before the last one trims part of the position
+        trade.legs.forEach((leg, legIndex) => {
+          const isFinal = legIndex === trade.legs.length - 1;
+          leg.kind = isFinal ? 'final' : 'trim';
+          leg.exitReason = isFinal ? classify(state, leg) : 'trim';
+        });
 
-    return maxDrawdown;
+        const finalLeg = trade.legs[trade.legs.length - 1];
+        const quantities = trade.legs.map(leg => leg.quantity);
+        return {
+          ...trade,
+          exitDate: trade.exitDate ?? finalLeg.date,
+          exitTime: trade.exitTime ?? finalLeg.time,
+          quantity: quantities.every(q => q !== null) ? quantities.reduce((sum, q) => sum! + q!, 0) : null,
+          pnl: state.completedPnl ?? trade.legs.reduce((sum, leg) => sum + leg.pnl, 0),
+          exitReason: finalLeg.exitReason
+        };
+      });
+  }
+
+  private minutesOfDay(timeStr: string): number | null {
+    // "3:58:00 PM" from log lines or "15:58" from the settings
+    const match = timeStr.match(/(\d{1,2}):(\d{2})(?::\d{2})?(?:\s*(AM|PM))?/i);
+    if (!match) return null;
+
+    let hour = parseInt(match[1]);
+    const period = match[3]?.toUpperCase();
+    if (period === 'PM' && hour !== 12) hour += 12;
+    if (period === 'AM' && hour === 12) hour = 0;
+    return hour * 60 + parseInt(match[2]);
   }
 
   private extractCustomMetrics(rawData: string, tradeData: Array<{ pnl: number; maxProfit: number; maxLoss: number; bars: number; slAdjustments: number; nearMisses: number; quantity: number; points: number; line: string; time: string }>): Array<{ name: string; value: number; description?: string }> {
@@ -542,337 +779,16 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
       });
     }
 
-    // Calculate line-specific statistics
-    const lineStats = this.calculateLineStatistics(tradeData);
-    
-    // Add line-specific metrics to the main metrics array
-    for (const [lineName, stats] of lineStats.entries()) {
-      metrics.push({
-        name: `${lineName} - Total Trades`,
-        value: ensureFinite(stats.totalTrades),
-        description: `Total trades executed on ${lineName}`
-      });
-
-      metrics.push({
-        name: `${lineName} - Win Rate`,
-        value: ensureFinite(stats.winRate),
-        description: `Win rate for trades on ${lineName}`
-      });
-
-      metrics.push({
-        name: `${lineName} - Net PNL`,
-        value: ensureFinite(stats.netPnl),
-        description: `Net P&L for trades on ${lineName}`
-      });
-
-      metrics.push({
-        name: `${lineName} - Avg PNL`,
-        value: ensureFinite(stats.avgPnl),
-        description: `Average P&L per trade on ${lineName}`
-      });
-
-      metrics.push({
-        name: `${lineName} - Gross Profit`,
-        value: ensureFinite(stats.grossProfit),
-        description: `Total profit from winning trades on ${lineName}`
-      });
-
-      metrics.push({
-        name: `${lineName} - Gross Loss`,
-        value: ensureFinite(stats.grossLoss),
-        description: `Total loss from losing trades on ${lineName}`
-      });
-
-      // Calculate profit factor for this line
-      const profitFactor = stats.grossLoss > 0 ? stats.grossProfit / stats.grossLoss : 0;
-      metrics.push({
-        name: `${lineName} - Profit Factor`,
-        value: Math.round(ensureFinite(profitFactor) * 100) / 100, // Round to 2 decimal places
-        description: `Profit factor for trades on ${lineName}`
-      });
-    }
-
-    // Calculate hourly statistics per line
-    const lineHourlyStats = this.calculateLineHourlyStatistics(tradeData);
-    
-    // Add hourly metrics for each line
-    for (const [lineName, hourlyStats] of lineHourlyStats.entries()) {
-      for (const [hour, stats] of hourlyStats.entries()) {
-        const hourLabel = `${hour.toString().padStart(2, '0')}:00`;
-        
-        metrics.push({
-          name: `${lineName} - ${hourLabel} - Total Trades`,
-          value: ensureFinite(stats.totalTrades),
-          description: `Total trades executed on ${lineName} during ${hourLabel} hour`
-        });
-
-        metrics.push({
-          name: `${lineName} - ${hourLabel} - Win Rate`,
-          value: ensureFinite(stats.winRate),
-          description: `Win rate for trades on ${lineName} during ${hourLabel} hour`
-        });
-
-        metrics.push({
-          name: `${lineName} - ${hourLabel} - Net PNL`,
-          value: ensureFinite(stats.netPnl),
-          description: `Net P&L for trades on ${lineName} during ${hourLabel} hour`
-        });
-
-        metrics.push({
-          name: `${lineName} - ${hourLabel} - Avg PNL`,
-          value: ensureFinite(stats.avgPnl),
-          description: `Average P&L per trade on ${lineName} during ${hourLabel} hour`
-        });
-
-        metrics.push({
-          name: `${lineName} - ${hourLabel} - Gross Profit`,
-          value: ensureFinite(stats.grossProfit),
-          description: `Total profit from winning trades on ${lineName} during ${hourLabel} hour`
-        });
-
-        metrics.push({
-          name: `${lineName} - ${hourLabel} - Gross Loss`,
-          value: ensureFinite(stats.grossLoss),
-          description: `Total loss from losing trades on ${lineName} during ${hourLabel} hour`
-        });
-
-        // Calculate profit factor for this line and hour
-        const hourlyProfitFactor = stats.grossLoss > 0 ? stats.grossProfit / stats.grossLoss : 0;
-        metrics.push({
-          name: `${lineName} - ${hourLabel} - Profit Factor`,
-          value: Math.round(ensureFinite(hourlyProfitFactor) * 100) / 100,
-          description: `Profit factor for trades on ${lineName} during ${hourLabel} hour`
-        });
-      }
-    }
-
     return metrics;
   }
 
-  private calculateLineStatistics(tradeData: Array<{ pnl: number; line: string }>): Map<string, { 
-    totalTrades: number; 
-    winningTrades: number; 
-    losingTrades: number; 
-    winRate: number; 
-    netPnl: number; 
-    avgPnl: number;
-    grossProfit: number;
-    grossLoss: number;
-  }> {
-    const lineStatsMap = new Map<string, { 
-      totalTrades: number; 
-      winningTrades: number; 
-      losingTrades: number; 
-      winRate: number; 
-      netPnl: number; 
-      avgPnl: number;
-      grossProfit: number;
-      grossLoss: number;
-    }>();
-
-    // Group trades by line
-    for (const trade of tradeData) {
-      const lineName = trade.line;
-      
-      if (!lineStatsMap.has(lineName)) {
-        lineStatsMap.set(lineName, {
-          totalTrades: 0,
-          winningTrades: 0,
-          losingTrades: 0,
-          winRate: 0,
-          netPnl: 0,
-          avgPnl: 0,
-          grossProfit: 0,
-          grossLoss: 0
-        });
-      }
-
-      const stats = lineStatsMap.get(lineName)!;
-      stats.totalTrades++;
-      stats.netPnl += trade.pnl;
-
-      if (trade.pnl > 0) {
-        stats.winningTrades++;
-        stats.grossProfit += trade.pnl;
-      } else if (trade.pnl < 0) {
-        stats.losingTrades++;
-        stats.grossLoss += Math.abs(trade.pnl);
-      }
-    }
-
-    // Calculate derived metrics
-    for (const [, stats] of lineStatsMap.entries()) {
-      stats.winRate = stats.totalTrades > 0 ? Math.round((stats.winningTrades / stats.totalTrades) * 10000) / 10000 : 0; // Round to 4 decimal places
-      stats.avgPnl = stats.totalTrades > 0 ? Math.round((stats.netPnl / stats.totalTrades) * 100) / 100 : 0; // Round to 2 decimal places
-      stats.netPnl = Math.round(stats.netPnl * 100) / 100; // Round to 2 decimal places
-      stats.grossProfit = Math.round(stats.grossProfit * 100) / 100; // Round to 2 decimal places
-      stats.grossLoss = Math.round(stats.grossLoss * 100) / 100; // Round to 2 decimal places
-    }
-
-    return lineStatsMap;
-  }
-
-  private calculateLineHourlyStatistics(tradeData: Array<{ pnl: number; line: string; time: string }>): Map<string, Map<number, { 
-    totalTrades: number; 
-    winningTrades: number; 
-    losingTrades: number; 
-    winRate: number; 
-    netPnl: number; 
-    avgPnl: number;
-    grossProfit: number;
-    grossLoss: number;
-  }>> {
-    const lineHourlyStatsMap = new Map<string, Map<number, { 
-      totalTrades: number; 
-      winningTrades: number; 
-      losingTrades: number; 
-      winRate: number; 
-      netPnl: number; 
-      avgPnl: number;
-      grossProfit: number;
-      grossLoss: number;
-    }>>();
-
-    // Group trades by line and hour
-    for (const trade of tradeData) {
-      const lineName = trade.line;
-      const hour = this.extractHourFromTime(trade.time);
-      
-      if (!lineHourlyStatsMap.has(lineName)) {
-        lineHourlyStatsMap.set(lineName, new Map());
-      }
-      
-      const lineStats = lineHourlyStatsMap.get(lineName)!;
-      
-      if (!lineStats.has(hour)) {
-        lineStats.set(hour, {
-          totalTrades: 0,
-          winningTrades: 0,
-          losingTrades: 0,
-          winRate: 0,
-          netPnl: 0,
-          avgPnl: 0,
-          grossProfit: 0,
-          grossLoss: 0
-        });
-      }
-
-      const hourStats = lineStats.get(hour)!;
-      hourStats.totalTrades++;
-      hourStats.netPnl += trade.pnl;
-
-      if (trade.pnl > 0) {
-        hourStats.winningTrades++;
-        hourStats.grossProfit += trade.pnl;
-      } else if (trade.pnl < 0) {
-        hourStats.losingTrades++;
-        hourStats.grossLoss += Math.abs(trade.pnl);
-      }
-    }
-
-    // Calculate derived metrics for each line and hour
-    for (const [, lineStats] of lineHourlyStatsMap.entries()) {
-      for (const [, hourStats] of lineStats.entries()) {
-        hourStats.winRate = hourStats.totalTrades > 0 ? Math.round((hourStats.winningTrades / hourStats.totalTrades) * 10000) / 10000 : 0;
-        hourStats.avgPnl = hourStats.totalTrades > 0 ? Math.round((hourStats.netPnl / hourStats.totalTrades) * 100) / 100 : 0;
-        hourStats.netPnl = Math.round(hourStats.netPnl * 100) / 100;
-        hourStats.grossProfit = Math.round(hourStats.grossProfit * 100) / 100;
-        hourStats.grossLoss = Math.round(hourStats.grossLoss * 100) / 100;
-      }
-    }
-
-    return lineHourlyStatsMap;
-  }
-
   private normalizeLineName(lineName: string): string {
     // Clean up the line name by removing extra spaces and standardizing format
     return lineName.trim().replace(/\s+/g, ' ');
   }
 
-  private extractHourFromTime(timeStr: string): number {
-    // Extract hour from time string like "9:30:00 AM" or "13:45:00"
-    const match = timeStr.match(/(\d{1,2}):\d{2}:\d{2}(?:\s+(AM|PM))?/);
-    if (!match) return 0;
-    
-    let hour = parseInt(match[1]);
-    const period = match[2];
-    
-    // Convert to 24-hour format if needed
-    if (period) {
-      if (period === 'PM' && hour !== 12) {
-        hour += 12;
-      } else if (period === 'AM' && hour === 12) {
-        hour = 0;
-      }
-    }
-    
-    return hour;
-  }
-
-  private normalizeDate(dateStr: string): string {
-    // Handle both M/D/YYYY and YYYY-MM-DD formats
-    if (dateStr.includes('/')) {
-      // M/D/YYYY format - convert to YYYY-MM-DD
-      const [month, day, year] = dateStr.split('/');
-      return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-    } else if (dateStr.includes('-')) {
-      // YYYY-MM-DD format - already normalized
-      return dateStr;
-    }
-    // Fallback - return as-is if format is unrecognized
-    return dateStr;
-  }
-
-  private extractDetailedEvents(rawData: string): {
-    tpNearMisses: Array<{
-      date: string;
-      time: string;
-      tradeId: string;
-      direction: string;
-      target: string;
-      closestDistance: string;
-      reason: string;
-    }>;
-    fillNearMisses: Array<{
-      date: string;
-      time: string;
-      direction: string;
-      closestDistance: string;
-    }>;
-    slAdjustments: Array<{
-      date: string;
-      time: string;
-      tradeId: string;
-      direction: string;
-      trigger: string;
-      adjustment: string;
-    }>;
-  } {
-    const events = {
-      tpNearMisses: [] as Array<{
-        date: string;
-        time: string;
-        tradeId: string;
-        direction: string;
-        target: string;
-        closestDistance: string;
-        reason: string;
-      }>,
-      fillNearMisses: [] as Array<{
-        date: string;
-        time: string;
-        direction: string;
-        closestDistance: string;
-      }>,
-      slAdjustments: [] as Array<{
-        date: string;
-        time: string;
-        tradeId: string;
-        direction: string;
-        trigger: string;
-        adjustment: string;
-      }>
-    };
+  private extractEvents(rawData: string, diagnostics: ParseDiagnosticsCollector): ParsedEvent[] {
+    const events: ParsedEvent[] = [];
 
     // Extract TP Near Misses
     // Handle both M/D/YYYY and YYYY-MM-DD date formats
@@ -880,14 +796,13 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
     let match;
     while ((match = tpNearMissPattern.exec(rawData)) !== null) {
       const [, date, time, tradeId, direction, target, , closestDistance, reason] = match;
-      events.tpNearMisses.push({
+      events.push({
+        type: 'tp_near_miss',
         date: this.normalizeDate(date),
         time,
         tradeId,
-        direction,
-        target,
-        closestDistance,
-        reason
+        payload: { direction, target, closestDistance: parseFloat(closestDistance), reason },
+        sourceLine: diagnostics.consume(match.index)
       });
     }
 
@@ -895,34 +810,49 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
     // Handle both M/D/YYYY and YYYY-MM-DD date formats
     const fillNearMissPattern = /(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{1,2}-\d{1,2})\s+(\d{1,2}:\d{2}:\d{2}\s+(?:AM|PM))\s+(?:\[[^\]]+\]\s+)?\[NEAR MISS\]\s+(Long|Short)\s+near miss at ([^-]+) - closest distance: ([\d.]+)pts/g;
     while ((match = fillNearMissPattern.exec(rawData)) !== null) {
-      const [, date, time, direction, closestDistance] = match;
-      events.fillNearMisses.push({
+      const [, date, time, direction, , closestDistance] = match;
+      events.push({
+        type: 'fill_near_miss',
         date: this.normalizeDate(date),
         time,
-        direction,
-        closestDistance
+        tradeId: null,
+        payload: { direction, closestDistance: parseFloat(closestDistance) },
+        sourceLine: diagnostics.consume(match.index)
       });
     }
 
     // Extract SL Adjustments
     // Handle both M/D/YYYY and YYYY-MM-DD date formats
-    const slAdjustmentPattern = /(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{1,2}-\d{1,2})\s+(\d{1,2}:\d{2}:\d{2}\s+(?:AM|PM))\s+(?:\[[^\]]+\]\s+)?\[TRADE SL \(ID: (\d+)\)\]\s+(Long|Short)\s+position: Price reached (X[12]) \(([^)]+)\), adjusting SL to (L[12]) \(([^)]+)\)/g;
+    // Logged either as "Short position: Price reached ..." or "SL Adjustment: Price reached ...", the latter
+    // without a direction, which is taken from the trade's fill
+    const fillDirections = new Map<string, string>();
+    const fillDirectionPattern = /(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{1,2}-\d{1,2})\s+\d{1,2}:\d{2}:\d{2}\s+(?:AM|PM)\s+(?:\[[^\]]+\]\s+)?\[TRADE FILL \(ID: (\d+)\)\]\s+(LONG|SHORT)\s+FILLED/gi;
+    while ((match = fillDirectionPattern.exec(rawData)) !== null) {
+      const [, date, tradeId, direction] = match;
+      fillDirections.set(`${this.normalizeDate(date)}|${tradeId}`, direction.charAt(0).toUpperCase() + direction.slice(1).toLowerCase());
+    }
+
+    const slAdjustmentPattern = /(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{1,2}-\d{1,2})\s+(\d{1,2}:\d{2}:\d{2}\s+(?:AM|PM))\s+(?:\[[^\]]+\]\s+)?\[TRADE SL \(ID: (\d+)\)\]\s+(?:(Long|Short)\s+position|SL Adjustment): Price reached (X[12]) \(([^)]+)\), adjusting SL to (L[12]) \(([^)]+)\)/g;
     while ((match = slAdjustmentPattern.exec(rawData)) !== null) {
       const [, date, time, tradeId, direction, trigger, triggerValue, adjustment, adjustmentValue] = match;
-      events.slAdjustments.push({
+      events.push({
+        type: 'sl_adjustment',
         date: this.normalizeDate(date),
         time,
         tradeId,
-        direction,
-        trigger: `${trigger} (${triggerValue})`,
-        adjustment: `${adjustment} (${adjustmentValue})`
+        payload: {
+          direction: direction ?? fillDirections.get(`${this.normalizeDate(date)}|${tradeId}`) ?? '',
+          trigger: `${trigger} (${triggerValue})`,
+          adjustment: `${adjustment} (${adjustmentValue})`
+        },
+        sourceLine: diagnostics.consume(match.index)
       });
     }
 
     return events;
   }
 
-  private extractDetailedTradeSummaries(rawData: string): Array<{
+  private extractDetailedTradeSummaries(rawData: string, diagnostics: ParseDiagnosticsCollector): Array<{
     date: string;
     time: string;
     tradeId: string;
@@ -939,6 +869,7 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
     maxProfitVsTarget: number; // How far max profit was from TP target
     maxLossVsStop: number; // How far max loss was from SL target
     profitEfficiency: number; // Actual PNL vs max profit achieved
+    sourceLine: number;
   }> {
     const trades = [];
 
@@ -987,7 +918,8 @@ export class MagicLinesScalperParser extends BaseStrategyParser {
         bars,
         maxProfitVsTarget,
         maxLossVsStop,
-        profitEfficiency
+        profitEfficiency,
+        sourceLine: diagnostics.consume(match.index)
       });
     }
 
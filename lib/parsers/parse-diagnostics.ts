@@ -0,0 +1,192 @@
+export interface ParseDiagnostics {
+  totalLines: number;
+  recognizedLines: number;
+  // Lines no extraction pattern consumed, grouped by their leading tag
+  unrecognizedLines: Array<{
+    prefix: string;
+    count: number;
+    firstLine: number;
+    sample: string;
+  }>;
+  // Trades missing one of the log lines needed to reconstruct them
+  orphanedTrades: Array<{
+    tradeId: string;
+    sourceLine: number;
+    missing: string[];
+    dropped: boolean;
+  }>;
+  duplicateTradeIds: Array<{
+    tradeId: string;
+    kind: string;
+    sourceLines: number[];
+  }>;
+  // Settings declared in the header that no parameter pattern extracted
+  missingParameters: string[];
+  warnings: string[];
+}
+
+const TIMESTAMP_PREFIX = /^\s*(?:\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{1,2}-\d{1,2})\s+\d{1,2}:\d{2}:\d{2}(?:\s+(?:AM|PM))?\s*/i;
+
+function stripTimestamp(line: string): string {
+  return line.replace(TIMESTAMP_PREFIX, '');
+}
+
+// "[TRADE FILL (ID: 12)] LONG ..." -> "[TRADE FILL (ID)]", "Foo Bar: 1 | ..." -> "Foo Bar"
+function linePrefix(line: string): string {
+  const content = stripTimestamp(line).trim();
+  const tag = content.match(/^\[[^\]]+\]/);
+  if (tag) {
+    return tag[0].replace(/\(ID:\s*\d+\)/i, '(ID)');
+  }
+  return content.split(/[:|]/)[0].trim().slice(0, 40) || '(blank)';
+}
+
+/**
+ * Collects diagnostics while a parser runs. Extraction code reports the offsets of
+ * regex matches it used, everything left over is reported as unrecognised.
+ */
+export class ParseDiagnosticsCollector {
+  private lines: string[];
+  private lineStarts: number[] = [0];
+  private consumed = new Set<number>();
+  private orphanedTrades: ParseDiagnostics['orphanedTrades'] = [];
+  private duplicateTradeIds: ParseDiagnostics['duplicateTradeIds'] = [];
+  private missingParameters: string[] = [];
+  private warnings: string[] = [];
+
+  constructor(rawData: string) {
+    this.lines = rawData.split('\n');
+    for (let i = 0; i < rawData.length; i++) {
+      if (rawData[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  // 1-based line number containing the character offset
+  lineAt(offset: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + 1;
+  }
+
+  // Mark the line holding a regex match as recognised and return its line number
+  consume(offset: number): number {
+    const lineNumber = this.lineAt(offset);
+    this.consumed.add(lineNumber);
+    return lineNumber;
+  }
+
+  consumeLine(lineNumber: number): void {
+    this.consumed.add(lineNumber);
+  }
+
+  // Mark every line matching one of the patterns, for lines that are understood but carry no data
+  consumeMatching(patterns: RegExp[]): void {
+    this.lines.forEach((line, index) => {
+      if (patterns.some(pattern => pattern.test(line))) {
+        this.consumed.add(index + 1);
+      }
+    });
+  }
+
+  getLines(): string[] {
+    return this.lines;
+  }
+
+  addOrphanedTrade(tradeId: string, sourceLine: number, missing: string[], dropped: boolean): void {
+    this.orphanedTrades.push({ tradeId, sourceLine, missing, dropped });
+  }
+
+  // Record any id seen on more than one line of the same kind
+  checkDuplicates(kind: string, entries: Array<{ id: string; sourceLine: number }>): void {
+    const linesById = new Map<string, number[]>();
+    for (const entry of entries) {
+      linesById.set(entry.id, [...(linesById.get(entry.id) || []), entry.sourceLine]);
+    }
+    for (const [tradeId, sourceLines] of linesById.entries()) {
+      if (sourceLines.length > 1) {
+        this.duplicateTradeIds.push({ tradeId, kind, sourceLines });
+      }
+    }
+  }
+
+  /**
+   * Compare the "Key: value | Key: value" settings lines against the parameter patterns.
+   * A key counts as extracted when a pattern match on its line covers the key.
+   */
+  checkSettingsCoverage(settingsLineNumbers: number[], patterns: RegExp[]): void {
+    const missing = new Set<string>();
+    for (const lineNumber of settingsLineNumbers) {
+      const line = this.lines[lineNumber - 1];
+      const covered: Array<[number, number]> = [];
+      for (const pattern of patterns) {
+        const match = line.match(pattern);
+        if (match && match.index !== undefined) {
+          covered.push([match.index, match.index + match[0].length]);
+        }
+      }
+
+      const keyPattern = /(?:^|\|)\s*([A-Za-z][^:|]*?):/g;
+      const content = stripTimestamp(line);
+      const contentOffset = line.length - content.length;
+      let keyMatch;
+      while ((keyMatch = keyPattern.exec(content)) !== null) {
+        const key = keyMatch[1].trim();
+        const keyOffset = contentOffset + keyMatch.index + keyMatch[0].indexOf(keyMatch[1]);
+        if (!covered.some(([start, end]) => keyOffset >= start && keyOffset < end)) {
+          missing.add(key);
+        }
+      }
+    }
+    this.missingParameters.push(...missing);
+  }
+
+  addMissingParameter(name: string): void {
+    this.missingParameters.push(name);
+  }
+
+  warn(message: string): void {
+    this.warnings.push(message);
+  }
+
+  build(): ParseDiagnostics {
+    const unrecognized = new Map<string, ParseDiagnostics['unrecognizedLines'][0]>();
+    let totalLines = 0;
+
+    this.lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      totalLines++;
+      if (this.consumed.has(index + 1)) return;
+
+      const prefix = linePrefix(line);
+      const entry = unrecognized.get(prefix);
+      if (entry) {
+        entry.count++;
+      } else {
+        unrecognized.set(prefix, { prefix, count: 1, firstLine: index + 1, sample: line.trim().slice(0, 200) });
+      }
+    });
+
+    const unrecognizedLines = Array.from(unrecognized.values()).sort((a, b) => b.count - a.count);
+    const unrecognizedCount = unrecognizedLines.reduce((sum, entry) => sum + entry.count, 0);
+
+    return {
+      totalLines,
+      recognizedLines: totalLines - unrecognizedCount,
+      unrecognizedLines,
+      orphanedTrades: this.orphanedTrades,
+      duplicateTradeIds: this.duplicateTradeIds,
+      missingParameters: this.missingParameters,
+      warnings: this.warnings
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { db } from '@/lib/database';
+import { DeclarativeStrategyParser } from './declarative-parser';
+import { ParserSpec, validateParserSpec } from './parser-spec';
+import { parserRegistry } from './parser-registry';
+
+export interface ParserDefinition {
+  id: number;
+  name: string;
+  description: string | null;
+  spec: ParserSpec;
+  created_at: string;
+  updated_at: string;
+}
+
+function toDefinition(row: any): ParserDefinition {
+  return {
+    id: Number(row.id),
+    name: row.name,
+    description: row.description,
+    spec: JSON.parse(row.spec),
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+export async function getParserDefinitions(): Promise<ParserDefinition[]> {
+  const result = await db.execute(`
+    SELECT id, name, description, spec, created_at, updated_at
+    FROM parser_definitions
+    ORDER BY name ASC
+  `);
+  return result.rows.map(toDefinition);
+}
+
+// Reload the registry's declarative parsers from the database so newly created specs are used without a deploy
+export async function loadParserDefinitions(): Promise<void> {
+  const definitions = await getParserDefinitions();
+  const parsers: DeclarativeStrategyParser[] = [];
+
+  for (const definition of definitions) {
+    const errors = validateParserSpec(definition.spec);
+    if (errors.length > 0) {
+      console.warn(`Skipping invalid parser definition "${definition.name}":`, errors);
+      continue;
+    }
+    parsers.push(new DeclarativeStrategyParser(definition.spec));
+  }
+
+  parserRegistry.setDeclarativeParsers(parsers);
+}
+
+export async function saveParserDefinition(spec: ParserSpec, description?: string, id?: number): Promise<number> {
+  if (id) {
+    await db.execute({
+      sql: `
+        UPDATE parser_definitions
+        SET name = ?, description = ?, spec = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `,
+      args: [spec.strategyName, description || null, JSON.stringify(spec), id]
+    });
+    return id;
+  }
+
+  const result = await db.execute({
+    sql: 'INSERT INTO parser_definitions (name, description, spec) VALUES (?, ?, ?)',
+    args: [spec.strategyName, description || null, JSON.stringify(spec)]
+  });
+  return Number(result.lastInsertRowid);
+}
+
+export async function deleteParserDefinition(id: number): Promise<void> {
+  await db.execute({
+    sql: 'DELETE FROM parser_definitions WHERE id = ?',
+    args: [id]
+  });
+}
@@ -1,6 +1,14 @@
-import { BaseStrategyParser, ParsedRunData } from './base-parser';
+import { BaseStrategyParser, ParsedRunData, ParserConfidence } from './base-parser';
 import { SampleStrategyParser } from './sample-strategy-parser';
 import { MagicLinesScalperParser } from './magic-lines-scalper-parser';
+import { DeclarativeStrategyParser } from './declarative-parser';
+
+export interface ParserCandidate extends ParserConfidence {
+  strategyName: string;
+}
+
+// Top two candidates closer than this are treated as an ambiguous match
+export const AMBIGUOUS_SCORE_MARGIN = 0.15;
 
 export class ParserRegistry {
   private parsers: BaseStrategyParser[] = [];
@@ -15,26 +23,71 @@ export class ParserRegistry {
     this.parsers.push(parser);
   }
 
-  parseRawData(rawData: string): ParsedRunData | null {
-    for (const parser of this.parsers) {
-      if (parser.canParse(rawData)) {
-        try {
-          return parser.parse(rawData);
-        } catch (error) {
-          console.error(`Error parsing with ${parser.strategyName} parser:`, error);
-          return null;
-        }
+  // Swap the database-defined parsers for a fresh set, keeping the built-in classes first
+  setDeclarativeParsers(parsers: DeclarativeStrategyParser[]): void {
+    this.parsers = this.parsers.filter(parser => !(parser instanceof DeclarativeStrategyParser));
+    for (const parser of parsers) {
+      if (this.isBuiltInStrategy(parser.strategyName)) {
+        console.warn(`Skipping parser definition "${parser.strategyName}": name is used by a built-in parser`);
+        continue;
+      }
+      this.registerParser(parser);
+    }
+  }
+
+  // All parsers that can handle the data, best first. Ties keep registration order.
+  rankParsers(rawData: string): ParserCandidate[] {
+    return this.parsers
+      .map(parser => ({ strategyName: parser.strategyName, ...parser.getConfidence(rawData) }))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  isAmbiguous(ranking: ParserCandidate[]): boolean {
+    return ranking.length > 1 && ranking[0].score - ranking[1].score < AMBIGUOUS_SCORE_MARGIN;
+  }
+
+  // Parse with the highest ranked parser, or with `parserName` when the caller forces one
+  parseRawData(rawData: string, parserName?: string): ParsedRunData | null {
+    let parser: BaseStrategyParser | null;
+    if (parserName) {
+      parser = this.getParserForStrategy(parserName);
+      if (!parser) {
+        console.warn(`No parser registered with the name ${parserName}`);
+        return null;
+      }
+    } else {
+      const [best] = this.rankParsers(rawData);
+      parser = best ? this.getParserForStrategy(best.strategyName) : null;
+      if (!parser) {
+        console.warn('No parser found for the provided raw data');
+        return null;
       }
     }
-    
-    console.warn('No parser found for the provided raw data');
-    return null;
+
+    try {
+      return {
+        ...parser.parse(rawData),
+        parserName: parser.strategyName,
+        parserVersion: parser.parserVersion,
+        eventTypes: parser.eventTypes
+      };
+    } catch (error) {
+      console.error(`Error parsing with ${parser.strategyName} parser:`, error);
+      return null;
+    }
   }
 
   getAvailableStrategies(): string[] {
     return this.parsers.map(parser => parser.strategyName);
   }
 
+  isBuiltInStrategy(strategyName: string): boolean {
+    return this.parsers.some(parser =>
+      parser.strategyName === strategyName && !(parser instanceof DeclarativeStrategyParser)
+    );
+  }
+
   getParserForStrategy(strategyName: string): BaseStrategyParser | null {
     return this.parsers.find(parser => parser.strategyName === strategyName) || null;
   }
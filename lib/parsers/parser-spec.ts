@@ -0,0 +1,228 @@
+import { EVENT_TYPE_PATTERN, EventFieldType } from './base-parser';
+
+export type ParameterType = 'string' | 'number' | 'boolean' | 'date';
+
+/**
+ * Declarative description of a strategy log format.
+ * All patterns are regular expression sources (no surrounding slashes) and are
+ * matched case-insensitively against individual lines of the raw data.
+ */
+export interface ParserSpec {
+  strategyName: string;
+  detection: {
+    // The spec claims the data when at least `minMatches` of these patterns match
+    patterns: string[];
+    minMatches?: number;
+  };
+  // First capture group becomes the run name
+  runNamePattern?: string;
+  settingsHeader?: {
+    // Matches a section heading line, first capture group is the section name
+    sectionPattern: string;
+  };
+  parameters: Array<{
+    name: string;
+    // First capture group is the parameter value
+    pattern: string;
+    type: ParameterType;
+    // Only look for the parameter inside this settings header section
+    section?: string;
+  }>;
+  trades: {
+    // Optional entry line, named groups: date, time, id, direction, entry
+    fillPattern?: string;
+    // Completed trade PNL line, named groups: date, time, id, pnl
+    pnlPattern: string;
+  };
+  customMetrics?: Array<{
+    name: string;
+    // Lines matching the pattern are counted
+    countPattern: string;
+    description?: string;
+  }>;
+  // Log lines stored as events of the run, shown in its Events tab
+  events?: Array<{
+    // snake_case, e.g. "near_miss"
+    type: string;
+    label: string;
+    description?: string;
+    // Named groups date, time and id place the event, every other named group becomes a payload field
+    pattern: string;
+    // Payload fields that are not text, and display labels
+    fields?: Array<{ name: string; label?: string; type: EventFieldType }>;
+  }>;
+}
+
+export const PARSER_SPEC_TEMPLATE: ParserSpec = {
+  strategyName: 'My Strategy',
+  detection: {
+    patterns: ['My Strategy Settings', '\\[TRADE CLOSED \\(ID: \\d+\\)\\]'],
+    minMatches: 1
+  },
+  settingsHeader: {
+    sectionPattern: '=== (.+) ==='
+  },
+  parameters: [
+    { name: 'Trade Quantity', pattern: 'Trade Quantity:\\s*(\\d+)', type: 'number', section: 'MAIN PARAMETERS' },
+    { name: 'Start Time', pattern: 'Start Time:\\s*(\\d{2}:\\d{2})', type: 'string' }
+  ],
+  trades: {
+    fillPattern: '(?<date>\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}/\\d{1,2}/\\d{4})\\s+(?<time>\\d{1,2}:\\d{2}:\\d{2}\\s+(?:AM|PM)).*\\[TRADE OPEN \\(ID: (?<id>\\d+)\\)\\]\\s+(?<direction>LONG|SHORT)\\s+@\\s*(?<entry>[\\d.]+)',
+    pnlPattern: '(?<date>\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}/\\d{1,2}/\\d{4})\\s+(?<time>\\d{1,2}:\\d{2}:\\d{2}\\s+(?:AM|PM)).*\\[TRADE CLOSED \\(ID: (?<id>\\d+)\\)\\]\\s+PnL:\\s*\\$(?<pnl>[+-]?[\\d.]+)'
+  },
+  customMetrics: [
+    { name: 'Near Misses', countPattern: '\\[NEAR MISS\\]', description: 'Number of near miss log lines' }
+  ],
+  events: [
+    {
+      type: 'near_miss',
+      label: 'Near Misses',
+      description: 'Price came close to an entry without filling',
+      pattern: '(?<date>\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}/\\d{1,2}/\\d{4})\\s+(?<time>\\d{1,2}:\\d{2}:\\d{2}\\s+(?:AM|PM)).*\\[NEAR MISS\\]\\s+(?<direction>Long|Short).*closest distance:\\s*(?<distance>[\\d.]+)pts',
+      fields: [{ name: 'distance', label: 'Closest (pts)', type: 'number' }]
+    }
+  ]
+};
+
+// Named capture groups of a pattern source, in order
+export function namedGroups(source: string): string[] {
+  return Array.from(source.matchAll(/\(\?<([A-Za-z_][A-Za-z0-9_]*)>/g), match => match[1]);
+}
+
+const PARAMETER_TYPES: ParameterType[] = ['string', 'number', 'boolean', 'date'];
+const EVENT_FIELD_TYPES: EventFieldType[] = ['string', 'number', 'boolean'];
+// Named groups that place an event rather than becoming payload fields
+export const EVENT_POSITION_GROUPS = ['date', 'time', 'id'];
+
+function compileErrors(label: string, source: unknown): string[] {
+  if (typeof source !== 'string' || source.length === 0) {
+    return [`${label} must be a non-empty string`];
+  }
+  try {
+    new RegExp(source, 'i');
+    return [];
+  } catch (error) {
+    return [`${label} is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`];
+  }
+}
+
+// For patterns whose first capture group is used. Appending an empty alternative makes the pattern match ''
+// so the result's length tells how many groups it has.
+function captureGroupErrors(label: string, source: unknown): string[] {
+  const errors = compileErrors(label, source);
+  if (errors.length > 0) {
+    return errors;
+  }
+  return new RegExp(`${source}|`, 'i').exec('')!.length > 1 ? [] : [`${label} must have a capture group`];
+}
+
+/**
+ * Validate an untrusted spec (e.g. from the parser builder UI).
+ * Returns a list of human readable problems, empty when the spec is usable.
+ */
+export function validateParserSpec(spec: any): string[] {
+  const errors: string[] = [];
+
+  if (!spec || typeof spec !== 'object') {
+    return ['Spec must be a JSON object'];
+  }
+
+  if (typeof spec.strategyName !== 'string' || !spec.strategyName.trim()) {
+    errors.push('strategyName is required');
+  }
+
+  if (!spec.detection || !Array.isArray(spec.detection.patterns) || spec.detection.patterns.length === 0) {
+    errors.push('detection.patterns must contain at least one pattern');
+  } else {
+    spec.detection.patterns.forEach((pattern: unknown, index: number) => {
+      errors.push(...compileErrors(`detection.patterns[${index}]`, pattern));
+    });
+    if (spec.detection.minMatches !== undefined &&
+        (typeof spec.detection.minMatches !== 'number' || spec.detection.minMatches < 1)) {
+      errors.push('detection.minMatches must be a positive number');
+    }
+  }
+
+  if (spec.runNamePattern !== undefined) {
+    errors.push(...captureGroupErrors('runNamePattern', spec.runNamePattern));
+  }
+
+  if (spec.settingsHeader !== undefined) {
+    errors.push(...captureGroupErrors('settingsHeader.sectionPattern', spec.settingsHeader?.sectionPattern));
+  }
+
+  if (!Array.isArray(spec.parameters)) {
+    errors.push('parameters must be an array');
+  } else {
+    spec.parameters.forEach((param: any, index: number) => {
+      if (!param || typeof param.name !== 'string' || !param.name.trim()) {
+        errors.push(`parameters[${index}].name is required`);
+      }
+      if (!PARAMETER_TYPES.includes(param?.type)) {
+        errors.push(`parameters[${index}].type must be one of ${PARAMETER_TYPES.join(', ')}`);
+      }
+      errors.push(...captureGroupErrors(`parameters[${index}].pattern`, param?.pattern));
+    });
+  }
+
+  if (!spec.trades || typeof spec.trades !== 'object') {
+    errors.push('trades is required');
+  } else {
+    errors.push(...compileErrors('trades.pnlPattern', spec.trades.pnlPattern));
+    if (typeof spec.trades.pnlPattern === 'string' && !spec.trades.pnlPattern.includes('?<pnl>')) {
+      errors.push('trades.pnlPattern must define a named group "pnl"');
+    }
+    if (spec.trades.fillPattern !== undefined) {
+      errors.push(...compileErrors('trades.fillPattern', spec.trades.fillPattern));
+    }
+  }
+
+  if (spec.customMetrics !== undefined) {
+    if (!Array.isArray(spec.customMetrics)) {
+      errors.push('customMetrics must be an array');
+    } else {
+      spec.customMetrics.forEach((metric: any, index: number) => {
+        if (!metric || typeof metric.name !== 'string' || !metric.name.trim()) {
+          errors.push(`customMetrics[${index}].name is required`);
+        }
+        errors.push(...compileErrors(`customMetrics[${index}].countPattern`, metric?.countPattern));
+      });
+    }
+  }
+
+  if (spec.events !== undefined) {
+    if (!Array.isArray(spec.events)) {
+      errors.push('events must be an array');
+    } else {
+      const seen = new Set<string>();
+      spec.events.forEach((event: any, index: number) => {
+        if (typeof event?.type !== 'string' || !EVENT_TYPE_PATTERN.test(event.type)) {
+          errors.push(`events[${index}].type must be snake_case, e.g. near_miss`);
+        } else if (seen.has(event.type)) {
+          errors.push(`events[${index}].type "${event.type}" is declared twice`);
+        } else {
+          seen.add(event.type);
+        }
+        if (typeof event?.label !== 'string' || !event.label.trim()) {
+          errors.push(`events[${index}].label is required`);
+        }
+        errors.push(...compileErrors(`events[${index}].pattern`, event?.pattern));
+        if (event?.fields !== undefined && !Array.isArray(event.fields)) {
+          errors.push(`events[${index}].fields must be an array`);
+        } else {
+          const groups = typeof event?.pattern === 'string' ? namedGroups(event.pattern) : [];
+          (event?.fields || []).forEach((field: any, fieldIndex: number) => {
+            if (typeof field?.name !== 'string' || !groups.includes(field.name) || EVENT_POSITION_GROUPS.includes(field.name)) {
+              errors.push(`events[${index}].fields[${fieldIndex}].name must be a named group of the pattern other than date, time or id`);
+            }
+            if (!EVENT_FIELD_TYPES.includes(field?.type)) {
+              errors.push(`events[${index}].fields[${fieldIndex}].type must be one of ${EVENT_FIELD_TYPES.join(', ')}`);
+            }
+          });
+        }
+      });
+    }
+  }
+
+  return errors;
+}
@@ -1,7 +1,8 @@
-import { BaseStrategyParser, ParsedRunData } from './base-parser';
+import { BaseStrategyParser, ParsedRunData, ParserConfidence } from './base-parser';
 
 export class SampleStrategyParser extends BaseStrategyParser {
   strategyName = 'Sample Strategy';
+  parserVersion = '1.0.0';
 
   canParse(rawData: string): boolean {
     // Look for strategy name in the header
@@ -9,6 +10,19 @@ export class SampleStrategyParser extends BaseStrategyParser {
            rawData.toLowerCase().includes('strategy: sample');
   }
 
+  getConfidence(rawData: string): ParserConfidence {
+    if (!this.canParse(rawData)) {
+      return { score: 0, reasons: [] };
+    }
+
+    return this.scoreSignals(rawData, [
+      { pattern: /strategy:\s*sample/i, weight: 0.5, reason: 'Strategy: Sample header' },
+      { pattern: /sample strategy/i, weight: 0.2, reason: 'Sample Strategy mentioned' },
+      { pattern: /net pnl[:\s]+[+-]?\d/i, weight: 0.15, reason: 'Net PNL summary line' },
+      { pattern: /daily pnl/i, weight: 0.15, reason: 'Daily PNL section' }
+    ]);
+  }
+
   parse(rawData: string): ParsedRunData {    
     // Extract basic metrics
     const netPnl = this.extractNumber(rawData, /net pnl[:\s]+([+-]?\d+\.?\d*)/i) || 0;
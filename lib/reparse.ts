@@ -0,0 +1,310 @@
+import { Transaction } from '@libsql/client';
+import { db } from '@/lib/database';
+import { ParsedRunData } from '@/lib/parsers/base-parser';
+import { parserRegistry } from '@/lib/parsers/parser-registry';
+import { loadParserDefinitions } from '@/lib/parsers/parser-definitions';
+import { replaceRunData } from '@/lib/run-ingestion';
+import { getRiskSettings, withRiskMetrics } from '@/lib/risk-metrics';
+
+export type ReparseScope =
+  | { type: 'run'; runId: number }
+  | { type: 'strategy'; strategyId: number }
+  | { type: 'all' };
+
+export interface FieldChange {
+  field: string;
+  before: number | string | null;
+  after: number | string | null;
+}
+
+export interface RunReparsePlan {
+  runId: number;
+  runName: string | null;
+  strategyName: string;
+  status: 'changed' | 'unchanged' | 'skipped';
+  // Why a run was skipped
+  reason?: string;
+  parserName: string | null;
+  parserVersionBefore: string | null;
+  parserVersionAfter: string | null;
+  runChanges: FieldChange[];
+  metricChanges: FieldChange[];
+  trades: { before: number; after: number; added: string[]; removed: string[]; changed: string[] };
+  events: Array<{ eventType: string; before: number; after: number; changed: boolean }>;
+  // Other stored data the re-parse rewrites, e.g. "daily PNL"
+  otherChanges: string[];
+}
+
+const RUN_FIELDS: Array<{ column: string; value: (data: ParsedRunData) => number | undefined }> = [
+  { column: 'net_pnl', value: data => data.netPnl },
+  { column: 'total_trades', value: data => data.totalTrades },
+  { column: 'win_rate', value: data => data.winRate },
+  { column: 'profit_factor', value: data => data.profitFactor },
+  { column: 'max_drawdown', value: data => data.maxDrawdown },
+  { column: 'sharpe_ratio', value: data => data.sharpeRatio },
+  { column: 'sortino_ratio', value: data => data.sortinoRatio },
+  { column: 'calmar_ratio', value: data => data.calmarRatio },
+  { column: 'mar_ratio', value: data => data.marRatio }
+];
+
+// Stored metrics use null for zero/missing (see ingestRun), so compare them as numbers
+function sameNumber(a: unknown, b: unknown): boolean {
+  return Math.abs(Number(a ?? 0) - Number(b ?? 0)) < 1e-6;
+}
+
+// Key duplicates of the same trade id apart so they diff as separate trades
+function keyById<T>(items: T[], id: (item: T) => string): Map<string, T> {
+  const seen = new Map<string, number>();
+  const keyed = new Map<string, T>();
+  for (const item of items) {
+    const count = seen.get(id(item)) || 0;
+    seen.set(id(item), count + 1);
+    keyed.set(count === 0 ? id(item) : `${id(item)} (${count + 1})`, item);
+  }
+  return keyed;
+}
+
+function sortedKeys(keys: string[]): string {
+  return [...keys].sort().join('\n');
+}
+
+// Payload keys sorted so the key does not depend on the order a parser or JSON round trip wrote them in
+function eventKey(date: string, time: string, tradeId: string | null | undefined, payload: Record<string, unknown>): string {
+  const fields = Object.keys(payload).sort().map(name => [name, payload[name]]);
+  return [date, time, tradeId ?? '', JSON.stringify(fields)].join('|');
+}
+
+function groupByType<T>(items: T[], type: (item: T) => string, key: (item: T) => string): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const item of items) {
+    if (!grouped.has(type(item))) grouped.set(type(item), []);
+    grouped.get(type(item))!.push(key(item));
+  }
+  return grouped;
+}
+
+// Pick the parser that produced the run, falling back to the strategy's own parser and then the best match
+function chooseParser(rawData: string, storedParserName: string | null, strategyName: string): { parserName?: string; error?: string } {
+  if (storedParserName && parserRegistry.getParserForStrategy(storedParserName)) {
+    return { parserName: storedParserName };
+  }
+  if (parserRegistry.getParserForStrategy(strategyName)) {
+    return { parserName: strategyName };
+  }
+
+  const ranking = parserRegistry.rankParsers(rawData);
+  if (ranking.length === 0) {
+    return { error: 'No parser matches the stored raw data' };
+  }
+  if (parserRegistry.isAmbiguous(ranking)) {
+    return { error: `More than one parser matches (${ranking.slice(0, 2).map(candidate => candidate.strategyName).join(', ')})` };
+  }
+  return { parserName: ranking[0].strategyName };
+}
+
+async function diffRun(run: any, parsedData: ParsedRunData): Promise<RunReparsePlan> {
+  const runId = Number(run.id);
+  const [metrics, trades, events, dailyPnl, parameters] = await Promise.all([
+    db.execute({ sql: 'SELECT metric_name, metric_value FROM strategy_metrics WHERE run_id = ?', args: [runId] }),
+    db.execute({
+      sql: `
+        SELECT trade_id, date, direction, line, entry_price, high_price, low_price, max_profit, max_loss, actual_pnl, bars
+        FROM strategy_trade_summaries WHERE run_id = ? ORDER BY id
+      `,
+      args: [runId]
+    }),
+    db.execute({
+      sql: `
+        SELECT event_type, date, time, trade_id, payload
+        FROM strategy_events WHERE run_id = ?
+      `,
+      args: [runId]
+    }),
+    db.execute({ sql: 'SELECT date, pnl, trades FROM daily_pnl WHERE run_id = ?', args: [runId] }),
+    db.execute({ sql: 'SELECT parameter_name, parameter_value FROM strategy_parameters WHERE run_id = ?', args: [runId] })
+  ]);
+
+  const runChanges: FieldChange[] = RUN_FIELDS
+    .filter(field => !sameNumber(run[field.column], field.value(parsedData)))
+    .map(field => ({ field: field.column, before: run[field.column] ?? null, after: field.value(parsedData) ?? null }));
+
+  const storedMetrics = new Map<string, number>(metrics.rows.map((row: any) => [row.metric_name, row.metric_value]));
+  const parsedMetrics = new Map<string, number>(parsedData.customMetrics.map(metric => [metric.name, metric.value]));
+  const metricChanges: FieldChange[] = [];
+  for (const name of new Set([...storedMetrics.keys(), ...parsedMetrics.keys()])) {
+    const before = storedMetrics.get(name);
+    const after = parsedMetrics.get(name);
+    if (before === undefined || after === undefined || !sameNumber(before, after)) {
+      metricChanges.push({ field: name, before: before ?? null, after: after ?? null });
+    }
+  }
+
+  // Trade ids restart each session, so a trade is identified by its date and id
+  const storedTrades = keyById(trades.rows as any[], row => `${row.date} #${row.trade_id}`);
+  const parsedTrades = keyById(parsedData.detailedTrades || [], trade => `${trade.date} #${trade.tradeId}`);
+  const tradeDiff = {
+    before: storedTrades.size,
+    after: parsedTrades.size,
+    added: [...parsedTrades.keys()].filter(key => !storedTrades.has(key)),
+    removed: [...storedTrades.keys()].filter(key => !parsedTrades.has(key)),
+    changed: [...parsedTrades.entries()]
+      .filter(([key, trade]) => {
+        const stored = storedTrades.get(key);
+        return stored && (
+          stored.direction !== trade.direction || stored.line !== trade.line || stored.bars !== trade.bars ||
+          !sameNumber(stored.entry_price, trade.entry) || !sameNumber(stored.high_price, trade.high) ||
+          !sameNumber(stored.low_price, trade.low) || !sameNumber(stored.max_profit, trade.maxProfit) ||
+          !sameNumber(stored.max_loss, trade.maxLoss) || !sameNumber(stored.actual_pnl, trade.actualPnl)
+        );
+      })
+      .map(([key]) => key)
+  };
+
+  const parsedEvents = groupByType(parsedData.events || [], event => event.type,
+    event => eventKey(event.date, event.time, event.tradeId, event.payload));
+  const storedEvents = groupByType(events.rows as any[], row => row.event_type,
+    row => eventKey(row.date, row.time, row.trade_id, JSON.parse(row.payload)));
+  const eventDiff = Array.from(new Set([...storedEvents.keys(), ...parsedEvents.keys()])).sort().map(eventType => {
+    const storedKeys = storedEvents.get(eventType) || [];
+    const keys = parsedEvents.get(eventType) || [];
+    return {
+      eventType,
+      before: storedKeys.length,
+      after: keys.length,
+      changed: sortedKeys(storedKeys) !== sortedKeys(keys)
+    };
+  });
+
+  const otherChanges: string[] = [];
+  const storedDays = new Map<string, any>(dailyPnl.rows.map((row: any) => [row.date, row]));
+  if (storedDays.size !== parsedData.dailyPnl.length || parsedData.dailyPnl.some(day => {
+    const stored = storedDays.get(day.date);
+    return !stored || !sameNumber(stored.pnl, day.pnl) || !sameNumber(stored.trades, day.trades);
+  })) {
+    otherChanges.push('daily PNL');
+  }
+  const storedParameters = new Map<string, string>(parameters.rows.map((row: any) => [row.parameter_name, row.parameter_value]));
+  if (storedParameters.size !== parsedData.parameters.length ||
+    parsedData.parameters.some(param => storedParameters.get(param.name) !== param.value)) {
+    otherChanges.push('parameters');
+  }
+
+  const parserVersionBefore = (run.parser_version as string | null) ?? null;
+  const parserVersionAfter = parsedData.parserVersion ?? null;
+  const changed = runChanges.length > 0 || metricChanges.length > 0 ||
+    tradeDiff.added.length > 0 || tradeDiff.removed.length > 0 || tradeDiff.changed.length > 0 ||
+    eventDiff.some(entry => entry.changed) || otherChanges.length > 0 ||
+    parserVersionBefore !== parserVersionAfter;
+
+  return {
+    runId,
+    runName: run.run_name ?? null,
+    strategyName: run.strategy_name,
+    status: changed ? 'changed' : 'unchanged',
+    parserName: parsedData.parserName ?? null,
+    parserVersionBefore,
+    parserVersionAfter,
+    runChanges,
+    metricChanges,
+    trades: tradeDiff,
+    events: eventDiff,
+    otherChanges
+  };
+}
+
+function skipped(run: any, reason: string): RunReparsePlan {
+  return {
+    runId: Number(run.id),
+    runName: run.run_name ?? null,
+    strategyName: run.strategy_name,
+    status: 'skipped',
+    reason,
+    parserName: run.parser_name ?? null,
+    parserVersionBefore: run.parser_version ?? null,
+    parserVersionAfter: null,
+    runChanges: [],
+    metricChanges: [],
+    trades: { before: 0, after: 0, added: [], removed: [], changed: [] },
+    events: [],
+    otherChanges: []
+  };
+}
+
+async function planRuns(scope: ReparseScope): Promise<Array<{ plan: RunReparsePlan; parsedData: ParsedRunData | null }>> {
+  await loadParserDefinitions();
+
+  let where = '';
+  const args: number[] = [];
+  if (scope.type === 'run') {
+    where = 'WHERE sr.id = ?';
+    args.push(scope.runId);
+  } else if (scope.type === 'strategy') {
+    where = 'WHERE sr.strategy_id = ?';
+    args.push(scope.strategyId);
+  }
+
+  const runs = await db.execute({
+    sql: `
+      SELECT sr.*, s.name as strategy_name
+      FROM strategy_runs sr
+      JOIN strategies s ON sr.strategy_id = s.id
+      ${where}
+      ORDER BY sr.id
+    `,
+    args
+  });
+
+  const results: Array<{ plan: RunReparsePlan; parsedData: ParsedRunData | null }> = [];
+  for (const run of runs.rows as any[]) {
+    if (!run.raw_data) {
+      results.push({ plan: skipped(run, 'No raw data stored for this run'), parsedData: null });
+      continue;
+    }
+
+    const { parserName, error } = chooseParser(run.raw_data, run.parser_name ?? null, run.strategy_name);
+    const parsed = parserName ? parserRegistry.parseRawData(run.raw_data, parserName) : null;
+    if (!parsed) {
+      results.push({ plan: skipped(run, error || `${parserName} failed to parse the stored raw data`), parsedData: null });
+      continue;
+    }
+    // Ratios are stored computed from the daily PNL, so diff against the same
+    const parsedData = withRiskMetrics(parsed, await getRiskSettings(db, Number(run.strategy_id)));
+
+    results.push({ plan: await diffRun(run, parsedData), parsedData });
+  }
+  return results;
+}
+
+// Re-parse the stored raw data with the current parsers and report what would change, without writing
+export async function previewReparse(scope: ReparseScope): Promise<RunReparsePlan[]> {
+  return (await planRuns(scope)).map(result => result.plan);
+}
+
+/**
+ * Re-parse and overwrite every changed run in the scope (optionally only `runIds`) in one write
+ * transaction, so either all of them are updated or none are.
+ */
+export async function applyReparse(scope: ReparseScope, runIds?: number[]): Promise<{ plans: RunReparsePlan[]; applied: number[] }> {
+  const results = await planRuns(scope);
+  const toApply = results.filter(({ plan, parsedData }) =>
+    plan.status === 'changed' && parsedData && (!runIds || runIds.includes(plan.runId)));
+
+  if (toApply.length > 0) {
+    const tx: Transaction = await db.transaction('write');
+    try {
+      for (const { plan, parsedData } of toApply) {
+        await replaceRunData(tx, plan.runId, parsedData!);
+      }
+      await tx.commit();
+    } catch (error) {
+      if (!tx.closed) {
+        await tx.rollback();
+      }
+      throw error;
+    } finally {
+      tx.close();
+    }
+  }
+
+  return { plans: results.map(result => result.plan), applied: toApply.map(({ plan }) => plan.runId) };
+}
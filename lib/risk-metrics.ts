@@ -0,0 +1,142 @@
+import type { SqlExecutor } from '@/lib/migrations/types';
+import type { ParsedRunData } from '@/lib/parsers/base-parser';
+import { mean } from '@/lib/statistics';
+
+// Each daily PNL entry is treated as one trading day when annualising
+export const TRADING_DAYS_PER_YEAR = 252;
+
+// Calmar looks at the most recent three years only, MAR at the whole history
+const CALMAR_WINDOW_DAYS = TRADING_DAYS_PER_YEAR * 3;
+
+export interface RiskSettings {
+  // Starting balance the daily PNL is measured against
+  accountSize: number;
+  // Annual rate as a fraction, e.g. 0.04 for 4%
+  riskFreeRate: number;
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  accountSize: 50000,
+  riskFreeRate: 0
+};
+
+export interface RiskMetrics {
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  calmarRatio: number | null;
+  marRatio: number | null;
+}
+
+// Compound annual growth and max drawdown (as a fraction of the peak) of a run of daily returns
+function growthAndDrawdown(returns: number[]): { annualReturn: number; maxDrawdown: number } {
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  for (const dailyReturn of returns) {
+    equity = Math.max(0, equity * (1 + dailyReturn));
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+  }
+  return { annualReturn: Math.pow(equity, TRADING_DAYS_PER_YEAR / returns.length) - 1, maxDrawdown };
+}
+
+function finiteOrNull(value: number): number | null {
+  return isFinite(value) ? value : null;
+}
+
+/**
+ * Annualised Sharpe, Sortino, Calmar and MAR ratios from a daily PNL series.
+ * Returns are measured against the running balance, starting from the account size.
+ * Ratios that are undefined for the series (fewer than two days, no volatility, no drawdown) are null.
+ */
+export function computeRiskMetrics(dailyPnl: Array<{ date: string; pnl: number }>, settings: RiskSettings): RiskMetrics {
+  const empty: RiskMetrics = { sharpeRatio: null, sortinoRatio: null, calmarRatio: null, marRatio: null };
+  if (dailyPnl.length < 2 || !(settings.accountSize > 0)) {
+    return empty;
+  }
+
+  const returns: number[] = [];
+  let balance = settings.accountSize;
+  for (const day of [...dailyPnl].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (balance <= 0) break;
+    returns.push(day.pnl / balance);
+    balance += day.pnl;
+  }
+  if (returns.length < 2) {
+    return empty;
+  }
+
+  const dailyRiskFree = Math.pow(1 + settings.riskFreeRate, 1 / TRADING_DAYS_PER_YEAR) - 1;
+  const excess = returns.map(dailyReturn => dailyReturn - dailyRiskFree);
+  const averageExcess = mean(excess)!;
+  const deviation = Math.sqrt(excess.reduce((sum, value) => sum + Math.pow(value - averageExcess, 2), 0) / (excess.length - 1));
+  const downsideDeviation = Math.sqrt(mean(excess.map(value => Math.pow(Math.min(0, value), 2)))!);
+  const annualise = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const full = growthAndDrawdown(returns);
+  const recent = growthAndDrawdown(returns.slice(-CALMAR_WINDOW_DAYS));
+
+  return {
+    sharpeRatio: deviation > 0 ? finiteOrNull(averageExcess / deviation * annualise) : null,
+    sortinoRatio: downsideDeviation > 0 ? finiteOrNull(averageExcess / downsideDeviation * annualise) : null,
+    calmarRatio: recent.maxDrawdown > 0 ? finiteOrNull(recent.annualReturn / recent.maxDrawdown) : null,
+    marRatio: full.maxDrawdown > 0 ? finiteOrNull(full.annualReturn / full.maxDrawdown) : null
+  };
+}
+
+// Ratios computed from the parsed daily PNL. A Sharpe ratio printed in the log is only kept when the
+// daily series is too short to compute one.
+export function withRiskMetrics(parsedData: ParsedRunData, settings: RiskSettings): ParsedRunData {
+  const metrics = computeRiskMetrics(parsedData.dailyPnl, settings);
+  return {
+    ...parsedData,
+    sharpeRatio: metrics.sharpeRatio ?? parsedData.sharpeRatio,
+    sortinoRatio: metrics.sortinoRatio ?? undefined,
+    calmarRatio: metrics.calmarRatio ?? undefined,
+    marRatio: metrics.marRatio ?? undefined
+  };
+}
+
+export async function getRiskSettings(executor: SqlExecutor, strategyId: number): Promise<RiskSettings> {
+  const result = await executor.execute({
+    sql: 'SELECT account_size, risk_free_rate FROM strategies WHERE id = ?',
+    args: [strategyId]
+  });
+  const row = result.rows[0];
+  return {
+    accountSize: row?.account_size != null ? Number(row.account_size) : DEFAULT_RISK_SETTINGS.accountSize,
+    riskFreeRate: row?.risk_free_rate != null ? Number(row.risk_free_rate) : DEFAULT_RISK_SETTINGS.riskFreeRate
+  };
+}
+
+// Recompute the stored ratios of every run, or only those of one strategy, e.g. after its risk settings change
+export async function recomputeRunRiskMetrics(executor: SqlExecutor, strategyId?: number): Promise<number> {
+  const runs = await executor.execute({
+    sql: `SELECT id, strategy_id FROM strategy_runs${strategyId !== undefined ? ' WHERE strategy_id = ?' : ''}`,
+    args: strategyId !== undefined ? [strategyId] : []
+  });
+
+  const settingsByStrategy = new Map<number, RiskSettings>();
+  for (const run of runs.rows) {
+    const runStrategyId = Number(run.strategy_id);
+    if (!settingsByStrategy.has(runStrategyId)) {
+      settingsByStrategy.set(runStrategyId, await getRiskSettings(executor, runStrategyId));
+    }
+
+    const dailyPnl = await executor.execute({ sql: 'SELECT date, pnl FROM daily_pnl WHERE run_id = ?', args: [run.id] });
+    const metrics = computeRiskMetrics(
+      dailyPnl.rows.map(row => ({ date: row.date as string, pnl: Number(row.pnl) })),
+      settingsByStrategy.get(runStrategyId)!
+    );
+    // Keep a Sharpe ratio read from the log when the daily series is too short, as withRiskMetrics does
+    await executor.execute({
+      sql: `
+        UPDATE strategy_runs
+        SET sharpe_ratio = COALESCE(?, sharpe_ratio), sortino_ratio = ?, calmar_ratio = ?, mar_ratio = ?
+        WHERE id = ?
+      `,
+      args: [metrics.sharpeRatio, metrics.sortinoRatio, metrics.calmarRatio, metrics.marRatio, run.id]
+    });
+  }
+  return runs.rows.length;
+}
@@ -0,0 +1,272 @@
+import { InStatement, Transaction } from '@libsql/client';
+import { db, getOrCreateStrategy } from '@/lib/database';
+import { ParsedRunData } from '@/lib/parsers/base-parser';
+import { contentHash, fingerprintParsedRun } from '@/lib/duplicate-detection';
+import { getRiskSettings, withRiskMetrics } from '@/lib/risk-metrics';
+import { lineStatisticStatements } from '@/lib/line-statistics';
+
+// Statements per batch round trip, keeps request bodies to Turso at a sensible size
+const BATCH_SIZE = 500;
+
+export interface IngestionStageTiming {
+  stage: string;
+  rows: number;
+  ms: number;
+}
+
+export interface IngestRunOptions {
+  rawData?: string | null;
+  // Groups runs uploaded together, e.g. every file from one optimisation sweep
+  runTag?: string | null;
+  // Use an existing strategy instead of looking it up by parsedData.strategyName
+  strategyId?: number;
+  // Duplicate run to delete in the same transaction, the new run inherits its baseline flag
+  replaceRunId?: number;
+  // Virtual runs: the run they were simulated from and the rules, stored as JSON
+  sourceRunId?: number;
+  simulation?: unknown;
+}
+
+export interface IngestRunResult {
+  runId: number;
+  strategyId: number;
+  timings: IngestionStageTiming[];
+  totalMs: number;
+}
+
+async function runBatched(tx: Transaction, statements: InStatement[]): Promise<void> {
+  for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+    await tx.batch(statements.slice(i, i + BATCH_SIZE));
+  }
+}
+
+function eventTypesJson(parsedData: ParsedRunData): string | null {
+  return parsedData.eventTypes && parsedData.eventTypes.length > 0 ? JSON.stringify(parsedData.eventTypes) : null;
+}
+
+function childStatements(runId: number, parsedData: ParsedRunData): Array<{ stage: string; statements: InStatement[] }> {
+  return [
+    {
+      stage: 'dailyPnl',
+      statements: parsedData.dailyPnl.map(daily => ({
+        sql: `
+          INSERT INTO daily_pnl (run_id, date, pnl, trades, highest_intraday_pnl, lowest_intraday_pnl)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `,
+        args: [runId, daily.date, daily.pnl, daily.trades || 0, daily.highestIntradayPnl || null, daily.lowestIntradayPnl || null]
+      }))
+    },
+    {
+      stage: 'parameters',
+      statements: parsedData.parameters.map(param => ({
+        sql: `
+          INSERT INTO strategy_parameters (run_id, parameter_name, parameter_value, parameter_type)
+          VALUES (?, ?, ?, ?)
+        `,
+        args: [runId, param.name, param.value, param.type]
+      }))
+    },
+    {
+      stage: 'metrics',
+      statements: parsedData.customMetrics.map(metric => ({
+        sql: `
+          INSERT INTO strategy_metrics (run_id, metric_name, metric_value, metric_description)
+          VALUES (?, ?, ?, ?)
+        `,
+        args: [runId, metric.name, metric.value, metric.description || null]
+      }))
+    },
+    {
+      stage: 'lineStatistics',
+      statements: lineStatisticStatements(runId, parsedData.lineStatistics || [])
+    },
+    {
+      stage: 'events',
+      statements: (parsedData.events || []).map(event => ({
+        sql: `
+          INSERT INTO strategy_events (run_id, event_type, date, time, trade_id, payload, source_line)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `,
+        args: [runId, event.type, event.date, event.time, event.tradeId ?? null, JSON.stringify(event.payload), event.sourceLine ?? null]
+      }))
+    },
+    {
+      stage: 'trades',
+      statements: (parsedData.detailedTrades || []).map(trade => ({
+        sql: `
+          INSERT INTO strategy_trade_summaries (
+            run_id, trade_id, date, time, direction, line, entry_price, high_price, low_price,
+            max_profit, max_loss, actual_pnl, bars, max_profit_vs_target, max_loss_vs_stop, profit_efficiency, source_line
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        args: [
+          runId, trade.tradeId, trade.date, trade.time, trade.direction, trade.line,
+          trade.entry, trade.high, trade.low, trade.maxProfit, trade.maxLoss, trade.actualPnl,
+          trade.bars, trade.maxProfitVsTarget, trade.maxLossVsStop, trade.profitEfficiency, trade.sourceLine ?? null
+        ]
+      }))
+    },
+    {
+      stage: 'tradeLifecycles',
+      // Legs find their trade as the latest row inserted for it, which also copes with repeated trade IDs
+      statements: (parsedData.trades || []).flatMap(trade => [
+        {
+          sql: `
+            INSERT INTO trades (
+              run_id, trade_id, date, entry_time, exit_date, exit_time, direction, line, entry_price, quantity,
+              realized_pnl, exit_reason, max_profit, max_loss, bars, bars_since_last_trade, sl_adjustments, near_misses, source_line
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `,
+          args: [
+            runId, trade.tradeId, trade.date, trade.entryTime, trade.exitDate, trade.exitTime, trade.direction, trade.line,
+            trade.entryPrice, trade.quantity, trade.pnl, trade.exitReason, trade.maxProfit, trade.maxLoss, trade.bars,
+            trade.barsSinceLastTrade, trade.slAdjustments, trade.nearMisses, trade.sourceLine ?? null
+          ]
+        },
+        ...trade.legs.map((leg, legIndex) => ({
+          sql: `
+            INSERT INTO trade_legs (trade_id, leg_index, kind, exit_date, exit_time, quantity, points, realized_pnl, exit_reason, source_line)
+            VALUES ((SELECT MAX(id) FROM trades WHERE run_id = ? AND date = ? AND trade_id = ?), ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `,
+          args: [
+            runId, trade.date, trade.tradeId, legIndex, leg.kind, leg.date, leg.time, leg.quantity, leg.points,
+            leg.pnl, leg.exitReason, leg.sourceLine ?? null
+          ]
+        }))
+      ])
+    }
+  ];
+}
+
+/**
+ * Write a parsed run and all of its child rows in a single write transaction.
+ * Child rows are sent in batches, and if any statement fails nothing from the run is kept.
+ */
+export async function ingestRun(parsed: ParsedRunData, options: IngestRunOptions = {}): Promise<IngestRunResult> {
+  const timings: IngestionStageTiming[] = [];
+  const started = Date.now();
+  let stageStarted = started;
+  const endStage = (stage: string, rows: number) => {
+    const now = Date.now();
+    timings.push({ stage, rows, ms: now - stageStarted });
+    stageStarted = now;
+  };
+
+  const tx: Transaction = await db.transaction('write');
+  try {
+    const strategyId = options.strategyId ?? Number(await getOrCreateStrategy(parsed.strategyName, undefined, tx));
+    const parsedData = withRiskMetrics(parsed, await getRiskSettings(tx, strategyId));
+    endStage('strategy', 1);
+
+    const runResult = await tx.execute({
+      sql: `
+        INSERT INTO strategy_runs 
+        (strategy_id, run_name, run_description, net_pnl, total_trades, win_rate, profit_factor, max_drawdown, sharpe_ratio, sortino_ratio, calmar_ratio, mar_ratio, raw_data, diagnostics, parser_name, parser_version, event_types, run_tag, content_hash, fingerprint, source_run_id, simulation)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      args: [
+        strategyId,
+        parsedData.runName || null,
+        parsedData.runDescription || null,
+        parsedData.netPnl,
+        parsedData.totalTrades || null,
+        parsedData.winRate || null,
+        parsedData.profitFactor || null,
+        parsedData.maxDrawdown || null,
+        parsedData.sharpeRatio ?? null,
+        parsedData.sortinoRatio ?? null,
+        parsedData.calmarRatio ?? null,
+        parsedData.marRatio ?? null,
+        options.rawData ?? null,
+        parsedData.diagnostics ? JSON.stringify(parsedData.diagnostics) : null,
+        parsedData.parserName || null,
+        parsedData.parserVersion || null,
+        eventTypesJson(parsedData),
+        options.runTag || null,
+        options.rawData ? contentHash(options.rawData) : null,
+        fingerprintParsedRun(parsedData),
+        options.sourceRunId ?? null,
+        options.simulation !== undefined ? JSON.stringify(options.simulation) : null
+      ]
+    });
+    const runId = Number(runResult.lastInsertRowid);
+    endStage('run', 1);
+
+    if (options.replaceRunId !== undefined) {
+      await tx.execute({
+        sql: `
+          UPDATE strategy_runs
+          SET is_baseline = COALESCE((SELECT is_baseline FROM strategy_runs WHERE id = ?), FALSE)
+          WHERE id = ?
+        `,
+        args: [options.replaceRunId, runId]
+      });
+      await tx.execute({ sql: 'DELETE FROM strategy_runs WHERE id = ?', args: [options.replaceRunId] });
+      endStage('replace', 1);
+    }
+
+    for (const { stage, statements } of childStatements(runId, parsedData)) {
+      await runBatched(tx, statements);
+      endStage(stage, statements.length);
+    }
+
+    await tx.commit();
+    endStage('commit', 0);
+
+    return { runId, strategyId, timings, totalMs: Date.now() - started };
+  } catch (error) {
+    if (!tx.closed) {
+      await tx.rollback();
+    }
+    throw error;
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Overwrite an existing run with freshly parsed data inside the caller's transaction.
+ * The run keeps its id, strategy, name, description, baseline flag and raw data.
+ */
+export async function replaceRunData(tx: Transaction, runId: number, parsed: ParsedRunData): Promise<void> {
+  const run = await tx.execute({ sql: 'SELECT strategy_id FROM strategy_runs WHERE id = ?', args: [runId] });
+  const parsedData = withRiskMetrics(parsed, await getRiskSettings(tx, Number(run.rows[0].strategy_id)));
+
+  await tx.execute({
+    sql: `
+      UPDATE strategy_runs
+      SET net_pnl = ?, total_trades = ?, win_rate = ?, profit_factor = ?, max_drawdown = ?,
+          sharpe_ratio = ?, sortino_ratio = ?, calmar_ratio = ?, mar_ratio = ?, diagnostics = ?, parser_name = ?, parser_version = ?,
+          event_types = ?, fingerprint = ?
+      WHERE id = ?
+    `,
+    args: [
+      parsedData.netPnl,
+      parsedData.totalTrades || null,
+      parsedData.winRate || null,
+      parsedData.profitFactor || null,
+      parsedData.maxDrawdown || null,
+      parsedData.sharpeRatio ?? null,
+      parsedData.sortinoRatio ?? null,
+      parsedData.calmarRatio ?? null,
+      parsedData.marRatio ?? null,
+      parsedData.diagnostics ? JSON.stringify(parsedData.diagnostics) : null,
+      parsedData.parserName || null,
+      parsedData.parserVersion || null,
+      eventTypesJson(parsedData),
+      fingerprintParsedRun(parsedData),
+      runId
+    ]
+  });
+
+  await tx.batch(
+    ['daily_pnl', 'strategy_parameters', 'strategy_metrics', 'line_statistics', 'strategy_events', 'strategy_trade_summaries', 'trades']
+      .map(table => ({ sql: `DELETE FROM ${table} WHERE run_id = ?`, args: [runId] }))
+  );
+
+  for (const { statements } of childStatements(runId, parsedData)) {
+    await runBatched(tx, statements);
+  }
+}
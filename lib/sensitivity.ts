@@ -0,0 +1,151 @@
+// How each numeric parameter relates to run performance across all runs of a strategy
+
+export type SensitivityMetric = 'netPnl' | 'profitFactor' | 'maxDrawdown';
+
+export const SENSITIVITY_METRICS: SensitivityMetric[] = ['netPnl', 'profitFactor', 'maxDrawdown'];
+
+export interface SensitivityRun {
+  id: number;
+  name: string;
+  netPnl: number;
+  profitFactor: number | null;
+  maxDrawdown: number | null;
+  // Raw parameter values by name
+  parameters: Record<string, string>;
+  // Names of the parameters stored as numbers
+  numericParameters: string[];
+}
+
+export interface SensitivityPoint {
+  runId: number;
+  runName: string;
+  value: number;
+  netPnl: number;
+  profitFactor: number | null;
+  maxDrawdown: number | null;
+  // Another run differs from this one in this parameter only
+  controlled: boolean;
+}
+
+export interface MetricCorrelation {
+  // Pearson correlation of the metric with the parameter value, -1 to 1
+  correlation: number;
+  // Share of the metric's variation explained by a straight line in the parameter
+  rSquared: number;
+  runs: number;
+}
+
+export interface ParameterSensitivity {
+  parameter: string;
+  distinctValues: number;
+  points: SensitivityPoint[];
+  // Groups of runs that share every other parameter and differ in this one
+  controlledGroups: number;
+  // True when the correlations come from controlled groups only, false when other parameters vary too
+  controlled: boolean;
+  metrics: Record<SensitivityMetric, MetricCorrelation | null>;
+  // Mean R² over the metrics that could be measured, used for ranking
+  score: number;
+}
+
+// Signature of every parameter except one, runs with the same signature only differ in that parameter
+function signatureWithout(run: SensitivityRun, parameter: string): string {
+  return Object.keys(run.parameters)
+    .filter(name => name !== parameter)
+    .sort()
+    .map(name => `${name}=${run.parameters[name]}`)
+    .join('\u0000');
+}
+
+function metricValue(point: SensitivityPoint, metric: SensitivityMetric): number | null {
+  const value = point[metric];
+  return value !== null && isFinite(value) ? value : null;
+}
+
+/**
+ * Correlation of a metric with the parameter value. Each group is centred on its own means first, so
+ * when the groups are controlled (other parameters equal) differences between groups do not count.
+ */
+function pooledCorrelation(groups: SensitivityPoint[][], metric: SensitivityMetric): MetricCorrelation | null {
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  let runs = 0;
+
+  for (const group of groups) {
+    const pairs = group
+      .map(point => ({ x: point.value, y: metricValue(point, metric) }))
+      .filter((pair): pair is { x: number; y: number } => pair.y !== null);
+    if (pairs.length < 2) continue;
+
+    const meanX = pairs.reduce((sum, pair) => sum + pair.x, 0) / pairs.length;
+    const meanY = pairs.reduce((sum, pair) => sum + pair.y, 0) / pairs.length;
+    for (const { x, y } of pairs) {
+      sxy += (x - meanX) * (y - meanY);
+      sxx += (x - meanX) * (x - meanX);
+      syy += (y - meanY) * (y - meanY);
+    }
+    runs += pairs.length;
+  }
+
+  if (runs < 3 || !(sxx > 0) || !(syy > 0)) return null;
+  const correlation = sxy / Math.sqrt(sxx * syy);
+  return { correlation, rSquared: correlation * correlation, runs };
+}
+
+export function analyseSensitivity(runs: SensitivityRun[]): ParameterSensitivity[] {
+  const parameterNames = new Set(runs.flatMap(run => run.numericParameters));
+  const results: ParameterSensitivity[] = [];
+
+  for (const parameter of parameterNames) {
+    const points: SensitivityPoint[] = [];
+    const groups = new Map<string, SensitivityPoint[]>();
+
+    for (const run of runs) {
+      if (!run.numericParameters.includes(parameter)) continue;
+      const value = parseFloat(run.parameters[parameter]);
+      if (!isFinite(value)) continue;
+
+      const point: SensitivityPoint = {
+        runId: run.id,
+        runName: run.name,
+        value,
+        netPnl: run.netPnl,
+        profitFactor: run.profitFactor,
+        maxDrawdown: run.maxDrawdown,
+        controlled: false
+      };
+      points.push(point);
+
+      const signature = signatureWithout(run, parameter);
+      groups.set(signature, [...(groups.get(signature) || []), point]);
+    }
+
+    const distinctValues = new Set(points.map(point => point.value)).size;
+    if (distinctValues < 2) continue;
+
+    const controlledGroups = Array.from(groups.values())
+      .filter(group => new Set(group.map(point => point.value)).size > 1);
+    controlledGroups.forEach(group => group.forEach(point => { point.controlled = true; }));
+
+    // Hold the other parameters constant where the runs allow it, otherwise compare every run
+    const controlled = controlledGroups.length > 0;
+    const metrics = Object.fromEntries(
+      SENSITIVITY_METRICS.map(metric => [metric, pooledCorrelation(controlled ? controlledGroups : [points], metric)])
+    ) as Record<SensitivityMetric, MetricCorrelation | null>;
+
+    const measured = SENSITIVITY_METRICS.map(metric => metrics[metric]).filter(metric => metric !== null);
+    results.push({
+      parameter,
+      distinctValues,
+      points: points.sort((a, b) => a.value - b.value),
+      controlledGroups: controlledGroups.length,
+      controlled,
+      metrics,
+      score: measured.length > 0 ? measured.reduce((sum, metric) => sum + metric.rSquared, 0) / measured.length : 0
+    });
+  }
+
+  // Controlled comparisons first among equal scores, they are less likely to be confounded
+  return results.sort((a, b) => b.score - a.score || Number(b.controlled) - Number(a.controlled));
+}
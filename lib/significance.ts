@@ -0,0 +1,241 @@
+import { mulberry32 } from '@/lib/monte-carlo';
+import { mean, median } from '@/lib/statistics';
+
+// Below this many overlapping days the tests are reported with a warning, below MIN_TEST_SAMPLE not at all
+export const RECOMMENDED_SAMPLE_SIZE = 30;
+const MIN_TEST_SAMPLE = 3;
+
+export const DEFAULT_SIGNIFICANCE_LEVEL = 0.05;
+export const DEFAULT_BOOTSTRAP_ITERATIONS = 10000;
+
+export interface PairedDay {
+  date: string;
+  // Daily PNL of the baseline and the candidate run
+  a: number;
+  b: number;
+}
+
+export interface TestResult {
+  statistic: number;
+  pValue: number;
+  effectSize: number;
+  significant: boolean;
+}
+
+export interface SignificanceResult {
+  sampleSize: number;
+  // Candidate minus baseline
+  meanDifference: number;
+  medianDifference: number;
+  significanceLevel: number;
+  recommendedSampleSize: number;
+  lowSample: boolean;
+  // Null when there are too few overlapping days, or no variation, to run the test
+  pairedT: (TestResult & { degreesOfFreedom: number }) | null;
+  wilcoxon: (TestResult & { nonZeroPairs: number }) | null;
+  bootstrap: (TestResult & { lower: number; upper: number; iterations: number; seed: number }) | null;
+  // All three tests agree the mean difference is not zero
+  significant: boolean;
+}
+
+function sampleStdDev(values: number[]): number {
+  const average = mean(values)!;
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (values.length - 1));
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+// Continued fraction for the regularized incomplete beta function (Numerical Recipes betacf)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-12) break;
+  }
+  return h;
+}
+
+function regularizedIncompleteBeta(a: number, b: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+}
+
+// Two-sided p-value of Student's t
+function studentTPValue(t: number, degreesOfFreedom: number): number {
+  return regularizedIncompleteBeta(degreesOfFreedom / 2, 0.5, degreesOfFreedom / (degreesOfFreedom + t * t));
+}
+
+// Two-sided p-value of a standard normal z (Abramowitz and Stegun 7.1.26 for erf)
+function normalPValue(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return Math.max(0, Math.min(1, 1 - erf));
+}
+
+// Effect size: Cohen's d_z, the mean difference in standard deviations of the differences
+function pairedTTest(differences: number[], alpha: number): SignificanceResult['pairedT'] {
+  const n = differences.length;
+  const sd = sampleStdDev(differences);
+  if (!(sd > 0)) return null;
+  const average = mean(differences)!;
+  const statistic = average / (sd / Math.sqrt(n));
+  const pValue = studentTPValue(statistic, n - 1);
+  return { statistic, degreesOfFreedom: n - 1, pValue, effectSize: average / sd, significant: pValue < alpha };
+}
+
+// Normal approximation with tie and continuity correction. Effect size: matched-pairs rank-biserial correlation
+function wilcoxonSignedRank(differences: number[], alpha: number): SignificanceResult['wilcoxon'] {
+  const nonZero = differences.filter(difference => difference !== 0);
+  const n = nonZero.length;
+  if (n === 0) return null;
+
+  const sorted = nonZero
+    .map(difference => ({ difference, magnitude: Math.abs(difference) }))
+    .sort((a, b) => a.magnitude - b.magnitude);
+
+  let positiveRankSum = 0;
+  let tieCorrection = 0;
+  for (let start = 0; start < n;) {
+    let end = start;
+    while (end + 1 < n && sorted[end + 1].magnitude === sorted[start].magnitude) end++;
+    const rank = (start + end + 2) / 2;
+    const ties = end - start + 1;
+    tieCorrection += ties * ties * ties - ties;
+    for (let index = start; index <= end; index++) {
+      if (sorted[index].difference > 0) positiveRankSum += rank;
+    }
+    start = end + 1;
+  }
+
+  const totalRankSum = n * (n + 1) / 2;
+  const expected = totalRankSum / 2;
+  const variance = n * (n + 1) * (2 * n + 1) / 24 - tieCorrection / 48;
+  if (!(variance > 0)) return null;
+
+  const deviation = positiveRankSum - expected;
+  const z = (deviation - Math.sign(deviation) * 0.5) / Math.sqrt(variance);
+  const pValue = normalPValue(z);
+  return {
+    statistic: positiveRankSum,
+    nonZeroPairs: n,
+    pValue,
+    effectSize: (2 * positiveRankSum - totalRankSum) / totalRankSum,
+    significant: pValue < alpha
+  };
+}
+
+/**
+ * Percentile bootstrap confidence interval on the mean difference. The p-value is the share of resampled
+ * means on the far side of zero, doubled. Effect size is the resampled median of Cohen's d_z.
+ */
+function bootstrapMeanDifference(differences: number[], alpha: number, iterations: number, seed: number): SignificanceResult['bootstrap'] {
+  const n = differences.length;
+  const random = mulberry32(seed);
+  const means = new Float64Array(iterations);
+  const effects = new Float64Array(iterations);
+
+  for (let i = 0; i < iterations; i++) {
+    let sum = 0;
+    let sumOfSquares = 0;
+    for (let j = 0; j < n; j++) {
+      const value = differences[Math.floor(random() * n)];
+      sum += value;
+      sumOfSquares += value * value;
+    }
+    const average = sum / n;
+    const sd = Math.sqrt(Math.max(0, (sumOfSquares - n * average * average) / (n - 1)));
+    means[i] = average;
+    effects[i] = sd > 0 ? average / sd : 0;
+  }
+
+  means.sort();
+  effects.sort();
+  const at = (sorted: Float64Array, fraction: number) => sorted[Math.min(iterations - 1, Math.max(0, Math.round(fraction * (iterations - 1))))];
+  const lower = at(means, alpha / 2);
+  const upper = at(means, 1 - alpha / 2);
+  const belowZero = means.filter(value => value <= 0).length / iterations;
+  const aboveZero = means.filter(value => value >= 0).length / iterations;
+  const pValue = Math.min(1, 2 * Math.min(belowZero, aboveZero));
+
+  return {
+    statistic: mean(differences)!,
+    lower,
+    upper,
+    iterations,
+    seed,
+    pValue,
+    effectSize: at(effects, 0.5),
+    significant: lower > 0 || upper < 0
+  };
+}
+
+/**
+ * Paired tests on the daily PNL difference (b - a) over days both runs traded: a t-test on the mean,
+ * a Wilcoxon signed-rank test that ignores the size of outliers, and a seeded bootstrap interval.
+ */
+export function testPairedDifference(
+  days: PairedDay[],
+  options: { significanceLevel?: number; iterations?: number; seed?: number } = {}
+): SignificanceResult {
+  const alpha = options.significanceLevel ?? DEFAULT_SIGNIFICANCE_LEVEL;
+  const differences = days.map(day => day.b - day.a);
+  const n = differences.length;
+  const enough = n >= MIN_TEST_SAMPLE;
+
+  const pairedT = enough ? pairedTTest(differences, alpha) : null;
+  const wilcoxon = enough ? wilcoxonSignedRank(differences, alpha) : null;
+  const bootstrap = enough
+    ? bootstrapMeanDifference(differences, alpha, options.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS, options.seed ?? 1)
+    : null;
+
+  return {
+    sampleSize: n,
+    meanDifference: mean(differences) ?? 0,
+    medianDifference: median(differences) ?? 0,
+    significanceLevel: alpha,
+    recommendedSampleSize: RECOMMENDED_SAMPLE_SIZE,
+    lowSample: n < RECOMMENDED_SAMPLE_SIZE,
+    pairedT,
+    wilcoxon,
+    bootstrap,
+    significant: !!(pairedT?.significant && wilcoxon?.significant && bootstrap?.significant)
+  };
+}
@@ -0,0 +1,230 @@
+import type { SqlExecutor } from '@/lib/migrations/types';
+import { estimatePointValue } from '@/lib/excursions';
+import { NearMissLeg, openLegs } from '@/lib/near-miss';
+
+// Links each trade's SL adjustments (strategy_events) to how the trade ended and prices them against the original stop
+
+export type AdjustedTradeOutcome = 'adjusted-stop' | 'original-stop' | 'target' | 'other';
+
+export interface SlAdjustmentEvent {
+  date: string;
+  time: string;
+  tradeId: string;
+  // "X1 (19)" and "L1 (-7.5)" as logged
+  trigger: string;
+  adjustment: string;
+}
+
+export interface AdjustedTradeLeg extends NearMissLeg {
+  exitReason: string;
+}
+
+export interface AdjustedTrade {
+  date: string;
+  tradeId: string;
+  direction: string;
+  pnl: number;
+  exitReason: string;
+  legs: AdjustedTradeLeg[];
+}
+
+export interface AdjustedTradeResult {
+  date: string;
+  tradeId: string;
+  direction: string;
+  // Of the last adjustment, "X2" when the trade moved its stop twice
+  trigger: string;
+  adjustments: number;
+  // Points from entry the stop was last moved to, null when it could not be read
+  adjustedStop: number | null;
+  outcome: AdjustedTradeOutcome;
+  pnl: number;
+  // Stopped legs priced against the original stop, positive when the adjustment saved money
+  savedPnl: number | null;
+}
+
+export interface SlAdjustmentGroup {
+  trigger: string;
+  trades: number;
+  adjustedStop: number;
+  originalStop: number;
+  target: number;
+  other: number;
+  netPnl: number;
+  savedPnl: number | null;
+}
+
+export interface SlAdjustmentReport {
+  originalStopLoss: number | null;
+  pointValue: number | null;
+  // Adjustments whose trade could not be found in the run's trades
+  unmatchedAdjustments: number;
+  trades: AdjustedTradeResult[];
+  overall: SlAdjustmentGroup;
+  byTrigger: SlAdjustmentGroup[];
+}
+
+// "L1 (-7.5)" into -7.5
+function levelOf(text: string): number | null {
+  const match = text.match(/\(([+-]?\d+(?:\.\d+)?)\)/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+function triggerName(text: string): string {
+  return text.split(' ')[0] || text;
+}
+
+/**
+ * A trade counts as stopped at its adjusted level when it ended on a stop above the original `Full Stop Loss`.
+ * The saving assumes the legs stopped after the first adjustment would otherwise have run to the original stop,
+ * the one thing the log cannot show is a trade that would have recovered instead.
+ */
+export function analyseSlAdjustments(
+  events: SlAdjustmentEvent[],
+  trades: AdjustedTrade[],
+  options: { stopLoss: number | null; pointValue: number | null }
+): Omit<SlAdjustmentReport, 'originalStopLoss' | 'pointValue'> {
+  const tradesByKey = new Map(trades.map(trade => [`${trade.date}|${trade.tradeId}`, trade]));
+  const eventsByTrade = new Map<string, SlAdjustmentEvent[]>();
+  let unmatchedAdjustments = 0;
+  for (const event of events) {
+    const key = `${event.date}|${event.tradeId}`;
+    if (!tradesByKey.has(key)) {
+      unmatchedAdjustments++;
+      continue;
+    }
+    if (!eventsByTrade.has(key)) eventsByTrade.set(key, []);
+    eventsByTrade.get(key)!.push(event);
+  }
+
+  const results: AdjustedTradeResult[] = [];
+  for (const [key, adjustments] of eventsByTrade) {
+    const trade = tradesByKey.get(key)!;
+    const first = adjustments[0];
+    const last = adjustments[adjustments.length - 1];
+    const stopLegs = trade.legs.filter(leg => leg.exitReason === 'sl');
+    const finalStop = stopLegs[stopLegs.length - 1];
+
+    let outcome: AdjustedTradeOutcome = 'other';
+    if (trade.exitReason === 'tp') outcome = 'target';
+    if (trade.exitReason === 'sl') {
+      outcome = options.stopLoss === null || (finalStop?.points ?? -Infinity) > -options.stopLoss ? 'adjusted-stop' : 'original-stop';
+    }
+
+    let savedPnl: number | null = 0;
+    if (outcome === 'adjusted-stop') {
+      const stopped = openLegs(first.date, first.time, stopLegs);
+      savedPnl = stopped && options.stopLoss !== null && options.pointValue !== null
+        ? (stopped.points + options.stopLoss) * stopped.quantity * options.pointValue
+        : null;
+    }
+
+    results.push({
+      date: trade.date,
+      tradeId: trade.tradeId,
+      direction: trade.direction,
+      trigger: triggerName(last.trigger),
+      adjustments: adjustments.length,
+      adjustedStop: levelOf(last.adjustment),
+      outcome,
+      pnl: trade.pnl,
+      savedPnl
+    });
+  }
+
+  const group = (trigger: string, members: AdjustedTradeResult[]): SlAdjustmentGroup => ({
+    trigger,
+    trades: members.length,
+    adjustedStop: members.filter(trade => trade.outcome === 'adjusted-stop').length,
+    originalStop: members.filter(trade => trade.outcome === 'original-stop').length,
+    target: members.filter(trade => trade.outcome === 'target').length,
+    other: members.filter(trade => trade.outcome === 'other').length,
+    netPnl: members.reduce((sum, trade) => sum + trade.pnl, 0),
+    // Unknown as soon as one stopped trade could not be priced
+    savedPnl: members.some(trade => trade.savedPnl === null) ? null : members.reduce((sum, trade) => sum + trade.savedPnl!, 0)
+  });
+  const triggers = Array.from(new Set(results.map(trade => trade.trigger))).sort();
+
+  return {
+    unmatchedAdjustments,
+    trades: results,
+    overall: group('All', results),
+    byTrigger: triggers.map(trigger => group(trigger, results.filter(trade => trade.trigger === trigger)))
+  };
+}
+
+export async function getSlAdjustmentReport(executor: SqlExecutor, runId: number): Promise<SlAdjustmentReport> {
+  const [eventsResult, tradesResult, legsResult, stopLossResult] = await Promise.all([
+    executor.execute({
+      sql: `
+        SELECT date, time, trade_id,
+          json_extract(payload, '$.trigger') AS trigger,
+          json_extract(payload, '$.adjustment') AS adjustment
+        FROM strategy_events
+        WHERE run_id = ? AND event_type = 'sl_adjustment'
+        ORDER BY date, id
+      `,
+      args: [runId]
+    }),
+    executor.execute({
+      sql: 'SELECT id, trade_id, date, direction, realized_pnl, exit_reason FROM trades WHERE run_id = ? ORDER BY date, id',
+      args: [runId]
+    }),
+    executor.execute({
+      sql: `
+        SELECT l.trade_id, l.exit_date, l.exit_time, l.quantity, l.points, l.realized_pnl, l.exit_reason
+        FROM trade_legs l
+        JOIN trades t ON t.id = l.trade_id
+        WHERE t.run_id = ?
+        ORDER BY l.trade_id, l.leg_index
+      `,
+      args: [runId]
+    }),
+    executor.execute({
+      sql: "SELECT parameter_value FROM strategy_parameters WHERE run_id = ? AND parameter_name = 'Full Stop Loss'",
+      args: [runId]
+    })
+  ]);
+
+  const legs = legsResult.rows as any[];
+  const legsByTrade = new Map<number, AdjustedTradeLeg[]>();
+  for (const leg of legs) {
+    const tradeId = Number(leg.trade_id);
+    if (!legsByTrade.has(tradeId)) legsByTrade.set(tradeId, []);
+    legsByTrade.get(tradeId)!.push({
+      exitDate: leg.exit_date,
+      exitTime: leg.exit_time,
+      quantity: leg.quantity === null ? null : Number(leg.quantity),
+      points: leg.points === null ? null : Number(leg.points),
+      exitReason: leg.exit_reason
+    });
+  }
+  const trades: AdjustedTrade[] = (tradesResult.rows as any[]).map(row => ({
+    date: row.date,
+    tradeId: row.trade_id,
+    direction: row.direction,
+    pnl: Number(row.realized_pnl),
+    exitReason: row.exit_reason,
+    legs: legsByTrade.get(Number(row.id)) || []
+  }));
+  const parsedStopLoss = stopLossResult.rows.length > 0 ? parseFloat(String(stopLossResult.rows[0].parameter_value)) : NaN;
+  const stopLoss = isNaN(parsedStopLoss) ? null : parsedStopLoss;
+  const pointValue = estimatePointValue(legs.map(leg => ({
+    points: leg.points === null ? null : Number(leg.points),
+    quantity: leg.quantity === null ? null : Number(leg.quantity),
+    pnl: Number(leg.realized_pnl)
+  })));
+  const events = (eventsResult.rows as any[]).map(row => ({
+    date: row.date,
+    time: row.time,
+    tradeId: row.trade_id,
+    trigger: row.trigger ?? '',
+    adjustment: row.adjustment ?? ''
+  }));
+
+  return {
+    originalStopLoss: stopLoss,
+    pointValue,
+    ...analyseSlAdjustments(events, trades, { stopLoss, pointValue })
+  };
+}
@@ -0,0 +1,157 @@
+import type { SqlExecutor } from '@/lib/migrations/types';
+
+// Stability of a run over time: rolling windows and in-sample / out-of-sample segments
+
+export const DEFAULT_ROLLING_WINDOWS = [20, 60];
+
+export interface WalkForwardDay {
+  date: string;
+  pnl: number;
+}
+
+export interface WalkForwardTrade {
+  date: string;
+  pnl: number;
+}
+
+export interface DateSplit {
+  id: number;
+  name: string;
+  inSampleStart: string;
+  inSampleEnd: string;
+  outOfSampleStart: string;
+  outOfSampleEnd: string;
+}
+
+export interface RollingPoint {
+  // Last day of the window
+  date: string;
+  pnl: number;
+  // Over the trades taken in the window, null when there were none
+  winRate: number | null;
+  profitFactor: number | null;
+  trades: number;
+}
+
+export interface SegmentMetrics {
+  start: string;
+  end: string;
+  days: number;
+  trades: number;
+  netPnl: number;
+  averageDailyPnl: number | null;
+  winRate: number | null;
+  profitFactor: number | null;
+  // Share of days with a positive PNL
+  winningDays: number | null;
+  maxDrawdown: number;
+}
+
+export interface SplitResult {
+  split: DateSplit;
+  inSample: SegmentMetrics;
+  outOfSample: SegmentMetrics;
+  /**
+   * Out-of-sample average daily PNL as a fraction of the in-sample one. 1 means no degradation,
+   * below 1 the edge shrank out of sample. Null when the in-sample average is not positive.
+   */
+  degradationRatio: number | null;
+}
+
+interface TradeStats {
+  trades: number;
+  winRate: number | null;
+  profitFactor: number | null;
+}
+
+function tradeStats(trades: WalkForwardTrade[]): TradeStats {
+  if (trades.length === 0) return { trades: 0, winRate: null, profitFactor: null };
+  const grossProfit = trades.filter(trade => trade.pnl > 0).reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLoss = Math.abs(trades.filter(trade => trade.pnl < 0).reduce((sum, trade) => sum + trade.pnl, 0));
+  return {
+    trades: trades.length,
+    winRate: (trades.filter(trade => trade.pnl > 0).length / trades.length) * 100,
+    // Undefined without a losing trade, the parsers' 0 would read as the worst window rather than the best
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null
+  };
+}
+
+export function rollingWindows(days: WalkForwardDay[], trades: WalkForwardTrade[], window: number): RollingPoint[] {
+  const sortedDays = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const sortedTrades = [...trades].sort((a, b) => a.date.localeCompare(b.date));
+  const points: RollingPoint[] = [];
+
+  let pnl = 0;
+  for (let index = 0; index < sortedDays.length; index++) {
+    pnl += sortedDays[index].pnl;
+    if (index >= window) pnl -= sortedDays[index - window].pnl;
+    if (index < window - 1) continue;
+
+    const from = sortedDays[index - window + 1].date;
+    const to = sortedDays[index].date;
+    const stats = tradeStats(sortedTrades.filter(trade => trade.date >= from && trade.date <= to));
+    points.push({ date: to, pnl, ...stats });
+  }
+
+  return points;
+}
+
+function segmentMetrics(days: WalkForwardDay[], trades: WalkForwardTrade[], start: string, end: string): SegmentMetrics {
+  const segmentDays = days.filter(day => day.date >= start && day.date <= end).sort((a, b) => a.date.localeCompare(b.date));
+  const stats = tradeStats(trades.filter(trade => trade.date >= start && trade.date <= end));
+
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const day of segmentDays) {
+    equity += day.pnl;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+  }
+
+  return {
+    start,
+    end,
+    days: segmentDays.length,
+    trades: stats.trades,
+    netPnl: equity,
+    averageDailyPnl: segmentDays.length > 0 ? equity / segmentDays.length : null,
+    winRate: stats.winRate,
+    profitFactor: stats.profitFactor,
+    winningDays: segmentDays.length > 0 ? (segmentDays.filter(day => day.pnl > 0).length / segmentDays.length) * 100 : null,
+    maxDrawdown
+  };
+}
+
+export function analyseSplit(days: WalkForwardDay[], trades: WalkForwardTrade[], split: DateSplit): SplitResult {
+  const inSample = segmentMetrics(days, trades, split.inSampleStart, split.inSampleEnd);
+  const outOfSample = segmentMetrics(days, trades, split.outOfSampleStart, split.outOfSampleEnd);
+  return {
+    split,
+    inSample,
+    outOfSample,
+    degradationRatio: inSample.averageDailyPnl !== null && inSample.averageDailyPnl > 0 && outOfSample.averageDailyPnl !== null
+      ? outOfSample.averageDailyPnl / inSample.averageDailyPnl
+      : null
+  };
+}
+
+export async function getDateSplits(executor: SqlExecutor, strategyId: number): Promise<DateSplit[]> {
+  const result = await executor.execute({
+    sql: `
+      SELECT id, name, in_sample_start, in_sample_end, out_of_sample_start, out_of_sample_end
+      FROM strategy_date_splits
+      WHERE strategy_id = ?
+      ORDER BY out_of_sample_start, id
+    `,
+    args: [strategyId]
+  });
+  return result.rows.map(row => ({
+    id: Number(row.id),
+    name: row.name as string,
+    inSampleStart: row.in_sample_start as string,
+    inSampleEnd: row.in_sample_end as string,
+    outOfSampleStart: row.out_of_sample_start as string,
+    outOfSampleEnd: row.out_of_sample_end as string
+  }));
+}
@@ -0,0 +1,43 @@
+// Show or apply schema migrations against DATABASE_URL (local SQLite file or Turso)
+//   npm run migrate:status
+//   npm run migrate
+import { db } from '../lib/database';
+import { getMigrationStatus, runMigrations } from '../lib/migrations';
+
+async function printStatus() {
+  const status = await getMigrationStatus(db);
+
+  console.log(`Database: ${process.env.DATABASE_URL || 'file:./strategy_analyser.db'}`);
+  for (const entry of status.applied) {
+    console.log(`  applied  ${entry.id}  ${entry.appliedAt}`);
+  }
+  for (const entry of status.pending) {
+    console.log(`  pending  ${entry.id}  ${entry.description}`);
+  }
+  for (const id of status.unknown) {
+    console.log(`  unknown  ${id}  (recorded in the database, not in this build)`);
+  }
+  console.log(`${status.applied.length} applied, ${status.pending.length} pending`);
+}
+
+async function main() {
+  const command = process.argv[2] || 'status';
+
+  if (command === 'status') {
+    await printStatus();
+  } else if (command === 'up') {
+    const applied = await runMigrations(db);
+    console.log(applied.length > 0 ? `Applied: ${applied.join(', ')}` : 'Database is up to date');
+    await printStatus();
+  } else {
+    console.error(`Unknown command "${command}". Use "status" or "up".`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.close());